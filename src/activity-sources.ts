@@ -0,0 +1,195 @@
+/**
+ * Activity signal sources for hang detection.
+ * Each source answers one question per poll — "did I see work since last time?" —
+ * and `meetsQuorum` combines the answers. A long network wait or a tool blocked on a
+ * subprocess shows up here (socket I/O, child CPU) even when logs and Claude's own CPU are quiet.
+ *
+ * Delta sources (transcript growth, network/disk I/O) need a previous sample, so they only
+ * fire from the second poll of a long-lived instance (the watch daemon).
+ */
+
+import { readFile } from 'fs/promises';
+import { ACTIVITY_CONFIG } from './defaults.js';
+import type { FileWithStats } from './fs-utils.js';
+import type { ActivityConfig, ActivitySourceName, Thresholds } from './types.js';
+import type { ClaudeProcess } from './process-monitor.js';
+
+/** Everything a source may look at for one poll. */
+export interface ActivityContext {
+  processes: ClaudeProcess[];
+  /** Files under ~/.claude/projects with sizes and mtimes (one traversal, shared by all sources). */
+  files: FileWithStats[];
+  /** Seconds since the newest file was modified (-1 if none). */
+  logLastModifiedSecondsAgo: number;
+  /** Log quiet longer than this counts as "no log activity". */
+  hangThresholdSeconds: number;
+  thresholds: Thresholds;
+}
+
+/** A pluggable activity signal. Implementations may keep state between samples. */
+export interface ActivitySignalSource {
+  /** Reported in ActivitySignals.sources when the source fires. */
+  readonly name: string;
+  /** True if this source saw activity since its previous sample. */
+  sample(ctx: ActivityContext): Promise<boolean>;
+}
+
+/** Parsed /proc/<pid>/io counters. */
+export interface ProcIo {
+  /** Bytes passed to read() — includes sockets, pipes and page-cache hits. */
+  rchar: number;
+  /** Bytes passed to write(). */
+  wchar: number;
+  /** Bytes actually fetched from storage. */
+  readBytes: number;
+  /** Bytes actually sent to storage. */
+  writeBytes: number;
+}
+
+/** Parse /proc/<pid>/io ("key: value" lines). Returns null if required fields are missing. */
+export function parseProcIo(content: string): ProcIo | null {
+  const fields = new Map<string, number>();
+  for (const line of content.split('\n')) {
+    const [key, value] = line.split(':');
+    if (key && value !== undefined) {
+      fields.set(key.trim(), Number(value.trim()));
+    }
+  }
+  const rchar = fields.get('rchar');
+  const wchar = fields.get('wchar');
+  const readBytes = fields.get('read_bytes');
+  const writeBytes = fields.get('write_bytes');
+  if ([rchar, wchar, readBytes, writeBytes].some(v => v === undefined || isNaN(v))) {
+    return null;
+  }
+  return { rchar: rchar!, wchar: wchar!, readBytes: readBytes!, writeBytes: writeBytes! };
+}
+
+/** Any Claude log/transcript touched within the hang threshold. */
+export class LogMtimeSource implements ActivitySignalSource {
+  readonly name = 'log-mtime';
+
+  async sample(ctx: ActivityContext): Promise<boolean> {
+    return ctx.logLastModifiedSecondsAgo >= 0 && ctx.logLastModifiedSecondsAgo <= ctx.hangThresholdSeconds;
+  }
+}
+
+/** A Claude process itself is above the low-CPU threshold. */
+export class CpuSource implements ActivitySignalSource {
+  readonly name = 'cpu';
+
+  async sample(ctx: ActivityContext): Promise<boolean> {
+    return ctx.processes.some(p => p.cpuPercent > ctx.thresholds.cpuLowThreshold);
+  }
+}
+
+/** Descendants of a Claude process (test runners, builds, servers) are above the low-CPU threshold. */
+export class ChildCpuSource implements ActivitySignalSource {
+  readonly name = 'child-cpu';
+
+  async sample(ctx: ActivityContext): Promise<boolean> {
+    return ctx.processes.some(p =>
+      p.tree != null && p.tree.treeCpuPercent - p.cpuPercent > ctx.thresholds.cpuLowThreshold);
+  }
+}
+
+/** Bytes appended to any session transcript (*.jsonl) since the previous sample. */
+export class TranscriptGrowthSource implements ActivitySignalSource {
+  readonly name = 'transcript-growth';
+  private previous: Map<string, number> | null = null;
+
+  constructor(private minBytes: number = ACTIVITY_CONFIG.minTranscriptGrowthBytes) {}
+
+  async sample(ctx: ActivityContext): Promise<boolean> {
+    const current = new Map<string, number>();
+    for (const f of ctx.files) {
+      if (f.path.endsWith('.jsonl')) current.set(f.path, f.size);
+    }
+
+    const previous = this.previous;
+    this.previous = current;
+    if (!previous) return false;
+
+    for (const [path, size] of current) {
+      const before = previous.get(path);
+      // New transcripts count from zero; truncated ones (trimmed by preflight) don't count
+      if (size - (before ?? 0) >= this.minBytes) return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * I/O across each Claude process tree from /proc/<pid>/io (Linux only).
+ * `network` = read/write syscall bytes not backed by storage (sockets, pipes);
+ * `disk` = bytes that reached storage.
+ */
+export class ProcIoSource implements ActivitySignalSource {
+  readonly name: 'network-io' | 'disk-io';
+  private previous = new Map<number, ProcIo>();
+
+  constructor(private kind: 'network' | 'disk', private minBytes: number) {
+    this.name = kind === 'network' ? 'network-io' : 'disk-io';
+  }
+
+  async sample(ctx: ActivityContext): Promise<boolean> {
+    if (process.platform !== 'linux') return false;
+
+    const pids = ctx.processes.flatMap(p => [p.pid, ...(p.tree?.descendantPids ?? [])]);
+    const current = new Map<number, ProcIo>();
+    await Promise.all(pids.map(async (pid) => {
+      try {
+        const io = parseProcIo(await readFile(`/proc/${pid}/io`, 'utf-8'));
+        if (io) current.set(pid, io);
+      } catch { /* exited, or not ours to read */ }
+    }));
+
+    let delta = 0;
+    for (const [pid, now] of current) {
+      const before = this.previous.get(pid);
+      if (!before) continue; // no baseline for new PIDs
+      delta += Math.max(0, this.bytes(now) - this.bytes(before));
+    }
+    this.previous = current;
+    return delta >= this.minBytes;
+  }
+
+  private bytes(io: ProcIo): number {
+    return this.kind === 'network'
+      ? Math.max(0, io.rchar - io.readBytes) + Math.max(0, io.wchar - io.writeBytes)
+      : io.readBytes + io.writeBytes;
+  }
+}
+
+/** Instantiate the built-in sources enabled in `config`, in config order. */
+export function createActivitySources(config: ActivityConfig = ACTIVITY_CONFIG): ActivitySignalSource[] {
+  const factories: Record<ActivitySourceName, () => ActivitySignalSource> = {
+    'log-mtime': () => new LogMtimeSource(),
+    'cpu': () => new CpuSource(),
+    'child-cpu': () => new ChildCpuSource(),
+    'transcript-growth': () => new TranscriptGrowthSource(config.minTranscriptGrowthBytes),
+    'network-io': () => new ProcIoSource('network', config.minNetworkBytes),
+    'disk-io': () => new ProcIoSource('disk', config.minDiskBytes),
+  };
+  return [...new Set(config.sources)].map(name => factories[name]());
+}
+
+/** Sample every source; a source that throws simply doesn't fire. Returns the names that fired. */
+export async function sampleActivitySources(
+  sources: ActivitySignalSource[],
+  ctx: ActivityContext,
+): Promise<string[]> {
+  const fired: string[] = [];
+  for (const source of sources) {
+    try {
+      if (await source.sample(ctx)) fired.push(source.name);
+    } catch { /* best-effort */ }
+  }
+  return fired;
+}
+
+/** Quorum rule: any decisive source, or at least `quorum` sources firing, means active. */
+export function meetsQuorum(fired: string[], config: ActivityConfig = ACTIVITY_CONFIG): boolean {
+  if (fired.some(name => (config.decisive as string[]).includes(name))) return true;
+  return fired.length >= config.quorum;
+}
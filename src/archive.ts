@@ -0,0 +1,483 @@
+/**
+ * Project archives — old sessions of oversized project dirs packed into dated .tar.gz
+ * files in ~/.claude-guardian/archive/, with index.json recording what each holds.
+ *
+ * Preflight fixes call `archiveSessions` for projects still over maxProjectLogDirMB;
+ * `archive extract` unpacks one back into ~/.claude/projects (or elsewhere) and
+ * `archive prune` keeps the total under archive.maxTotalMB. Fix plans list the sessions
+ * they may archive and the archives they prune, so a reviewed plan does only that.
+ * Entries are stored as `<project dir>/<session file or dir>/...`.
+ */
+
+import { readFile, writeFile, mkdir, rename, rm, stat, open, utimes } from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import { createGunzip } from 'zlib';
+import { join, dirname, basename, normalize, isAbsolute, sep } from 'path';
+import archiver from 'archiver';
+import type { ArchiveConfig } from './types.js';
+import { ARCHIVE_CONFIG, getArchivePath, getArchiveIndexPath, getClaudeProjectsPath } from './defaults.js';
+import { dirSize, bytesToMB, pathExists, writeJournalEntry, timestampId } from './fs-utils.js';
+import { withFileLock } from './file-lock.js';
+import { GuardianError } from './errors.js';
+
+/** A session file or dir packed into an archive. */
+export interface ArchivedSession {
+  name: string;
+  kind: 'file' | 'dir';
+  sizeBytes: number;
+  mtimeMs: number;
+}
+
+/** One archive in index.json. */
+export interface ArchiveEntry {
+  id: string;
+  /** File name inside the archive dir. */
+  file: string;
+  /** Encoded project dir name (e.g. -home-user-app). */
+  project: string;
+  createdAt: string;
+  sessions: ArchivedSession[];
+  /** Size of the sessions before packing, and of the .tar.gz. */
+  originalBytes: number;
+  archiveBytes: number;
+}
+
+/** What a prune removed. */
+export interface ArchivePruneResult {
+  pruned: ArchiveEntry[];
+  freedBytes: number;
+  remaining: number;
+  remainingBytes: number;
+}
+
+/** Where `extractArchive` wrote files. */
+export interface ArchiveExtractResult {
+  entry: ArchiveEntry;
+  destination: string;
+  files: number;
+  bytes: number;
+}
+
+const BLOCK = 512;
+
+// ─── index ───
+
+/** Every archive in the index, oldest first. A missing or corrupt index reads as empty. */
+export async function readArchiveIndex(): Promise<ArchiveEntry[]> {
+  try {
+    const raw = JSON.parse(await readFile(getArchiveIndexPath(), 'utf-8'));
+    return Array.isArray(raw) ? raw as ArchiveEntry[] : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Read-modify-write the index under a lock (write to .tmp, then rename). */
+async function updateArchiveIndex(fn: (entries: ArchiveEntry[]) => ArchiveEntry[]): Promise<ArchiveEntry[]> {
+  const indexPath = getArchiveIndexPath();
+  await mkdir(dirname(indexPath), { recursive: true });
+  return withFileLock(indexPath + '.lock', async () => {
+    const entries = fn(await readArchiveIndex());
+    const tmpPath = indexPath + '.tmp';
+    await writeFile(tmpPath, JSON.stringify(entries, null, 2) + '\n', 'utf-8');
+    await rename(tmpPath, indexPath);
+    return entries;
+  });
+}
+
+/** Exact ID match, or every archive whose ID starts with the prefix. */
+export function findArchives(entries: ArchiveEntry[], idOrPrefix: string): ArchiveEntry[] {
+  const exact = entries.filter(e => e.id === idOrPrefix);
+  if (exact.length > 0) return exact;
+  return entries.filter(e => e.id.startsWith(idOrPrefix));
+}
+
+function findOneArchive(entries: ArchiveEntry[], idOrPrefix: string): ArchiveEntry {
+  const matches = findArchives(entries, idOrPrefix);
+  if (matches.length !== 1) {
+    throw new GuardianError(
+      'ARCHIVE_UNKNOWN',
+      matches.length === 0
+        ? `Archive ${idOrPrefix} not found`
+        : `Archive ID prefix ${idOrPrefix} is ambiguous (${matches.length} matches)`,
+      matches.length === 0 ? 'Run `claude-guardian archive list` to see the archives.' : 'Use more characters of the ID.',
+    );
+  }
+  return matches[0];
+}
+
+// ─── create ───
+
+/**
+ * Pack session files/dirs of one project into a new .tar.gz, add it to the index, then
+ * remove the originals and journal the archival. If packing fails nothing is removed
+ * (ARCHIVE_FAILED).
+ */
+export async function archiveSessions(projectDir: string, paths: string[], now: Date = new Date()): Promise<ArchiveEntry> {
+  const project = basename(projectDir);
+  const id = timestampId(now);
+  const file = `${id}_${project}.tar.gz`;
+  const archivePath = join(getArchivePath(), file);
+
+  const sessions: ArchivedSession[] = [];
+  for (const path of paths) {
+    const s = await stat(path);
+    sessions.push({
+      name: basename(path),
+      kind: s.isDirectory() ? 'dir' : 'file',
+      sizeBytes: s.isDirectory() ? await dirSize(path) : s.size,
+      mtimeMs: s.mtimeMs,
+    });
+  }
+
+  try {
+    await mkdir(getArchivePath(), { recursive: true });
+    await writeTarGz(archivePath, project, projectDir, sessions);
+  } catch (err) {
+    await rm(archivePath, { force: true });
+    throw new GuardianError(
+      'ARCHIVE_FAILED',
+      `Could not archive ${sessions.length} session(s) of ${project}`,
+      'Nothing was removed. Check free space and permissions on ~/.claude-guardian/archive/.',
+      err instanceof Error ? err : undefined,
+    );
+  }
+
+  const entry: ArchiveEntry = {
+    id,
+    file,
+    project,
+    createdAt: now.toISOString(),
+    sessions,
+    originalBytes: sessions.reduce((sum, s) => sum + s.sizeBytes, 0),
+    archiveBytes: (await stat(archivePath)).size,
+  };
+  await updateArchiveIndex(entries => [...entries, entry]);
+
+  for (const path of paths) {
+    await rm(path, { recursive: true, force: true });
+  }
+  await writeJournalEntry({
+    timestamp: new Date().toISOString(),
+    action: 'archived',
+    target: projectDir,
+    detail: `Archived ${sessions.length} session item(s) of ${project} (${bytesToMB(entry.originalBytes)}MB → ${bytesToMB(entry.archiveBytes)}MB) as ${id}`,
+    sizeBefore: entry.originalBytes,
+    sizeAfter: entry.archiveBytes,
+  });
+  return entry;
+}
+
+function writeTarGz(archivePath: string, project: string, projectDir: string, sessions: ArchivedSession[]): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const output = createWriteStream(archivePath);
+    const archive = archiver('tar', { gzip: true, gzipOptions: { level: 9 } });
+
+    output.on('close', () => resolve());
+    output.on('error', reject);
+    archive.on('error', reject);
+    archive.pipe(output);
+
+    for (const session of sessions) {
+      const source = join(projectDir, session.name);
+      const name = `${project}/${session.name}`;
+      if (session.kind === 'dir') {
+        archive.directory(source, name);
+      } else {
+        archive.file(source, { name });
+      }
+    }
+    archive.finalize().catch(reject);
+  });
+}
+
+// ─── extract ───
+
+/**
+ * Unpack an archive into `destination` (default ~/.claude/projects, i.e. back where the
+ * sessions came from), optionally only the sessions whose name starts with `session`.
+ * Throws ARCHIVE_EXTRACT_CONFLICT before writing anything if a session already exists there.
+ */
+export async function extractArchive(
+  idOrPrefix: string,
+  options: { destination?: string; session?: string } = {},
+): Promise<ArchiveExtractResult> {
+  const entry = findOneArchive(await readArchiveIndex(), idOrPrefix);
+  const destination = options.destination ?? getClaudeProjectsPath();
+  const wanted = entry.sessions.filter(s => !options.session || s.name.startsWith(options.session));
+  if (wanted.length === 0) {
+    throw new GuardianError(
+      'ARCHIVE_UNKNOWN',
+      `Archive ${entry.id} has no session matching ${options.session}`,
+      'Run `claude-guardian archive list --json` to see the sessions in each archive.',
+    );
+  }
+
+  const conflicts: string[] = [];
+  for (const s of wanted) {
+    const target = join(destination, entry.project, s.name);
+    if (await pathExists(target)) conflicts.push(target);
+  }
+  if (conflicts.length > 0) {
+    throw new GuardianError(
+      'ARCHIVE_EXTRACT_CONFLICT',
+      `Cannot extract ${entry.id}: ${conflicts.length} path(s) already exist (${conflicts.slice(0, 3).join(', ')})`,
+      'Nothing was written. Extract somewhere else with --to <dir>, or move the existing files away.',
+    );
+  }
+
+  const names = new Set(wanted.map(s => s.name));
+  const archivePath = join(getArchivePath(), entry.file);
+  let files = 0;
+  let bytes = 0;
+  try {
+    await readTarGz(archivePath, path => {
+      const parts = path.split('/');
+      if (parts[0] !== entry.project || !names.has(parts[1])) return null;
+      return join(destination, normalize(path));
+    }, n => { files++; bytes += n; });
+  } catch (err) {
+    if (err instanceof GuardianError) throw err;
+    throw new GuardianError(
+      'ARCHIVE_FAILED',
+      `Could not extract ${entry.file}`,
+      'The archive may be truncated or corrupt; files extracted so far were left in place.',
+      err instanceof Error ? err : undefined,
+    );
+  }
+
+  await writeJournalEntry({
+    timestamp: new Date().toISOString(),
+    action: 'archive-extracted',
+    target: join(destination, entry.project),
+    detail: `Extracted ${wanted.length} session item(s) (${files} file(s), ${bytesToMB(bytes)}MB) from archive ${entry.id}`,
+  });
+  return { entry, destination, files, bytes };
+}
+
+/** Parse an octal header field (NUL/space terminated). */
+function octal(header: Buffer, start: number, length: number): number {
+  const text = header.toString('ascii', start, start + length).replace(/[\0 ]+$/, '').trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function headerString(header: Buffer, start: number, length: number): string {
+  const raw = header.subarray(start, start + length);
+  const end = raw.indexOf(0);
+  return raw.toString('utf-8', 0, end === -1 ? length : end);
+}
+
+/** The `path` record of a pax extended header, if any. */
+function paxPath(body: Buffer): string | undefined {
+  for (const record of body.toString('utf-8').split('\n')) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Stream a .tar.gz, writing each file and directory entry where `target` says (null skips it)
+ * and reporting each file's size to `onFile`. Only one chunk is held at a time. Handles ustar
+ * prefixes, pax `path` records and GNU long names; rejects absolute and `..` paths.
+ */
+async function readTarGz(
+  archivePath: string,
+  target: (path: string) => string | null,
+  onFile: (sizeBytes: number) => void,
+): Promise<void> {
+  let pending: Buffer = Buffer.alloc(0);
+  let longName: string | undefined;
+  // Entry being read: bytes of data left, padding after it, and where it goes
+  let remaining = 0;
+  let padding = 0;
+  let collect: Buffer[] | null = null;
+  let collectType = '';
+  let out: Awaited<ReturnType<typeof open>> | null = null;
+  let mtime = 0;
+  let outPath = '';
+  let ended = false;
+
+  const finishEntry = async () => {
+    if (out) {
+      await out.close();
+      await utimes(outPath, mtime, mtime);
+      out = null;
+    }
+    if (collect) {
+      const body = Buffer.concat(collect);
+      longName = collectType === 'L' ? headerString(body, 0, body.length) : paxPath(body) ?? longName;
+      collect = null;
+    }
+  };
+
+  const stream = createReadStream(archivePath).pipe(createGunzip());
+  try {
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+      while (!ended) {
+        if (remaining > 0) {
+          if (pending.length === 0) break;
+          const take = Math.min(remaining, pending.length);
+          const data = pending.subarray(0, take);
+          if (out) {
+            await out.write(data);
+          } else if (collect) {
+            collect.push(Buffer.from(data));
+          }
+          pending = pending.subarray(take);
+          remaining -= take;
+          if (remaining === 0) await finishEntry();
+          continue;
+        }
+        if (padding > 0) {
+          const skip = Math.min(padding, pending.length);
+          pending = pending.subarray(skip);
+          padding -= skip;
+          if (padding > 0) break;
+          continue;
+        }
+        if (pending.length < BLOCK) break;
+
+        const header = pending.subarray(0, BLOCK);
+        pending = pending.subarray(BLOCK);
+        if (header.every(b => b === 0)) {
+          ended = true;
+          break;
+        }
+        const size = octal(header, 124, 12);
+        const type = String.fromCharCode(header[156] || 0x30);
+        const prefix = headerString(header, 345, 155);
+        const name = headerString(header, 0, 100);
+        const path = longName ?? (prefix ? `${prefix}/${name}` : name);
+        remaining = size;
+        padding = (BLOCK - (size % BLOCK)) % BLOCK;
+
+        if (type === 'x' || type === 'L') {
+          collect = [];
+          collectType = type;
+        } else {
+          longName = undefined;
+          const clean = normalize(path);
+          if (isAbsolute(clean) || clean.split(sep).includes('..')) {
+            throw new GuardianError('ARCHIVE_FAILED', `Archive entry ${path} escapes the destination`, 'Do not extract archives guardian did not create.');
+          }
+          const dest = type === '0' || type === '7' || type === '5' ? target(path) : null;
+          if (dest && type === '5') {
+            await mkdir(dest, { recursive: true });
+          } else if (dest) {
+            await mkdir(dirname(dest), { recursive: true });
+            out = await open(dest, 'wx');
+            outPath = dest;
+            mtime = octal(header, 136, 12);
+            onFile(size);
+          }
+        }
+        if (remaining === 0) await finishEntry();
+      }
+      if (ended) break;
+    }
+  } finally {
+    const handle = out as Awaited<ReturnType<typeof open>> | null;
+    if (handle) await handle.close().catch(() => {});
+    stream.destroy();
+  }
+  if (!ended && (remaining > 0 || pending.length > 0)) {
+    throw new Error('unexpected end of archive');
+  }
+}
+
+// ─── prune ───
+
+/** Index entries whose .tar.gz still exists, oldest first. */
+export async function presentArchives(): Promise<ArchiveEntry[]> {
+  const present: ArchiveEntry[] = [];
+  for (const entry of await readArchiveIndex()) {
+    if (await pathExists(join(getArchivePath(), entry.file))) present.push(entry);
+  }
+  return present;
+}
+
+/**
+ * The archives a prune removes: the oldest until the total size is within maxTotalMB
+ * (all of them with `all`). `entries` must be oldest first (as the index is).
+ */
+export function selectArchivesToPrune(
+  entries: ArchiveEntry[],
+  policy: ArchiveConfig = ARCHIVE_CONFIG,
+  options: { all?: boolean } = {},
+): ArchiveEntry[] {
+  const maxBytes = policy.maxTotalMB * 1024 * 1024;
+  let total = entries.reduce((sum, e) => sum + e.archiveBytes, 0);
+  const doomed: ArchiveEntry[] = [];
+  for (const entry of entries) {
+    if (!options.all && total <= maxBytes) break;
+    doomed.push(entry);
+    total -= entry.archiveBytes;
+  }
+  return doomed;
+}
+
+/** Delete archives and their index entries, journaling each. Returns those actually removed. */
+export async function removeArchives(entries: ArchiveEntry[]): Promise<ArchiveEntry[]> {
+  const removed: ArchiveEntry[] = [];
+  for (const entry of entries) {
+    try {
+      await rm(join(getArchivePath(), entry.file), { force: true });
+    } catch {
+      continue;
+    }
+    removed.push(entry);
+    await writeJournalEntry({
+      timestamp: new Date().toISOString(),
+      action: 'archive-pruned',
+      target: join(getArchivePath(), entry.file),
+      detail: `Pruned archive ${entry.id} of ${entry.project} (${bytesToMB(entry.archiveBytes)}MB, ${entry.sessions.length} session item(s))`,
+      sizeBefore: entry.archiveBytes,
+      sizeAfter: 0,
+    });
+  }
+  const ids = new Set(removed.map(e => e.id));
+  if (ids.size > 0) await updateArchiveIndex(index => index.filter(e => !ids.has(e.id)));
+  return removed;
+}
+
+/**
+ * Apply the prune policy now (see selectArchivesToPrune). Index entries whose file is gone
+ * are dropped. Each prune is journaled.
+ */
+export async function pruneArchives(
+  policy: ArchiveConfig = ARCHIVE_CONFIG,
+  options: { all?: boolean } = {},
+): Promise<ArchivePruneResult> {
+  const present = await presentArchives();
+  const pruned = await removeArchives(selectArchivesToPrune(present, policy, options));
+
+  const kept = new Set(present.filter(e => !pruned.includes(e)).map(e => e.id));
+  const remaining = await updateArchiveIndex(entries => entries.filter(e => kept.has(e.id)));
+  return {
+    pruned,
+    freedBytes: pruned.reduce((sum, e) => sum + e.archiveBytes, 0),
+    remaining: remaining.length,
+    remainingBytes: remaining.reduce((sum, e) => sum + e.archiveBytes, 0),
+  };
+}
+
+/** Format the archive index as a human-readable list, newest first. */
+export function formatArchiveList(entries: ArchiveEntry[], policy: ArchiveConfig = ARCHIVE_CONFIG): string {
+  if (entries.length === 0) {
+    return 'No archives.';
+  }
+  const lines: string[] = [];
+  lines.push('=== Claude Guardian Archives ===');
+  lines.push('');
+  for (const entry of [...entries].reverse()) {
+    lines.push(`${entry.id}  ${entry.createdAt.slice(0, 19).replace('T', ' ')}  ${entry.project}`);
+    lines.push(`    ${entry.sessions.length} session item(s), ${bytesToMB(entry.originalBytes)}MB → ${bytesToMB(entry.archiveBytes)}MB  ${entry.file}`);
+  }
+  lines.push('');
+  const total = entries.reduce((sum, e) => sum + e.archiveBytes, 0);
+  lines.push(`${entries.length} archive(s), ${bytesToMB(total)}MB — oldest pruned above ${policy.maxTotalMB}MB`);
+  lines.push('Extract with: claude-guardian archive extract <id>');
+  return lines.join('\n');
+}
@@ -0,0 +1,306 @@
+/**
+ * Budget ledger — an append-only record of every acquire, denial, queue, release,
+ * expiry and cap change, in ~/.claude-guardian/budget-ledger.jsonl.
+ *
+ * Budget queues entries as it changes state; `saveBudget` persists budget.json and then
+ * appends them, so only changes that were actually written are recorded. Callers hold
+ * the budget lock, which also keeps appends from different processes in order.
+ * `budget report` / guardian_budget_report aggregate the ledger over a time window.
+ */
+
+import { appendFile, mkdir, readFile, rename, stat } from 'fs/promises';
+import { getBudgetLedgerPath, getGuardianDataPath } from './defaults.js';
+import { writeBudget } from './budget-store.js';
+import type { BudgetPools } from './budget.js';
+
+/** Rotate the ledger to budget-ledger.1.jsonl once it grows past this. */
+export const LEDGER_MAX_BYTES = 8 * 1024 * 1024;
+
+/** Number of reasons/owners listed by the report. */
+export const TOP_HOLDERS = 10;
+
+export type LedgerEvent = 'acquire' | 'queue' | 'deny' | 'release' | 'expire' | 'cap';
+
+/** One budget event. Pool state fields describe the pool after the event. */
+export interface LedgerEntry {
+  t: string;
+  event: LedgerEvent;
+  pool: string;
+  leaseId: string | null;
+  slots: number;
+  /** Lease/request reason; for `cap`, why the cap is reduced (null once restored). */
+  reason: string | null;
+  ownerPid: number | null;
+  sessionId: string | null;
+  /**
+   * deny: capacity | exceeds-base-cap | timed-out | cancelled | owner-exited;
+   * release: released; expire: ttl | heartbeat | owner-exited.
+   */
+  cause?: string;
+  /** acquire/deny after queueing: seconds spent in the queue (absent if never queued). */
+  waitedSeconds?: number;
+  /** release/expire: seconds the lease was held. */
+  heldSeconds?: number;
+  cap: number;
+  baseCap: number;
+  inUse: number;
+}
+
+export interface BudgetReportOptions {
+  from: number;
+  to: number;
+  /** Only this pool (all pools if omitted). */
+  pool?: string;
+}
+
+/** Slot usage by one reason or owner. */
+export interface HolderUsage {
+  label: string;
+  slotSeconds: number;
+  leases: number;
+}
+
+export interface BudgetReport {
+  from: string;
+  to: string;
+  pool: string | null;
+  /** Acquire requests answered in the window (granted + denied; a queued request counts once). */
+  requests: number;
+  granted: number;
+  denied: number;
+  /** denied / requests (null without requests). */
+  denialRate: number | null;
+  /** Denials by cause. */
+  denials: Record<string, number>;
+  /** Requests that joined the queue. */
+  queued: number;
+  /** Mean time queued requests waited before being granted (null if none were). */
+  meanWaitSeconds: number | null;
+  released: number;
+  /** Leases ended by the daemon, by cause. */
+  expired: Record<string, number>;
+  /** Slots × seconds held within the window. */
+  slotSeconds: number;
+  byReason: HolderUsage[];
+  byOwner: HolderUsage[];
+  /** Most slots held at once (summed over the reported pools). */
+  peakConcurrency: number;
+  peakAt: string | null;
+  /** Time each pool spent below its base cap. */
+  reducedCaps: Array<{ pool: string; seconds: number; fraction: number; lowestCap: number }>;
+}
+
+/** Write budget.json, then append the ledger entries the change produced. */
+export async function saveBudget(pools: BudgetPools): Promise<void> {
+  await writeBudget(pools.getData());
+  await appendLedgerEntries(pools.takeLedgerEntries());
+}
+
+/** Append entries, rotating a full ledger first. Best-effort: a lost entry must not fail a budget change. */
+export async function appendLedgerEntries(entries: LedgerEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const ledgerPath = getBudgetLedgerPath();
+  try {
+    await mkdir(getGuardianDataPath(), { recursive: true });
+    const size = await stat(ledgerPath).then(s => s.size, () => 0);
+    if (size > LEDGER_MAX_BYTES) {
+      await rename(ledgerPath, rotatedPath(ledgerPath));
+    }
+    await appendFile(ledgerPath, entries.map(e => JSON.stringify(e)).join('\n') + '\n', 'utf-8');
+  } catch {
+    // Reporting only — budget.json is already written
+  }
+}
+
+function rotatedPath(ledgerPath: string): string {
+  return ledgerPath.replace(/\.jsonl$/, '.1.jsonl');
+}
+
+/** Read the ledger (rotated generation first), oldest first. Tolerates corrupt lines. */
+export async function readLedger(): Promise<LedgerEntry[]> {
+  const ledgerPath = getBudgetLedgerPath();
+  const entries: LedgerEntry[] = [];
+  for (const path of [rotatedPath(ledgerPath), ledgerPath]) {
+    let content: string;
+    try {
+      content = await readFile(path, 'utf-8');
+    } catch {
+      continue;
+    }
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as LedgerEntry);
+      } catch {
+        // Skip corrupt line — don't lose the rest of the ledger
+      }
+    }
+  }
+  return entries.sort((a, b) => Date.parse(a.t) - Date.parse(b.t));
+}
+
+function ownerLabel(e: LedgerEntry): string {
+  if (e.ownerPid === null) return 'unknown';
+  return e.sessionId ? `PID ${e.ownerPid} (session ${e.sessionId.substring(0, 8)})` : `PID ${e.ownerPid}`;
+}
+
+function countBy(entries: LedgerEntry[], key: (e: LedgerEntry) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const e of entries) counts[key(e)] = (counts[key(e)] ?? 0) + 1;
+  return counts;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Aggregate ledger entries over a window. Entries before the window give the starting state. */
+export function computeBudgetReport(entries: LedgerEntry[], options: BudgetReportOptions): BudgetReport {
+  const { from, to } = options;
+  const all = entries
+    .filter(e => options.pool === undefined || e.pool === options.pool)
+    .map(e => ({ e, at: Date.parse(e.t) }))
+    .filter(x => x.at <= to)
+    .sort((a, b) => a.at - b.at);
+  const inWindow = all.filter(x => x.at >= from).map(x => x.e);
+
+  // Requests: every answered acquire; queueing is counted separately
+  const granted = inWindow.filter(e => e.event === 'acquire');
+  const denied = inWindow.filter(e => e.event === 'deny');
+  const waits = granted.map(e => e.waitedSeconds).filter((w): w is number => w !== undefined);
+
+  // Lease lifetimes, clipped to the window (still-held leases run to the window end)
+  const leases = new Map<string, { start: number; end: number | null; entry: LedgerEntry }>();
+  for (const { e, at } of all) {
+    if (!e.leaseId) continue;
+    if (e.event === 'acquire') {
+      leases.set(e.leaseId, { start: at, end: null, entry: e });
+    } else if (e.event === 'release' || e.event === 'expire') {
+      const lease = leases.get(e.leaseId);
+      if (lease) lease.end = at;
+      else leases.set(e.leaseId, { start: at - (e.heldSeconds ?? 0) * 1000, end: at, entry: e });
+    }
+  }
+  const byReason = new Map<string, HolderUsage>();
+  const byOwner = new Map<string, HolderUsage>();
+  let slotSeconds = 0;
+  for (const { start, end, entry } of leases.values()) {
+    const overlap = Math.min(end ?? to, to) - Math.max(start, from);
+    if (overlap <= 0) continue;
+    const used = (entry.slots * overlap) / 1000;
+    slotSeconds += used;
+    for (const [map, label] of [[byReason, entry.reason ?? '(none)'], [byOwner, ownerLabel(entry)]] as const) {
+      const usage = map.get(label) ?? { label, slotSeconds: 0, leases: 0 };
+      usage.slotSeconds += used;
+      usage.leases++;
+      map.set(label, usage);
+    }
+  }
+  const top = (map: Map<string, HolderUsage>) => [...map.values()]
+    .map(u => ({ ...u, slotSeconds: round1(u.slotSeconds) }))
+    .sort((a, b) => b.slotSeconds - a.slotSeconds || a.label.localeCompare(b.label))
+    .slice(0, TOP_HOLDERS);
+
+  // Replay pool state (each entry carries it) for peak concurrency and time below baseCap
+  const pools = new Map<string, { inUse: number; cap: number; reducedSince: number | null; reducedSeconds: number; lowestCap: number }>();
+  let peakConcurrency = 0;
+  let peakAt: number | null = null;
+  const observe = (at: number) => {
+    const total = [...pools.values()].reduce((s, p) => s + p.inUse, 0);
+    if (total > peakConcurrency) {
+      peakConcurrency = total;
+      peakAt = at;
+    }
+    for (const p of pools.values()) {
+      if (p.reducedSince !== null) p.lowestCap = Math.min(p.lowestCap, p.cap);
+    }
+  };
+  let windowStarted = false;
+  for (const { e, at } of all) {
+    if (!windowStarted && at >= from) {
+      // State carried into the window counts from its start
+      windowStarted = true;
+      observe(from);
+    }
+    const p = pools.get(e.pool) ?? { inUse: 0, cap: e.cap, reducedSince: null, reducedSeconds: 0, lowestCap: Infinity };
+    const isReduced = e.cap < e.baseCap;
+    if (isReduced && p.reducedSince === null) p.reducedSince = Math.max(at, from);
+    if (!isReduced && p.reducedSince !== null) {
+      p.reducedSeconds += (Math.max(at, from) - p.reducedSince) / 1000;
+      p.reducedSince = null;
+    }
+    p.inUse = e.inUse;
+    p.cap = e.cap;
+    pools.set(e.pool, p);
+    if (at >= from) observe(at);
+  }
+  if (!windowStarted) observe(from);
+
+  const windowSeconds = Math.max(1, (to - from) / 1000);
+  const reducedCaps = [...pools.entries()]
+    .map(([pool, p]) => {
+      const seconds = p.reducedSeconds + (p.reducedSince !== null ? (to - p.reducedSince) / 1000 : 0);
+      return { pool, seconds: Math.round(seconds), fraction: Math.round((seconds / windowSeconds) * 1000) / 1000, lowestCap: p.lowestCap };
+    })
+    .filter(r => r.seconds > 0);
+
+  const requests = granted.length + denied.length;
+  return {
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    pool: options.pool ?? null,
+    requests,
+    granted: granted.length,
+    denied: denied.length,
+    denialRate: requests > 0 ? Math.round((denied.length / requests) * 1000) / 1000 : null,
+    denials: countBy(denied, e => e.cause ?? 'capacity'),
+    queued: inWindow.filter(e => e.event === 'queue').length,
+    meanWaitSeconds: waits.length > 0 ? round1(waits.reduce((s, w) => s + w, 0) / waits.length) : null,
+    released: inWindow.filter(e => e.event === 'release').length,
+    expired: countBy(inWindow.filter(e => e.event === 'expire'), e => e.cause ?? 'ttl'),
+    slotSeconds: round1(slotSeconds),
+    byReason: top(byReason),
+    byOwner: top(byOwner),
+    peakConcurrency,
+    peakAt: peakAt !== null ? new Date(peakAt).toISOString() : null,
+    reducedCaps,
+  };
+}
+
+function fmtTime(iso: string): string {
+  return iso.substring(0, 19).replace('T', ' ');
+}
+
+function fmtCounts(counts: Record<string, number>): string {
+  return Object.entries(counts).map(([k, n]) => `${k} ${n}`).join(', ');
+}
+
+/** Human-readable report for `budget report` / guardian_budget_report. */
+export function formatBudgetReport(report: BudgetReport): string {
+  const lines: string[] = [];
+  lines.push(`Budget report ${fmtTime(report.from)} → ${fmtTime(report.to)}${report.pool ? ` (pool ${report.pool})` : ''}`);
+  if (report.requests === 0 && report.slotSeconds === 0 && report.reducedCaps.length === 0) {
+    lines.push('  No budget activity in range.');
+    return lines.join('\n');
+  }
+
+  const rate = report.denialRate !== null ? ` (${Math.round(report.denialRate * 100)}% denied)` : '';
+  lines.push(`  Requests: ${report.requests} | granted ${report.granted} | denied ${report.denied}${rate}`);
+  if (report.denied > 0) lines.push(`  Denials: ${fmtCounts(report.denials)}`);
+  lines.push(`  Queued: ${report.queued} | mean wait ${report.meanWaitSeconds !== null ? `${report.meanWaitSeconds}s` : 'n/a'}`);
+  const expired = Object.keys(report.expired).length > 0 ? ` | expired: ${fmtCounts(report.expired)}` : '';
+  lines.push(`  Released: ${report.released}${expired}`);
+  lines.push(`  Slot-seconds: ${report.slotSeconds} | peak concurrency ${report.peakConcurrency} slot(s)${report.peakAt ? ` at ${fmtTime(report.peakAt)}` : ''}`);
+
+  for (const r of report.reducedCaps) {
+    lines.push(`  Reduced cap (${r.pool}): ${r.seconds}s (${Math.round(r.fraction * 100)}% of range, lowest ${r.lowestCap})`);
+  }
+
+  for (const [title, usage] of [['By reason', report.byReason], ['By owner', report.byOwner]] as const) {
+    if (usage.length === 0) continue;
+    lines.push('');
+    lines.push(`${title} (slot-seconds):`);
+    for (const u of usage) {
+      lines.push(`  ${String(u.slotSeconds).padStart(10)}  ${u.label} (${u.leases} lease(s))`);
+    }
+  }
+  return lines.join('\n');
+}
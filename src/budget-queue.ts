@@ -0,0 +1,119 @@
+/**
+ * Blocking acquire for the budget queue.
+ * The request is queued in budget.json, then polled under the budget lock until a
+ * lease is granted on its behalf — by this poll, another caller's, or the watch
+ * daemon's — or the wait runs out. Nothing is held in memory between polls, so
+ * waiters in different processes (MCP servers, CLI) share one fair queue.
+ */
+
+import { BudgetPools, DEFAULT_POOL, type AcquireOptions, type AcquireResult, type WaitStatus } from './budget.js';
+import { readBudget, emptyBudget, withBudgetLock } from './budget-store.js';
+import { saveBudget } from './budget-ledger.js';
+import type { BudgetThresholds } from './types.js';
+
+/** How often a waiter re-checks the queue. */
+export const QUEUE_POLL_MS = 1000;
+
+export interface WaitingAcquireOptions extends AcquireOptions {
+  /** Budget pool to acquire from (default pool if omitted). */
+  pool?: string;
+  pollMs?: number;
+  /** Called once if the request had to queue. */
+  onQueued?: (result: AcquireResult) => void;
+  /** Stop waiting when aborted: the request leaves the queue (releasing a lease granted meanwhile). */
+  signal?: AbortSignal;
+}
+
+/** Outcome of a (possibly) waiting acquire. */
+export interface WaitingAcquireResult extends AcquireResult {
+  /** Seconds spent in the queue (0 if answered immediately). */
+  waitedSeconds: number;
+}
+
+/** Wait `ms`, or less if `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Acquire slots, waiting in the queue up to `options.waitSeconds` if they are not free.
+ * Aborting `options.signal` cancels the wait under the budget lock, so an abandoned request
+ * neither stays queued nor keeps a lease. Throws BUDGET_POOL_UNKNOWN for an unconfigured pool.
+ */
+export async function acquireWithWait(
+  n: number,
+  ttlSeconds: number,
+  reason: string,
+  thresholds: BudgetThresholds | undefined,
+  options: WaitingAcquireOptions = {},
+): Promise<WaitingAcquireResult> {
+  const { pool = DEFAULT_POOL, pollMs = QUEUE_POLL_MS, onQueued, signal, ...acquireOptions } = options;
+  const started = Date.now();
+
+  const first = await withBudgetLock(async () => {
+    const pools = new BudgetPools(await readBudget() ?? emptyBudget(thresholds), thresholds);
+    const budget = pools.pool(pool);
+    budget.expireLeases();
+    budget.promoteWaiters();
+    const result = budget.acquire(n, ttlSeconds, reason, acquireOptions);
+    await saveBudget(pools);
+    return result;
+  });
+  if (!first.queued) return { ...first, waitedSeconds: 0 };
+  onQueued?.(first);
+
+  const waiterId = first.waiterId!;
+  let position = first.queuePosition;
+  for (;;) {
+    await sleep(pollMs, signal);
+    const polled = await withBudgetLock(async () => {
+      const pools = new BudgetPools(await readBudget() ?? emptyBudget(thresholds), thresholds);
+      const budget = pools.pool(pool);
+      budget.expireLeases();
+      let status: WaitStatus | { state: 'cancelled'; lease: null; position: null };
+      if (signal?.aborted) {
+        budget.cancelWaiter(waiterId);
+        status = { state: 'cancelled', lease: null, position: null };
+      } else {
+        const { timedOut } = budget.promoteWaiters();
+        status = timedOut.some(w => w.id === waiterId)
+          ? { state: 'timed-out', lease: null, position: null }
+          : budget.pollWaiter(waiterId);
+      }
+      await saveBudget(pools);
+      return { status, summary: budget.summarize() };
+    });
+
+    const { status, summary } = polled;
+    const waitedSeconds = Math.round((Date.now() - started) / 1000);
+    const counts = {
+      currentCap: summary.currentCap,
+      slotsInUse: summary.slotsInUse,
+      slotsAvailable: summary.slotsAvailable,
+      waiterId,
+      waitedSeconds,
+    };
+
+    switch (status.state) {
+      case 'waiting':
+        position = status.position;
+        continue;
+      case 'granted':
+        return { granted: true, lease: status.lease, reason: `Granted after waiting ${waitedSeconds}s`, queued: false, queuePosition: null, ...counts };
+      case 'cancelled':
+        return { granted: false, lease: null, reason: `Cancelled after waiting ${waitedSeconds}s; left the queue`, queued: false, queuePosition: null, ...counts };
+      case 'timed-out':
+        return { granted: false, lease: null, reason: `Timed out after waiting ${waitedSeconds}s (last queue position ${position})`, queued: false, queuePosition: position, ...counts };
+      default:
+        return { granted: false, lease: null, reason: 'Queued request was removed before it could be collected (owner exited, or the granted lease expired)', queued: false, queuePosition: null, ...counts };
+    }
+  }
+}
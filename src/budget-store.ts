@@ -3,11 +3,14 @@ import { existsSync } from 'fs';
 import { getBudgetPath, getGuardianDataPath, BUDGET_THRESHOLDS } from './defaults.js';
 import { writeJournalEntry } from './fs-utils.js';
 import { wrapError } from './errors.js';
+import { withFileLock } from './file-lock.js';
 import type { RiskLevel } from './process-monitor.js';
+import type { BudgetThresholds } from './types.js';
 
 /**
- * Simple async mutex to serialize budget file read-modify-write cycles.
- * Prevents TOCTOU races when daemon and MCP tools both access budget.json.
+ * Serialize budget file read-modify-write cycles.
+ * An in-process queue orders callers within one process; budget.json.lock
+ * excludes the daemon, every MCP server instance and the CLI from each other.
  */
 let budgetLockQueue: Promise<void> = Promise.resolve();
 
@@ -18,12 +21,30 @@ export async function withBudgetLock<T>(fn: () => Promise<T>): Promise<T> {
   budgetLockQueue = next;
   await prev;
   try {
-    return await fn();
+    await ensureDataDir();
+    return await withFileLock(getBudgetPath() + '.lock', fn);
   } finally {
     release!();
   }
 }
 
+async function ensureDataDir(): Promise<void> {
+  const dataDir = getGuardianDataPath();
+  if (!existsSync(dataDir)) {
+    await mkdir(dataDir, { recursive: true });
+  }
+}
+
+/** The process (and Claude session) a lease belongs to. */
+export interface LeaseOwner {
+  /** Claude process that requested the lease (or the caller's parent process outside Claude). */
+  pid: number;
+  /** Claude session ID (transcript name), when it could be determined. */
+  sessionId: string | null;
+  /** Working directory of the requester. */
+  cwd: string | null;
+}
+
 /** A single concurrency lease. */
 export interface BudgetLease {
   id: string;
@@ -31,10 +52,38 @@ export interface BudgetLease {
   reason: string;
   grantedAt: string;
   expiresAt: string;
+  /** Expected renewal interval; null/absent for plain TTL leases. */
+  heartbeatSeconds?: number | null;
+  /** Last acquire or renewal. */
+  lastHeartbeatAt?: string;
+  /** Number of successful renewals. */
+  renewals?: number;
+  /** Who holds the lease; absent on leases from older versions. */
+  owner?: LeaseOwner | null;
+}
+
+/** Priority class of a queued acquire. */
+export type BudgetPriority = 'high' | 'normal' | 'low';
+
+/** An acquire waiting in the queue for slots. */
+export interface BudgetWaiter {
+  id: string;
+  slots: number;
+  priority: BudgetPriority;
+  reason: string;
+  /** TTL and heartbeat interval for the lease once granted. */
+  ttlSeconds: number;
+  heartbeatSeconds: number | null;
+  owner: LeaseOwner | null;
+  enqueuedAt: string;
+  /** The waiter gives up at this time. */
+  waitUntil: string;
+  /** Lease granted on the waiter's behalf (by any caller or the daemon), until it collects it. */
+  leaseId: string | null;
 }
 
-/** Persisted budget state. */
-export interface BudgetData {
+/** Persisted state of one pool. */
+export interface BudgetPoolData {
   /** Current effective cap (may be reduced from baseCap). */
   currentCap: number;
   /** Base cap (maxTokens). */
@@ -45,16 +94,26 @@ export interface BudgetData {
   capSetByRisk: RiskLevel | null;
   /** When cap was last changed. */
   capChangedAt: string;
+  /** Cap imposed by system resource pressure, and the metric behind it (null/absent if none). */
+  resourceCap?: number | null;
+  resourceReason?: string | null;
   /** When risk last returned to ok (null if not ok). For hysteresis. */
   okSinceAt: string | null;
+  /** Queued acquires, in arrival order; absent in files from older versions. */
+  queue?: BudgetWaiter[];
+}
+
+/**
+ * Persisted budget state. The top-level fields are the default pool (the layout
+ * from before pools existed); named pools live under `pools`.
+ */
+export interface BudgetData extends BudgetPoolData {
+  pools?: Record<string, BudgetPoolData>;
 }
 
 /** Write budget atomically (write to .tmp, then rename). */
 export async function writeBudget(data: BudgetData): Promise<void> {
-  const dataDir = getGuardianDataPath();
-  if (!existsSync(dataDir)) {
-    await mkdir(dataDir, { recursive: true });
-  }
+  await ensureDataDir();
 
   const budgetPath = getBudgetPath();
   const tmpPath = budgetPath + '.tmp';
@@ -101,14 +160,15 @@ export async function readBudget(): Promise<BudgetData | null> {
   }
 }
 
-/** Create an empty/default budget. */
-export function emptyBudget(): BudgetData {
+/** Create an empty/default budget (or pool, given the pool's thresholds). */
+export function emptyBudget(thresholds: BudgetThresholds = BUDGET_THRESHOLDS): BudgetData {
   return {
-    currentCap: BUDGET_THRESHOLDS.baseCap,
-    baseCap: BUDGET_THRESHOLDS.baseCap,
+    currentCap: thresholds.baseCap,
+    baseCap: thresholds.baseCap,
     leases: [],
     capSetByRisk: null,
     capChangedAt: new Date().toISOString(),
     okSinceAt: null,
+    queue: [],
   };
 }
@@ -1,7 +1,27 @@
 import { randomUUID } from 'crypto';
 import { BUDGET_THRESHOLDS } from './defaults.js';
+import { GuardianError } from './errors.js';
+import { emptyBudget } from './budget-store.js';
 import type { RiskLevel } from './process-monitor.js';
-import type { BudgetData, BudgetLease } from './budget-store.js';
+import type { ResourcePressure } from './system-load.js';
+import type { LedgerEntry, LedgerEvent } from './budget-ledger.js';
+import type { BudgetThresholds } from './types.js';
+import type { BudgetData, BudgetLease, BudgetPoolData, BudgetPriority, BudgetWaiter, LeaseOwner } from './budget-store.js';
+
+/** The pool made of the top-level budget settings and budget.json fields. */
+export const DEFAULT_POOL = 'default';
+
+export const BUDGET_PRIORITIES: BudgetPriority[] = ['high', 'normal', 'low'];
+
+const PRIORITY_RANK: Record<BudgetPriority, number> = { high: 0, normal: 1, low: 2 };
+
+const NOT_QUEUED = { queued: false, waiterId: null, queuePosition: null } as const;
+
+const secondsSince = (iso: string, now: number) => Math.max(0, Math.round((now - Date.parse(iso)) / 100) / 10);
+
+function ownerFields(owner: LeaseOwner | null): Pick<LedgerEntry, 'ownerPid' | 'sessionId'> {
+  return { ownerPid: owner?.pid ?? null, sessionId: owner?.sessionId ?? null };
+}
 
 /** Result of an acquire attempt. */
 export interface AcquireResult {
@@ -11,6 +31,52 @@ export interface AcquireResult {
   currentCap: number;
   slotsInUse: number;
   slotsAvailable: number;
+  /** True if the request was queued instead of granted or denied. */
+  queued: boolean;
+  /** Queue entry to poll with pollWaiter (queued requests only). */
+  waiterId: string | null;
+  /** 1-based position among waiting requests (queued requests only). */
+  queuePosition: number | null;
+}
+
+/** Optional lease properties for acquire. */
+export interface AcquireOptions {
+  /** Promise to renew at least this often; missed heartbeats reclaim the lease early. */
+  heartbeatSeconds?: number | null;
+  /** Owning process/session, so the daemon can reclaim the lease when it exits. */
+  owner?: LeaseOwner | null;
+  /** Queue for up to this long (clamped to maxWaitSeconds) instead of being denied. */
+  waitSeconds?: number;
+  /** Priority class in the queue (default normal). */
+  priority?: BudgetPriority;
+}
+
+/** State of a queued request, from pollWaiter. */
+export interface WaitStatus {
+  /** `gone`: unknown ID, or the granted lease expired before it was collected. */
+  state: 'granted' | 'waiting' | 'timed-out' | 'gone';
+  lease: BudgetLease | null;
+  position: number | null;
+}
+
+/** Result of one promotion pass over the queue. */
+export interface PromoteResult {
+  granted: BudgetWaiter[];
+  timedOut: BudgetWaiter[];
+}
+
+/** Result of a renewal (heartbeat). */
+export interface RenewResult {
+  renewed: boolean;
+  lease: BudgetLease | null;
+  reason: string;
+  /** True if the requested TTL was shortened to respect maxLeaseSeconds. */
+  capped: boolean;
+}
+
+/** A lease removed by expireLeases, and why. */
+export interface ExpiredLease extends BudgetLease {
+  cause: 'ttl' | 'heartbeat' | 'owner-exited';
 }
 
 /** Summary for display in status/banner. */
@@ -20,18 +86,51 @@ export interface BudgetSummary {
   slotsInUse: number;
   slotsAvailable: number;
   activeLeases: number;
+  /** Requests waiting in the queue, and the slots they ask for. */
+  queuedRequests: number;
+  queuedSlots: number;
   capSetByRisk: RiskLevel | null;
+  /** Cap imposed by system resource pressure (null if resources don't limit this pool). */
+  resourceCap: number | null;
+  /** Why the cap is below baseCap, e.g. "hang risk warn" or "memory 93% in use" (null at baseCap). */
+  capReason: string | null;
   okSinceAt: string | null;
   hysteresisRemainingSeconds: number;
 }
 
-/** Budget controller — manages cap transitions, leases, TTL expiry. */
+/** Summary of one named pool. */
+export interface PoolSummary extends BudgetSummary {
+  pool: string;
+}
+
+/** A lease and the pool holding it. */
+export interface PoolLease {
+  pool: string;
+  lease: BudgetLease;
+}
+
+/** Budget controller for one pool — manages cap transitions, leases, TTL expiry. */
 export class Budget {
-  private data: BudgetData;
+  private data: BudgetPoolData;
+  private thresholds: BudgetThresholds;
+  /** Ledger entries for changes not yet persisted (see takeLedgerEntries). */
+  private ledger: LedgerEntry[] = [];
 
-  constructor(data: BudgetData) {
+  /**
+   * Pass `thresholds` (from config) to make its baseCap authoritative;
+   * without it the persisted baseCap is kept and BUDGET_THRESHOLDS drive transitions.
+   */
+  constructor(data: BudgetPoolData, thresholds?: BudgetThresholds) {
     // Deep copy to avoid external mutation
     this.data = JSON.parse(JSON.stringify(data));
+    this.data.queue ??= [];
+    this.thresholds = { ...BUDGET_THRESHOLDS, ...thresholds };
+    if (thresholds && this.data.baseCap !== thresholds.baseCap) {
+      this.data.baseCap = thresholds.baseCap;
+      if (this.data.capSetByRisk === null) {
+        this.data.currentCap = Math.min(thresholds.baseCap, this.data.resourceCap ?? Infinity);
+      }
+    }
   }
 
   /** Current effective cap. */
@@ -50,24 +149,26 @@ export class Budget {
   }
 
   /**
-   * Adjust cap based on current risk level. Returns true if cap changed.
+   * Adjust cap based on current risk level and, optionally, system resource pressure.
+   * Returns true if cap changed.
    *
    * Rules:
    *   - ok: restore to baseCap after hysteresisSeconds sustained ok
-   *   - warn: cap = warnCap (2)
-   *   - critical: cap = criticalCap (1)
+   *   - warn: cap = warnCap (default 2)
+   *   - critical: cap = criticalCap (default 1)
+   *   - resource pressure p (0..1): cap ≤ baseCap - p × (baseCap - minCap), following
+   *     the (already smoothed) metrics both ways
+   * Levels below the pool's `reduceOnRisk` count as ok. The effective cap is the lower
+   * of the risk and resource caps.
    */
-  adjustCap(riskLevel: RiskLevel, now: number = Date.now()): boolean {
+  adjustCap(level: RiskLevel, now: number = Date.now(), resources: ResourcePressure | null = null): boolean {
     const oldCap = this.data.currentCap;
+    const reduceOn = this.thresholds.reduceOnRisk;
+    const riskLevel: RiskLevel = reduceOn === 'never' || (reduceOn === 'critical' && level === 'warn') ? 'ok' : level;
 
-    if (riskLevel === 'critical') {
-      this.data.currentCap = BUDGET_THRESHOLDS.criticalCap;
+    if (riskLevel === 'critical' || riskLevel === 'warn') {
       this.data.okSinceAt = null;
-      this.data.capSetByRisk = 'critical';
-    } else if (riskLevel === 'warn') {
-      this.data.currentCap = BUDGET_THRESHOLDS.warnCap;
-      this.data.okSinceAt = null;
-      this.data.capSetByRisk = 'warn';
+      this.data.capSetByRisk = riskLevel;
     } else {
       // ok — start or continue hysteresis timer
       if (this.data.okSinceAt === null) {
@@ -75,87 +176,375 @@ export class Budget {
       }
 
       const okDuration = (now - new Date(this.data.okSinceAt).getTime()) / 1000;
-      if (okDuration >= BUDGET_THRESHOLDS.hysteresisSeconds) {
-        this.data.currentCap = this.data.baseCap;
+      if (okDuration >= this.thresholds.hysteresisSeconds) {
         this.data.capSetByRisk = null;
       }
-      // Otherwise cap stays where it is until hysteresis expires
+      // Otherwise the risk cap stays where it is until hysteresis expires
     }
 
+    this.data.resourceCap = this.resourceCapFor(resources);
+    this.data.resourceReason = this.data.resourceCap !== null ? resources!.reason : null;
+    this.data.currentCap = Math.min(this.riskCap(), this.data.resourceCap ?? Infinity);
+
     if (this.data.currentCap !== oldCap) {
       this.data.capChangedAt = new Date(now).toISOString();
+      this.record('cap', now, { reason: this.capReason() });
       return true;
     }
     return false;
   }
 
-  /** Acquire N slots with a TTL. */
-  acquire(n: number, ttlSeconds: number, reason: string): AcquireResult {
-    const base = {
-      currentCap: this.data.currentCap,
-      slotsInUse: this.slotsInUse,
-      slotsAvailable: this.slotsAvailable,
-    };
+  /** Cap for the risk level that last reduced it (baseCap once recovered). */
+  private riskCap(): number {
+    switch (this.data.capSetByRisk) {
+      case 'critical': return this.thresholds.criticalCap;
+      case 'warn': return this.thresholds.warnCap;
+      default: return this.data.baseCap;
+    }
+  }
+
+  /** Cap under resource pressure, or null if it doesn't go below baseCap. */
+  private resourceCapFor(resources: ResourcePressure | null): number | null {
+    if (!resources || resources.pressure <= 0 || !this.thresholds.reduceOnResources) return null;
+    const minCap = Math.min(this.thresholds.resources.minCap, this.data.baseCap);
+    const cap = Math.round(this.data.baseCap - resources.pressure * (this.data.baseCap - minCap));
+    return cap < this.data.baseCap ? cap : null;
+  }
+
+  /** Why the cap is below baseCap: the risk level and/or resource metric that set it. */
+  private capReason(): string | null {
+    const { currentCap, baseCap, capSetByRisk } = this.data;
+    if (currentCap >= baseCap) return null;
+    const reasons: string[] = [];
+    if (capSetByRisk && this.riskCap() === currentCap) reasons.push(`hang risk ${capSetByRisk}`);
+    if (this.data.resourceCap === currentCap) reasons.push(this.data.resourceReason ?? 'system resources');
+    return reasons.join('; ') || null;
+  }
+
+  /**
+   * Acquire N slots with a TTL (clamped to maxLeaseSeconds).
+   * Pass `heartbeatSeconds` to promise a renewal at least that often; the lease is then
+   * reclaimed after `missedHeartbeats` intervals without one, well before its TTL.
+   *
+   * Requests never overtake queued waiters of the same or higher priority. Without
+   * `waitSeconds` such a request is denied; with it the request joins the queue and
+   * the caller polls pollWaiter until promoteWaiters grants it.
+   */
+  acquire(n: number, ttlSeconds: number, reason: string, options: AcquireOptions = {}, now: number = Date.now()): AcquireResult {
+    const heartbeatSeconds = options.heartbeatSeconds ?? null;
+    const priority = options.priority ?? 'normal';
+    const waitSeconds = Math.min(options.waitSeconds ?? 0, this.thresholds.maxWaitSeconds);
+    const deny = (why: string): AcquireResult => ({ granted: false, lease: null, reason: why, ...this.counts(), ...NOT_QUEUED });
+
+    if (n <= 0) return deny('Slots must be > 0');
+    if (ttlSeconds <= 0) return deny('TTL must be > 0');
+    if (heartbeatSeconds !== null && heartbeatSeconds <= 0) return deny('Heartbeat interval must be > 0');
 
-    if (n <= 0) {
-      return { granted: false, lease: null, reason: 'Slots must be > 0', ...base };
+    const ahead = this.queueOrder(now).filter(w => this.effectiveRank(w, now) <= PRIORITY_RANK[priority]).length;
+    if (ahead === 0 && n <= this.slotsAvailable) {
+      const lease = this.grantLease(n, ttlSeconds, reason, heartbeatSeconds, options.owner ?? null, now);
+      this.recordLease('acquire', lease, now);
+      return { granted: true, lease: { ...lease }, reason: 'Granted', ...this.counts(), ...NOT_QUEUED };
     }
 
-    if (ttlSeconds <= 0) {
-      return { granted: false, lease: null, reason: 'TTL must be > 0', ...base };
+    const request = { slots: n, reason, ...ownerFields(options.owner ?? null) };
+    if (waitSeconds <= 0) {
+      const capReason = this.capReason();
+      this.record('deny', now, { ...request, cause: 'capacity' });
+      return deny(ahead > 0
+        ? `${ahead} queued request(s) ahead; pass a wait time to join the queue`
+        : `Requested ${n} slots but only ${this.slotsAvailable} available (cap=${this.data.currentCap}, in-use=${this.slotsInUse}${capReason ? `; cap reduced by ${capReason}` : ''})`);
+    }
+    if (n > this.data.baseCap) {
+      this.record('deny', now, { ...request, cause: 'exceeds-base-cap' });
+      return deny(`Requested ${n} slots but the base cap is ${this.data.baseCap}; the request can never be granted`);
     }
 
-    if (n > this.slotsAvailable) {
-      return {
-        granted: false,
-        lease: null,
-        reason: `Requested ${n} slots but only ${this.slotsAvailable} available (cap=${this.data.currentCap}, in-use=${this.slotsInUse})`,
-        ...base,
-      };
+    const waiter: BudgetWaiter = {
+      id: randomUUID(),
+      slots: n,
+      priority,
+      reason,
+      ttlSeconds,
+      heartbeatSeconds,
+      owner: options.owner ?? null,
+      enqueuedAt: new Date(now).toISOString(),
+      waitUntil: new Date(now + waitSeconds * 1000).toISOString(),
+      leaseId: null,
+    };
+    this.data.queue!.push(waiter);
+    this.record('queue', now, request);
+    const position = this.queuePosition(waiter.id, now)!;
+    return {
+      granted: false,
+      lease: null,
+      reason: `Queued at position ${position} (${priority} priority, waiting up to ${waitSeconds}s)`,
+      ...this.counts(),
+      queued: true,
+      waiterId: waiter.id,
+      queuePosition: position,
+    };
+  }
+
+  /**
+   * Grant queued requests in order while they fit, and drop waiters whose wait ran out.
+   * The head of the queue blocks everything behind it, so a large request is never
+   * starved by smaller ones slipping into the slots it is waiting for.
+   */
+  promoteWaiters(now: number = Date.now()): PromoteResult {
+    const leaseIds = new Set(this.data.leases.map(l => l.id));
+    const timedOut: BudgetWaiter[] = [];
+    this.data.queue = this.data.queue!.filter(w => {
+      // A granted waiter whose lease is gone never collected it
+      if (w.leaseId !== null) return leaseIds.has(w.leaseId);
+      if (new Date(w.waitUntil).getTime() <= now) {
+        timedOut.push({ ...w });
+        return false;
+      }
+      return true;
+    });
+    for (const w of timedOut) this.recordWaiterDenied(w, 'timed-out', now);
+
+    const granted: BudgetWaiter[] = [];
+    for (const w of this.queueOrder(now)) {
+      if (w.slots > this.slotsAvailable) break;
+      const lease = this.grantLease(w.slots, w.ttlSeconds, w.reason, w.heartbeatSeconds, w.owner, now);
+      w.leaseId = lease.id;
+      this.recordLease('acquire', lease, now, { waitedSeconds: secondsSince(w.enqueuedAt, now) });
+      granted.push({ ...w });
     }
+    return { granted, timedOut };
+  }
 
-    const now = new Date();
+  /**
+   * Check on a queued request. A granted or timed-out entry is removed from the queue,
+   * so the caller sees `granted` exactly once.
+   */
+  pollWaiter(id: string, now: number = Date.now()): WaitStatus {
+    const w = this.data.queue!.find(q => q.id === id);
+    if (!w) return { state: 'gone', lease: null, position: null };
+    if (w.leaseId !== null) {
+      this.removeWaiter(id);
+      const lease = this.data.leases.find(l => l.id === w.leaseId);
+      return lease ? { state: 'granted', lease: { ...lease }, position: null } : { state: 'gone', lease: null, position: null };
+    }
+    if (new Date(w.waitUntil).getTime() <= now) {
+      this.removeWaiter(id);
+      this.recordWaiterDenied(w, 'timed-out', now);
+      return { state: 'timed-out', lease: null, position: null };
+    }
+    return { state: 'waiting', lease: null, position: this.queuePosition(id, now) };
+  }
+
+  /** Leave the queue. A lease already granted on the waiter's behalf is released too. */
+  cancelWaiter(id: string, now: number = Date.now()): boolean {
+    const w = this.data.queue!.find(q => q.id === id);
+    if (!w) return false;
+    this.removeWaiter(id);
+    if (w.leaseId !== null) this.release(w.leaseId, now);
+    else this.recordWaiterDenied(w, 'cancelled', now);
+    return true;
+  }
+
+  /** Waiting (not yet granted) requests in grant order. */
+  queue(now: number = Date.now()): BudgetWaiter[] {
+    return this.queueOrder(now).map(w => ({ ...w }));
+  }
+
+  /** 1-based position of a waiting request, or null. */
+  queuePosition(id: string, now: number = Date.now()): number | null {
+    const idx = this.queueOrder(now).findIndex(w => w.id === id);
+    return idx === -1 ? null : idx + 1;
+  }
+
+  /** Priority rank after aging: one class better per queueAgingSeconds waited. */
+  private effectiveRank(w: BudgetWaiter, now: number): number {
+    const waited = (now - new Date(w.enqueuedAt).getTime()) / 1000;
+    return Math.max(0, PRIORITY_RANK[w.priority] - Math.floor(waited / this.thresholds.queueAgingSeconds));
+  }
+
+  /** Waiting requests by effective priority, then arrival. */
+  private queueOrder(now: number): BudgetWaiter[] {
+    return this.data.queue!
+      .filter(w => w.leaseId === null)
+      .map(w => ({ w, rank: this.effectiveRank(w, now), at: new Date(w.enqueuedAt).getTime() }))
+      .sort((a, b) => a.rank - b.rank || a.at - b.at)
+      .map(x => x.w);
+  }
+
+  private removeWaiter(id: string): void {
+    this.data.queue = this.data.queue!.filter(q => q.id !== id);
+  }
+
+  private grantLease(
+    n: number, ttlSeconds: number, reason: string,
+    heartbeatSeconds: number | null, owner: LeaseOwner | null, now: number,
+  ): BudgetLease {
+    const ttl = Math.min(ttlSeconds, this.thresholds.maxLeaseSeconds);
     const lease: BudgetLease = {
       id: randomUUID(),
       slots: n,
       reason,
-      grantedAt: now.toISOString(),
-      expiresAt: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+      grantedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttl * 1000).toISOString(),
+      heartbeatSeconds,
+      lastHeartbeatAt: new Date(now).toISOString(),
+      renewals: 0,
+      owner,
     };
-
     this.data.leases.push(lease);
+    return lease;
+  }
 
-    return {
-      granted: true,
-      lease: { ...lease },
-      reason: 'Granted',
-      currentCap: this.data.currentCap,
-      slotsInUse: this.slotsInUse,
-      slotsAvailable: this.slotsAvailable,
-    };
+  private counts(): Pick<AcquireResult, 'currentCap' | 'slotsInUse' | 'slotsAvailable'> {
+    return { currentCap: this.data.currentCap, slotsInUse: this.slotsInUse, slotsAvailable: this.slotsAvailable };
+  }
+
+  /** Queue a ledger entry for a change just made; pool state is taken after the change. */
+  private record(event: LedgerEvent, now: number, fields: Partial<LedgerEntry> = {}): void {
+    this.ledger.push({
+      t: new Date(now).toISOString(),
+      event,
+      pool: DEFAULT_POOL,
+      leaseId: null,
+      slots: 0,
+      reason: null,
+      ownerPid: null,
+      sessionId: null,
+      ...fields,
+      cap: this.data.currentCap,
+      baseCap: this.data.baseCap,
+      inUse: this.slotsInUse,
+    });
+  }
+
+  private recordLease(event: LedgerEvent, lease: BudgetLease, now: number, fields: Partial<LedgerEntry> = {}): void {
+    this.record(event, now, { leaseId: lease.id, slots: lease.slots, reason: lease.reason, ...ownerFields(lease.owner ?? null), ...fields });
+  }
+
+  /** A lease ended: released by its holder, or expired/reclaimed. */
+  private recordLeaseEnd(lease: BudgetLease, event: 'release' | 'expire', cause: string, now: number): void {
+    this.recordLease(event, lease, now, { cause, heldSeconds: secondsSince(lease.grantedAt, now) });
+  }
+
+  private recordWaiterDenied(w: BudgetWaiter, cause: string, now: number): void {
+    this.record('deny', now, { slots: w.slots, reason: w.reason, ...ownerFields(w.owner), cause, waitedSeconds: secondsSince(w.enqueuedAt, now) });
+  }
+
+  /** Ledger entries for changes since the last call, oldest first (persist with saveBudget). */
+  takeLedgerEntries(): LedgerEntry[] {
+    const entries = this.ledger;
+    this.ledger = [];
+    return entries;
   }
 
   /** Release a lease by ID. Returns true if found and released. */
-  release(id: string): boolean {
+  release(id: string, now: number = Date.now()): boolean {
     const idx = this.data.leases.findIndex(l => l.id === id);
     if (idx === -1) return false;
-    this.data.leases.splice(idx, 1);
+    const [lease] = this.data.leases.splice(idx, 1);
+    this.recordLeaseEnd(lease, 'release', 'released', now);
     return true;
   }
 
-  /** Expire any leases past their TTL. Returns expired lease details. */
-  expireLeases(now: number = Date.now()): BudgetLease[] {
-    const expired = this.data.leases.filter(l => new Date(l.expiresAt).getTime() <= now);
-    this.data.leases = this.data.leases.filter(l => new Date(l.expiresAt).getTime() > now);
+  /** Release every lease owned by `pid`. Returns the released leases. */
+  releaseByOwner(pid: number, now: number = Date.now()): BudgetLease[] {
+    const released = this.data.leases.filter(l => l.owner?.pid === pid);
+    this.data.leases = this.data.leases.filter(l => l.owner?.pid !== pid);
+    for (const lease of released) this.recordLeaseEnd(lease, 'release', 'released', now);
+    return released;
+  }
+
+  /**
+   * Reclaim leases whose owner process no longer exists (`isAlive` is injected for testing).
+   * Queued requests of exited owners are dropped too.
+   */
+  reclaimDeadOwners(isAlive: (pid: number) => boolean, now: number = Date.now()): ExpiredLease[] {
+    const dead = new Map<number, boolean>();
+    const isDead = (pid: number) => {
+      if (!dead.has(pid)) dead.set(pid, !isAlive(pid));
+      return dead.get(pid)!;
+    };
+    this.data.queue = this.data.queue!.filter(w => {
+      if (!w.owner || !isDead(w.owner.pid)) return true;
+      if (w.leaseId === null) this.recordWaiterDenied(w, 'owner-exited', now);
+      return false;
+    });
+    const reclaimed: ExpiredLease[] = [];
+    this.data.leases = this.data.leases.filter(l => {
+      if (!l.owner || !isDead(l.owner.pid)) return true;
+      reclaimed.push({ ...l, cause: 'owner-exited' });
+      return false;
+    });
+    for (const lease of reclaimed) this.recordLeaseEnd(lease, 'expire', lease.cause, now);
+    return reclaimed;
+  }
+
+  /**
+   * Renew (heartbeat) a lease: it now expires `ttlSeconds` from `now`, but never later
+   * than grantedAt + maxLeaseSeconds. Expired leases can't be renewed — acquire again.
+   */
+  renew(id: string, ttlSeconds: number, now: number = Date.now()): RenewResult {
+    const lease = this.data.leases.find(l => l.id === id);
+    if (!lease) {
+      return { renewed: false, lease: null, reason: `Lease ${id} not found (expired, reclaimed or released)`, capped: false };
+    }
+    if (ttlSeconds <= 0) {
+      return { renewed: false, lease: { ...lease }, reason: 'TTL must be > 0', capped: false };
+    }
+    if (new Date(lease.expiresAt).getTime() <= now || this.heartbeatMissed(lease, now)) {
+      return { renewed: false, lease: { ...lease }, reason: `Lease ${id} already expired`, capped: false };
+    }
+
+    const deadline = new Date(lease.grantedAt).getTime() + this.thresholds.maxLeaseSeconds * 1000;
+    if (deadline <= now) {
+      return { renewed: false, lease: { ...lease }, reason: `Lease ${id} reached its max lifetime (${this.thresholds.maxLeaseSeconds}s)`, capped: false };
+    }
+
+    const requested = now + ttlSeconds * 1000;
+    lease.expiresAt = new Date(Math.min(requested, deadline)).toISOString();
+    lease.lastHeartbeatAt = new Date(now).toISOString();
+    lease.renewals = (lease.renewals ?? 0) + 1;
+
+    return {
+      renewed: true,
+      lease: { ...lease },
+      reason: requested > deadline ? 'Renewed (capped at max lifetime)' : 'Renewed',
+      capped: requested > deadline,
+    };
+  }
+
+  /** True if a heartbeat lease has gone `missedHeartbeats` intervals without a renewal. */
+  heartbeatMissed(lease: BudgetLease, now: number = Date.now()): boolean {
+    if (!lease.heartbeatSeconds) return false;
+    const last = new Date(lease.lastHeartbeatAt ?? lease.grantedAt).getTime();
+    return now - last > lease.heartbeatSeconds * this.thresholds.missedHeartbeats * 1000;
+  }
+
+  /** Expire leases past their TTL and reclaim heartbeat leases whose holder went quiet. */
+  expireLeases(now: number = Date.now()): ExpiredLease[] {
+    const expired: ExpiredLease[] = [];
+    this.data.leases = this.data.leases.filter(l => {
+      if (new Date(l.expiresAt).getTime() <= now) {
+        expired.push({ ...l, cause: 'ttl' });
+        return false;
+      }
+      if (this.heartbeatMissed(l, now)) {
+        expired.push({ ...l, cause: 'heartbeat' });
+        return false;
+      }
+      return true;
+    });
+    for (const lease of expired) this.recordLeaseEnd(lease, 'expire', lease.cause, now);
     return expired;
   }
 
   /** Summary for display. */
   summarize(now: number = Date.now()): BudgetSummary {
     let hysteresisRemaining = 0;
-    if (this.data.okSinceAt && this.data.currentCap < this.data.baseCap) {
+    if (this.data.okSinceAt && this.riskCap() < this.data.baseCap) {
       const okDuration = (now - new Date(this.data.okSinceAt).getTime()) / 1000;
-      hysteresisRemaining = Math.max(0, Math.round(BUDGET_THRESHOLDS.hysteresisSeconds - okDuration));
+      hysteresisRemaining = Math.max(0, Math.round(this.thresholds.hysteresisSeconds - okDuration));
     }
 
     return {
@@ -164,14 +553,209 @@ export class Budget {
       slotsInUse: this.slotsInUse,
       slotsAvailable: this.slotsAvailable,
       activeLeases: this.data.leases.length,
+      queuedRequests: this.queueOrder(now).length,
+      queuedSlots: this.queueOrder(now).reduce((sum, w) => sum + w.slots, 0),
       capSetByRisk: this.data.capSetByRisk,
+      resourceCap: this.data.resourceCap ?? null,
+      capReason: this.capReason(),
       okSinceAt: this.data.okSinceAt,
       hysteresisRemainingSeconds: hysteresisRemaining,
     };
   }
 
   /** Get the raw data for persistence. */
-  getData(): BudgetData {
+  getData(): BudgetPoolData {
     return JSON.parse(JSON.stringify(this.data));
   }
 }
+
+/** Pool state without the nested pools (for the default pool, stored at the top level). */
+function poolState(data: BudgetData): BudgetPoolData {
+  const state: BudgetData = { ...data };
+  delete state.pools;
+  return state;
+}
+
+/**
+ * Every pool in budget.json: the default pool plus the named pools configured under
+ * budget.pools, each with its own caps, hysteresis, risk reduction, leases and queue.
+ * Open pools with `pool(name)`, change them, then persist `getData()`.
+ */
+export class BudgetPools {
+  private data: BudgetData;
+  private thresholds: BudgetThresholds;
+  private opened = new Map<string, Budget>();
+
+  constructor(data: BudgetData, thresholds?: BudgetThresholds) {
+    this.data = JSON.parse(JSON.stringify(data));
+    this.thresholds = { ...BUDGET_THRESHOLDS, ...thresholds };
+  }
+
+  /** Default pool first, then configured pools, then pools removed from config that still hold state. */
+  get names(): string[] {
+    const names = [DEFAULT_POOL, ...Object.keys(this.thresholds.pools ?? {})];
+    for (const name of Object.keys(this.data.pools ?? {})) {
+      if (!names.includes(name)) names.push(name);
+    }
+    return names;
+  }
+
+  has(name: string): boolean {
+    return this.names.includes(name);
+  }
+
+  /** A pool's thresholds: its budget.pools entry over the top-level budget settings. */
+  thresholdsFor(name: string): BudgetThresholds {
+    if (name === DEFAULT_POOL) return this.thresholds;
+    return { ...this.thresholds, ...this.thresholds.pools?.[name] };
+  }
+
+  /** Open a pool. Throws BUDGET_POOL_UNKNOWN for a name that is neither configured nor persisted. */
+  pool(name: string = DEFAULT_POOL): Budget {
+    const open = this.opened.get(name);
+    if (open) return open;
+    if (!this.has(name)) {
+      throw new GuardianError(
+        'BUDGET_POOL_UNKNOWN',
+        `Unknown budget pool "${name}" (pools: ${this.names.join(', ')})`,
+        `Configure it first, e.g. \`claude-guardian config set budget.pools.${name}.baseCap 2\`.`,
+      );
+    }
+    const thresholds = this.thresholdsFor(name);
+    const state = name === DEFAULT_POOL ? poolState(this.data) : this.data.pools?.[name] ?? emptyBudget(thresholds);
+    const budget = new Budget(state, thresholds);
+    this.opened.set(name, budget);
+    return budget;
+  }
+
+  /** Find a lease by ID in any pool. */
+  findLease(id: string): PoolLease | null {
+    for (const pool of this.names) {
+      const lease = this.pool(pool).getData().leases.find(l => l.id === id);
+      if (lease) return { pool, lease };
+    }
+    return null;
+  }
+
+  /** Release a lease by ID from whichever pool holds it. */
+  release(id: string, now: number = Date.now()): PoolLease | null {
+    const found = this.findLease(id);
+    if (found) this.pool(found.pool).release(id, now);
+    return found;
+  }
+
+  /** Release every lease owned by `pid`, in all pools. */
+  releaseByOwner(pid: number, now: number = Date.now()): PoolLease[] {
+    return this.names.flatMap(pool => this.pool(pool).releaseByOwner(pid, now).map(lease => ({ pool, lease })));
+  }
+
+  /** Ledger entries from every opened pool, labelled with their pool, oldest first. */
+  takeLedgerEntries(): LedgerEntry[] {
+    return [...this.opened]
+      .flatMap(([pool, budget]) => budget.takeLedgerEntries().map(e => ({ ...e, pool })))
+      .sort((a, b) => Date.parse(a.t) - Date.parse(b.t));
+  }
+
+  summarize(now: number = Date.now()): PoolSummary[] {
+    return this.names.map(pool => ({ pool, ...this.pool(pool).summarize(now) }));
+  }
+
+  /** Whole-budget data for persistence. Idle pools no longer in config are dropped. */
+  getData(): BudgetData {
+    const data: BudgetData = JSON.parse(JSON.stringify(this.data));
+    const pools: Record<string, BudgetPoolData> = { ...data.pools };
+    for (const [name, budget] of this.opened) {
+      if (name === DEFAULT_POOL) {
+        Object.assign(data, budget.getData());
+      } else {
+        pools[name] = budget.getData();
+      }
+    }
+    for (const [name, state] of Object.entries(pools)) {
+      if (!this.thresholds.pools?.[name] && state.leases.length === 0 && (state.queue ?? []).length === 0) {
+        delete pools[name];
+      }
+    }
+    data.pools = pools;
+    return data;
+  }
+}
+
+/** One line per pool for `budget show` / guardian_budget_get: "default: cap=4/4 | in-use=1 | available=3". */
+export function formatPoolLine(s: PoolSummary): string {
+  let line = `${s.pool}: cap=${s.currentCap}/${s.baseCap} | in-use=${s.slotsInUse} | available=${s.slotsAvailable} | leases=${s.activeLeases}`;
+  if (s.queuedRequests > 0) line += ` | queued=${s.queuedRequests}`;
+  if (s.capReason) line += ` | reduced by ${s.capReason}`;
+  if (s.hysteresisRemainingSeconds > 0) line += ` | recovery in ${s.hysteresisRemainingSeconds}s`;
+  return line;
+}
+
+/**
+ * `budget show` / guardian_budget_get output. With only the default pool this is the
+ * single-budget layout; otherwise one section per pool.
+ */
+export function formatBudget(pools: BudgetPools, now: number = Date.now()): string {
+  const lines: string[] = [];
+  // Pool sections list their leases and queue directly under the pool line
+  const details = (pool: string, spaced: boolean) => {
+    const budget = pools.pool(pool);
+    const leases = budget.getData().leases;
+    if (leases.length > 0) {
+      if (spaced) lines.push('');
+      for (const l of leases) lines.push(formatLeaseLine(l, now));
+    }
+    const queue = budget.queue(now);
+    if (queue.length > 0) {
+      if (spaced) lines.push('');
+      lines.push(`Queued: ${queue.length} request(s) for ${queue.reduce((sum, w) => sum + w.slots, 0)} slot(s)`);
+      queue.forEach((w, i) => lines.push(formatWaiterLine(w, i + 1, now)));
+    }
+  };
+
+  if (pools.names.length === 1) {
+    const s = pools.pool(DEFAULT_POOL).summarize(now);
+    lines.push(`Budget: cap=${s.currentCap}/${s.baseCap} | in-use=${s.slotsInUse} | available=${s.slotsAvailable}`);
+    lines.push(`Active leases: ${s.activeLeases}`);
+    if (s.capReason) lines.push(`Cap reduced by: ${s.capReason}`);
+    if (s.hysteresisRemainingSeconds > 0) lines.push(`Recovery in: ${s.hysteresisRemainingSeconds}s`);
+    details(DEFAULT_POOL, true);
+    return lines.join('\n');
+  }
+
+  lines.push(`Budget pools: ${pools.names.length}`);
+  for (const s of pools.summarize(now)) {
+    lines.push('');
+    lines.push(formatPoolLine(s));
+    details(s.pool, false);
+  }
+  return lines.join('\n');
+}
+
+/** One lease for `budget show` / guardian_budget_get. */
+export function formatLeaseLine(lease: BudgetLease, now: number = Date.now()): string {
+  const expiresIn = Math.max(0, Math.round((new Date(lease.expiresAt).getTime() - now) / 1000));
+  let line = `  ${lease.id}: ${lease.slots} slot(s) — "${lease.reason}" (expires in ${expiresIn}s`;
+  if (lease.heartbeatSeconds) {
+    const quiet = Math.max(0, Math.round((now - new Date(lease.lastHeartbeatAt ?? lease.grantedAt).getTime()) / 1000));
+    line += ` | heartbeat every ${lease.heartbeatSeconds}s, last ${quiet}s ago`;
+  }
+  if (lease.renewals) {
+    line += ` | renewed ${lease.renewals}x`;
+  }
+  line += ')';
+  if (lease.owner) {
+    line += ` — owner PID ${lease.owner.pid}`;
+    if (lease.owner.sessionId) line += ` (session ${lease.owner.sessionId.substring(0, 8)})`;
+    if (lease.owner.cwd) line += ` in ${lease.owner.cwd}`;
+  }
+  return line;
+}
+
+/** One queued request for `budget show` / guardian_budget_get. */
+export function formatWaiterLine(waiter: BudgetWaiter, position: number, now: number = Date.now()): string {
+  const waited = Math.max(0, Math.round((now - new Date(waiter.enqueuedAt).getTime()) / 1000));
+  const left = Math.max(0, Math.round((new Date(waiter.waitUntil).getTime() - now) / 1000));
+  let line = `  #${position} ${waiter.id}: ${waiter.slots} slot(s) — "${waiter.reason}" (${waiter.priority}, waiting ${waited}s, gives up in ${left}s)`;
+  if (waiter.owner) line += ` — owner PID ${waiter.owner.pid}`;
+  return line;
+}
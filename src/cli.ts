@@ -2,18 +2,40 @@
 
 import { Command } from 'commander';
 import { scanLogs, fixLogs, formatPreflightReport, formatFixReport, healthBanner } from './log-manager.js';
+import { planFixes, applyFixPlan, readFixPlan, writeFixPlan, formatFixPlan } from './fix-plan.js';
+import { listTrash, restoreFromTrash, purgeTrash, formatTrashList } from './trash.js';
+import { readArchiveIndex, extractArchive, pruneArchives, formatArchiveList } from './archive.js';
 import { generateBundle, formatDoctorReport } from './doctor.js';
 import { Watchdog, formatHealthStatus } from './watchdog.js';
 import { startMcpServer, formatBanner } from './mcp-server.js';
 import { startWatchDaemon } from './watch-daemon.js';
 import { findClaudeProcesses, checkActivitySignals, assessHangRisk, recommendActions } from './process-monitor.js';
+import { attachProcessTrees, topDescendants } from './process-tree.js';
+import { formatSessionLine, resolveLeaseOwner } from './session-tracker.js';
+import { Notifier, startWebhookStub, testEvent } from './notifier.js';
+import { formatRedactionSummary, REDACTION_LEVELS } from './redaction.js';
+import {
+  loadIncidentHistory, filterIncidents, findIncidents, computeIncidentStats, resolveIncidentRange,
+  formatIncidentList, formatIncident, formatIncidentStats, type IncidentFilter,
+} from './incident-history.js';
 import { readState, isStateFresh, computeAttention } from './state.js';
-import { getDiskFreeGB, bytesToMB, pathExists, dirSize } from './fs-utils.js';
-import { DEFAULT_CONFIG, getClaudeProjectsPath } from './defaults.js';
-import { Budget } from './budget.js';
-import { readBudget, writeBudget, emptyBudget } from './budget-store.js';
+import { getDiskFreeGB, bytesToMB, pathExists, dirSize, writeJournalEntry } from './fs-utils.js';
+import { DEFAULT_CONFIG, NOTIFICATION_CONFIG, TRASH_CONFIG, ARCHIVE_CONFIG, getClaudeProjectsPath, getConfigPath } from './defaults.js';
+import {
+  loadConfig, loadConfigWithSources, readConfigFile, writeConfigFile, setConfigValue,
+  validateConfigFile, mergeConfig, PROJECT_CONFIG_FILENAME, isGlobalOnlyKey,
+} from './config.js';
+import { BudgetPools, BUDGET_PRIORITIES, DEFAULT_POOL, formatBudget, type PoolLease } from './budget.js';
+import { acquireWithWait } from './budget-queue.js';
+import { readBudget, withBudgetLock } from './budget-store.js';
+import { saveBudget, readLedger, computeBudgetReport, formatBudgetReport } from './budget-ledger.js';
 import { GuardianError } from './errors.js';
+import {
+  MetricsStore, resolveTimeRange, formatMetricsReport, METRIC_NAMES,
+  type MetricName, type MetricsResolution,
+} from './metrics-store.js';
 import { homedir } from 'os';
+import { join, resolve } from 'path';
 import { createRequire } from 'node:module';
 import type { GuardianConfig } from './types.js';
 import type { GuardianState } from './state.js';
@@ -42,13 +64,28 @@ program
   .command('preflight')
   .description('Scan Claude logs and report issues. Use --fix to auto-repair.')
   .option('--fix', 'Automatically rotate/trim/compress oversized logs', false)
+  .option('--plan [path]', 'Write every file --fix would rotate/trim/delete to a plan file, changing nothing (default: ~/.claude-guardian/fix-plan.json)')
+  .option('--apply <plan>', 'Apply exactly the changes in a plan file; refuses if any file changed since planning')
   .option('--aggressive', 'Enable aggressive mode: shorter retention, lower thresholds', false)
-  .option('--max-log-mb <mb>', 'Max project log directory size in MB', String(DEFAULT_CONFIG.maxProjectLogDirMB))
+  .option('--max-log-mb <mb>', `Max project log directory size in MB (default: config, ${DEFAULT_CONFIG.maxProjectLogDirMB})`)
   .action(async (opts) => {
-    const config: GuardianConfig = {
-      ...DEFAULT_CONFIG,
-      maxProjectLogDirMB: parseInt(opts.maxLogMb, 10),
-    };
+    if ([opts.fix, opts.plan !== undefined, opts.apply !== undefined].filter(Boolean).length > 1) {
+      console.error('Use only one of --fix, --plan and --apply.');
+      process.exitCode = 1;
+      return;
+    }
+    const config: GuardianConfig = await loadConfig(process.cwd());
+    if (opts.maxLogMb !== undefined) {
+      config.maxProjectLogDirMB = parseInt(opts.maxLogMb, 10);
+    }
+
+    if (opts.apply !== undefined) {
+      const plan = await readFixPlan(resolve(opts.apply));
+      console.log(`Applying plan from ${plan.createdAt} (${plan.items.length} item(s))...\n`);
+      const actions = await applyFixPlan(plan, config);
+      console.log(formatFixReport(actions));
+      return;
+    }
 
     console.log('Scanning Claude logs...\n');
     const result = await scanLogs(config);
@@ -59,6 +96,14 @@ program
       console.log('\nApplying fixes...\n');
       const actions = await fixLogs(config, opts.aggressive);
       console.log(formatFixReport(actions));
+    } else if (opts.plan !== undefined) {
+      const plan = await planFixes(config, opts.aggressive);
+      const planPath = await writeFixPlan(plan, opts.plan === true ? undefined : resolve(opts.plan));
+      console.log('\n' + formatFixPlan(plan));
+      console.log(`\nPlan saved: ${planPath}`);
+      if (plan.items.length > 0) {
+        console.log(`Review it, then run: claude-guardian preflight --apply ${planPath}`);
+      }
     } else if (result.actions.length > 0) {
       console.log('\nRun with --fix to auto-repair issues.');
     }
@@ -69,11 +114,35 @@ program
   .command('doctor')
   .description('Generate a diagnostics bundle (zip) with system info, log tails, and action journal.')
   .option('-o, --out <path>', 'Output path for the zip bundle')
+  .option('--redact <level>', 'Redaction level: strict, standard or off (default: config redaction.level)')
+  .option('--deep', 'Add process-deep.json: /proc status, wchan, kernel stack, per-thread CPU and sockets of each Claude process (Linux)')
+  .option('--pid <pid>', 'With --deep: capture only this PID', (v) => parseInt(v, 10))
+  .option('--inspect', 'With --deep: also pull a JS stack via the Node inspector (sends SIGUSR1 if no inspector is listening)')
   .action(async (opts) => {
+    if (opts.redact !== undefined && !REDACTION_LEVELS.includes(opts.redact)) {
+      console.error(`Invalid --redact "${opts.redact}". Use one of: ${REDACTION_LEVELS.join(', ')}.`);
+      process.exitCode = 1;
+      return;
+    }
+    if ((opts.inspect || opts.pid !== undefined) && !opts.deep) {
+      console.error('--inspect and --pid only apply with --deep.');
+      process.exitCode = 1;
+      return;
+    }
+    if (opts.pid !== undefined && (isNaN(opts.pid) || opts.pid <= 0)) {
+      console.error('--pid must be a positive process ID.');
+      process.exitCode = 1;
+      return;
+    }
     console.log('Generating diagnostics bundle...\n');
-    const bundle = await generateBundle(opts.out);
+    const config = await loadConfig(process.cwd());
+    const deep = opts.deep
+      ? { pids: opts.pid !== undefined ? [opts.pid] : undefined, inspector: !!opts.inspect }
+      : undefined;
+    const bundle = await generateBundle(opts.out, config, { redact: opts.redact, deep });
     console.log(formatDoctorReport(bundle.summary));
-    console.log(`\nBundle saved: ${bundle.zipPath}`);
+    console.log(`\n${formatRedactionSummary(bundle.redaction)}`);
+    console.log(`Bundle saved: ${bundle.zipPath}`);
   });
 
 // ─── run ───
@@ -81,15 +150,14 @@ program
   .command('run')
   .description('Launch a command with watchdog monitoring. Captures bundles on crash/hang.')
   .argument('<command...>', 'The command to run (e.g., "claude" or "node server.js")')
-  .option('--auto-restart', 'Automatically restart on crash/hang', DEFAULT_CONFIG.autoRestart)
-  .option('--hang-timeout <seconds>', 'Seconds of inactivity before declaring a hang', String(DEFAULT_CONFIG.hangNoActivitySeconds))
-  .option('--max-log-mb <mb>', 'Max project log directory size in MB', String(DEFAULT_CONFIG.maxProjectLogDirMB))
+  .option('--auto-restart', `Automatically restart on crash/hang (default: config, ${DEFAULT_CONFIG.autoRestart})`)
+  .option('--hang-timeout <seconds>', `Seconds of inactivity before declaring a hang (default: config, ${DEFAULT_CONFIG.hangNoActivitySeconds})`)
+  .option('--max-log-mb <mb>', `Max project log directory size in MB (default: config, ${DEFAULT_CONFIG.maxProjectLogDirMB})`)
   .action(async (commandParts: string[], opts) => {
-    const config: GuardianConfig = {
-      maxProjectLogDirMB: parseInt(opts.maxLogMb, 10),
-      hangNoActivitySeconds: parseInt(opts.hangTimeout, 10),
-      autoRestart: opts.autoRestart,
-    };
+    const config: GuardianConfig = await loadConfig(process.cwd());
+    if (opts.maxLogMb !== undefined) config.maxProjectLogDirMB = parseInt(opts.maxLogMb, 10);
+    if (opts.hangTimeout !== undefined) config.hangNoActivitySeconds = parseInt(opts.hangTimeout, 10);
+    if (opts.autoRestart !== undefined) config.autoRestart = opts.autoRestart;
 
     // Run preflight first
     console.log('[guardian] Running preflight check...');
@@ -157,14 +225,27 @@ program
 program
   .command('watch')
   .description('Run background daemon: monitor Claude Code processes, track health, persist state for MCP.')
-  .option('--hang-timeout <seconds>', 'Seconds of inactivity before warning', String(DEFAULT_CONFIG.hangNoActivitySeconds))
+  .option('--hang-timeout <seconds>', `Seconds of inactivity before warning (default: config, ${DEFAULT_CONFIG.hangNoActivitySeconds})`)
   .option('--auto-fix', 'Auto-run preflight fixes when disk is low', false)
   .option('--verbose', 'Print every poll cycle', false)
+  .option('--metrics-port <port>', 'Serve OpenMetrics at http://127.0.0.1:<port>/metrics (default: config exporter.*, off)')
   .action(async (opts) => {
+    // The daemon is machine-wide, so only the global config.json applies (no project overrides)
+    let config = await loadConfig();
+    if (opts.metricsPort !== undefined) {
+      const port = parseInt(opts.metricsPort, 10);
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        console.error(`Invalid --metrics-port: ${opts.metricsPort}. Use a port between 1 and 65535.`);
+        process.exitCode = 1;
+        return;
+      }
+      config = mergeConfig(config, { exporter: { enabled: true, port } });
+    }
     await startWatchDaemon({
-      hangTimeoutSeconds: parseInt(opts.hangTimeout, 10),
+      hangTimeoutSeconds: opts.hangTimeout !== undefined ? parseInt(opts.hangTimeout, 10) : config.hangNoActivitySeconds,
       autoFix: opts.autoFix,
       verbose: opts.verbose,
+      config,
     });
   });
 
@@ -184,6 +265,7 @@ program
       printFullStatus(state);
     } else {
       // No daemon — build a live state snapshot
+      const config = await loadConfig(process.cwd());
       const diskFreeGB = await getDiskFreeGB(homedir());
       const claudePath = getClaudeProjectsPath();
       let claudeLogSizeMB = 0;
@@ -192,12 +274,17 @@ program
       }
 
       const { processes } = await findClaudeProcesses();
-      const activity = await checkActivitySignals(processes);
+      await attachProcessTrees(processes);
+      const activity = await checkActivitySignals(processes, null, config.thresholds, {
+        hangThresholdSeconds: config.hangNoActivitySeconds,
+      });
       const hangRisk = assessHangRisk(
         processes, activity, diskFreeGB,
-        DEFAULT_CONFIG.hangNoActivitySeconds,
+        config.hangNoActivitySeconds,
         0, // processAgeSeconds — unknown without daemon
         0, // compositeQuietSeconds — unknown without daemon
+        config.thresholds,
+        config.activity,
       );
       const actions = recommendActions(hangRisk);
 
@@ -206,8 +293,10 @@ program
         daemonRunning: false,
         daemonPid: null,
         claudeProcesses: processes,
+        topDescendants: topDescendants(processes),
         activity,
         hangRisk,
+        sessions: [],
         recommendedActions: actions,
         diskFreeGB: Math.round(diskFreeGB * 100) / 100,
         claudeLogSizeMB,
@@ -228,7 +317,7 @@ program
 
       // Also show log scan when no daemon
       console.log('');
-      const result = await scanLogs();
+      const result = await scanLogs(config);
       console.log(formatPreflightReport(result));
       console.log('\n' + healthBanner(result));
     }
@@ -249,20 +338,36 @@ function printFullStatus(state: GuardianState): void {
     for (const p of state.claudeProcesses) {
       let line = `  PID ${p.pid} (${p.name}): CPU ${p.cpuPercent}% | RAM ${p.memoryMB}MB`;
       if (p.handleCount != null) {
-        line += ` | handles=${p.handleCount}`;
+        line += ` | handles=${p.handleCount}${p.handleLimit ? `/${p.handleLimit}` : ''}`;
       }
       line += ` | up ${fmtUptime(p.uptimeSeconds)}`;
       console.log(line);
+      if (p.tree && p.tree.descendantCount > 0) {
+        console.log(`    tree: ${p.tree.descendantCount} descendant(s) | CPU ${p.tree.treeCpuPercent}% | RAM ${p.tree.treeMemoryMB}MB${p.tree.treeHandleCount != null ? ` | handles=${p.tree.treeHandleCount}` : ''}`);
+      }
     }
   } else {
     console.log('Claude processes: none detected');
   }
+  if (state.topDescendants.length > 0) {
+    console.log('Top descendants:');
+    for (const d of state.topDescendants) {
+      console.log(`  PID ${d.pid} (${d.name}) under ${d.rootPid}: CPU ${d.cpuPercent}% | RAM ${d.memoryMB}MB${d.handleCount != null ? ` | handles=${d.handleCount}` : ''}`);
+    }
+  }
+  if (state.sessions.length > 0) {
+    console.log('Sessions:');
+    for (const s of state.sessions) {
+      console.log(`  ${formatSessionLine(s)}`);
+    }
+  }
   console.log('');
 
   // Signals
   console.log('Signals:');
   console.log(`  Log activity: ${state.activity.logLastModifiedSecondsAgo >= 0 ? state.activity.logLastModifiedSecondsAgo + 's ago' : 'unknown'}`);
   console.log(`  CPU active: ${state.activity.cpuActive ? 'yes' : 'no'}`);
+  console.log(`  Sources: ${state.activity.sources.join(', ') || 'none'}`);
   if (state.hangRisk.graceRemainingSeconds > 0) {
     console.log(`  Grace remaining: ${state.hangRisk.graceRemainingSeconds}s`);
   }
@@ -292,8 +397,8 @@ function printFullStatus(state: GuardianState): void {
     console.log('');
     const b = state.budgetSummary;
     console.log(`Budget: cap=${b.currentCap}/${b.baseCap} | in-use=${b.slotsInUse} | available=${b.slotsAvailable}`);
-    if (b.capSetByRisk) {
-      console.log(`  Reduced by: ${b.capSetByRisk}`);
+    if (b.capReason ?? b.capSetByRisk) {
+      console.log(`  Reduced by: ${b.capReason ?? b.capSetByRisk}`);
     }
     if (b.hysteresisRemainingSeconds > 0) {
       console.log(`  Recovery in: ${b.hysteresisRemainingSeconds}s`);
@@ -334,27 +439,12 @@ budgetCmd
       console.log('[guardian] No budget state. Start the daemon or run `budget acquire` to initialize.');
       return;
     }
-    const budget = new Budget(data);
-    budget.expireLeases();
-    const s = budget.summarize();
-
-    console.log(`Budget: cap=${s.currentCap}/${s.baseCap} | in-use=${s.slotsInUse} | available=${s.slotsAvailable}`);
-    console.log(`Active leases: ${s.activeLeases}`);
-    if (s.capSetByRisk) {
-      console.log(`Cap reduced by: ${s.capSetByRisk}`);
-    }
-    if (s.hysteresisRemainingSeconds > 0) {
-      console.log(`Recovery in: ${s.hysteresisRemainingSeconds}s`);
-    }
-
-    // Show individual leases
-    if (data.leases.length > 0) {
-      console.log('');
-      for (const l of data.leases) {
-        const expiresIn = Math.max(0, Math.round((new Date(l.expiresAt).getTime() - Date.now()) / 1000));
-        console.log(`  ${l.id}: ${l.slots} slot(s) — "${l.reason}" (expires in ${expiresIn}s)`);
-      }
+    const config = await loadConfig(process.cwd());
+    const pools = new BudgetPools(data, config.budget);
+    for (const name of pools.names) {
+      pools.pool(name).expireLeases();
     }
+    console.log(formatBudget(pools));
   });
 
 budgetCmd
@@ -363,36 +453,452 @@ budgetCmd
   .argument('<slots>', 'Number of slots to acquire')
   .option('--ttl <seconds>', 'Lease time-to-live in seconds', '60')
   .option('--reason <text>', 'Reason for acquiring', 'manual')
+  .option('--heartbeat <seconds>', 'Promise to renew at least this often; the lease is reclaimed after missed heartbeats')
+  .option('--owner-pid <pid>', 'Process that owns the lease (default: the calling Claude session, else the parent shell)')
+  .option('--wait <seconds>', 'Wait in the queue up to this long if slots are short (default: deny immediately)')
+  .option('--priority <class>', `Queue priority: ${BUDGET_PRIORITIES.join(', ')}`, 'normal')
+  .option('--pool <name>', 'Budget pool to acquire from (see budget.pools in config)', DEFAULT_POOL)
   .action(async (slotsStr: string, opts) => {
-    const data = await readBudget() ?? emptyBudget();
-    const budget = new Budget(data);
-    budget.expireLeases();
-    const result = budget.acquire(parseInt(slotsStr, 10), parseInt(opts.ttl, 10), opts.reason);
-    await writeBudget(budget.getData());
+    if (!BUDGET_PRIORITIES.includes(opts.priority)) {
+      console.error(`Unknown priority "${opts.priority}". Use one of: ${BUDGET_PRIORITIES.join(', ')}`);
+      process.exitCode = 1;
+      return;
+    }
+    const config = await loadConfig(process.cwd());
+    const heartbeat = opts.heartbeat !== undefined ? parseInt(opts.heartbeat, 10) : null;
+    const owner = await resolveLeaseOwner(opts.ownerPid !== undefined ? parseInt(opts.ownerPid, 10) : undefined);
+    const result = await acquireWithWait(parseInt(slotsStr, 10), parseInt(opts.ttl, 10), opts.reason, config.budget, {
+      heartbeatSeconds: heartbeat,
+      owner,
+      waitSeconds: opts.wait !== undefined ? parseInt(opts.wait, 10) : undefined,
+      priority: opts.priority,
+      pool: opts.pool,
+      onQueued: queued => console.log(`${queued.reason}...`),
+    });
 
     if (result.granted) {
-      console.log(`Lease granted: ${result.lease!.id} (${result.lease!.slots} slot(s), TTL ${opts.ttl}s)`);
-      console.log(`Budget: ${result.slotsInUse}/${result.currentCap} in use`);
+      const l = result.lease!;
+      const ttl = Math.round((Date.parse(l.expiresAt) - Date.parse(l.grantedAt)) / 1000);
+      const hb = l.heartbeatSeconds ? `, heartbeat every ${l.heartbeatSeconds}s` : '';
+      const waited = result.waitedSeconds > 0 ? `, waited ${result.waitedSeconds}s` : '';
+      console.log(`Lease granted: ${l.id} (${l.slots} slot(s), TTL ${ttl}s${hb}, owner PID ${owner.pid}${waited})`);
+      console.log(`Budget${opts.pool !== DEFAULT_POOL ? ` (${opts.pool})` : ''}: ${result.slotsInUse}/${result.currentCap} in use`);
     } else {
       console.error(`Denied: ${result.reason}`);
       process.exitCode = 1;
     }
   });
 
+budgetCmd
+  .command('renew')
+  .description('Renew (heartbeat) a lease so it does not expire mid-work.')
+  .argument('<id>', 'Lease ID to renew')
+  .option('--ttl <seconds>', 'New time-to-live from now in seconds', '60')
+  .action(async (id: string, opts) => {
+    const config = await loadConfig(process.cwd());
+    const result = await withBudgetLock(async () => {
+      const data = await readBudget();
+      if (!data) return null;
+      const pools = new BudgetPools(data, config.budget);
+      const budget = pools.pool(pools.findLease(id)?.pool);
+      budget.expireLeases();
+      const renewed = budget.renew(id, parseInt(opts.ttl, 10));
+      await saveBudget(pools);
+      if (renewed.renewed) {
+        await writeJournalEntry({
+          timestamp: new Date().toISOString(),
+          action: 'lease-renewed',
+          detail: `Lease ${id} renewed until ${renewed.lease!.expiresAt} (renewal #${renewed.lease!.renewals}${renewed.capped ? ', capped at max lifetime' : ''})`,
+        });
+      }
+      return renewed;
+    });
+    if (result === null) {
+      console.error('[guardian] No budget state.');
+      process.exitCode = 1;
+      return;
+    }
+    if (!result.renewed) {
+      console.error(`Not renewed: ${result.reason}`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(`${result.reason}: ${id} expires at ${result.lease!.expiresAt} (renewals: ${result.lease!.renewals})`);
+  });
+
 budgetCmd
   .command('release')
-  .description('Release a lease by ID.')
-  .argument('<id>', 'Lease ID to release')
-  .action(async (id: string) => {
-    const data = await readBudget();
-    if (!data) {
+  .description('Release a lease by ID, or every lease held by one process.')
+  .argument('[id]', 'Lease ID to release')
+  .option('--owner <pid>', 'Release all leases owned by this PID (one Claude session)')
+  .action(async (id: string | undefined, opts) => {
+    const config = await loadConfig(process.cwd());
+    const ownerPid = opts.owner !== undefined ? parseInt(opts.owner, 10) : undefined;
+    if ((id === undefined) === (ownerPid === undefined) || (ownerPid !== undefined && isNaN(ownerPid))) {
+      console.error('Give either a lease ID or --owner <pid>.');
+      process.exitCode = 1;
+      return;
+    }
+    const released = await withBudgetLock(async () => {
+      const data = await readBudget();
+      if (!data) return null;
+      const pools = new BudgetPools(data, config.budget);
+      let leases: PoolLease[];
+      if (ownerPid !== undefined) {
+        leases = pools.releaseByOwner(ownerPid);
+      } else {
+        const found = pools.release(id!);
+        leases = found ? [found] : [];
+      }
+      await saveBudget(pools);
+      for (const { pool, lease } of leases) {
+        await writeJournalEntry({
+          timestamp: new Date().toISOString(),
+          action: 'lease-released',
+          detail: `Lease ${lease.id} released (${lease.slots} slot(s), reason: "${lease.reason}"${pool !== DEFAULT_POOL ? `, pool ${pool}` : ''}${ownerPid !== undefined ? `, owner PID ${ownerPid}` : ''})`,
+        });
+      }
+      return leases;
+    });
+    if (released === null) {
       console.log('[guardian] No budget state.');
       return;
     }
-    const budget = new Budget(data);
-    const released = budget.release(id);
-    await writeBudget(budget.getData());
-    console.log(released ? `Lease ${id} released.` : `Lease ${id} not found.`);
+    if (ownerPid !== undefined) {
+      const slots = released.reduce((sum, { lease }) => sum + lease.slots, 0);
+      console.log(released.length > 0
+        ? `Released ${released.length} lease(s) (${slots} slot(s)) owned by PID ${ownerPid}.`
+        : `No leases owned by PID ${ownerPid}.`);
+      return;
+    }
+    console.log(released.length > 0 ? `Lease ${id} released.` : `Lease ${id} not found.`);
+  });
+
+budgetCmd
+  .command('report')
+  .description('Budget usage from the ledger: slot-seconds by reason and owner, denials, waits, peak concurrency, reduced caps.')
+  .option('--since <time>', 'Range start: duration ago (10m, 2h, 7d) or ISO timestamp', '24h')
+  .option('--until <time>', 'Range end: duration ago or ISO timestamp (default: now)')
+  .option('--pool <name>', 'Only this budget pool (default: all pools)')
+  .option('--json', 'Print raw JSON', false)
+  .action(async (opts) => {
+    const { from, to } = resolveTimeRange(opts.since, opts.until);
+    const report = computeBudgetReport(await readLedger(), { from, to, pool: opts.pool });
+    console.log(opts.json ? JSON.stringify(report, null, 2) : formatBudgetReport(report));
+  });
+
+// ─── metrics ───
+program
+  .command('metrics')
+  .description('Show historical metrics recorded by the watch daemon.')
+  .option('--since <time>', 'Range start: duration ago (10m, 2h, 7d) or ISO timestamp', '10m')
+  .option('--until <time>', 'Range end: duration ago or ISO timestamp (default: now)')
+  .option('--metric <names>', `Comma-separated metrics (${METRIC_NAMES.join(', ')})`)
+  .option('--resolution <res>', 'Bucket size: auto, 2s, 1m, 1h', 'auto')
+  .option('--points <n>', 'Max points per metric', '30')
+  .option('--json', 'Print raw JSON', false)
+  .action(async (opts) => {
+    const metrics = opts.metric
+      ? (opts.metric as string).split(',').map(m => m.trim()).filter(Boolean)
+      : undefined;
+    const unknown = metrics?.filter(m => !(METRIC_NAMES as readonly string[]).includes(m)) ?? [];
+    if (unknown.length > 0) {
+      console.error(`Unknown metric(s): ${unknown.join(', ')}. Valid: ${METRIC_NAMES.join(', ')}`);
+      process.exitCode = 1;
+      return;
+    }
+    if (!['auto', '2s', '1m', '1h'].includes(opts.resolution)) {
+      console.error(`Unknown resolution: ${opts.resolution}. Valid: auto, 2s, 1m, 1h`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const { from, to } = resolveTimeRange(opts.since, opts.until);
+    const result = await new MetricsStore().query({
+      from, to,
+      metrics: metrics as MetricName[] | undefined,
+      resolution: opts.resolution as MetricsResolution | 'auto',
+      maxPoints: parseInt(opts.points, 10),
+    });
+    console.log(opts.json ? JSON.stringify(result, null, 2) : formatMetricsReport(result));
+  });
+
+// ─── incidents ───
+const incidentsCmd = program
+  .command('incidents')
+  .description('Browse incident history recorded by the watch daemon (list/show/stats).');
+
+/** Shared filter flags for `incidents list` and `incidents stats`. */
+function addIncidentFilterOptions(cmd: Command): Command {
+  return cmd
+    .option('--since <time>', 'Only incidents started after: duration ago (7d, 12h) or ISO timestamp')
+    .option('--until <time>', 'Only incidents started before: duration ago or ISO timestamp')
+    .option('--level <level>', 'Only incidents that peaked at this level (warn, critical)')
+    .option('--bundle', 'Only incidents with a captured bundle')
+    .option('--no-bundle', 'Only incidents without a captured bundle')
+    .option('--json', 'Print raw JSON', false);
+}
+
+/** Parse filter flags; prints an error and returns null on bad input. */
+function parseIncidentFilter(opts: { since?: string; until?: string; level?: string; bundle?: boolean }): IncidentFilter | null {
+  if (opts.level !== undefined && opts.level !== 'warn' && opts.level !== 'critical') {
+    console.error(`Unknown level: ${opts.level}. Valid: warn, critical`);
+    process.exitCode = 1;
+    return null;
+  }
+  return {
+    ...resolveIncidentRange(opts.since, opts.until),
+    peakLevel: opts.level as IncidentFilter['peakLevel'],
+    hasBundle: opts.bundle,
+  };
+}
+
+addIncidentFilterOptions(
+  incidentsCmd
+    .command('list', { isDefault: true })
+    .description('List incidents, newest first.')
+    .option('--limit <n>', 'Show at most N incidents', '20'),
+).action(async (opts) => {
+  const filter = parseIncidentFilter(opts);
+  if (!filter) return;
+  const incidents = filterIncidents(await loadIncidentHistory(), filter).slice(-parseInt(opts.limit, 10));
+  console.log(opts.json ? JSON.stringify(incidents, null, 2) : formatIncidentList(incidents));
+});
+
+incidentsCmd
+  .command('show')
+  .description('Show one incident in full.')
+  .argument('<id>', 'Incident ID or unique prefix (as shown by `incidents list`)')
+  .option('--json', 'Print raw JSON', false)
+  .action(async (id: string, opts) => {
+    const matches = findIncidents(await loadIncidentHistory(), id);
+    if (matches.length !== 1) {
+      console.error(matches.length === 0
+        ? `Incident ${id} not found.`
+        : `Incident prefix ${id} is ambiguous (${matches.length} matches). Use more characters.`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(opts.json ? JSON.stringify(matches[0], null, 2) : formatIncident(matches[0]));
+  });
+
+addIncidentFilterOptions(
+  incidentsCmd
+    .command('stats')
+    .description('MTTR, incidents per day, and the most common reasons.'),
+).action(async (opts) => {
+  const filter = parseIncidentFilter(opts);
+  if (!filter) return;
+  const stats = computeIncidentStats(filterIncidents(await loadIncidentHistory(), filter), filter);
+  console.log(opts.json ? JSON.stringify(stats, null, 2) : formatIncidentStats(stats));
+});
+
+// ─── trash ───
+const trashCmd = program
+  .command('trash')
+  .description('Stale sessions removed by preflight fixes (list/restore/purge).');
+
+trashCmd
+  .command('list', { isDefault: true })
+  .description('List quarantined sessions, newest first.')
+  .option('--json', 'Print raw JSON', false)
+  .action(async (opts) => {
+    const config = await loadConfig();
+    const items = await listTrash();
+    console.log(opts.json ? JSON.stringify(items, null, 2) : formatTrashList(items, config.trash ?? TRASH_CONFIG));
+  });
+
+trashCmd
+  .command('restore')
+  .description('Move a quarantined session back to where it was.')
+  .argument('<id>', 'Trash ID or unique prefix (as shown by `trash list`)')
+  .action(async (id: string) => {
+    const item = await restoreFromTrash(id);
+    console.log(`Restored ${item.originalPath} (${bytesToMB(item.sizeBytes)}MB)`);
+  });
+
+trashCmd
+  .command('purge')
+  .description('Permanently delete trash items older than trash.maxAgeDays or above trash.maxSizeMB.')
+  .option('--all', 'Empty the trash completely', false)
+  .action(async (opts) => {
+    const config = await loadConfig();
+    const result = await purgeTrash(config.trash ?? TRASH_CONFIG, { all: opts.all });
+    console.log(`Purged ${result.purged.length} item(s), freed ${bytesToMB(result.freedBytes)}MB. ` +
+      `${result.remaining} item(s), ${bytesToMB(result.remainingBytes)}MB left.`);
+  });
+
+// ─── archive ───
+const archiveCmd = program
+  .command('archive')
+  .description('Archived sessions of oversized projects (list/extract/prune).');
+
+archiveCmd
+  .command('list', { isDefault: true })
+  .description('List archives, newest first.')
+  .option('--json', 'Print raw JSON (includes the sessions in each archive)', false)
+  .action(async (opts) => {
+    const config = await loadConfig();
+    const entries = await readArchiveIndex();
+    console.log(opts.json ? JSON.stringify(entries, null, 2) : formatArchiveList(entries, config.archive ?? ARCHIVE_CONFIG));
+  });
+
+archiveCmd
+  .command('extract')
+  .description('Unpack an archive back into ~/.claude/projects (or --to <dir>).')
+  .argument('<id>', 'Archive ID or unique prefix (as shown by `archive list`)')
+  .option('--to <dir>', 'Extract under this directory instead')
+  .option('--session <id>', 'Only the session(s) whose name starts with this')
+  .action(async (id: string, opts) => {
+    const result = await extractArchive(id, {
+      destination: opts.to ? resolve(opts.to) : undefined,
+      session: opts.session,
+    });
+    console.log(`Extracted ${result.files} file(s), ${bytesToMB(result.bytes)}MB to ${join(result.destination, result.entry.project)}`);
+  });
+
+archiveCmd
+  .command('prune')
+  .description('Delete the oldest archives while the total is above archive.maxTotalMB.')
+  .option('--all', 'Delete every archive', false)
+  .action(async (opts) => {
+    const config = await loadConfig();
+    const result = await pruneArchives(config.archive ?? ARCHIVE_CONFIG, { all: opts.all });
+    console.log(`Pruned ${result.pruned.length} archive(s), freed ${bytesToMB(result.freedBytes)}MB. ` +
+      `${result.remaining} archive(s), ${bytesToMB(result.remainingBytes)}MB left.`);
+  });
+
+// ─── config ───
+const configCmd = program
+  .command('config')
+  .description('View, change, and validate the guardian config file.');
+
+configCmd
+  .command('show', { isDefault: true })
+  .description('Show the effective config (defaults + config.json + project overrides).')
+  .action(async () => {
+    const { config, sources } = await loadConfigWithSources(process.cwd());
+    console.log(`Config file: ${getConfigPath()}`);
+    console.log(`Sources: ${sources.length > 0 ? sources.join(', ') : 'none (built-in defaults)'}`);
+    console.log('');
+    console.log(JSON.stringify(config, null, 2));
+  });
+
+configCmd
+  .command('set')
+  .description('Set a config value by dotted key (e.g. thresholds.retainDays 14).')
+  .argument('<key>', 'Config key, e.g. maxProjectLogDirMB or budget.baseCap')
+  .argument('<value>', 'New value (parsed as JSON when possible)')
+  .option('--project', `Write to ./${PROJECT_CONFIG_FILENAME} instead of the global config`, false)
+  .action(async (key: string, value: string, opts) => {
+    if (opts.project && isGlobalOnlyKey(key)) {
+      console.error(`${key} can only be set in the global config (drop --project).`);
+      process.exitCode = 1;
+      return;
+    }
+    if (opts.project && key === 'redaction.level' && value.replace(/"/g, '') === 'off') {
+      console.error('redaction can only be turned off in the global config (drop --project).');
+      process.exitCode = 1;
+      return;
+    }
+    const filePath = opts.project ? join(process.cwd(), PROJECT_CONFIG_FILENAME) : getConfigPath();
+    const current = await readConfigFile(filePath) ?? {};
+    const updated = setConfigValue(current, key, value);
+    await writeConfigFile(updated, filePath);
+    console.log(`Set ${key} = ${value} in ${filePath}`);
+  });
+
+configCmd
+  .command('validate')
+  .description('Validate config files. Exits 1 if any file is invalid.')
+  .argument('[file]', 'Config file to validate (default: global config + ./' + PROJECT_CONFIG_FILENAME + ')')
+  .action(async (file?: string) => {
+    const targets = file ? [file] : [getConfigPath(), join(process.cwd(), PROJECT_CONFIG_FILENAME)];
+    let checked = 0;
+    for (const target of targets) {
+      const result = await validateConfigFile(target);
+      if (!result) {
+        if (file) {
+          console.error(`${target}: not found`);
+          process.exitCode = 1;
+        }
+        continue;
+      }
+      checked++;
+      if (result.valid) {
+        console.log(`${target}: OK`);
+      } else {
+        console.error(`${target}: INVALID`);
+        for (const e of result.errors) {
+          console.error(`  - ${e}`);
+        }
+        process.exitCode = 1;
+      }
+    }
+    if (checked === 0 && !file) {
+      console.log('No config files found. Built-in defaults apply.');
+    }
+  });
+
+// ─── notify ───
+const notifyCmd = program
+  .command('notify')
+  .description('Test notification sinks (webhook, desktop, command).');
+
+notifyCmd
+  .command('test')
+  .description('Send a test event to every configured sink. Exits 1 if any sink fails.')
+  .option('--stub', 'Send the webhook to a temporary local stub and print the payload it received', false)
+  .action(async (opts) => {
+    const config = (await loadConfig()).notifications ?? NOTIFICATION_CONFIG;
+    const stub = opts.stub ? await startWebhookStub({ host: '127.0.0.1', port: 0 }) : null;
+    try {
+      const notifier = new Notifier(stub ? { ...config, webhookUrl: stub.url } : config);
+      if (notifier.sinks.length === 0) {
+        console.error('No notification sinks configured. Set notifications.webhookUrl, notifications.desktop or notifications.command (see `claude-guardian config show`), or pass --stub.');
+        process.exitCode = 1;
+        return;
+      }
+
+      const result = await notifier.notify(testEvent());
+      for (const r of result.sinks) {
+        const attempts = r.attempts !== undefined ? ` (${r.attempts} attempt${r.attempts === 1 ? '' : 's'})` : '';
+        console.log(`${r.sink}: ${r.ok ? 'OK' : 'FAILED'}${attempts}${r.error ? ` — ${r.error}` : ''}`);
+        if (!r.ok) process.exitCode = 1;
+      }
+      if (stub && stub.received.length > 0) {
+        console.log('');
+        console.log(`Stub received at ${stub.url}:`);
+        console.log(JSON.stringify(stub.received[0], null, 2));
+      }
+    } finally {
+      await stub?.close();
+    }
+  });
+
+notifyCmd
+  .command('stub')
+  .description('Run a local webhook receiver that prints every payload (Ctrl+C to stop).')
+  .option('--port <port>', 'Port to listen on', '9465')
+  .option('--fail-first <n>', 'Answer the first N requests with 503 to exercise retries', '0')
+  .action(async (opts) => {
+    const port = parseInt(opts.port, 10);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      console.error(`Invalid --port: ${opts.port}. Use a port between 0 and 65535.`);
+      process.exitCode = 1;
+      return;
+    }
+    const stub = await startWebhookStub({
+      host: '127.0.0.1',
+      port,
+      failFirst: parseInt(opts.failFirst, 10) || 0,
+      onPayload: (payload) => console.log(JSON.stringify(payload)),
+    });
+    console.log(`Webhook stub listening on ${stub.url}`);
+    console.log(`Point the daemon at it: claude-guardian config set notifications.webhookUrl ${stub.url}`);
+    process.on('SIGINT', () => {
+      stub.close().then(() => process.exit(0));
+    });
   });
 
 // ─── mcp ───
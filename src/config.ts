@@ -0,0 +1,555 @@
+/**
+ * User-editable configuration.
+ * Layers (later wins): built-in defaults → ~/.claude-guardian/config.json → <project>/.claude-guardian.json.
+ * Every layer is schema-validated; invalid files raise CONFIG_INVALID instead of being silently ignored.
+ */
+
+import { readFile, writeFile, mkdir, rename } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { z } from 'zod';
+import { DEFAULT_CONFIG, THRESHOLDS, BUDGET_THRESHOLDS, RESOURCE_CAP_CONFIG, EXPORTER_CONFIG, ACTIVITY_CONFIG, NOTIFICATION_CONFIG, REDACTION_CONFIG, LEAK_CONFIG, DEEP_CAPTURE_CONFIG, TRASH_CONFIG, ARCHIVE_CONFIG, getConfigPath } from './defaults.js';
+import { GuardianError, wrapError } from './errors.js';
+import type { BudgetThresholds, GuardianConfig, ResourceCapConfig } from './types.js';
+
+/** Per-project override file, looked up in the project's working directory. */
+export const PROJECT_CONFIG_FILENAME = '.claude-guardian.json';
+
+const thresholdsSchema = z.object({
+  diskFreeWarningGB: z.number().min(0),
+  maxFileMB: z.number().positive(),
+  retainDays: z.number().int().min(1),
+  staleSessionDays: z.number().int().min(1),
+  doctorTailLines: z.number().int().min(1),
+  watchdogPollMs: z.number().int().min(250),
+  restartBackoffMs: z.array(z.number().int().min(0)).min(1),
+  maxRestarts: z.number().int().min(0),
+  graceWindowSeconds: z.number().int().min(0),
+  cpuLowThreshold: z.number().min(0).max(100),
+  cpuHotPercent: z.number().min(0),
+  memoryHighMB: z.number().positive(),
+  handlesHighPercent: z.number().min(1).max(100),
+  criticalAfterSeconds: z.number().int().min(0),
+  bundleCooldownSeconds: z.number().int().min(0),
+}).strict().partial();
+
+/** Pool names: short identifiers; "default" is the top-level budget. */
+export const POOL_NAME_PATTERN = /^(?!default$)[a-z0-9][a-z0-9_-]{0,31}$/;
+
+const riskReductionSchema = z.enum(['warn', 'critical', 'never']);
+
+const budgetPoolSchema = z.object({
+  baseCap: z.number().int().min(1),
+  warnCap: z.number().int().min(1),
+  criticalCap: z.number().int().min(1),
+  hysteresisSeconds: z.number().int().min(0),
+  reduceOnRisk: riskReductionSchema,
+  reduceOnResources: z.boolean(),
+}).strict().partial();
+
+const resourceMetricSchema = z.object({
+  formula: z.enum(['linear', 'step', 'off']),
+  low: z.number().min(0),
+  high: z.number().min(0),
+}).strict().partial();
+
+const resourceCapSchema = z.object({
+  enabled: z.boolean(),
+  minCap: z.number().int().min(1),
+  smoothingSeconds: z.number().min(0),
+  load: resourceMetricSchema,
+  memory: resourceMetricSchema,
+  swap: resourceMetricSchema,
+  claudeRss: resourceMetricSchema,
+}).strict().partial();
+
+const budgetSchema = z.object({
+  baseCap: z.number().int().min(1),
+  warnCap: z.number().int().min(1),
+  criticalCap: z.number().int().min(1),
+  hysteresisSeconds: z.number().int().min(0),
+  maxLeaseSeconds: z.number().int().min(1),
+  missedHeartbeats: z.number().int().min(1),
+  maxWaitSeconds: z.number().int().min(0),
+  queueAgingSeconds: z.number().int().min(1),
+  reduceOnRisk: riskReductionSchema,
+  reduceOnResources: z.boolean(),
+  resources: resourceCapSchema,
+  pools: z.record(z.string(), budgetPoolSchema).refine(
+    pools => Object.keys(pools).every(name => POOL_NAME_PATTERN.test(name)),
+    'pool names are lowercase letters, digits, "-" and "_" (max 32), and not "default"',
+  ),
+}).strict().partial();
+
+const exporterSchema = z.object({
+  enabled: z.boolean(),
+  host: z.string().min(1),
+  port: z.number().int().min(1).max(65535),
+}).strict().partial();
+
+const activitySourceSchema = z.enum(['log-mtime', 'cpu', 'child-cpu', 'transcript-growth', 'network-io', 'disk-io']);
+
+const activitySchema = z.object({
+  sources: z.array(activitySourceSchema),
+  quorum: z.number().int().min(1),
+  decisive: z.array(activitySourceSchema),
+  minTranscriptGrowthBytes: z.number().int().min(1),
+  minNetworkBytes: z.number().int().min(1),
+  minDiskBytes: z.number().int().min(1),
+}).strict().partial();
+
+const notificationEventSchema = z.enum(['attention', 'incident-open', 'incident-close', 'bundle', 'budget-cap', 'test']);
+
+const notificationsSchema = z.object({
+  webhookUrl: z.string().url().refine(u => /^https?:\/\//i.test(u), 'must be an http(s) URL').nullable(),
+  desktop: z.boolean(),
+  command: z.string().min(1).nullable(),
+  events: z.array(notificationEventSchema),
+  minIntervalSeconds: z.number().int().min(0),
+  retries: z.number().int().min(0).max(10),
+  retryBackoffMs: z.number().int().min(0),
+  timeoutMs: z.number().int().min(100),
+}).strict().partial();
+
+const redactionRuleSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'must be letters, digits, "-" or "_"'),
+  pattern: z.string().min(1),
+  flags: z.string().regex(/^[gimsuy]*$/, 'must only contain RegExp flags gimsuy').optional(),
+  replacement: z.string().optional(),
+}).strict().refine(rule => {
+  try {
+    new RegExp(rule.pattern, rule.flags);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'pattern is not a valid regular expression', path: ['pattern'] });
+
+const redactionSchema = z.object({
+  level: z.enum(['strict', 'standard', 'off']),
+  rules: z.array(redactionRuleSchema),
+}).strict().partial();
+
+const leaksSchema = z.object({
+  enabled: z.boolean(),
+  windowSeconds: z.number().int().min(60),
+  minSpanSeconds: z.number().int().min(0),
+  minR2: z.number().min(0).max(1),
+  minRssGrowthMBPerHour: z.number().min(0),
+  minHandleGrowthPerHour: z.number().min(0),
+  handleLimit: z.number().int().min(1),
+  horizonSeconds: z.number().int().min(0),
+}).strict().partial();
+
+const deepCaptureSchema = z.object({
+  enabled: z.boolean(),
+  inspector: z.boolean(),
+  threadSampleMs: z.number().int().min(10).max(10000),
+  inspectorTimeoutMs: z.number().int().min(100).max(60000),
+}).strict().partial();
+
+const trashSchema = z.object({
+  enabled: z.boolean(),
+  maxAgeDays: z.number().min(0),
+  maxSizeMB: z.number().min(0),
+  minRestoreHours: z.number().min(0),
+}).strict().partial();
+
+const archiveSchema = z.object({
+  enabled: z.boolean(),
+  minSessionAgeHours: z.number().min(0),
+  maxTotalMB: z.number().min(0),
+}).strict().partial();
+
+const retentionPolicySchema = z.object({
+  keepForever: z.boolean(),
+  maxSessions: z.number().int().min(1),
+  maxAgeDays: z.number().min(0),
+  maxSizeMB: z.number().positive(),
+  pinned: z.array(z.string().regex(/^[0-9a-f][0-9a-f-]{7,35}$/i, 'must be a session ID or a prefix of at least 8 characters')),
+}).strict().partial();
+
+/** Schema for config.json and per-project override files. All keys optional. */
+export const configFileSchema = z.object({
+  maxProjectLogDirMB: z.number().positive(),
+  hangNoActivitySeconds: z.number().int().min(1),
+  autoRestart: z.boolean(),
+  thresholds: thresholdsSchema,
+  budget: budgetSchema,
+  exporter: exporterSchema,
+  activity: activitySchema,
+  notifications: notificationsSchema,
+  redaction: redactionSchema,
+  leaks: leaksSchema,
+  deepCapture: deepCaptureSchema,
+  trash: trashSchema,
+  archive: archiveSchema,
+  retention: z.record(z.string().min(1), retentionPolicySchema),
+}).strict().partial();
+
+/** Contents of a config file (partial overrides). */
+export type ConfigFile = z.infer<typeof configFileSchema>;
+
+export interface ConfigValidation {
+  valid: boolean;
+  /** One line per problem, prefixed with the offending key path. */
+  errors: string[];
+  /** Parsed config (null if invalid). */
+  config: ConfigFile | null;
+}
+
+/** A loaded config plus the files it was built from. */
+export interface LoadedConfig {
+  config: GuardianConfig;
+  /** Config files that contributed, in merge order. */
+  sources: string[];
+}
+
+/** Validate raw (already JSON-parsed) config file contents. */
+export function validateConfig(raw: unknown): ConfigValidation {
+  const parsed = configFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const errors = parsed.error.issues.map(issue => {
+      const path = issue.path.map(String).join('.') || '(root)';
+      return `${path}: ${issue.message}`;
+    });
+    return { valid: false, errors, config: null };
+  }
+  return { valid: true, errors: [], config: parsed.data };
+}
+
+/** Cross-field checks on a fully merged config (e.g. warnCap must not exceed baseCap). */
+export function checkConfigConsistency(config: GuardianConfig): string[] {
+  const errors: string[] = [];
+  const b = config.budget ?? BUDGET_THRESHOLDS;
+  if (b.warnCap > b.baseCap) {
+    errors.push(`budget.warnCap (${b.warnCap}) must not exceed budget.baseCap (${b.baseCap})`);
+  }
+  if (b.criticalCap > b.warnCap) {
+    errors.push(`budget.criticalCap (${b.criticalCap}) must not exceed budget.warnCap (${b.warnCap})`);
+  }
+  for (const [name, pool] of Object.entries(b.pools ?? {})) {
+    const p = { ...b, ...pool };
+    if (p.warnCap > p.baseCap) {
+      errors.push(`budget.pools.${name}.warnCap (${p.warnCap}) must not exceed its baseCap (${p.baseCap})`);
+    }
+    if (p.criticalCap > p.warnCap) {
+      errors.push(`budget.pools.${name}.criticalCap (${p.criticalCap}) must not exceed its warnCap (${p.warnCap})`);
+    }
+  }
+  const r = b.resources ?? RESOURCE_CAP_CONFIG;
+  for (const metric of ['load', 'memory', 'swap', 'claudeRss'] as const) {
+    const m = r[metric];
+    if (m.formula !== 'off' && m.low >= m.high) {
+      errors.push(`budget.resources.${metric}.low (${m.low}) must be below its high (${m.high})`);
+    }
+  }
+  const t = config.thresholds ?? THRESHOLDS;
+  if (t.cpuLowThreshold >= t.cpuHotPercent) {
+    errors.push(`thresholds.cpuLowThreshold (${t.cpuLowThreshold}) must be below thresholds.cpuHotPercent (${t.cpuHotPercent})`);
+  }
+  const a = config.activity ?? ACTIVITY_CONFIG;
+  if (a.quorum > a.sources.length) {
+    errors.push(`activity.quorum (${a.quorum}) must not exceed the number of activity.sources (${a.sources.length})`);
+  }
+  const l = config.leaks ?? LEAK_CONFIG;
+  if (l.minSpanSeconds > l.windowSeconds) {
+    errors.push(`leaks.minSpanSeconds (${l.minSpanSeconds}) must not exceed leaks.windowSeconds (${l.windowSeconds})`);
+  }
+  for (const [key, policy] of Object.entries(config.retention ?? {})) {
+    const limits = (['maxSessions', 'maxAgeDays', 'maxSizeMB'] as const).filter(f => policy[f] !== undefined);
+    if (policy.keepForever && limits.length > 0) {
+      errors.push(`retention.${key}.keepForever cannot be combined with ${limits.join(', ')}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Read and validate a config file. Returns null if the file does not exist.
+ * Throws CONFIG_INVALID if the file cannot be read, is not valid JSON or fails the schema.
+ */
+export async function readConfigFile(filePath: string): Promise<ConfigFile | null> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null; // File doesn't exist — defaults apply
+    }
+    throw new GuardianError(
+      'CONFIG_INVALID',
+      `Cannot read ${filePath}: ${(err as NodeJS.ErrnoException).code ?? (err instanceof Error ? err.message : String(err))}`,
+      'Make sure the config path is a readable file, or remove it to use the defaults.',
+      err instanceof Error ? err : undefined,
+    );
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (err) {
+    throw new GuardianError(
+      'CONFIG_INVALID',
+      `${filePath} is not valid JSON`,
+      'Fix the JSON syntax, or run `claude-guardian config validate` for details.',
+      err instanceof Error ? err : undefined,
+    );
+  }
+
+  const result = validateConfig(raw);
+  if (!result.valid) {
+    throw new GuardianError(
+      'CONFIG_INVALID',
+      `${filePath} is invalid: ${result.errors.join('; ')}`,
+      'Fix the listed keys, or run `claude-guardian config validate` for details.',
+    );
+  }
+  return result.config;
+}
+
+/** Validate a config file on disk without throwing. Returns null if the file does not exist. */
+export async function validateConfigFile(filePath: string): Promise<ConfigValidation | null> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT') return null;
+    return { valid: false, errors: [`(root): cannot read file — ${code ?? String(err)}`], config: null };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { valid: false, errors: [`(root): invalid JSON — ${msg}`], config: null };
+  }
+
+  const result = validateConfig(raw);
+  if (result.valid) {
+    const consistency = checkConfigConsistency(mergeConfig(DEFAULT_CONFIG, result.config!));
+    if (consistency.length > 0) {
+      return { valid: false, errors: consistency, config: null };
+    }
+  }
+  return result;
+}
+
+/** Write a config file atomically (write to .tmp, then rename). */
+export async function writeConfigFile(data: ConfigFile, filePath: string = getConfigPath()): Promise<void> {
+  const dir = dirname(filePath);
+  if (!existsSync(dir)) {
+    await mkdir(dir, { recursive: true });
+  }
+
+  const tmpPath = filePath + '.tmp';
+  try {
+    await writeFile(tmpPath, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+    await rename(tmpPath, filePath);
+  } catch (err) {
+    throw wrapError(err, 'CONFIG_WRITE_FAILED', 'Check disk space and permissions on ~/.claude-guardian/');
+  }
+}
+
+/**
+ * Budget overrides; pools merge per pool and resource metrics per metric, so the global
+ * file can adjust one key of a pool or one bound of a metric.
+ */
+function mergeBudget(base: BudgetThresholds, overrides: ConfigFile['budget']): BudgetThresholds {
+  const pools = { ...base.pools };
+  for (const [name, pool] of Object.entries(overrides?.pools ?? {})) {
+    pools[name] = { ...pools[name], ...pool };
+  }
+  const baseResources = base.resources ?? RESOURCE_CAP_CONFIG;
+  const over = overrides?.resources;
+  const resources: ResourceCapConfig = {
+    ...baseResources,
+    ...over,
+    load: { ...baseResources.load, ...over?.load },
+    memory: { ...baseResources.memory, ...over?.memory },
+    swap: { ...baseResources.swap, ...over?.swap },
+    claudeRss: { ...baseResources.claudeRss, ...over?.claudeRss },
+  };
+  return { ...base, ...overrides, resources, pools };
+}
+
+/** Apply partial overrides on top of a full config. */
+export function mergeConfig(base: GuardianConfig, overrides: ConfigFile): GuardianConfig {
+  return {
+    maxProjectLogDirMB: overrides.maxProjectLogDirMB ?? base.maxProjectLogDirMB,
+    hangNoActivitySeconds: overrides.hangNoActivitySeconds ?? base.hangNoActivitySeconds,
+    autoRestart: overrides.autoRestart ?? base.autoRestart,
+    thresholds: { ...(base.thresholds ?? THRESHOLDS), ...overrides.thresholds },
+    budget: mergeBudget(base.budget ?? BUDGET_THRESHOLDS, overrides.budget),
+    exporter: { ...(base.exporter ?? EXPORTER_CONFIG), ...overrides.exporter },
+    activity: { ...(base.activity ?? ACTIVITY_CONFIG), ...overrides.activity },
+    notifications: { ...(base.notifications ?? NOTIFICATION_CONFIG), ...overrides.notifications },
+    redaction: { ...(base.redaction ?? REDACTION_CONFIG), ...overrides.redaction },
+    leaks: { ...(base.leaks ?? LEAK_CONFIG), ...overrides.leaks },
+    deepCapture: { ...(base.deepCapture ?? DEEP_CAPTURE_CONFIG), ...overrides.deepCapture },
+    trash: { ...(base.trash ?? TRASH_CONFIG), ...overrides.trash },
+    archive: { ...(base.archive ?? ARCHIVE_CONFIG), ...overrides.archive },
+    retention: { ...base.retention, ...overrides.retention },
+  };
+}
+
+/**
+ * Sections a project .claude-guardian.json may not set. Commands and MCP tools load the
+ * override file of whatever repo they run in, so a checked-out repo must not be able to
+ * reach beyond itself through these.
+ */
+export const GLOBAL_ONLY_SECTIONS: ReadonlyArray<keyof ConfigFile> = [
+  // Could point the daemon's notifications (or a shell command) elsewhere
+  'notifications',
+  // budget.json is shared by every session: caps, pools and lease limits are machine-wide
+  'budget',
+  // inspector capture sends SIGUSR1 to Claude processes and attaches to their inspector
+  'deepCapture',
+  // Fixes clean every project: a repo could turn the quarantine into immediate permanent deletes
+  'trash',
+  // Archiving and pruning act on every project and on the shared archive directory
+  'archive',
+  // Policies match any project dir: a repo could shrink or expire every other project's sessions
+  'retention',
+];
+
+/**
+ * Single keys a project .claude-guardian.json may not set: the limits `preflight --fix` and
+ * nudges apply to every project dir under ~/.claude/projects, not just the repo's own.
+ */
+export const GLOBAL_ONLY_KEYS: ReadonlyArray<string> = [
+  'maxProjectLogDirMB',
+  'thresholds.maxFileMB',
+  'thresholds.retainDays',
+  'thresholds.staleSessionDays',
+  // Low disk switches every fix to aggressive mode
+  'thresholds.diskFreeWarningGB',
+];
+
+/** Whether a dotted config key may only be set in the global config (see GLOBAL_ONLY_SECTIONS / GLOBAL_ONLY_KEYS). */
+export function isGlobalOnlyKey(key: string): boolean {
+  return (GLOBAL_ONLY_SECTIONS as ReadonlyArray<string>).includes(key.split('.')[0])
+    || GLOBAL_ONLY_KEYS.some(k => k === key || k.startsWith(key + '.'));
+}
+
+/** The first global-only section or key a config file sets, if any. */
+function findGlobalOnly(overrides: ConfigFile): string | undefined {
+  return GLOBAL_ONLY_SECTIONS.find(section => overrides[section] !== undefined)
+    ?? GLOBAL_ONLY_KEYS.find(key => {
+      const [section, name] = key.split('.');
+      const value = (overrides as Record<string, unknown>)[section];
+      return name === undefined ? value !== undefined : (value as Record<string, unknown> | undefined)?.[name] !== undefined;
+    });
+}
+
+/**
+ * Load the effective config and report which files contributed.
+ * Pass `projectDir` to apply that project's .claude-guardian.json overrides.
+ */
+export async function loadConfigWithSources(projectDir?: string): Promise<LoadedConfig> {
+  let config: GuardianConfig = mergeConfig(DEFAULT_CONFIG, {});
+  const sources: string[] = [];
+
+  const layers = [getConfigPath()];
+  if (projectDir) {
+    layers.push(join(projectDir, PROJECT_CONFIG_FILENAME));
+  }
+
+  for (const layerPath of layers) {
+    const overrides = await readConfigFile(layerPath);
+    const globalOnly = overrides && layerPath !== layers[0] ? findGlobalOnly(overrides) : undefined;
+    if (globalOnly) {
+      throw new GuardianError(
+        'CONFIG_INVALID',
+        `${layerPath} sets "${globalOnly}", which is only allowed in the global config`,
+        `Move ${globalOnly} to ${layers[0]}.`,
+      );
+    }
+    // A checked-out repo must not switch off redaction of the bundles a user attaches to bug reports
+    if (overrides?.redaction?.level === 'off' && layerPath !== layers[0]) {
+      throw new GuardianError(
+        'CONFIG_INVALID',
+        `${layerPath} sets "redaction.level" to "off", which is only allowed in the global config`,
+        `Remove it, or pass \`--redact off\` to \`claude-guardian doctor\` for a one-off unredacted bundle.`,
+      );
+    }
+    if (overrides) {
+      config = mergeConfig(config, overrides);
+      sources.push(layerPath);
+    }
+  }
+
+  const errors = checkConfigConsistency(config);
+  if (errors.length > 0) {
+    throw new GuardianError(
+      'CONFIG_INVALID',
+      `Effective config is inconsistent: ${errors.join('; ')}`,
+      `Adjust ${sources.join(' / ') || 'config.json'}, then run \`claude-guardian config validate\`.`,
+    );
+  }
+
+  return { config, sources };
+}
+
+/** Load the effective config (defaults + global file + optional project overrides). */
+export async function loadConfig(projectDir?: string): Promise<GuardianConfig> {
+  return (await loadConfigWithSources(projectDir)).config;
+}
+
+/** Key segments that would reach Object.prototype instead of a config section. */
+const FORBIDDEN_KEY_PARTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Set a dotted key (e.g. "thresholds.retainDays") in a config file's contents.
+ * The value is parsed as JSON when possible ("14", "true", "[1,2]"), else kept as a string.
+ * Throws CONFIG_INVALID for a key with a `__proto__` / `constructor` / `prototype` segment
+ * or if the result fails validation; the input is never modified.
+ */
+export function setConfigValue(data: ConfigFile, key: string, rawValue: string): ConfigFile {
+  let value: unknown;
+  try {
+    value = JSON.parse(rawValue);
+  } catch {
+    value = rawValue;
+  }
+
+  const next = JSON.parse(JSON.stringify(data)) as Record<string, unknown>;
+  const parts = key.split('.').filter(Boolean);
+  if (parts.length === 0) {
+    throw new GuardianError('CONFIG_INVALID', 'Config key is empty', 'Use a key like `maxProjectLogDirMB` or `thresholds.retainDays`.');
+  }
+  const forbidden = parts.find(part => FORBIDDEN_KEY_PARTS.has(part));
+  if (forbidden) {
+    throw new GuardianError('CONFIG_INVALID', `Config key "${key}" contains "${forbidden}"`, 'Use a key like `thresholds.retainDays`.');
+  }
+
+  let node: Record<string, unknown> = next;
+  for (const part of parts.slice(0, -1)) {
+    const child = node[part];
+    if (child === undefined) {
+      node[part] = {};
+    } else if (typeof child !== 'object' || child === null || Array.isArray(child)) {
+      throw new GuardianError('CONFIG_INVALID', `Config key "${part}" is not a section`, 'Use a key like `thresholds.retainDays`.');
+    }
+    node = node[part] as Record<string, unknown>;
+  }
+  node[parts[parts.length - 1]] = value;
+
+  const result = validateConfig(next);
+  if (!result.valid) {
+    throw new GuardianError(
+      'CONFIG_INVALID',
+      `Cannot set ${key}: ${result.errors.join('; ')}`,
+      'Run `claude-guardian config show` to see valid keys and current values.',
+    );
+  }
+
+  const consistency = checkConfigConsistency(mergeConfig(DEFAULT_CONFIG, result.config!));
+  if (consistency.length > 0) {
+    throw new GuardianError('CONFIG_INVALID', `Cannot set ${key}: ${consistency.join('; ')}`, 'Adjust related keys first.');
+  }
+
+  return result.config!;
+}
@@ -0,0 +1,400 @@
+import { readdir, readFile, readlink } from 'fs/promises';
+import { join } from 'path';
+import type { DeepCaptureConfig } from './types.js';
+import { DEEP_CAPTURE_CONFIG } from './defaults.js';
+import { fetchDebuggerUrl, captureJsStack, type JsFrame } from './inspector-client.js';
+
+/** Clock ticks per second for /proc stat times (USER_HZ is 100 on every mainstream Linux build). */
+const CLK_TCK = 100;
+
+/** SIGUSR1 on Linux — Node opens its inspector on it. */
+const SIGUSR1 = 10;
+
+/** The default Node inspector port, tried when no new listening socket shows up. */
+const DEFAULT_INSPECTOR_PORT = 9229;
+
+/** How often to look for the inspector's listening socket after signalling. */
+const INSPECTOR_POLL_MS = 100;
+
+/** Kernel TCP states as they appear in /proc/net/tcp (include/net/tcp_states.h). */
+const TCP_STATES: Record<string, string> = {
+  '01': 'ESTABLISHED', '02': 'SYN_SENT', '03': 'SYN_RECV', '04': 'FIN_WAIT1',
+  '05': 'FIN_WAIT2', '06': 'TIME_WAIT', '07': 'CLOSE', '08': 'CLOSE_WAIT',
+  '09': 'LAST_ACK', '0A': 'LISTEN', '0B': 'CLOSING', '0C': 'NEW_SYN_RECV',
+};
+
+/** One thread of the process with its CPU use between two samples. */
+export interface ThreadSample {
+  tid: number;
+  /** Thread name (comm), e.g. "node", "libuv-worker", "V8Worker". */
+  name: string;
+  /** Scheduler state letter: R running, S sleeping, D uninterruptible, ... */
+  state: string;
+  /** CPU % of one core over the sample interval. */
+  cpuPercent: number;
+}
+
+export type SocketProtocol = 'tcp' | 'tcp6' | 'udp' | 'udp6' | 'unix';
+
+/** An open socket of the process, matched by inode from /proc/<pid>/net. */
+export interface SocketInfo {
+  protocol: SocketProtocol;
+  inode: number;
+  /** "127.0.0.1:9229", "[::1]:443"; the bound path for unix sockets (null if unnamed). */
+  local: string | null;
+  /** Peer address (null for unix sockets and unconnected UDP). */
+  remote: string | null;
+  /** TCP state name, "UNCONN"/"ESTAB" for UDP, the socket state for unix sockets. */
+  state: string;
+}
+
+/** Result of the optional inspector step. */
+export interface InspectorCapture {
+  /** Port the inspector was reached on (null if none was found). */
+  port: number | null;
+  /** Whether SIGUSR1 was sent (false if an inspector was already listening or the process ignores it). */
+  signalled: boolean;
+  /** JS call stack at the moment of the pause, innermost first. */
+  frames: JsFrame[];
+  error: string | null;
+}
+
+/** What a process is doing right now, from /proc and optionally its inspector. Written as process-deep.json. */
+export interface DeepCapture {
+  pid: number;
+  capturedAt: string;
+  /** /proc/<pid>/status as key → value (null if unreadable). */
+  status: Record<string, string> | null;
+  /** Kernel function the main thread is blocked in ("0" or null if running or unreadable). */
+  wchan: string | null;
+  /** /proc/<pid>/stack lines — usually root-only, so null with an entry in errors. */
+  kernelStack: string[] | null;
+  /** Threads, busiest first. */
+  threads: ThreadSample[];
+  sockets: SocketInfo[];
+  /** Null unless the inspector step was requested. */
+  inspector: InspectorCapture | null;
+  /** Everything that could not be read, as "<what>: <why>". */
+  errors: string[];
+}
+
+export interface DeepCaptureOptions {
+  /** Signal SIGUSR1 if needed and pull a JS stack through the inspector. */
+  inspector?: boolean;
+  /** Falls back to config values for the sampling interval and inspector timeout. */
+  config?: DeepCaptureConfig;
+}
+
+/** Parse /proc/<pid>/status ("Key:\tvalue" lines). */
+export function parseProcStatus(content: string): Record<string, string> {
+  const status: Record<string, string> = {};
+  for (const line of content.split('\n')) {
+    const idx = line.indexOf(':');
+    if (idx <= 0) continue;
+    status[line.slice(0, idx)] = line.slice(idx + 1).trim();
+  }
+  return status;
+}
+
+/** Whether the SigCgt mask in a parsed status shows a handler for `signal`. */
+export function catchesSignal(status: Record<string, string>, signal: number): boolean {
+  const mask = status.SigCgt;
+  if (!mask || !/^[0-9a-fA-F]+$/.test(mask)) return false;
+  return ((BigInt(`0x${mask}`) >> BigInt(signal - 1)) & 1n) === 1n;
+}
+
+/**
+ * Parse /proc/<pid>/task/<tid>/stat into name, state and total CPU ticks.
+ * The name can contain spaces and parentheses, so fields are read after the last ')'.
+ */
+export function parseTaskStat(content: string): { tid: number; name: string; state: string; ticks: number } | null {
+  const open = content.indexOf('(');
+  const close = content.lastIndexOf(')');
+  if (open < 0 || close < open) return null;
+  const tid = parseInt(content.slice(0, open), 10);
+  const rest = content.slice(close + 2).trim().split(/\s+/);
+  // rest[0] is state (field 3); utime and stime are fields 14 and 15
+  const utime = parseInt(rest[11], 10);
+  const stime = parseInt(rest[12], 10);
+  if (isNaN(tid) || isNaN(utime) || isNaN(stime)) return null;
+  return { tid, name: content.slice(open + 1, close), state: rest[0], ticks: utime + stime };
+}
+
+/** Decode a /proc/net address ("0100007F:1F90" → "127.0.0.1:8080"; IPv6 in brackets). */
+export function decodeProcAddress(hex: string): string {
+  const [addr, portHex] = hex.split(':');
+  const port = parseInt(portHex, 16);
+  if (addr.length === 8) {
+    // One little-endian 32-bit word
+    const bytes = addr.match(/../g)!.map(b => parseInt(b, 16)).reverse();
+    return `${bytes.join('.')}:${port}`;
+  }
+  // Four little-endian 32-bit words
+  const words = addr.match(/.{8}/g)!.map(w => w.match(/../g)!.reverse().join(''));
+  const groups = words.join('').match(/.{4}/g)!.map(g => parseInt(g, 16).toString(16));
+  return `[${compressIpv6(groups)}]:${port}`;
+}
+
+/** Collapse the longest run of zero groups to "::". */
+function compressIpv6(groups: string[]): string {
+  let bestStart = -1;
+  let bestLen = 0;
+  for (let i = 0; i < groups.length;) {
+    if (groups[i] !== '0') { i++; continue; }
+    let j = i;
+    while (j < groups.length && groups[j] === '0') j++;
+    if (j - i > bestLen) { bestStart = i; bestLen = j - i; }
+    i = j;
+  }
+  if (bestLen < 2) return groups.join(':');
+  return `${groups.slice(0, bestStart).join(':')}::${groups.slice(bestStart + bestLen).join(':')}`;
+}
+
+/** Parse /proc/<pid>/net/{tcp,tcp6,udp,udp6}. */
+export function parseNetSockets(content: string, protocol: Exclude<SocketProtocol, 'unix'>): SocketInfo[] {
+  const sockets: SocketInfo[] = [];
+  for (const line of content.split('\n').slice(1)) {
+    const cols = line.trim().split(/\s+/);
+    if (cols.length < 10) continue;
+    const inode = parseInt(cols[9], 10);
+    if (isNaN(inode)) continue;
+    const udp = protocol.startsWith('udp');
+    const remote = decodeProcAddress(cols[2]);
+    const unconnected = /^(0\.0\.0\.0|\[::\]):0$/.test(remote);
+    sockets.push({
+      protocol,
+      inode,
+      local: decodeProcAddress(cols[1]),
+      remote: unconnected ? null : remote,
+      state: udp ? (cols[3] === '01' ? 'ESTAB' : 'UNCONN') : (TCP_STATES[cols[3].toUpperCase()] ?? cols[3]),
+    });
+  }
+  return sockets;
+}
+
+/** Parse /proc/<pid>/net/unix. */
+export function parseUnixSockets(content: string): SocketInfo[] {
+  const states: Record<string, string> = { '01': 'UNCONNECTED', '02': 'CONNECTING', '03': 'CONNECTED', '04': 'DISCONNECTING' };
+  const sockets: SocketInfo[] = [];
+  for (const line of content.split('\n').slice(1)) {
+    const cols = line.trim().split(/\s+/);
+    if (cols.length < 7) continue;
+    const inode = parseInt(cols[6], 10);
+    if (isNaN(inode)) continue;
+    const state = cols[5];
+    const listening = (parseInt(cols[3], 16) & 0x10000) !== 0;
+    sockets.push({
+      protocol: 'unix',
+      inode,
+      local: cols[7] ?? null,
+      remote: null,
+      state: listening ? 'LISTEN' : (states[state] ?? state),
+    });
+  }
+  return sockets;
+}
+
+/** Port of a listening TCP socket bound to loopback or any address (null otherwise). */
+function loopbackListenPort(s: SocketInfo): number | null {
+  if (s.state !== 'LISTEN' || !s.local || !s.protocol.startsWith('tcp')) return null;
+  const m = s.local.match(/^(127\.0\.0\.1|0\.0\.0\.0|\[::1\]|\[::\]):(\d+)$/);
+  return m ? parseInt(m[2], 10) : null;
+}
+
+function errorMessage(err: unknown): string {
+  const code = (err as NodeJS.ErrnoException)?.code;
+  return code ?? (err instanceof Error ? err.message : String(err));
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/** CPU ticks per thread, keyed by TID. Threads that exit mid-read are skipped. */
+async function readThreads(pid: number): Promise<Map<number, { name: string; state: string; ticks: number }>> {
+  const taskDir = join('/proc', String(pid), 'task');
+  const tids = await readdir(taskDir);
+  const threads = new Map<number, { name: string; state: string; ticks: number }>();
+  await Promise.all(tids.map(async tid => {
+    try {
+      const parsed = parseTaskStat(await readFile(join(taskDir, tid, 'stat'), 'utf-8'));
+      if (parsed) threads.set(parsed.tid, parsed);
+    } catch { /* thread exited */ }
+  }));
+  return threads;
+}
+
+/** Sample every thread twice `intervalMs` apart and compute CPU % per thread. */
+async function sampleThreads(pid: number, intervalMs: number): Promise<ThreadSample[]> {
+  const before = await readThreads(pid);
+  const start = Date.now();
+  await sleep(intervalMs);
+  const after = await readThreads(pid);
+  const elapsedSeconds = Math.max((Date.now() - start) / 1000, 0.001);
+  const threads: ThreadSample[] = [];
+  for (const [tid, t] of after) {
+    const ticks = t.ticks - (before.get(tid)?.ticks ?? t.ticks);
+    threads.push({
+      tid,
+      name: t.name,
+      state: t.state,
+      cpuPercent: Math.round((ticks / CLK_TCK / elapsedSeconds) * 1000) / 10,
+    });
+  }
+  return threads.sort((a, b) => b.cpuPercent - a.cpuPercent || a.tid - b.tid);
+}
+
+/** Sockets held open by the process: socket inodes from /proc/<pid>/fd joined against its net tables. */
+async function readSockets(pid: number, errors: string[]): Promise<SocketInfo[]> {
+  const procDir = join('/proc', String(pid));
+  const fdDir = join(procDir, 'fd');
+  const inodes = new Set<number>();
+  for (const fd of await readdir(fdDir)) {
+    const target = await readlink(join(fdDir, fd)).catch(() => null);
+    const m = target?.match(/^socket:\[(\d+)\]$/);
+    if (m) inodes.add(parseInt(m[1], 10));
+  }
+  if (inodes.size === 0) return [];
+
+  const sockets: SocketInfo[] = [];
+  for (const protocol of ['tcp', 'tcp6', 'udp', 'udp6', 'unix'] as const) {
+    let content: string;
+    try {
+      content = await readFile(join(procDir, 'net', protocol), 'utf-8');
+    } catch (err) {
+      // tcp6/udp6 are missing when IPv6 is disabled
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') errors.push(`net/${protocol}: ${errorMessage(err)}`);
+      continue;
+    }
+    const parsed = protocol === 'unix' ? parseUnixSockets(content) : parseNetSockets(content, protocol);
+    sockets.push(...parsed.filter(s => inodes.has(s.inode)));
+  }
+  return sockets;
+}
+
+/**
+ * Find the process's inspector and pull a JS stack.
+ * Uses an inspector that is already listening if there is one; otherwise sends SIGUSR1 — but only
+ * when SigCgt shows a handler for it, since SIGUSR1's default action terminates the process —
+ * and picks up the port from the listening socket that appears. An inspector we opened is closed again.
+ */
+async function captureInspector(
+  pid: number,
+  status: Record<string, string> | null,
+  timeoutMs: number,
+): Promise<InspectorCapture> {
+  const capture: InspectorCapture = { port: null, signalled: false, frames: [], error: null };
+  const listening = async () => new Set(
+    (await readSockets(pid, [])).map(loopbackListenPort).filter((p): p is number => p !== null),
+  );
+
+  try {
+    const before = await listening();
+    for (const port of before) {
+      const isInspector = await fetchDebuggerUrl(port, Math.min(timeoutMs, 1000)).then(() => true, () => false);
+      if (isInspector) {
+        capture.port = port;
+        capture.frames = await captureJsStack(port, timeoutMs);
+        return capture;
+      }
+    }
+
+    if (!status || !catchesSignal(status, SIGUSR1)) {
+      capture.error = 'Process has no SIGUSR1 handler (not Node, or inspector disabled) — not signalled';
+      return capture;
+    }
+    process.kill(pid, 'SIGUSR1');
+    capture.signalled = true;
+
+    const deadline = Date.now() + timeoutMs;
+    while (capture.port === null && Date.now() < deadline) {
+      await sleep(INSPECTOR_POLL_MS);
+      const opened = [...await listening()].filter(p => !before.has(p));
+      if (opened.length > 0) capture.port = opened[0];
+    }
+    capture.port ??= DEFAULT_INSPECTOR_PORT;
+    capture.frames = await captureJsStack(capture.port, Math.max(deadline - Date.now(), 1000), true);
+  } catch (err) {
+    capture.error = err instanceof Error ? err.message : String(err);
+  }
+  return capture;
+}
+
+/**
+ * Capture what a (possibly hung) process is doing: status, wait channel, kernel stack,
+ * per-thread CPU and open sockets from /proc, plus a JS stack when `inspector` is set.
+ * Linux only. Never throws — anything unreadable is listed in `errors`.
+ */
+export async function captureDeepState(pid: number, options: DeepCaptureOptions = {}): Promise<DeepCapture> {
+  const config = options.config ?? DEEP_CAPTURE_CONFIG;
+  const capture: DeepCapture = {
+    pid,
+    capturedAt: new Date().toISOString(),
+    status: null,
+    wchan: null,
+    kernelStack: null,
+    threads: [],
+    sockets: [],
+    inspector: null,
+    errors: [],
+  };
+  if (process.platform !== 'linux') {
+    capture.errors.push(`Deep capture reads /proc and is not available on ${process.platform}`);
+    return capture;
+  }
+
+  const procDir = join('/proc', String(pid));
+  const read = async (name: string): Promise<string | null> => {
+    try {
+      return await readFile(join(procDir, name), 'utf-8');
+    } catch (err) {
+      capture.errors.push(`${name}: ${errorMessage(err)}`);
+      return null;
+    }
+  };
+
+  const status = await read('status');
+  capture.status = status === null ? null : parseProcStatus(status);
+  capture.wchan = (await read('wchan'))?.trim() ?? null;
+  const stack = await read('stack');
+  capture.kernelStack = stack === null ? null : stack.split('\n').filter(l => l.trim().length > 0);
+
+  try {
+    capture.threads = await sampleThreads(pid, config.threadSampleMs);
+  } catch (err) {
+    capture.errors.push(`task: ${errorMessage(err)}`);
+  }
+  try {
+    capture.sockets = await readSockets(pid, capture.errors);
+  } catch (err) {
+    capture.errors.push(`fd: ${errorMessage(err)}`);
+  }
+
+  if (options.inspector) {
+    capture.inspector = await captureInspector(pid, capture.status, config.inspectorTimeoutMs);
+  }
+  return capture;
+}
+
+/** Deep-capture several PIDs one after another (each inspector pause is kept separate). */
+export async function captureDeepStates(pids: number[], options: DeepCaptureOptions = {}): Promise<DeepCapture[]> {
+  const captures: DeepCapture[] = [];
+  for (const pid of pids) captures.push(await captureDeepState(pid, options));
+  return captures;
+}
+
+/** One-line summary of a capture for the doctor report. */
+export function formatDeepCaptureLine(c: DeepCapture): string {
+  const state = c.status?.State ?? 'unknown';
+  const parts = [`PID ${c.pid}: ${state}`];
+  if (c.wchan && c.wchan !== '0') parts.push(`wchan=${c.wchan}`);
+  if (c.threads.length > 0) {
+    const busiest = c.threads[0];
+    parts.push(`${c.threads.length} threads (busiest ${busiest.name} ${busiest.cpuPercent}%)`);
+  }
+  parts.push(`${c.sockets.length} sockets`);
+  if (c.inspector) {
+    parts.push(c.inspector.error
+      ? `js stack: ${c.inspector.error}`
+      : `js stack: ${c.inspector.frames.length} frames${c.inspector.frames[0] ? ` at ${c.inspector.frames[0].functionName}` : ''}`);
+  }
+  return parts.join(' | ');
+}
@@ -1,16 +1,9 @@
-import type { GuardianConfig } from './types.js';
+import type { GuardianConfig, Thresholds, BudgetThresholds, ResourceCapConfig, ExporterConfig, ActivityConfig, NotificationConfig, RedactionConfig, LeakConfig, DeepCaptureConfig, TrashConfig, ArchiveConfig } from './types.js';
 import { homedir } from 'os';
 import { join } from 'path';
 
-/** The 3 user-facing knobs with sane defaults. */
-export const DEFAULT_CONFIG: GuardianConfig = {
-  maxProjectLogDirMB: 200,
-  hangNoActivitySeconds: 300,
-  autoRestart: false,
-};
-
-/** Hardcoded thresholds — not user-configurable in v1. */
-export const THRESHOLDS = {
+/** Default thresholds — overridable via config.json (see config.ts). */
+export const THRESHOLDS: Thresholds = {
   /** Disk free below this triggers aggressive mode. */
   diskFreeWarningGB: 5,
 
@@ -41,15 +34,42 @@ export const THRESHOLDS = {
   /** CPU below this % counts as "low" for hang detection. */
   cpuLowThreshold: 5,
 
+  /** CPU above this % counts as "hot" (pegged). */
+  cpuHotPercent: 95,
+
+  /** RSS above this many MB counts as "high memory". */
+  memoryHighMB: 4096,
+
+  /** Open FDs above this % of the soft RLIMIT_NOFILE count as "handles high". */
+  handlesHighPercent: 80,
+
   /** After warn, escalate to critical after this many additional seconds. */
   criticalAfterSeconds: 600,
 
   /** Rate limit: min seconds between bundles for the same PID. */
   bundleCooldownSeconds: 300,
-} as const;
+};
+
+/** Default resource-aware cap policy (see system-load.ts). */
+export const RESOURCE_CAP_CONFIG: ResourceCapConfig = {
+  /** Opt-in: caps follow hang risk only until enabled. */
+  enabled: false,
+  /** Resource pressure never takes a pool below 1 slot. */
+  minCap: 1,
+  /** Average metrics over ~30s so one spike doesn't drop the cap. */
+  smoothingSeconds: 30,
+  /** Start reducing at 0.7 runnable tasks per core; minCap at 1.5. */
+  load: { formula: 'linear', low: 0.7, high: 1.5 },
+  /** Start reducing at 80% RAM in use; minCap at 95%. */
+  memory: { formula: 'linear', low: 0.8, high: 0.95 },
+  /** Any sustained swapping (100 pages/s ≈ 400 KB/s) reduces; minCap at 2000 pages/s. */
+  swap: { formula: 'linear', low: 100, high: 2000 },
+  /** Claude trees holding 40% of RAM start reducing; minCap at 70%. */
+  claudeRss: { formula: 'linear', low: 0.4, high: 0.7 },
+};
 
-/** Budget thresholds for concurrency control. */
-export const BUDGET_THRESHOLDS = {
+/** Default budget thresholds for concurrency control. */
+export const BUDGET_THRESHOLDS: BudgetThresholds = {
   /** Maximum concurrency slots (base cap). */
   baseCap: 4,
   /** Cap when risk = warn. */
@@ -58,7 +78,148 @@ export const BUDGET_THRESHOLDS = {
   criticalCap: 1,
   /** Seconds of sustained ok before restoring base cap. */
   hysteresisSeconds: 60,
-} as const;
+  /** Leases end 2h after grant at the latest. */
+  maxLeaseSeconds: 7200,
+  /** Reclaim a heartbeat lease after 3 missed heartbeats. */
+  missedHeartbeats: 3,
+  /** Longest a queued acquire may wait. */
+  maxWaitSeconds: 600,
+  /** A queued request moves up one priority class per 2 minutes of waiting. */
+  queueAgingSeconds: 120,
+  /** Warn and critical risk both reduce the cap. */
+  reduceOnRisk: 'warn',
+  /** Resource pressure applies to every pool (once budget.resources is enabled). */
+  reduceOnResources: true,
+  resources: RESOURCE_CAP_CONFIG,
+  /** No named pools: everything shares the default pool. */
+  pools: {},
+};
+
+/** Default metrics exporter settings (see metrics-exporter.ts). */
+export const EXPORTER_CONFIG: ExporterConfig = {
+  /** Serve /metrics from the watch daemon. Off by default. */
+  enabled: false,
+  /** Bind address (loopback only by default). */
+  host: '127.0.0.1',
+  /** TCP port. */
+  port: 9464,
+};
+
+/** Default activity detection settings (see activity-sources.ts). */
+export const ACTIVITY_CONFIG: ActivityConfig = {
+  /** Sources sampled every poll. */
+  sources: ['log-mtime', 'cpu', 'child-cpu', 'transcript-growth', 'network-io', 'disk-io'],
+  /** Any single source firing means the session is active. */
+  quorum: 1,
+  /** Sources that count on their own regardless of quorum. */
+  decisive: [],
+  /** Min bytes appended to a session transcript between polls. */
+  minTranscriptGrowthBytes: 1,
+  /** Min socket/pipe bytes across a process tree between polls. */
+  minNetworkBytes: 4096,
+  /** Min storage bytes across a process tree between polls. */
+  minDiskBytes: 65536,
+};
+
+/** Default notification settings (see notifier.ts). */
+export const NOTIFICATION_CONFIG: NotificationConfig = {
+  /** No webhook until one is configured. */
+  webhookUrl: null,
+  /** Desktop notifications are opt-in. */
+  desktop: false,
+  /** No user command until one is configured. */
+  command: null,
+  /** Every daemon event type. */
+  events: ['attention', 'incident-open', 'incident-close', 'bundle', 'budget-cap'],
+  /** At most one notification per event type per minute. */
+  minIntervalSeconds: 60,
+  /** Webhook retries after the first attempt. */
+  retries: 3,
+  /** 1s, 2s, 4s between webhook attempts. */
+  retryBackoffMs: 1000,
+  /** Per-attempt timeout. */
+  timeoutMs: 5000,
+};
+
+/** Default doctor bundle redaction (see redaction.ts). */
+export const REDACTION_CONFIG: RedactionConfig = {
+  /** Built-in detectors plus user rules. */
+  level: 'standard',
+  /** No user rules until configured. */
+  rules: [],
+};
+
+/** Default leak detection settings (see leak-detector.ts). */
+export const LEAK_CONFIG: LeakConfig = {
+  /** Trends are fitted from samples the daemon already takes. */
+  enabled: true,
+  /** Fit over the last hour. */
+  windowSeconds: 3600,
+  /** At least 15 minutes of samples before a verdict. */
+  minSpanSeconds: 900,
+  /** Growth must be steady, not a GC sawtooth or one big allocation. */
+  minR2: 0.7,
+  /** Slower RSS growth is ignored. */
+  minRssGrowthMBPerHour: 100,
+  /** Slower handle growth is ignored. */
+  minHandleGrowthPerHour: 500,
+  /** Handle count the trend is projected toward. */
+  handleLimit: 10000,
+  /** Flag leaks projected to hit their threshold within 6 hours. */
+  horizonSeconds: 21600,
+};
+
+/** Default deep process capture settings (see deep-capture.ts). */
+export const DEEP_CAPTURE_CONFIG: DeepCaptureConfig = {
+  /** Opt-in: automatic bundles stay logs and numbers only. */
+  enabled: false,
+  /** Opt-in: signalling a process opens a debug port, however briefly. */
+  inspector: false,
+  /** Half a second between thread CPU samples. */
+  threadSampleMs: 500,
+  /** A JS stack normally arrives well within 5 seconds. */
+  inspectorTimeoutMs: 5000,
+};
+
+/** Default session trash policy (see trash.ts). */
+export const TRASH_CONFIG: TrashConfig = {
+  /** Removed sessions stay restorable. */
+  enabled: true,
+  /** Keep them for a month. */
+  maxAgeDays: 30,
+  /** Keep at most 1GB. */
+  maxSizeMB: 1024,
+  /** Even an item larger than that stays restorable for a day. */
+  minRestoreHours: 24,
+};
+
+/** Default project archival policy (see archive.ts). */
+export const ARCHIVE_CONFIG: ArchiveConfig = {
+  /** Oversized projects are archived, not just reported. */
+  enabled: true,
+  /** Leave the last day's sessions alone — they may still be resumed. */
+  minSessionAgeHours: 24,
+  /** Keep at most 2GB of archives. */
+  maxTotalMB: 2048,
+};
+
+/** The 3 top-level knobs plus thresholds, with sane defaults. */
+export const DEFAULT_CONFIG: GuardianConfig = {
+  maxProjectLogDirMB: 200,
+  hangNoActivitySeconds: 300,
+  autoRestart: false,
+  thresholds: THRESHOLDS,
+  budget: BUDGET_THRESHOLDS,
+  exporter: EXPORTER_CONFIG,
+  activity: ACTIVITY_CONFIG,
+  notifications: NOTIFICATION_CONFIG,
+  redaction: REDACTION_CONFIG,
+  leaks: LEAK_CONFIG,
+  deepCapture: DEEP_CAPTURE_CONFIG,
+  trash: TRASH_CONFIG,
+  archive: ARCHIVE_CONFIG,
+  retention: {},
+};
 
 /** Resolve the Claude projects directory. */
 export function getClaudeProjectsPath(): string {
@@ -80,7 +241,37 @@ export function getArchivePath(): string {
   return join(getGuardianDataPath(), 'archive');
 }
 
+/** Resolve the index of archives in the archive directory. */
+export function getArchiveIndexPath(): string {
+  return join(getArchivePath(), 'index.json');
+}
+
+/** Resolve the quarantine directory for removed session transcripts. */
+export function getTrashPath(): string {
+  return join(getGuardianDataPath(), 'trash');
+}
+
+/** Default location of the plan written by `preflight --plan`. */
+export function getFixPlanPath(): string {
+  return join(getGuardianDataPath(), 'fix-plan.json');
+}
+
 /** Resolve the budget file path. */
 export function getBudgetPath(): string {
   return join(getGuardianDataPath(), 'budget.json');
 }
+
+/** Resolve the budget ledger path. */
+export function getBudgetLedgerPath(): string {
+  return join(getGuardianDataPath(), 'budget-ledger.jsonl');
+}
+
+/** Resolve the metrics time-series directory. */
+export function getMetricsPath(): string {
+  return join(getGuardianDataPath(), 'metrics');
+}
+
+/** Resolve the user config file path. */
+export function getConfigPath(): string {
+  return join(getGuardianDataPath(), 'config.json');
+}
@@ -3,23 +3,42 @@ import { join, basename, resolve, normalize } from 'path';
 import { existsSync, createWriteStream } from 'fs';
 import archiver from 'archiver';
 import { homedir, platform, release, totalmem, freemem, cpus } from 'os';
-import type { PreflightResult } from './types.js';
-import { getClaudeProjectsPath, getGuardianDataPath, THRESHOLDS } from './defaults.js';
+import type { GuardianConfig, PreflightResult, RedactionLevel } from './types.js';
+import { getClaudeProjectsPath, getGuardianDataPath, DEFAULT_CONFIG, THRESHOLDS, REDACTION_CONFIG } from './defaults.js';
 import {
   dirSize, listFilesRecursive, getDiskFreeGB, bytesToMB,
   tailFile, readJournal, pathExists,
 } from './fs-utils.js';
 import { scanLogs } from './log-manager.js';
 import { findClaudeProcesses, checkActivitySignals, type ClaudeProcess } from './process-monitor.js';
-import { getHandleCounts, type HandleCountResult } from './handle-count.js';
+import { attachProcessTrees, type ProcessTree } from './process-tree.js';
+import { getHandleCounts, getHandleBreakdown, type HandleCountResult, type HandleBreakdown } from './handle-count.js';
 import { readState } from './state.js';
-import { readIncidentLog, type Incident } from './incident.js';
+import {
+  readIncidentLog, normalizeIncident, collectIncidentActions, incidentActionFor, type Incident,
+} from './incident.js';
+import { Redactor, type RedactionReport } from './redaction.js';
+import { captureDeepStates, formatDeepCaptureLine, type DeepCapture } from './deep-capture.js';
 
 export interface DoctorBundle {
   /** Path to the generated zip file. */
   zipPath: string;
-  /** Summary data included in the bundle. */
+  /** Summary data included in the bundle (unredacted — the copy in the zip is redacted). */
   summary: DoctorSummary;
+  /** What was redacted from the bundle (also written as redaction-report.json). */
+  redaction: RedactionReport;
+}
+
+export interface BundleOptions {
+  /** Redaction level; defaults to config.redaction.level. */
+  redact?: RedactionLevel;
+  /** Live capture of what processes are doing, written as process-deep.json (off when omitted). */
+  deep?: {
+    /** PIDs to capture; defaults to every Claude process found. */
+    pids?: number[];
+    /** Signal SIGUSR1 if needed and pull a JS stack through the inspector. */
+    inspector?: boolean;
+  };
 }
 
 export interface DoctorSummary {
@@ -35,6 +54,8 @@ export interface DoctorSummary {
   processSnapshot: ProcessSnapshot;
   /** Reconstructed timeline of events. */
   timeline: TimelineEvent[];
+  /** Live /proc (and inspector) capture per process; null unless requested. */
+  deepCapture: DeepCapture[] | null;
 }
 
 /** Snapshot of running Claude processes at bundle time. */
@@ -47,6 +68,10 @@ export interface ProcessSnapshot {
     memoryMB: number;
     uptimeSeconds: number;
     handleCount: number | null;
+    /** FDs by type, top open paths and RLIMIT_NOFILE (null if unavailable or not Linux). */
+    handles: HandleBreakdown | null;
+    /** Descendants and tree totals (null if unavailable). */
+    tree: ProcessTree | null;
   }>;
   activitySignals: {
     logLastModifiedSecondsAgo: number;
@@ -58,7 +83,7 @@ export interface ProcessSnapshot {
 /** A single event in the diagnostic timeline. */
 export interface TimelineEvent {
   timestamp: string;
-  type: 'risk_change' | 'incident_open' | 'incident_close' | 'bundle_captured' | 'fix_applied' | 'budget_change' | 'journal';
+  type: 'risk_change' | 'incident_open' | 'incident_close' | 'incident_action' | 'bundle_captured' | 'fix_applied' | 'budget_change' | 'journal';
   detail: string;
 }
 
@@ -101,7 +126,11 @@ export function validateOutputPath(outputPath: string): string {
 }
 
 /** Generate a full diagnostics bundle. */
-export async function generateBundle(outputPath?: string): Promise<DoctorBundle> {
+export async function generateBundle(
+  outputPath?: string,
+  config: GuardianConfig = DEFAULT_CONFIG,
+  options: BundleOptions = {},
+): Promise<DoctorBundle> {
   const dataDir = getGuardianDataPath();
   if (!existsSync(dataDir)) {
     await mkdir(dataDir, { recursive: true });
@@ -111,7 +140,7 @@ export async function generateBundle(outputPath?: string): Promise<DoctorBundle>
   const zipPath = outputPath ? validateOutputPath(outputPath) : join(dataDir, `bundle-${timestamp}.zip`);
 
   // Collect preflight scan
-  const claudeProjects = await scanLogs();
+  const claudeProjects = await scanLogs(config);
 
   // Collect system info
   const diskFreeGB = await getDiskFreeGB(homedir());
@@ -142,13 +171,24 @@ export async function generateBundle(outputPath?: string): Promise<DoctorBundle>
 
   // Collect handle counts for running Claude processes
   const { processes } = await findClaudeProcesses();
+  await attachProcessTrees(processes);
   const handleCounts = processes.length > 0
     ? await getHandleCounts(processes.map(p => p.pid))
     : [];
 
+  const breakdowns = await Promise.all(processes.map(p => getHandleBreakdown(p.pid)));
+
   // Build process snapshot
   const activity = await checkActivitySignals(processes);
-  const processSnapshot = buildProcessSnapshot(processes, handleCounts, activity);
+  const processSnapshot = buildProcessSnapshot(processes, handleCounts, activity, breakdowns);
+
+  // Opt-in live capture of what the processes are doing
+  const deepCapture = options.deep
+    ? await captureDeepStates(options.deep.pids ?? processes.map(p => p.pid), {
+      inspector: options.deep.inspector,
+      config: config.deepCapture,
+    })
+    : null;
 
   // Build timeline from journal + incidents
   const timeline = await buildTimeline(journal, recentJournal);
@@ -163,36 +203,50 @@ export async function generateBundle(outputPath?: string): Promise<DoctorBundle>
     handleCounts,
     processSnapshot,
     timeline,
+    deepCapture,
   };
 
   // Build the zip
-  await createZipBundle(zipPath, summary, claudePath);
+  const tailLines = (config.thresholds ?? THRESHOLDS).doctorTailLines;
+  const redactionConfig = config.redaction ?? REDACTION_CONFIG;
+  const redactor = new Redactor(options.redact ?? redactionConfig.level, redactionConfig);
+  const redaction = await createZipBundle(zipPath, summary, claudePath, tailLines, redactor);
 
-  return { zipPath, summary };
+  return { zipPath, summary, redaction };
 }
 
-/** Create the actual zip file with summary + log tails. */
+/**
+ * Create the actual zip file with summary + log tails.
+ * Every entry (and every log-tail name) goes through the redactor; redaction-report.json is added last.
+ */
 async function createZipBundle(
   zipPath: string,
   summary: DoctorSummary,
   claudePath: string,
-): Promise<void> {
+  tailLines: number,
+  redactor: Redactor,
+): Promise<RedactionReport> {
   // Ensure parent dir exists
   const parentDir = join(zipPath, '..');
   if (!existsSync(parentDir)) {
     await mkdir(parentDir, { recursive: true });
   }
 
-  return new Promise<void>((resolve, reject) => {
+  return new Promise<RedactionReport>((resolve, reject) => {
     const output = createWriteStream(zipPath);
     const archive = archiver('zip', { zlib: { level: 9 } });
+    let report: RedactionReport;
 
-    output.on('close', resolve);
+    output.on('close', () => resolve(report));
     archive.on('error', reject);
     archive.pipe(output);
 
+    const add = (content: string, name: string) => {
+      archive.append(redactor.redact(content, name), { name });
+    };
+
     // Add summary.json
-    archive.append(JSON.stringify(summary, null, 2), { name: 'summary.json' });
+    add(JSON.stringify(summary, null, 2), 'summary.json');
 
     // Add log tails (async — we queue them as promises)
     const addTails = async () => {
@@ -204,11 +258,12 @@ async function createZipBundle(
         ).slice(0, 20);
 
         for (const f of textFiles) {
-          const tail = await tailFile(f, THRESHOLDS.doctorTailLines);
+          const tail = await tailFile(f, tailLines);
           if (tail.length > 0) {
-            // Use relative path from claude projects dir
+            // Use relative path from claude projects dir; project dir names embed the home path
             const relPath = f.replace(claudePath, '').replace(/^[/\\]/, '');
-            archive.append(tail, { name: `log-tails/${relPath}` });
+            const name = `log-tails/${redactor.redact(relPath)}`;
+            add(tail, name);
           }
         }
       }
@@ -217,35 +272,44 @@ async function createZipBundle(
       const journalPath = join(getGuardianDataPath(), 'journal.jsonl');
       if (await pathExists(journalPath)) {
         const journalContent = await readFile(journalPath, 'utf-8');
-        archive.append(journalContent, { name: 'journal.jsonl' });
+        add(journalContent, 'journal.jsonl');
       }
 
       // Add process snapshot
-      archive.append(JSON.stringify(summary.processSnapshot, null, 2), { name: 'process.json' });
+      add(JSON.stringify(summary.processSnapshot, null, 2), 'process.json');
+
+      // Add deep capture (only when requested)
+      if (summary.deepCapture) {
+        add(JSON.stringify(summary.deepCapture, null, 2), 'process-deep.json');
+      }
 
       // Add timeline
-      archive.append(JSON.stringify(summary.timeline, null, 2), { name: 'timeline.json' });
+      add(JSON.stringify(summary.timeline, null, 2), 'timeline.json');
 
       // Add filtered events (journal entries relevant to recent incidents)
       const events = buildEventLines(summary.recentJournal);
       if (events.length > 0) {
-        archive.append(events, { name: 'events.jsonl' });
+        add(events, 'events.jsonl');
       }
 
       // Add current state if available
       const statePath = join(getGuardianDataPath(), 'state.json');
       if (await pathExists(statePath)) {
         const stateContent = await readFile(statePath, 'utf-8');
-        archive.append(stateContent, { name: 'state.json' });
+        add(stateContent, 'state.json');
       }
 
       // Add incidents log if available
       const incidentsPath = join(getGuardianDataPath(), 'incidents.jsonl');
       if (await pathExists(incidentsPath)) {
         const incidentsContent = await readFile(incidentsPath, 'utf-8');
-        archive.append(incidentsContent, { name: 'incidents.jsonl' });
+        add(incidentsContent, 'incidents.jsonl');
       }
 
+      // Counts per rule — never redacted itself
+      report = redactor.report();
+      archive.append(JSON.stringify(report, null, 2), { name: 'redaction-report.json' });
+
       archive.finalize();
     };
 
@@ -253,13 +317,15 @@ async function createZipBundle(
   });
 }
 
-/** Build a process snapshot from current processes and handle counts. */
+/** Build a process snapshot from current processes, handle counts and FD breakdowns. */
 function buildProcessSnapshot(
   processes: ClaudeProcess[],
   handleCounts: HandleCountResult[],
   activity: { logLastModifiedSecondsAgo: number; cpuActive: boolean; sources: string[] },
+  breakdowns: Array<HandleBreakdown | null> = [],
 ): ProcessSnapshot {
   const handleMap = new Map(handleCounts.map(h => [h.pid, h.count]));
+  const breakdownMap = new Map(breakdowns.filter((b): b is HandleBreakdown => b !== null).map(b => [b.pid, b]));
 
   return {
     timestamp: new Date().toISOString(),
@@ -270,6 +336,8 @@ function buildProcessSnapshot(
       memoryMB: p.memoryMB,
       uptimeSeconds: p.uptimeSeconds,
       handleCount: handleMap.get(p.pid) ?? null,
+      handles: breakdownMap.get(p.pid) ?? null,
+      tree: p.tree ?? null,
     })),
     activitySignals: {
       logLastModifiedSecondsAgo: activity.logLastModifiedSecondsAgo,
@@ -285,35 +353,49 @@ async function buildTimeline(
   recentJournal: Array<{ timestamp: string; action: string; detail: string }>,
 ): Promise<TimelineEvent[]> {
   const events: TimelineEvent[] = [];
+  const state = await readState();
 
-  // Add journal events
-  for (const entry of journal.slice(-100)) {
-    let type: TimelineEvent['type'] = 'journal';
-    if (entry.action === 'auto-bundle' || entry.action === 'bundle') {
-      type = 'bundle_captured';
-    } else if (entry.action.includes('fix') || entry.action.includes('rotate') || entry.action.includes('trim')) {
-      type = 'fix_applied';
-    }
-    events.push({
-      timestamp: entry.timestamp,
-      type,
-      detail: `${entry.action}: ${entry.detail}`,
-    });
+  // Incidents: closed history plus the one still open (its actions are only attached at close)
+  const incidents = await readIncidentLog(20);
+  if (state?.activeIncident && !incidents.some(i => i.id === state.activeIncident!.id)) {
+    const active = normalizeIncident(state.activeIncident);
+    active.actions = collectIncidentActions(active, journal, state.updatedAt);
+    incidents.push(active);
   }
 
-  // Add incident events
-  const incidents = await readIncidentLog(20);
+  // Journal entries shown as incident actions aren't repeated as plain journal events
+  const claimed = new Set<string>();
+
   for (const inc of incidents) {
+    const [first, ...rest] = inc.transitions;
+    const pids = inc.pids.length > 0 ? ` | PIDs ${inc.pids.join(', ')}` : '';
     events.push({
       timestamp: inc.startedAt,
       type: 'incident_open',
-      detail: `Incident ${inc.id} opened (${inc.peakLevel}): ${inc.reason}`,
+      detail: `Incident ${inc.id} opened (${first?.to ?? inc.peakLevel}): ${first?.reason ?? inc.reason}${pids}`,
     });
+    for (const t of rest) {
+      if (t.to === 'ok') continue; // shown as incident_close
+      events.push({
+        timestamp: t.at,
+        type: 'risk_change',
+        detail: `Incident ${inc.id}: ${t.from} → ${t.to}: ${t.reason}`,
+      });
+    }
+    for (const a of inc.actions) {
+      claimed.add(`${a.at}|${a.detail}`);
+      events.push({
+        timestamp: a.at,
+        type: 'incident_action',
+        detail: `Incident ${inc.id} ${a.type}: ${a.detail}`,
+      });
+    }
     if (inc.closedAt) {
+      const peakReasons = inc.snapshots.peak?.reasons.join('; ');
       events.push({
         timestamp: inc.closedAt,
         type: 'incident_close',
-        detail: `Incident ${inc.id} closed`,
+        detail: `Incident ${inc.id} closed (peak ${inc.peakLevel}${peakReasons ? `: ${peakReasons}` : ''})`,
       });
     }
     if (inc.bundleCaptured && inc.bundlePath) {
@@ -325,8 +407,25 @@ async function buildTimeline(
     }
   }
 
+  // Add journal events
+  for (const entry of journal.slice(-100)) {
+    const action = incidentActionFor(entry);
+    if (action && claimed.has(`${action.at}|${action.detail}`)) continue;
+
+    let type: TimelineEvent['type'] = 'journal';
+    if (entry.action === 'auto-bundle' || entry.action === 'bundle') {
+      type = 'bundle_captured';
+    } else if (entry.action.includes('fix') || entry.action.includes('rotate') || entry.action.includes('trim')) {
+      type = 'fix_applied';
+    }
+    events.push({
+      timestamp: entry.timestamp,
+      type,
+      detail: `${entry.action}: ${entry.detail}`,
+    });
+  }
+
   // Add current state info
-  const state = await readState();
   if (state) {
     events.push({
       timestamp: state.updatedAt,
@@ -337,7 +436,7 @@ async function buildTimeline(
       events.push({
         timestamp: state.updatedAt,
         type: 'budget_change',
-        detail: `Budget cap: ${state.budgetSummary.currentCap}/${state.budgetSummary.baseCap} (reduced by ${state.budgetSummary.capSetByRisk})`,
+        detail: `Budget cap: ${state.budgetSummary.currentCap}/${state.budgetSummary.baseCap} (reduced by ${state.budgetSummary.capReason ?? state.budgetSummary.capSetByRisk})`,
       });
     }
   }
@@ -394,12 +493,25 @@ export function formatDoctorReport(summary: DoctorSummary): string {
       if (p.handleCount != null) {
         line += ` | handles=${p.handleCount}`;
       }
+      if (p.handles) {
+        const types = Object.entries(p.handles.byType).filter(([, n]) => n > 0).map(([t, n]) => `${t} ${n}`).join(', ');
+        line += ` (${types || 'none'}${p.handles.softLimit ? `; limit ${p.handles.softLimit}` : ''})`;
+      }
       lines.push(line);
     }
     lines.push(`  Activity: log=${summary.processSnapshot.activitySignals.logLastModifiedSecondsAgo}s ago | cpu=${summary.processSnapshot.activitySignals.cpuActive ? 'active' : 'idle'}`);
     lines.push('');
   }
 
+  // Deep capture
+  if (summary.deepCapture && summary.deepCapture.length > 0) {
+    lines.push('Deep Capture (process-deep.json):');
+    for (const c of summary.deepCapture) {
+      lines.push(`  ${formatDeepCaptureLine(c)}`);
+    }
+    lines.push('');
+  }
+
   // Timeline
   if (summary.timeline.length > 0) {
     lines.push(`Timeline: ${summary.timeline.length} events`);
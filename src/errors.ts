@@ -16,6 +16,20 @@ export type GuardianErrorCode =
   | 'DISK_CHECK_FAILED'
   | 'PORT_PROBE_FAILED'
   | 'PROJECT_CLASSIFY_FAILED'
+  | 'CONFIG_INVALID'
+  | 'CONFIG_WRITE_FAILED'
+  | 'METRICS_FAILED'
+  | 'EXPORTER_FAILED'
+  | 'NOTIFY_FAILED'
+  | 'LOCK_FAILED'
+  | 'BUDGET_POOL_UNKNOWN'
+  | 'FIX_PLAN_INVALID'
+  | 'FIX_PLAN_STALE'
+  | 'TRASH_ITEM_UNKNOWN'
+  | 'TRASH_RESTORE_CONFLICT'
+  | 'ARCHIVE_UNKNOWN'
+  | 'ARCHIVE_FAILED'
+  | 'ARCHIVE_EXTRACT_CONFLICT'
   | 'UNKNOWN';
 
 export class GuardianError extends Error {
@@ -0,0 +1,187 @@
+/**
+ * Cross-process advisory lock for the daemon, MCP servers (one per Claude session) and CLI.
+ *
+ * The lock is a `<file>.lock` created with O_EXCL holding the owner's PID, hostname and a
+ * random token. While held, the owner touches the file every `staleMs / 3`. A waiter takes
+ * over a lock whose owner PID is gone (same host) or that has not been touched for `staleMs`,
+ * so a live owner keeps its lock however long it holds it. Takeover goes through a short-lived `<file>.lock.break` guard and
+ * re-checks the token under it, so two waiters can never both delete a lock and both win.
+ */
+
+import { open, readFile, stat, unlink, utimes } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { GuardianError } from './errors.js';
+
+/** Contents of a lock file. */
+export interface LockInfo {
+  pid: number;
+  hostname: string;
+  token: string;
+  acquiredAt: string;
+}
+
+export interface FileLockOptions {
+  /** Give up with LOCK_FAILED after this long. */
+  timeoutMs?: number;
+  /** A lock not refreshed by its owner for this long is stale (owner hung, or gone on another host). */
+  staleMs?: number;
+  /** Delay between attempts (jittered). */
+  retryMs?: number;
+}
+
+/** Defaults sized for the short read-modify-write sections that use the lock. */
+export const FILE_LOCK_DEFAULTS: Required<FileLockOptions> = {
+  timeoutMs: 10_000,
+  staleMs: 30_000,
+  retryMs: 25,
+};
+
+/** A lock file still empty/unparseable after this long was left by an owner that died mid-create. */
+const EMPTY_LOCK_STALE_MS = 1000;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/** True unless the PID definitely does not exist (EPERM means it exists but isn't ours). */
+export function isPidAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/** Read a lock file. Null if missing or unreadable (a writer may be mid-create). */
+export async function readLockInfo(lockPath: string): Promise<LockInfo | null> {
+  try {
+    return JSON.parse(await readFile(lockPath, 'utf-8')) as LockInfo;
+  } catch {
+    return null;
+  }
+}
+
+async function tryCreate(path: string, info: LockInfo): Promise<boolean> {
+  try {
+    const fh = await open(path, 'wx');
+    try {
+      await fh.writeFile(JSON.stringify(info), 'utf-8');
+    } finally {
+      await fh.close();
+    }
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'EEXIST') return false;
+    throw err;
+  }
+}
+
+async function ageMs(path: string, now: number): Promise<number | null> {
+  try {
+    return now - (await stat(path)).mtimeMs;
+  } catch {
+    return null;
+  }
+}
+
+/** True if the lock's owner is gone (same host), or it has not refreshed the lock for `staleMs`. */
+async function isStale(lockPath: string, info: LockInfo | null, staleMs: number): Promise<boolean> {
+  const age = await ageMs(lockPath, Date.now());
+  if (age === null) return false; // released meanwhile
+  if (info && info.hostname === hostname() && !isPidAlive(info.pid)) return true;
+  // Unparseable for a while: the owner died between create and write
+  return age > staleMs || (!info && age > EMPTY_LOCK_STALE_MS);
+}
+
+/** Remove a stale lock, unless someone else already replaced it. Returns true if removed. */
+async function breakStaleLock(lockPath: string, seen: LockInfo | null, staleMs: number): Promise<boolean> {
+  const breakPath = lockPath + '.break';
+  const guard: LockInfo = { pid: process.pid, hostname: hostname(), token: randomUUID(), acquiredAt: new Date().toISOString() };
+  if (!await tryCreate(breakPath, guard)) {
+    // A breaker that died mid-takeover leaves its guard behind
+    const age = await ageMs(breakPath, Date.now());
+    if (age !== null && age > staleMs) await unlink(breakPath).catch(() => {});
+    return false;
+  }
+  try {
+    const current = await readLockInfo(lockPath);
+    if (current?.token !== seen?.token) return false;
+    if (!await isStale(lockPath, current, staleMs)) return false;
+    await unlink(lockPath).catch(() => {});
+    return true;
+  } finally {
+    await unlink(breakPath).catch(() => {});
+  }
+}
+
+/** Bump the lock's mtime so waiters see its owner is still alive. Skipped once the lock isn't ours. */
+async function refreshLock(lockPath: string, token: string): Promise<void> {
+  try {
+    if ((await readLockInfo(lockPath))?.token !== token) return;
+    const now = new Date();
+    await utimes(lockPath, now, now);
+  } catch {
+    // Released or taken over meanwhile
+  }
+}
+
+/**
+ * Acquire `lockPath`, waiting up to `timeoutMs`. Returns a release function.
+ * The lock is refreshed in the background until released.
+ * Throws LOCK_FAILED if the lock stays held by a live owner.
+ */
+export async function acquireFileLock(lockPath: string, options: FileLockOptions = {}): Promise<() => Promise<void>> {
+  const { timeoutMs, staleMs, retryMs } = { ...FILE_LOCK_DEFAULTS, ...options };
+  const info: LockInfo = { pid: process.pid, hostname: hostname(), token: randomUUID(), acquiredAt: new Date().toISOString() };
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    try {
+      if (await tryCreate(lockPath, info)) break;
+    } catch (err) {
+      throw new GuardianError(
+        'LOCK_FAILED',
+        `Could not create lock file ${lockPath}`,
+        'Check permissions on ~/.claude-guardian/',
+        err as Error,
+      );
+    }
+
+    const holder = await readLockInfo(lockPath);
+    if (await isStale(lockPath, holder, staleMs) && await breakStaleLock(lockPath, holder, staleMs)) {
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      const owner = holder ? `PID ${holder.pid} on ${holder.hostname} since ${holder.acquiredAt}` : 'an unknown process';
+      throw new GuardianError(
+        'LOCK_FAILED',
+        `Timed out after ${timeoutMs}ms waiting for ${lockPath} (held by ${owner})`,
+        `If no claude-guardian process is running, delete ${lockPath}.`,
+      );
+    }
+    await sleep(retryMs / 2 + Math.random() * retryMs);
+  }
+
+  const heartbeat = setInterval(() => void refreshLock(lockPath, info.token), staleMs / 3);
+  heartbeat.unref();
+
+  return async () => {
+    clearInterval(heartbeat);
+    // Only remove our own lock — after a takeover it belongs to someone else
+    const current = await readLockInfo(lockPath);
+    if (current?.token === info.token) {
+      await unlink(lockPath).catch(() => {});
+    }
+  };
+}
+
+/** Run `fn` while holding the cross-process lock at `lockPath`. */
+export async function withFileLock<T>(lockPath: string, fn: () => Promise<T>, options: FileLockOptions = {}): Promise<T> {
+  const release = await acquireFileLock(lockPath, options);
+  try {
+    return await fn();
+  } finally {
+    await release();
+  }
+}
@@ -0,0 +1,821 @@
+import { readdir, stat, lstat, realpath, mkdir, rm, unlink, readFile, writeFile } from 'fs/promises';
+import { join, dirname, basename, resolve, sep } from 'path';
+import { z } from 'zod';
+import type { GuardianConfig, PreflightAction, FixPlan, FixPlanItem, RetentionPolicy } from './types.js';
+import {
+  DEFAULT_CONFIG, THRESHOLDS, TRASH_CONFIG, ARCHIVE_CONFIG,
+  getClaudeProjectsPath, getFixPlanPath, getTrashPath, getArchivePath,
+} from './defaults.js';
+import {
+  dirSize, fileSize, listFilesWithStats, getDiskFreeGB,
+  gzipFile, trimFileToLines, bytesToMB, pathExists, writeJournalEntry,
+} from './fs-utils.js';
+import { GuardianError } from './errors.js';
+import { moveToTrash, listTrash, selectTrashToPurge, purgeTrashItems } from './trash.js';
+import { archiveSessions, presentArchives, selectArchivesToPrune, removeArchives, readArchiveIndex } from './archive.js';
+import { trimJsonlFile } from './jsonl-trim.js';
+import { resolveRetention, resolveProjectRetentions, retainedBy, isPinned, type ResolvedRetention } from './retention.js';
+
+/** UUID pattern matching session IDs (directories and files). */
+export const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Entries to never delete inside a project directory. */
+export const PROTECTED_NAMES = new Set(['memory', 'sessions-index.json']);
+
+/** Trash item directory names (see timestampId). */
+const TRASH_ID_RE = /^\d{8}-\d{6}-[0-9a-f]{6}$/;
+
+/** Archive file names (see archiveSessions). */
+const ARCHIVE_FILE_RE = /^\d{8}-\d{6}-[0-9a-f]{6}_[^/\\]+\.tar\.gz$/;
+
+/** How many changed paths a FIX_PLAN_STALE message lists. */
+const STALE_LIST_MAX = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Check if a file is likely text-based (safe to trim by lines). */
+export function isTextFile(filePath: string): boolean {
+  const textExtensions = [
+    '.log', '.jsonl', '.json', '.txt', '.md',
+    '.yaml', '.yml', '.toml', '.csv', '.ndjson',
+  ];
+  const lower = filePath.toLowerCase();
+  return textExtensions.some(ext => lower.endsWith(ext));
+}
+
+/** JSON Lines files are trimmed by record (see jsonl-trim.ts), other text files by line. */
+function isJsonlFile(filePath: string): boolean {
+  const lower = filePath.toLowerCase();
+  return lower.endsWith('.jsonl') || lower.endsWith('.ndjson');
+}
+
+/** Whether a directory entry name is a session transcript (<uuid>.jsonl[.gz]) or session directory (<uuid>). */
+function isSessionName(name: string, isDirectory: boolean): boolean {
+  if (PROTECTED_NAMES.has(name)) return false;
+  if (isDirectory) return UUID_RE.test(name);
+  const match = name.match(/^([0-9a-f-]+)\.jsonl(\.gz)?$/i);
+  return match !== null && UUID_RE.test(match[1]);
+}
+
+function isUnder(path: string, parent: string): boolean {
+  return path.startsWith(parent.endsWith(sep) ? parent : parent + sep);
+}
+
+/**
+ * Plan the removal of stale session transcripts in one project directory:
+ * UUID-named .jsonl / .jsonl.gz files and UUID-named subdirectories older than
+ * thresholds.staleSessionDays (halved in aggressive mode). The project's retention policy
+ * (see retention.ts) can keep it forever, pin sessions, set its own maximum age (never
+ * halved) and cap the number of sessions kept, newest first.
+ */
+export async function planStaleSessions(
+  projectDir: string,
+  aggressive: boolean = false,
+  config: GuardianConfig = DEFAULT_CONFIG,
+  now: number = Date.now(),
+  retention?: ResolvedRetention,
+): Promise<FixPlanItem[]> {
+  const t = config.thresholds ?? THRESHOLDS;
+  const { key, policy } = retention ?? await resolveRetention(projectDir, config);
+  const retainDays = policy.maxAgeDays ?? (aggressive ? Math.floor(t.staleSessionDays / 2) : t.staleSessionDays);
+  const cutoff = now - retainDays * DAY_MS;
+  const limit = key ? `limit ${retainDays}d, policy ${key}` : `limit ${retainDays}d`;
+  const items: FixPlanItem[] = [];
+  if (policy.keepForever) return items;
+
+  let entries;
+  try {
+    entries = await readdir(projectDir, { withFileTypes: true });
+  } catch {
+    return items;
+  }
+
+  const candidates: Array<{ name: string; fullPath: string; isDirectory: boolean; size: number; mtimeMs: number }> = [];
+  const newest = new Map<string, number>();
+  for (const entry of entries) {
+    if (!entry.isFile() && !entry.isDirectory()) continue;
+    if (!isSessionName(entry.name, entry.isDirectory()) || isPinned(entry.name, policy)) continue;
+    const fullPath = join(projectDir, entry.name);
+    try {
+      const s = await stat(fullPath);
+      candidates.push({ name: entry.name, fullPath, isDirectory: entry.isDirectory(), size: s.size, mtimeMs: s.mtimeMs });
+      const id = entry.name.split('.')[0];
+      newest.set(id, Math.max(newest.get(id) ?? 0, s.mtimeMs));
+    } catch {
+      // Skip entries we can't stat
+    }
+  }
+
+  // Sessions (transcript + dir) beyond the newest maxSessions, not counting pinned ones
+  const excess = new Set(policy.maxSessions === undefined ? [] : [...newest.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(policy.maxSessions)
+    .map(([id]) => id));
+
+  for (const c of candidates) {
+    const tooOld = c.mtimeMs < cutoff;
+    if (!tooOld && !excess.has(c.name.split('.')[0])) continue;
+    try {
+      items.push({
+        op: 'delete',
+        path: c.fullPath,
+        kind: c.isDirectory ? 'dir' : 'file',
+        sizeBytes: c.isDirectory ? await dirSize(c.fullPath) : c.size,
+        mtimeMs: c.mtimeMs,
+        reason: tooOld
+          ? `stale session, ${Math.round((now - c.mtimeMs) / DAY_MS)}d old (${limit})`
+          : `beyond the newest ${policy.maxSessions} sessions (policy ${key})`,
+      });
+    } catch {
+      // Skip entries we can't stat
+    }
+  }
+  return items;
+}
+
+/**
+ * Plan every change `preflight --fix` would make: gzip files older than retainDays,
+ * trim oversized text files to their last lines, delete stale sessions, archive the oldest
+ * sessions of projects still over their size limit, and purge the trash items and prune the
+ * archives their policies drop (items trashed or archived by this fix count from the next one).
+ * Nothing is touched. Paths that will be deleted are not also rotated or trimmed, and
+ * keep-forever projects and pinned sessions are left out entirely.
+ */
+export async function planFixes(
+  config: GuardianConfig = DEFAULT_CONFIG,
+  aggressive: boolean = false,
+): Promise<FixPlan> {
+  const t = config.thresholds ?? THRESHOLDS;
+  const root = getClaudeProjectsPath();
+  const now = Date.now();
+  const plan: FixPlan = { version: 1, createdAt: new Date(now).toISOString(), root, aggressive, items: [], totalBytes: 0 };
+
+  if (!await pathExists(root)) {
+    return plan;
+  }
+
+  const diskFreeGB = await getDiskFreeGB(root);
+  const effectiveAggressive = aggressive || (diskFreeGB >= 0 && diskFreeGB < t.diskFreeWarningGB);
+  plan.aggressive = effectiveAggressive;
+
+  // Stale sessions first, so their files are not also planned for rotation or trimming
+  const retentions = await resolveProjectRetentions(root, config);
+  const deletes: FixPlanItem[] = [];
+  try {
+    for (const entry of await readdir(root, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      deletes.push(...await planStaleSessions(join(root, entry.name), effectiveAggressive, config, now, retentions.get(entry.name)));
+    }
+  } catch {
+    // unreadable
+  }
+  const deleted = (path: string) => deletes.some(d => d.path === path || (d.kind === 'dir' && isUnder(path, d.path)));
+
+  const retainDays = effectiveAggressive ? Math.floor(t.retainDays / 2) : t.retainDays;
+  const trimLimitMB = effectiveAggressive ? t.maxFileMB / 2 : t.maxFileMB;
+  const keepLines = effectiveAggressive ? 5000 : 10000;
+
+  for (const file of await listFilesWithStats(root)) {
+    // Skip already compressed files
+    if (file.path.endsWith('.gz') || deleted(file.path) || retainedBy(file.path, root, retentions)) continue;
+
+    const sizeMB = bytesToMB(file.size);
+    const ageDays = (now - file.mtimeMs) / DAY_MS;
+    const base = { path: file.path, kind: 'file' as const, sizeBytes: file.size, mtimeMs: file.mtimeMs };
+
+    if (ageDays > retainDays && sizeMB > 1) {
+      plan.items.push({ ...base, op: 'rotate', reason: `${Math.round(ageDays)}d old (retention ${retainDays}d)` });
+    } else if (sizeMB > trimLimitMB && isTextFile(file.path)) {
+      plan.items.push({ ...base, op: 'trim', reason: `${sizeMB}MB (limit ${trimLimitMB}MB)`, keepLines });
+    }
+  }
+
+  plan.items.push(...deletes);
+  plan.items.push(...await planArchives(root, config, retentions, plan.items, now));
+  plan.items.push(...await planTrashPurge(config, now));
+  plan.items.push(...await planArchivePrune(config));
+  plan.totalBytes = plan.items.reduce((sum, i) => sum + i.sizeBytes, 0);
+  return plan;
+}
+
+/**
+ * Archive items for projects over their size limit (policy maxSizeMB, else maxProjectLogDirMB)
+ * once the planned deletes are done: their oldest unpinned sessions, enough to cover the
+ * excess. Rotating and trimming free space too, so applying archives these oldest first only
+ * while the project is still over. Sessions with a path already planned for deletion or
+ * rotation are left out, as are keep-forever projects.
+ */
+async function planArchives(
+  root: string,
+  config: GuardianConfig,
+  retentions: Map<string, ResolvedRetention>,
+  planned: FixPlanItem[],
+  now: number,
+): Promise<FixPlanItem[]> {
+  const archive = config.archive ?? ARCHIVE_CONFIG;
+  if (!archive.enabled) return [];
+  const exclude = new Set(planned.filter(i => i.op === 'delete' || i.op === 'rotate').map(i => i.path));
+  const items: FixPlanItem[] = [];
+  try {
+    for (const entry of await readdir(root, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      const { key, policy } = retentions.get(entry.name) ?? { key: null, policy: {} };
+      if (policy.keepForever) continue;
+      const projectDir = join(root, entry.name);
+      const deletedBytes = planned
+        .filter(i => i.op === 'delete' && dirname(i.path) === projectDir)
+        .reduce((sum, i) => sum + i.sizeBytes, 0);
+      const limitMB = policy.maxSizeMB ?? config.maxProjectLogDirMB;
+      const size = await dirSize(projectDir) - deletedBytes;
+      const excess = size - limitMB * 1024 * 1024;
+      if (excess <= 0) continue;
+
+      const paths = await selectSessionsToArchive(projectDir, excess, archive.minSessionAgeHours, now, policy, exclude);
+      for (const path of paths) {
+        try {
+          const s = await stat(path);
+          items.push({
+            op: 'archive',
+            path,
+            kind: s.isDirectory() ? 'dir' : 'file',
+            sizeBytes: s.isDirectory() ? await dirSize(path) : s.size,
+            mtimeMs: s.mtimeMs,
+            reason: `oldest session; project ${bytesToMB(size)}MB after deletes (limit ${limitMB}MB${key ? `, policy ${key}` : ''})`,
+          });
+        } catch {
+          // Gone already
+        }
+      }
+    }
+  } catch {
+    // unreadable
+  }
+  return items;
+}
+
+/** Prune items for the archives over archive.maxTotalMB, oldest first (none if archiving is disabled). */
+async function planArchivePrune(config: GuardianConfig): Promise<FixPlanItem[]> {
+  const archive = config.archive ?? ARCHIVE_CONFIG;
+  if (!archive.enabled) return [];
+  const items: FixPlanItem[] = [];
+  for (const entry of selectArchivesToPrune(await presentArchives(), archive)) {
+    const path = join(getArchivePath(), entry.file);
+    try {
+      const s = await stat(path);
+      items.push({
+        op: 'prune',
+        path,
+        kind: 'file',
+        sizeBytes: s.size,
+        mtimeMs: s.mtimeMs,
+        reason: `archives over ${archive.maxTotalMB}MB, oldest first: ${entry.sessions.length} session item(s) of ${entry.project}`,
+      });
+    } catch {
+      // Gone already
+    }
+  }
+  return items;
+}
+
+/** Purge items for the trash items the trash policy would drop now (none if the trash is disabled). */
+async function planTrashPurge(config: GuardianConfig, now: number): Promise<FixPlanItem[]> {
+  const trash = config.trash ?? TRASH_CONFIG;
+  if (!trash.enabled) return [];
+  const items: FixPlanItem[] = [];
+  for (const item of selectTrashToPurge(await listTrash(), trash, { now })) {
+    const itemDir = join(getTrashPath(), item.id);
+    try {
+      const s = await stat(itemDir);
+      const ageDays = Math.round((now - Date.parse(item.trashedAt)) / DAY_MS);
+      items.push({
+        op: 'purge',
+        path: itemDir,
+        kind: 'dir',
+        sizeBytes: await dirSize(itemDir),
+        mtimeMs: s.mtimeMs,
+        reason: ageDays > trash.maxAgeDays
+          ? `trashed ${ageDays}d ago (limit ${trash.maxAgeDays}d): ${item.originalPath}`
+          : `trash over ${trash.maxSizeMB}MB, oldest first: ${item.originalPath}`,
+      });
+    } catch {
+      // Gone already
+    }
+  }
+  return items;
+}
+
+/**
+ * Check that a plan is one guardian could have made: every path under the Claude projects
+ * directory, deletes and archives only of session transcripts, trims only of text files,
+ * purges only of trash items, prunes only of archives.
+ * Returns the problems found (empty if the plan is acceptable).
+ */
+export function validateFixPlan(plan: FixPlan, root: string = getClaudeProjectsPath()): string[] {
+  const problems: string[] = [];
+  if (resolve(plan.root) !== resolve(root)) {
+    problems.push(`plan is for ${plan.root}, not ${root}`);
+    return problems;
+  }
+  for (const item of plan.items) {
+    const path = resolve(item.path);
+    if (item.op === 'purge') {
+      if (path !== item.path || dirname(path) !== resolve(getTrashPath()) || !TRASH_ID_RE.test(basename(path)) || item.kind !== 'dir') {
+        problems.push(`${item.path}: only trash items can be purged`);
+      }
+    } else if (item.op === 'prune') {
+      if (path !== item.path || dirname(path) !== resolve(getArchivePath()) || !ARCHIVE_FILE_RE.test(basename(path)) || item.kind !== 'file') {
+        problems.push(`${item.path}: only archives can be pruned`);
+      }
+    } else if (path !== item.path || !isUnder(path, root)) {
+      problems.push(`${item.path}: not inside ${root}`);
+    } else if ((item.op === 'delete' || item.op === 'archive')
+      && (dirname(dirname(path)) !== resolve(root) || !isSessionName(basename(path), item.kind === 'dir'))) {
+      problems.push(`${item.path}: only session transcripts can be ${item.op === 'delete' ? 'deleted' : 'archived'}`);
+    } else if ((item.op === 'rotate' || item.op === 'trim') && item.kind !== 'file') {
+      problems.push(`${item.path}: only files can be ${item.op === 'trim' ? 'trimmed' : 'rotated'}`);
+    } else if (item.op === 'rotate' && path.endsWith('.gz')) {
+      problems.push(`${item.path}: already compressed`);
+    } else if (item.op === 'trim' && (!isTextFile(path) || !item.keepLines || item.keepLines < 1)) {
+      problems.push(`${item.path}: trim needs a text file and keepLines`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Why `path` may not be touched through the filesystem as it is now, or null: it or a
+ * directory between it and `base` is a symlink, or it resolves outside `base`. Missing paths
+ * are left to findChangedItems.
+ */
+async function symlinkProblem(path: string, base: string): Promise<string | null> {
+  try {
+    for (let current = path; current !== base && current !== dirname(current); current = dirname(current)) {
+      if ((await lstat(current)).isSymbolicLink()) return current === path ? 'is a symlink' : `${current} is a symlink`;
+    }
+    const real = await realpath(path);
+    return isUnder(real, await realpath(base)) ? null : `resolves to ${real}, outside ${base}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a valid plan against the filesystem at apply time: validateFixPlan only sees names, so
+ * a symlink placed since planning (at an item or a directory above it) could redirect a fix
+ * outside the projects directory, the trash or the archive. Guardian never plans through one.
+ * Returns the problems found.
+ */
+export async function findSymlinkedItems(plan: FixPlan, root: string = getClaudeProjectsPath()): Promise<string[]> {
+  const problems: string[] = [];
+  for (const item of plan.items) {
+    const base = resolve(item.op === 'purge' ? getTrashPath() : item.op === 'prune' ? getArchivePath() : root);
+    const problem = await symlinkProblem(item.path, base);
+    if (problem) problems.push(`${item.path}: ${problem}`);
+  }
+  return problems;
+}
+
+/** Items whose path is gone or whose kind, size or mtime differ from the plan, with what changed. */
+export async function findChangedItems(items: FixPlanItem[]): Promise<Array<{ item: FixPlanItem; change: string }>> {
+  const changed: Array<{ item: FixPlanItem; change: string }> = [];
+  for (const item of items) {
+    let s;
+    try {
+      s = await stat(item.path);
+    } catch {
+      changed.push({ item, change: 'no longer exists' });
+      continue;
+    }
+    if (s.isDirectory() !== (item.kind === 'dir')) {
+      changed.push({ item, change: `is no longer a ${item.kind}` });
+      continue;
+    }
+    const size = item.kind === 'dir' ? await dirSize(item.path) : s.size;
+    if (size !== item.sizeBytes) {
+      changed.push({ item, change: `size ${item.sizeBytes} → ${size} bytes` });
+    } else if (s.mtimeMs !== item.mtimeMs) {
+      changed.push({ item, change: `modified ${new Date(s.mtimeMs).toISOString()}` });
+    }
+  }
+  return changed;
+}
+
+export interface ApplyFixPlanOptions {
+  /**
+   * What to do when a path changed since planning: 'refuse' (default) throws FIX_PLAN_STALE
+   * before touching anything; 'skip' leaves the changed paths alone and applies the rest.
+   */
+  onChanged?: 'refuse' | 'skip';
+}
+
+/**
+ * Apply exactly the items of a plan — nothing is re-scanned or added.
+ * Throws FIX_PLAN_INVALID for a plan guardian would not make or whose paths now go through a
+ * symlink, and FIX_PLAN_STALE if any path
+ * changed since planning (unless onChanged is 'skip'), and FIX_PLAN_INVALID if the retention
+ * policies now keep any of its paths. Each change is journaled. Project directories still over
+ * their size limit (policy maxSizeMB, else maxProjectLogDirMB) after the other fixes have the
+ * sessions of their archive items archived, oldest first, until they fit, and are reported as
+ * warnings if that is not enough. Keep-forever projects are never archived or warned about.
+ * Deletes go to the trash when it is enabled; trash items are purged and archives pruned only
+ * as the plan lists.
+ */
+export async function applyFixPlan(
+  plan: FixPlan,
+  config: GuardianConfig = DEFAULT_CONFIG,
+  options: ApplyFixPlanOptions = {},
+): Promise<PreflightAction[]> {
+  const root = getClaudeProjectsPath();
+  const problems = validateFixPlan(plan, root);
+  if (problems.length === 0) problems.push(...await findSymlinkedItems(plan, root));
+  if (problems.length > 0) {
+    throw new GuardianError(
+      'FIX_PLAN_INVALID',
+      `Fix plan rejected: ${problems.slice(0, STALE_LIST_MAX).join('; ')}`,
+      'Only apply plans written by `claude-guardian preflight --plan` on this machine.',
+    );
+  }
+
+  const retentions = await resolveProjectRetentions(root, config);
+  const retained = plan.items
+    .map(item => ({ item, key: retainedBy(item.path, root, retentions) }))
+    .filter(r => r.key !== null);
+  if (retained.length > 0) {
+    const listed = retained.slice(0, STALE_LIST_MAX).map(r => `${r.item.path} (policy ${r.key})`);
+    if (retained.length > STALE_LIST_MAX) listed.push(`and ${retained.length - STALE_LIST_MAX} more`);
+    throw new GuardianError(
+      'FIX_PLAN_INVALID',
+      `Fix plan rejected: ${retained.length} path(s) are kept by a retention policy: ${listed.join(', ')}`,
+      'The retention config changed since the plan was made. Run `claude-guardian preflight --plan` again.',
+    );
+  }
+
+  const changed = await findChangedItems(plan.items);
+  if (changed.length > 0 && (options.onChanged ?? 'refuse') === 'refuse') {
+    const listed = changed.slice(0, STALE_LIST_MAX).map(c => `${c.item.path} (${c.change})`);
+    if (changed.length > STALE_LIST_MAX) listed.push(`and ${changed.length - STALE_LIST_MAX} more`);
+    throw new GuardianError(
+      'FIX_PLAN_STALE',
+      `${changed.length} path(s) changed since the plan was made at ${plan.createdAt}: ${listed.join(', ')}`,
+      'Nothing was changed. Run `claude-guardian preflight --plan` again and review the new plan.',
+    );
+  }
+  const skip = new Set(changed.map(c => c.item));
+  const toApply = plan.items.filter(i => !skip.has(i));
+  const actions = await executeFixItems(toApply.filter(i => i.op === 'rotate' || i.op === 'trim' || i.op === 'delete'), config);
+  actions.push(...await executeTrashPurge(toApply.filter(i => i.op === 'purge')));
+
+  // Check total project dir sizes after per-file fixes; archive the planned sessions of oversized ones
+  const archiveItems = toApply.filter(i => i.op === 'archive');
+  try {
+    const topEntries = await readdir(root, { withFileTypes: true });
+    for (const entry of topEntries) {
+      if (!entry.isDirectory()) continue;
+      const { key, policy } = retentions.get(entry.name) ?? { key: null, policy: {} };
+      if (policy.keepForever) continue;
+      const limitMB = policy.maxSizeMB ?? config.maxProjectLogDirMB;
+      const limitBytes = limitMB * 1024 * 1024;
+      const fullPath = join(root, entry.name);
+      const planned = archiveItems.filter(i => dirname(i.path) === fullPath);
+      let size = await dirSize(fullPath);
+
+      if (size > limitBytes && planned.length > 0) {
+        const paths = await takePlannedSessions(planned, size - limitBytes);
+        if (paths.length > 0) {
+          try {
+            const archiveEntry = await archiveSessions(fullPath, paths);
+            actions.push({
+              type: 'archived',
+              target: fullPath,
+              detail: `Archived ${archiveEntry.sessions.length} session item(s) of ${entry.name} ` +
+                `(${bytesToMB(archiveEntry.originalBytes)}MB → ${bytesToMB(archiveEntry.archiveBytes)}MB, archive ${archiveEntry.id})`,
+              sizeBefore: archiveEntry.originalBytes,
+              sizeAfter: 0,
+            });
+            size = await dirSize(fullPath);
+          } catch (err) {
+            actions.push({
+              type: 'warning',
+              target: fullPath,
+              detail: err instanceof Error ? err.message : String(err),
+            });
+          }
+        }
+      }
+
+      if (size > limitBytes) {
+        actions.push({
+          type: 'warning',
+          target: fullPath,
+          detail: `Directory still ${bytesToMB(size)}MB after trimming${planned.length > 0 ? ' and archiving' : ''} ` +
+            `(limit: ${limitMB}MB${key ? `, policy ${key}` : ''}). Manual review recommended.`,
+        });
+      }
+    }
+  } catch {
+    // unreadable
+  }
+  actions.push(...await executeArchivePrune(toApply.filter(i => i.op === 'prune')));
+
+  return actions;
+}
+
+/**
+ * The paths of planned archive items (one project, oldest session first) to archive now:
+ * whole sessions, in plan order, until at least `excessBytes` is covered. Paths removed by
+ * the other fixes are dropped.
+ */
+async function takePlannedSessions(items: FixPlanItem[], excessBytes: number): Promise<string[]> {
+  const sessions = new Map<string, string[]>();
+  for (const item of items) {
+    const id = basename(item.path).split('.')[0];
+    sessions.set(id, [...sessions.get(id) ?? [], item.path]);
+  }
+  const paths: string[] = [];
+  let freed = 0;
+  for (const sessionPaths of sessions.values()) {
+    if (freed >= excessBytes) break;
+    for (const path of sessionPaths) {
+      try {
+        const s = await stat(path);
+        freed += s.isDirectory() ? await dirSize(path) : s.size;
+        paths.push(path);
+      } catch {
+        // Removed by another fix
+      }
+    }
+  }
+  return paths;
+}
+
+/** Prune the archives of `prune` plan items (journaled by removeArchives as archive-pruned). */
+async function executeArchivePrune(items: FixPlanItem[]): Promise<PreflightAction[]> {
+  if (items.length === 0) return [];
+  const paths = new Set(items.map(i => i.path));
+  const entries = (await readArchiveIndex()).filter(e => paths.has(join(getArchivePath(), e.file)));
+  const pruned = await removeArchives(entries);
+  return pruned.map(e => ({
+    type: 'purged' as const,
+    target: join(getArchivePath(), e.file),
+    detail: `Pruned archive ${e.id} of ${e.project} (${bytesToMB(e.archiveBytes)}MB, ${e.sessions.length} session item(s))`,
+    sizeBefore: e.archiveBytes,
+    sizeAfter: 0,
+  }));
+}
+
+/** Purge the trash items of `purge` plan items (journaled by purgeTrashItems as trash-purged). */
+async function executeTrashPurge(items: FixPlanItem[]): Promise<PreflightAction[]> {
+  if (items.length === 0) return [];
+  const ids = new Set(items.map(i => basename(i.path)));
+  const purged = await purgeTrashItems((await listTrash()).filter(t => ids.has(t.id)).reverse());
+  return purged.map(t => ({
+    type: 'purged' as const,
+    target: t.originalPath,
+    detail: `Purged ${basename(t.originalPath)} from trash (${bytesToMB(t.sizeBytes)}MB, trash ID ${t.id})`,
+    sizeBefore: t.sizeBytes,
+    sizeAfter: 0,
+    trashId: t.id,
+  }));
+}
+
+/**
+ * The oldest sessions of a project whose removal frees at least `excessBytes`, as paths.
+ * A session is its transcript(s) plus its directory; sessions touched within
+ * minAgeHours, sessions pinned by `policy` and sessions with a path in `exclude` are never
+ * picked. Returns fewer if that is all there is.
+ */
+export async function selectSessionsToArchive(
+  projectDir: string,
+  excessBytes: number,
+  minAgeHours: number,
+  now: number = Date.now(),
+  policy: RetentionPolicy = {},
+  exclude: ReadonlySet<string> = new Set(),
+): Promise<string[]> {
+  const sessions = new Map<string, { paths: string[]; sizeBytes: number; mtimeMs: number }>();
+  let entries;
+  try {
+    entries = await readdir(projectDir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  for (const entry of entries) {
+    if (!entry.isFile() && !entry.isDirectory()) continue;
+    if (!isSessionName(entry.name, entry.isDirectory()) || isPinned(entry.name, policy)) continue;
+    const fullPath = join(projectDir, entry.name);
+    try {
+      const s = await stat(fullPath);
+      const id = entry.name.split('.')[0];
+      const session = sessions.get(id) ?? { paths: [], sizeBytes: 0, mtimeMs: 0 };
+      session.paths.push(fullPath);
+      session.sizeBytes += entry.isDirectory() ? await dirSize(fullPath) : s.size;
+      session.mtimeMs = Math.max(session.mtimeMs, s.mtimeMs);
+      sessions.set(id, session);
+    } catch {
+      // Skip entries we can't stat
+    }
+  }
+
+  const cutoff = now - minAgeHours * 60 * 60 * 1000;
+  const paths: string[] = [];
+  let freed = 0;
+  const eligible = [...sessions.values()].filter(s => s.mtimeMs < cutoff && !s.paths.some(p => exclude.has(p)));
+  for (const session of eligible.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+    if (freed >= excessBytes) break;
+    paths.push(...session.paths);
+    freed += session.sizeBytes;
+  }
+  return paths;
+}
+
+/**
+ * Carry out plan items in order and journal each one. Items that fail are skipped.
+ * Deletes move the path into the trash unless trash.enabled is false.
+ */
+export async function executeFixItems(
+  items: FixPlanItem[],
+  config: GuardianConfig = DEFAULT_CONFIG,
+): Promise<PreflightAction[]> {
+  const useTrash = (config.trash ?? TRASH_CONFIG).enabled;
+  const actions: PreflightAction[] = [];
+  for (const item of items) {
+    let action: PreflightAction;
+    try {
+      action = await executeFixItem(item, useTrash);
+    } catch {
+      // Skip paths we can't compress, trim or remove
+      continue;
+    }
+    actions.push(action);
+    await writeJournalEntry({
+      timestamp: new Date().toISOString(),
+      action: action.type,
+      target: item.path,
+      detail: action.detail,
+      sizeBefore: action.sizeBefore,
+      sizeAfter: action.sizeAfter,
+      trashId: action.trashId,
+    });
+  }
+  return actions;
+}
+
+async function executeFixItem(item: FixPlanItem, useTrash: boolean): Promise<PreflightAction> {
+  const sizeMB = bytesToMB(item.sizeBytes);
+  const ageDays = Math.round((Date.now() - item.mtimeMs) / DAY_MS);
+  const name = basename(item.path);
+  switch (item.op) {
+    case 'purge':
+    case 'archive':
+    case 'prune':
+      throw new Error(`${item.op} items are applied by applyFixPlan`);
+    case 'rotate': {
+      const newSize = await fileSize(await gzipFile(item.path));
+      return {
+        type: 'rotated',
+        target: item.path,
+        detail: `Compressed ${sizeMB}MB → ${bytesToMB(newSize)}MB (${ageDays}d old)`,
+        sizeBefore: item.sizeBytes,
+        sizeAfter: newSize,
+      };
+    }
+    case 'trim': {
+      const keepLines = item.keepLines!;
+      if (isJsonlFile(item.path)) {
+        const result = await trimJsonlFile(item.path, keepLines);
+        if (!result) {
+          const newSize = await fileSize(await gzipFile(item.path));
+          return {
+            type: 'rotated',
+            target: item.path,
+            detail: `Compressed ${sizeMB}MB → ${bytesToMB(newSize)}MB (not trimmed: a record is not valid JSON)`,
+            sizeBefore: item.sizeBytes,
+            sizeAfter: newSize,
+          };
+        }
+        const preserved = result.preserved > 0 ? `, ${result.preserved} summary/compaction kept` : '';
+        return {
+          type: 'trimmed',
+          target: item.path,
+          detail: `Trimmed ${sizeMB}MB → ${bytesToMB(result.sizeBytes)}MB (kept ${result.kept} of ${result.records} records${preserved})`,
+          sizeBefore: item.sizeBytes,
+          sizeAfter: result.sizeBytes,
+        };
+      }
+      const newSize = await trimFileToLines(item.path, keepLines);
+      return {
+        type: 'trimmed',
+        target: item.path,
+        detail: `Trimmed ${sizeMB}MB → ${bytesToMB(newSize)}MB (kept last ${keepLines} lines)`,
+        sizeBefore: item.sizeBytes,
+        sizeAfter: newSize,
+      };
+    }
+    case 'delete': {
+      const what = item.kind === 'dir' ? 'stale session dir' : 'stale session transcript';
+      if (useTrash) {
+        const trashed = await moveToTrash(item.path, item.reason);
+        return {
+          type: 'cleaned',
+          target: item.path,
+          detail: `Moved ${what} ${name} to trash (${sizeMB}MB, ${ageDays}d old; restore with \`trash restore ${trashed.id}\`)`,
+          sizeBefore: item.sizeBytes,
+          sizeAfter: 0,
+          trashId: trashed.id,
+        };
+      }
+      if (item.kind === 'dir') {
+        await rm(item.path, { recursive: true, force: true });
+      } else {
+        await unlink(item.path);
+      }
+      return {
+        type: 'cleaned',
+        target: item.path,
+        detail: `Removed ${what} ${name} (${sizeMB}MB, ${ageDays}d old)`,
+        sizeBefore: item.sizeBytes,
+        sizeAfter: 0,
+      };
+    }
+  }
+}
+
+const fixPlanItemSchema = z.object({
+  op: z.enum(['rotate', 'trim', 'delete', 'archive', 'purge', 'prune']),
+  path: z.string().min(1),
+  kind: z.enum(['file', 'dir']),
+  sizeBytes: z.number().int().min(0),
+  mtimeMs: z.number(),
+  reason: z.string(),
+  keepLines: z.number().int().min(1).optional(),
+}).strict();
+
+const fixPlanSchema = z.object({
+  version: z.literal(1),
+  createdAt: z.string(),
+  root: z.string().min(1),
+  aggressive: z.boolean(),
+  items: z.array(fixPlanItemSchema),
+  totalBytes: z.number().min(0),
+}).strict();
+
+/** Write a plan as pretty-printed JSON (default ~/.claude-guardian/fix-plan.json). Returns the path. */
+export async function writeFixPlan(plan: FixPlan, planPath: string = getFixPlanPath()): Promise<string> {
+  await mkdir(dirname(planPath), { recursive: true });
+  await writeFile(planPath, JSON.stringify(plan, null, 2) + '\n', 'utf-8');
+  return planPath;
+}
+
+/** Read and schema-check a plan file. Throws FIX_PLAN_INVALID if it is missing or malformed. */
+export async function readFixPlan(planPath: string): Promise<FixPlan> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(planPath, 'utf-8'));
+  } catch (err) {
+    throw new GuardianError(
+      'FIX_PLAN_INVALID',
+      `Cannot read fix plan ${planPath}`,
+      'Create one with `claude-guardian preflight --plan`.',
+      err instanceof Error ? err : undefined,
+    );
+  }
+  const result = fixPlanSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new GuardianError(
+      'FIX_PLAN_INVALID',
+      `Fix plan ${planPath} is malformed: ${issue.path.join('.') || '(root)'}: ${issue.message}`,
+      'Create a new one with `claude-guardian preflight --plan`; plans are not meant to be edited by hand.',
+    );
+  }
+  return result.data as FixPlan;
+}
+
+/** Format a plan as a human-readable report. */
+export function formatFixPlan(plan: FixPlan): string {
+  if (plan.items.length === 0) {
+    return 'Nothing to fix — logs look healthy.';
+  }
+
+  const lines: string[] = [];
+  lines.push('=== Claude Guardian Fix Plan ===');
+  lines.push(`Created: ${plan.createdAt}${plan.aggressive ? ' (aggressive)' : ''}`);
+  lines.push('');
+  for (const item of plan.items) {
+    const what = item.op === 'trim' ? `trim to last ${item.keepLines} ${isJsonlFile(item.path) ? 'records' : 'lines'}`
+      : item.op === 'rotate' ? 'gzip'
+      : item.op === 'archive' ? 'archive if the project is still over its limit'
+      : item.op === 'purge' ? 'delete from trash permanently'
+      : item.op === 'prune' ? 'delete archive permanently'
+      : 'delete';
+    lines.push(`[${item.op.toUpperCase()}] ${item.path}`);
+    lines.push(`    ${bytesToMB(item.sizeBytes)}MB, ${item.reason} → ${what}`);
+  }
+  lines.push('');
+  const counts = (['rotate', 'trim', 'delete', 'archive', 'purge', 'prune'] as const)
+    .map(op => [op, plan.items.filter(i => i.op === op).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([op, n]) => `${n} ${op}`);
+  lines.push(`${plan.items.length} item(s): ${counts.join(', ')} — ${bytesToMB(plan.totalBytes)}MB affected`);
+  return lines.join('\n');
+}
@@ -3,6 +3,7 @@ import { join } from 'path';
 import { createReadStream, createWriteStream, existsSync } from 'fs';
 import { createGzip } from 'zlib';
 import { pipeline } from 'stream/promises';
+import { randomBytes } from 'crypto';
 import type { JournalEntry } from './types.js';
 import { getGuardianDataPath, getJournalPath } from './defaults.js';
 
@@ -250,6 +251,12 @@ export async function readJournal(lastN?: number): Promise<JournalEntry[]> {
   }
 }
 
+/** Sortable, unique-enough ID for stored items: 20261019-161900-a1b2c3 (UTC). */
+export function timestampId(now: Date = new Date()): string {
+  const stamp = now.toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+  return `${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
 /** Bytes to MB, 2 decimal places. */
 export function bytesToMB(bytes: number): number {
   return Math.round((bytes / (1024 * 1024)) * 100) / 100;
@@ -1,16 +1,115 @@
 import { execFile } from 'child_process';
 import { promisify } from 'util';
-import { readdir } from 'fs/promises';
+import { readdir, readFile, readlink } from 'fs/promises';
 import { join } from 'path';
 
 const execFileAsync = promisify(execFile);
 
+/** How many of the most-opened paths a breakdown lists. */
+const TOP_PATHS = 10;
+
 export interface HandleCountResult {
   pid: number;
   count: number | null;
   error: string | null;
 }
 
+/** What an FD points at, from its /proc/<pid>/fd link target. */
+export type FdType = 'file' | 'socket' | 'pipe' | 'inotify' | 'anon' | 'other';
+
+/** Open FDs of one process by target type, with the paths held open most often (Linux). */
+export interface HandleBreakdown {
+  pid: number;
+  total: number;
+  byType: Record<FdType, number>;
+  /** Most frequently open paths (regular files and devices), most FDs first. */
+  topPaths: Array<{ path: string; count: number }>;
+  /** Soft RLIMIT_NOFILE (null if unlimited or unknown). */
+  softLimit: number | null;
+  /** Hard RLIMIT_NOFILE (null if unlimited or unknown). */
+  hardLimit: number | null;
+  /** total / softLimit (null without a soft limit). */
+  usedFraction: number | null;
+}
+
+/** Classify an FD link target: "socket:[123]", "pipe:[456]", "anon_inode:inotify", "/path". */
+export function classifyFdTarget(target: string): FdType {
+  if (target.startsWith('socket:')) return 'socket';
+  if (target.startsWith('pipe:')) return 'pipe';
+  if (target === 'anon_inode:inotify') return 'inotify';
+  if (target.startsWith('anon_inode:')) return 'anon';
+  if (target.startsWith('/')) return 'file';
+  return 'other';
+}
+
+/** Count FD targets by type and rank the paths held open most often. */
+export function summarizeFdTargets(targets: string[], topN: number = TOP_PATHS): Pick<HandleBreakdown, 'total' | 'byType' | 'topPaths'> {
+  const byType: Record<FdType, number> = { file: 0, socket: 0, pipe: 0, inotify: 0, anon: 0, other: 0 };
+  const paths = new Map<string, number>();
+  for (const target of targets) {
+    const type = classifyFdTarget(target);
+    byType[type]++;
+    if (type === 'file') paths.set(target, (paths.get(target) ?? 0) + 1);
+  }
+  const topPaths = [...paths.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, topN)
+    .map(([path, count]) => ({ path, count }));
+  return { total: targets.length, byType, topPaths };
+}
+
+/**
+ * Parse the "Max open files" row of /proc/<pid>/limits.
+ * Each limit is null when "unlimited"; returns null if the row is missing.
+ */
+export function parseNofileLimit(content: string): { soft: number | null; hard: number | null } | null {
+  const m = content.match(/^Max open files\s+(\S+)\s+(\S+)/m);
+  if (!m) return null;
+  const value = (v: string) => (v === 'unlimited' ? null : parseInt(v, 10));
+  return { soft: value(m[1]), hard: value(m[2]) };
+}
+
+/** Soft RLIMIT_NOFILE of a PID (Linux). Null if unknown, unlimited, or not Linux. Never throws. */
+export async function getNofileLimit(pid: number): Promise<number | null> {
+  if (process.platform !== 'linux') return null;
+  try {
+    return parseNofileLimit(await readFile(join('/proc', String(pid), 'limits'), 'utf-8'))?.soft ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * FD breakdown for a PID from /proc/<pid>/fd and /proc/<pid>/limits.
+ * Linux only; returns null elsewhere or if the process can't be inspected. Never throws.
+ */
+export async function getHandleBreakdown(pid: number, topN: number = TOP_PATHS): Promise<HandleBreakdown | null> {
+  if (process.platform !== 'linux') return null;
+  try {
+    const fdPath = join('/proc', String(pid), 'fd');
+    const fds = await readdir(fdPath);
+    // FDs closed between readdir and readlink are skipped
+    const targets = (await Promise.all(fds.map(fd => readlink(join(fdPath, fd)).catch(() => null))))
+      .filter((t): t is string => t !== null);
+    let limits: { soft: number | null; hard: number | null } | null = null;
+    try {
+      limits = parseNofileLimit(await readFile(join('/proc', String(pid), 'limits'), 'utf-8'));
+    } catch { /* limits unreadable — breakdown still useful */ }
+
+    const summary = summarizeFdTargets(targets, topN);
+    const softLimit = limits?.soft ?? null;
+    return {
+      pid,
+      ...summary,
+      softLimit,
+      hardLimit: limits?.hard ?? null,
+      usedFraction: softLimit ? Math.round((summary.total / softLimit) * 1000) / 1000 : null,
+    };
+  } catch {
+    return null;
+  }
+}
+
 /** Get open handle/FD count for a PID. Best-effort, never throws. */
 export async function getHandleCount(pid: number): Promise<HandleCountResult> {
   try {
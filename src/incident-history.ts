@@ -0,0 +1,244 @@
+/**
+ * Incident history queries — filtering, lookup and statistics over incidents.jsonl
+ * (plus the daemon's currently open incident), for the `incidents` command and
+ * the guardian_incidents MCP tool.
+ */
+
+import { readIncidentLog, normalizeIncident, type Incident } from './incident.js';
+import { readState } from './state.js';
+import { resolveTimeRange } from './metrics-store.js';
+import type { RiskLevel } from './process-monitor.js';
+
+const DAY_MS = 86_400_000;
+
+/** Number of most common reasons reported by stats. */
+export const TOP_REASONS = 5;
+
+export interface IncidentFilter {
+  /** Only incidents that started at or after this time (epoch ms). */
+  from?: number;
+  /** Only incidents that started at or before this time (epoch ms). */
+  to?: number;
+  /** Only incidents whose peak reached this level. */
+  peakLevel?: Exclude<RiskLevel, 'ok'>;
+  /** Only incidents with (true) or without (false) a captured bundle. */
+  hasBundle?: boolean;
+}
+
+export interface IncidentStats {
+  /** Range the per-day rate was computed over (ISO). */
+  from: string;
+  to: string;
+  count: number;
+  closed: number;
+  open: number;
+  critical: number;
+  withBundle: number;
+  /** Mean time to recovery (open → close) over closed incidents, in seconds. */
+  mttrSeconds: number | null;
+  /** Longest closed incident, in seconds. */
+  longestSeconds: number | null;
+  incidentsPerDay: number;
+  /** Incidents started per calendar day (UTC), oldest first; days without incidents are included. */
+  daily: Array<{ date: string; count: number }>;
+  /** Most frequent reasons (normalized), most common first. */
+  topReasons: Array<{ reason: string; count: number }>;
+}
+
+/** Closed incidents from incidents.jsonl plus the daemon's open incident (if any), oldest first. */
+export async function loadIncidentHistory(): Promise<Incident[]> {
+  const incidents = await readIncidentLog();
+  const state = await readState();
+  const active = state?.activeIncident;
+  if (active && !incidents.some(i => i.id === active.id)) {
+    incidents.push(normalizeIncident(active));
+  }
+  return incidents.sort((a, b) => Date.parse(a.startedAt) - Date.parse(b.startedAt));
+}
+
+/** Resolve optional `since`/`until` (duration ago or ISO timestamp) into a filter range. */
+export function resolveIncidentRange(since?: string, until?: string, now: number = Date.now()): { from?: number; to?: number } {
+  return {
+    from: since ? resolveTimeRange(since, undefined, now).from : undefined,
+    to: until ? resolveTimeRange(until, undefined, now).from : undefined,
+  };
+}
+
+export function filterIncidents(incidents: Incident[], filter: IncidentFilter): Incident[] {
+  return incidents.filter(i => {
+    const started = Date.parse(i.startedAt);
+    if (filter.from !== undefined && started < filter.from) return false;
+    if (filter.to !== undefined && started > filter.to) return false;
+    if (filter.peakLevel && i.peakLevel !== filter.peakLevel) return false;
+    if (filter.hasBundle !== undefined && i.bundleCaptured !== filter.hasBundle) return false;
+    return true;
+  });
+}
+
+/** Find incidents by full ID or unique prefix. Returns every match (callers reject ambiguity). */
+export function findIncidents(incidents: Incident[], idOrPrefix: string): Incident[] {
+  const exact = incidents.filter(i => i.id === idOrPrefix);
+  if (exact.length > 0) return exact;
+  return incidents.filter(i => i.id.startsWith(idOrPrefix));
+}
+
+/** Open → close duration in seconds (null while open). */
+export function incidentDurationSeconds(incident: Incident): number | null {
+  if (!incident.closedAt) return null;
+  return Math.max(0, Math.round((Date.parse(incident.closedAt) - Date.parse(incident.startedAt)) / 1000));
+}
+
+/**
+ * Reduce a reason to its shape so repeats group together: split on "; ",
+ * drop session labels, and replace numbers with "N" ("No activity for 412s" → "No activity for Ns").
+ */
+export function normalizeReasons(reason: string): string[] {
+  return reason
+    .split('; ')
+    .map(r => r
+      .replace(/^PID \d+( \(session [0-9a-f-]+\))?: /i, '')
+      .replace(/\d+(\.\d+)?/g, 'N')
+      .trim())
+    .filter(r => r.length > 0 && r !== 'healthy');
+}
+
+/**
+ * Aggregate statistics. `from`/`to` define the per-day window; they default to
+ * the first incident's start and `now`.
+ */
+export function computeIncidentStats(
+  incidents: Incident[],
+  range: { from?: number; to?: number } = {},
+  now: number = Date.now(),
+): IncidentStats {
+  const to = range.to ?? now;
+  const from = range.from ?? (incidents.length > 0 ? Math.min(...incidents.map(i => Date.parse(i.startedAt))) : to);
+
+  const durations = incidents.map(incidentDurationSeconds).filter((d): d is number => d !== null);
+  const days = Math.max(1, (to - from) / DAY_MS);
+
+  const reasonCounts = new Map<string, number>();
+  for (const i of incidents) {
+    for (const r of new Set(normalizeReasons(i.reason))) {
+      reasonCounts.set(r, (reasonCounts.get(r) ?? 0) + 1);
+    }
+  }
+
+  const dailyCounts = new Map<string, number>();
+  for (let t = Math.floor(from / DAY_MS) * DAY_MS; t <= to; t += DAY_MS) {
+    dailyCounts.set(new Date(t).toISOString().substring(0, 10), 0);
+  }
+  for (const i of incidents) {
+    const date = i.startedAt.substring(0, 10);
+    dailyCounts.set(date, (dailyCounts.get(date) ?? 0) + 1);
+  }
+
+  return {
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    count: incidents.length,
+    closed: durations.length,
+    open: incidents.length - durations.length,
+    critical: incidents.filter(i => i.peakLevel === 'critical').length,
+    withBundle: incidents.filter(i => i.bundleCaptured).length,
+    mttrSeconds: durations.length > 0 ? Math.round(durations.reduce((s, d) => s + d, 0) / durations.length) : null,
+    longestSeconds: durations.length > 0 ? Math.max(...durations) : null,
+    incidentsPerDay: Math.round((incidents.length / days) * 100) / 100,
+    daily: [...dailyCounts.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([date, count]) => ({ date, count })),
+    topReasons: [...reasonCounts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, TOP_REASONS)
+      .map(([reason, count]) => ({ reason, count })),
+  };
+}
+
+function fmtDuration(seconds: number | null): string {
+  if (seconds === null) return 'open';
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+function fmtTime(iso: string): string {
+  return iso.substring(0, 19).replace('T', ' ');
+}
+
+/** One line per incident, newest first. */
+export function formatIncidentList(incidents: Incident[]): string {
+  if (incidents.length === 0) {
+    return 'No incidents in range. Incidents are recorded by the watch daemon (`claude-guardian watch`).';
+  }
+  const lines: string[] = [`Incidents: ${incidents.length}`];
+  for (const i of [...incidents].reverse()) {
+    const bundle = i.bundleCaptured ? ' | bundle' : '';
+    lines.push(`  ${i.id.substring(0, 8)}  ${fmtTime(i.startedAt)}  ${i.peakLevel.toUpperCase().padEnd(8)} ${fmtDuration(incidentDurationSeconds(i)).padEnd(8)}${bundle}  ${i.reason}`);
+  }
+  return lines.join('\n');
+}
+
+/** Full detail for one incident. */
+export function formatIncident(incident: Incident): string {
+  const lines: string[] = [];
+  lines.push(`Incident ${incident.id}`);
+  lines.push(`  Started:  ${incident.startedAt}`);
+  lines.push(`  Closed:   ${incident.closedAt ?? 'still open'}`);
+  lines.push(`  Duration: ${fmtDuration(incidentDurationSeconds(incident))}`);
+  lines.push(`  Peak:     ${incident.peakLevel.toUpperCase()}`);
+  lines.push(`  Bundle:   ${incident.bundlePath ?? 'none'}`);
+  if (incident.pids.length > 0) {
+    lines.push(`  PIDs:     ${incident.pids.join(', ')}`);
+  }
+  lines.push('  Reasons:');
+  for (const r of incident.reason.split('; ')) {
+    lines.push(`    - ${r}`);
+  }
+
+  if (incident.transitions.length > 0) {
+    lines.push('  Transitions:');
+    for (const t of incident.transitions) {
+      lines.push(`    ${fmtTime(t.at)}  ${t.from} → ${t.to}${t.reason ? `  ${t.reason}` : ''}`);
+    }
+  }
+
+  if (incident.actions.length > 0) {
+    lines.push('  Actions taken:');
+    for (const a of incident.actions) {
+      lines.push(`    ${fmtTime(a.at)}  ${a.type}  ${a.detail}`);
+    }
+  }
+
+  for (const [label, snap] of [['open', incident.snapshots.open], ['peak', incident.snapshots.peak], ['close', incident.snapshots.close]] as const) {
+    if (!snap) continue;
+    lines.push(`  Hang risk at ${label}: ${snap.level.toUpperCase()} | quiet ${snap.noActivitySeconds}s | cpuHot=${snap.cpuHot} | memoryHigh=${snap.memoryHigh} | diskLow=${snap.diskLow}`);
+    for (const r of snap.reasons) {
+      lines.push(`    - ${r}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+export function formatIncidentStats(stats: IncidentStats): string {
+  const lines: string[] = [];
+  lines.push(`Incident stats ${fmtTime(stats.from)} → ${fmtTime(stats.to)}`);
+  lines.push(`  Incidents: ${stats.count} (${stats.closed} closed, ${stats.open} open) | ${stats.incidentsPerDay}/day`);
+  lines.push(`  Critical: ${stats.critical} | With bundle: ${stats.withBundle}`);
+  lines.push(`  MTTR: ${stats.mttrSeconds !== null ? fmtDuration(stats.mttrSeconds) : 'n/a'} | Longest: ${stats.longestSeconds !== null ? fmtDuration(stats.longestSeconds) : 'n/a'}`);
+
+  if (stats.topReasons.length > 0) {
+    lines.push('');
+    lines.push('Most common reasons:');
+    for (const r of stats.topReasons) {
+      lines.push(`  ${String(r.count).padStart(4)}  ${r.reason}`);
+    }
+  }
+
+  if (stats.daily.some(d => d.count > 0)) {
+    lines.push('');
+    lines.push('Per day:');
+    // Keep the report short for long ranges: last 14 days
+    for (const d of stats.daily.slice(-14)) {
+      lines.push(`  ${d.date}  ${String(d.count).padStart(3)}  ${'#'.repeat(Math.min(d.count, 40))}`.trimEnd());
+    }
+  }
+  return lines.join('\n');
+}
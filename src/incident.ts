@@ -3,41 +3,149 @@ import { existsSync } from 'fs';
 import { join } from 'path';
 import { randomUUID } from 'crypto';
 import { getGuardianDataPath, THRESHOLDS } from './defaults.js';
-import type { RiskLevel } from './process-monitor.js';
+import { readJournal } from './fs-utils.js';
+import type { HangRisk, RiskLevel } from './process-monitor.js';
+import type { JournalEntry, Thresholds } from './types.js';
+
+/** Journal entries scanned at close for actions taken during an incident. */
+const ACTION_SCAN_ENTRIES = 1000;
+
+/** A risk level change within an incident (the first one is ok → warn/critical, the last one → ok). */
+export interface IncidentTransition {
+  at: string;
+  from: RiskLevel;
+  to: RiskLevel;
+  reason: string;
+}
+
+/** A remediation recorded in the journal while the incident was open. */
+export interface IncidentAction {
+  at: string;
+  type: 'nudge' | 'preflight-fix' | 'lease-release';
+  detail: string;
+}
+
+/** Hang risk as it was when the incident opened, first reached its peak level, and closed. */
+export interface IncidentSnapshots {
+  open: HangRisk | null;
+  peak: HangRisk | null;
+  close: HangRisk | null;
+}
 
 /** An active or closed incident. */
 export interface Incident {
   id: string;
   startedAt: string;
   closedAt: string | null;
+  /** Latest reason (see `transitions` for how it got there). */
   reason: string;
   peakLevel: RiskLevel;
   bundleCaptured: boolean;
   bundlePath: string | null;
+  /** Level changes, oldest first. */
+  transitions: IncidentTransition[];
+  snapshots: IncidentSnapshots;
+  /** Claude PIDs seen while the incident was open. */
+  pids: number[];
+  /** Nudges, preflight fixes and lease releases during the incident (filled in at close). */
+  actions: IncidentAction[];
+}
+
+const RISK_ORDER: Record<RiskLevel, number> = { ok: 0, warn: 1, critical: 2 };
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/** Journal action → incident action type (entries not listed here are ignored). */
+const JOURNAL_ACTIONS: Record<string, IncidentAction['type']> = {
+  'nudge': 'nudge',
+  'rotated': 'preflight-fix',
+  'trimmed': 'preflight-fix',
+  'cleaned': 'preflight-fix',
+  'archived': 'preflight-fix',
+  'lease-released': 'lease-release',
+  'lease-expired': 'lease-release',
+  'lease-reclaimed': 'lease-release',
+};
+
+/** The incident action a journal entry represents, or null for unrelated entries. */
+export function incidentActionFor(entry: JournalEntry): IncidentAction | null {
+  const type = JOURNAL_ACTIONS[entry.action];
+  if (!type) return null;
+  return {
+    at: entry.timestamp,
+    type,
+    detail: entry.target ? `${entry.action} ${entry.target}: ${entry.detail}` : `${entry.action}: ${entry.detail}`,
+  };
+}
+
+/** Journal entries written between the incident's start and `until`, as incident actions. */
+export function collectIncidentActions(incident: Incident, journal: JournalEntry[], until: string): IncidentAction[] {
+  const from = Date.parse(incident.startedAt);
+  const to = Date.parse(until);
+  return journal
+    .filter(e => {
+      const t = Date.parse(e.timestamp);
+      return t >= from && t <= to;
+    })
+    .map(incidentActionFor)
+    .filter((a): a is IncidentAction => a !== null);
+}
+
+/** Fill fields missing from incidents written by older versions. */
+export function normalizeIncident(raw: Partial<Incident> & Pick<Incident, 'id' | 'startedAt'>): Incident {
+  return {
+    closedAt: null,
+    reason: '',
+    peakLevel: 'warn',
+    bundleCaptured: false,
+    bundlePath: null,
+    transitions: [],
+    pids: [],
+    actions: [],
+    ...raw,
+    snapshots: { open: null, peak: null, close: null, ...raw.snapshots },
+  };
 }
 
 /** Mutable incident tracker — one per daemon. */
 export class IncidentTracker {
   private active: Incident | null = null;
+  /** Level at the latest update (differs from peakLevel after de-escalation). */
+  private level: RiskLevel = 'ok';
   /** Per-PID bundle timestamps for rate limiting. */
   private lastBundleAtByPid: Map<number, number> = new Map();
+  private thresholds: Thresholds;
+
+  constructor(thresholds: Thresholds = THRESHOLDS) {
+    this.thresholds = thresholds;
+  }
 
   /** Get the current active incident (or null). */
   getActive(): Incident | null {
-    return this.active ? { ...this.active } : null;
+    return this.active ? clone(this.active) : null;
   }
 
   /**
    * Update the tracker with the current risk level.
-   * Returns the incident if one is active (may be newly opened or existing).
+   * Pass the full `hangRisk` and the Claude `pids` to record snapshots and involved processes.
+   * Returns the incident if one is active (may be newly opened or existing), or the incident just closed.
    */
-  async update(level: RiskLevel, reason: string): Promise<Incident | null> {
+  async update(level: RiskLevel, reason: string, hangRisk?: HangRisk, pids: number[] = []): Promise<Incident | null> {
+    const now = new Date().toISOString();
+    const snapshot = hangRisk ? clone(hangRisk) : null;
+
     if (level === 'ok') {
       // Close any active incident
       if (this.active) {
-        this.active.closedAt = new Date().toISOString();
-        const closed = { ...this.active };
+        this.active.closedAt = now;
+        this.active.transitions.push({ at: now, from: this.level, to: 'ok', reason: reason || 'healthy' });
+        this.active.snapshots.close = snapshot;
+        this.active.actions = collectIncidentActions(this.active, await readJournal(ACTION_SCAN_ENTRIES), now);
+        const closed = clone(this.active);
         this.active = null;
+        this.level = 'ok';
         await appendIncidentLog(closed);
         return closed;
       }
@@ -49,25 +157,37 @@ export class IncidentTracker {
         // Open new incident
         this.active = {
           id: randomUUID(),
-          startedAt: new Date().toISOString(),
+          startedAt: now,
           closedAt: null,
           reason,
           peakLevel: level,
           bundleCaptured: false,
           bundlePath: null,
+          transitions: [{ at: now, from: 'ok', to: level, reason }],
+          snapshots: { open: snapshot, peak: snapshot, close: null },
+          pids: [],
+          actions: [],
         };
       } else {
+        if (level !== this.level) {
+          this.active.transitions.push({ at: now, from: this.level, to: level, reason });
+        }
         // Escalate existing
-        if (level === 'critical' && this.active.peakLevel !== 'critical') {
-          this.active.peakLevel = 'critical';
+        if (RISK_ORDER[level] > RISK_ORDER[this.active.peakLevel]) {
+          this.active.peakLevel = level;
+          this.active.snapshots.peak = snapshot;
         }
         // Update reason to latest
         this.active.reason = reason;
       }
-      return { ...this.active };
+      this.level = level;
+      for (const pid of pids) {
+        if (!this.active.pids.includes(pid)) this.active.pids.push(pid);
+      }
+      return clone(this.active);
     }
 
-    return this.active ? { ...this.active } : null;
+    return this.active ? clone(this.active) : null;
   }
 
   /**
@@ -81,7 +201,7 @@ export class IncidentTracker {
 
     // Per-PID rate limit
     const now = Date.now();
-    const cooldown = THRESHOLDS.bundleCooldownSeconds * 1000;
+    const cooldown = this.thresholds.bundleCooldownSeconds * 1000;
     for (const pid of pids) {
       const last = this.lastBundleAtByPid.get(pid) ?? 0;
       if (now - last < cooldown) {
@@ -125,7 +245,7 @@ export async function readIncidentLog(lastN?: number): Promise<Incident[]> {
     const entries: Incident[] = [];
     for (const line of lines) {
       try {
-        entries.push(JSON.parse(line) as Incident);
+        entries.push(normalizeIncident(JSON.parse(line)));
       } catch {
         // Skip corrupt line — don't lose the rest of the incident history
       }
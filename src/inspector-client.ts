@@ -0,0 +1,287 @@
+/**
+ * Just enough of the Chrome DevTools Protocol to pull a JS stack from a Node process
+ * whose inspector is listening on localhost: /json/list for the target, a minimal
+ * WebSocket client (text frames only), then Debugger.pause → Debugger.paused → resume.
+ * Zero external dependencies — uses Node built-in `net`, `http` and `crypto`.
+ */
+
+import { connect, type Socket } from 'net';
+import { get as httpGet } from 'http';
+import { randomBytes } from 'crypto';
+
+/** One JS stack frame (1-based line and column). */
+export interface JsFrame {
+  functionName: string;
+  url: string;
+  line: number;
+  column: number;
+}
+
+interface CdpMessage {
+  id?: number;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  error?: { message: string };
+}
+
+/** WebSocket debugger URL of the first inspector target on `port`. */
+export function fetchDebuggerUrl(port: number, timeoutMs: number, host: string = '127.0.0.1'): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const req = httpGet({ host, port, path: '/json/list', timeout: timeoutMs }, (res) => {
+      let body = '';
+      res.setEncoding('utf-8');
+      res.on('data', (chunk: string) => { body += chunk; });
+      res.on('end', () => {
+        try {
+          const targets = JSON.parse(body) as Array<{ webSocketDebuggerUrl?: string }>;
+          const url = targets.find(t => t.webSocketDebuggerUrl)?.webSocketDebuggerUrl;
+          if (url) resolve(url);
+          else reject(new Error(`No inspector target on port ${port}`));
+        } catch {
+          reject(new Error(`Port ${port} is not a Node inspector`));
+        }
+      });
+    });
+    req.on('timeout', () => req.destroy(new Error(`Inspector on port ${port} did not answer within ${timeoutMs}ms`)));
+    req.on('error', reject);
+  });
+}
+
+/** Encode one masked client text frame (RFC 6455 §5.2). */
+export function encodeFrame(text: string, opcode: number = 0x1): Buffer {
+  const payload = Buffer.from(text, 'utf-8');
+  const mask = randomBytes(4);
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, 0x80 | payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 0x80 | 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 0x80 | 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+  return Buffer.concat([header, mask, payload]);
+}
+
+/**
+ * Decode the first complete frame in `buf`. Null if more bytes are needed.
+ * Server frames are normally unmasked, but a mask is honoured if present.
+ */
+export function decodeFrame(buf: Buffer): { fin: boolean; opcode: number; payload: Buffer; length: number } | null {
+  if (buf.length < 2) return null;
+  const fin = (buf[0] & 0x80) !== 0;
+  const opcode = buf[0] & 0x0f;
+  const masked = (buf[1] & 0x80) !== 0;
+  let len = buf[1] & 0x7f;
+  let offset = 2;
+  if (len === 126) {
+    if (buf.length < 4) return null;
+    len = buf.readUInt16BE(2);
+    offset = 4;
+  } else if (len === 127) {
+    if (buf.length < 10) return null;
+    len = Number(buf.readBigUInt64BE(2));
+    offset = 10;
+  }
+  const mask = masked ? buf.subarray(offset, offset + 4) : null;
+  if (masked) offset += 4;
+  if (buf.length < offset + len) return null;
+  const payload = Buffer.from(buf.subarray(offset, offset + len));
+  if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+  return { fin, opcode, payload, length: offset + len };
+}
+
+/** A CDP session over a raw WebSocket. */
+class CdpSession {
+  private socket: Socket;
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (r: Record<string, unknown>) => void; reject: (e: Error) => void }>();
+  private waiters = new Map<string, (params: Record<string, unknown>) => void>();
+
+  private constructor(socket: Socket, leftover: Buffer) {
+    this.socket = socket;
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('close', () => this.failAll(new Error('Inspector connection closed')));
+    socket.on('error', (err) => this.failAll(err));
+    if (leftover.length > 0) this.onData(leftover);
+  }
+
+  /** Open a WebSocket to `url` (ws://host:port/path). */
+  static open(url: string): Promise<CdpSession> {
+    const { hostname, port, pathname } = new URL(url);
+    return new Promise((resolve, reject) => {
+      const socket = connect(Number(port), hostname);
+      let head = Buffer.alloc(0);
+      const onData = (chunk: Buffer) => {
+        head = Buffer.concat([head, chunk]);
+        const end = head.indexOf('\r\n\r\n');
+        if (end < 0) return;
+        socket.off('data', onData);
+        socket.off('error', reject);
+        const status = head.subarray(0, head.indexOf('\r\n')).toString();
+        if (!/^HTTP\/1\.1 101 /.test(status)) {
+          socket.destroy();
+          reject(new Error(`Inspector refused the WebSocket upgrade: ${status}`));
+          return;
+        }
+        resolve(new CdpSession(socket, head.subarray(end + 4)));
+      };
+      socket.on('data', onData);
+      socket.on('error', reject);
+      socket.on('connect', () => {
+        socket.write([
+          `GET ${pathname} HTTP/1.1`,
+          `Host: ${hostname}:${port}`,
+          'Upgrade: websocket',
+          'Connection: Upgrade',
+          `Sec-WebSocket-Key: ${randomBytes(16).toString('base64')}`,
+          'Sec-WebSocket-Version: 13',
+          '', '',
+        ].join('\r\n'));
+      });
+    });
+  }
+
+  /** Send a command and wait for its result. */
+  send(method: string, params: Record<string, unknown> = {}): Promise<Record<string, unknown>> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.socket.write(encodeFrame(JSON.stringify({ id, method, params })));
+    });
+  }
+
+  /** Send a command without waiting (e.g. one that closes the inspector). */
+  fire(method: string, params: Record<string, unknown> = {}): void {
+    this.socket.write(encodeFrame(JSON.stringify({ id: this.nextId++, method, params })));
+  }
+
+  /** Resolve on the next event named `method`. */
+  waitFor(method: string): Promise<Record<string, unknown>> {
+    return new Promise(resolve => this.waiters.set(method, resolve));
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const frame = decodeFrame(this.buffer);
+      if (!frame) return;
+      this.buffer = this.buffer.subarray(frame.length);
+      if (frame.opcode === 0x8) {
+        this.socket.end();
+        return;
+      }
+      if (frame.opcode === 0x9) {
+        this.socket.write(encodeFrame(frame.payload.toString('utf-8'), 0xa));
+        continue;
+      }
+      if (frame.opcode !== 0x0 && frame.opcode !== 0x1) continue;
+      this.fragments.push(frame.payload);
+      if (!frame.fin) continue;
+      const text = Buffer.concat(this.fragments).toString('utf-8');
+      this.fragments = [];
+      this.onMessage(text);
+    }
+  }
+
+  private onMessage(text: string): void {
+    let msg: CdpMessage;
+    try {
+      msg = JSON.parse(text) as CdpMessage;
+    } catch {
+      return;
+    }
+    if (msg.id !== undefined && this.pending.has(msg.id)) {
+      const { resolve, reject } = this.pending.get(msg.id)!;
+      this.pending.delete(msg.id);
+      if (msg.error) reject(new Error(msg.error.message));
+      else resolve(msg.result ?? {});
+    } else if (msg.method && this.waiters.has(msg.method)) {
+      const resolve = this.waiters.get(msg.method)!;
+      this.waiters.delete(msg.method);
+      resolve(msg.params ?? {});
+    }
+  }
+
+  private failAll(err: Error): void {
+    for (const { reject } of this.pending.values()) reject(err);
+    this.pending.clear();
+  }
+}
+
+/**
+ * Pause the process's JS thread, record the call stack, and resume it.
+ * With `closeInspector`, asks the process to close its inspector afterwards (for one
+ * opened by our SIGUSR1), so no debug port is left listening. Rejects on timeout; a capture
+ * still under way then stops at its next step and closes its session, even one that only
+ * opens after the timeout.
+ */
+export async function captureJsStack(
+  port: number,
+  timeoutMs: number,
+  closeInspector: boolean = false,
+): Promise<JsFrame[]> {
+  let session: CdpSession | null = null;
+  let timedOut = false;
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      timedOut = true;
+      (session as CdpSession | null)?.close();
+      reject(new Error(`Inspector capture timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+  const stopIfTimedOut = () => {
+    if (timedOut) throw new Error('Inspector capture abandoned after the timeout');
+  };
+
+  const capture = async (): Promise<JsFrame[]> => {
+    const url = await fetchDebuggerUrl(port, timeoutMs);
+    stopIfTimedOut();
+    const opened = await CdpSession.open(url);
+    session = opened;
+    try {
+      stopIfTimedOut();
+      await opened.send('Debugger.enable');
+      stopIfTimedOut();
+      const paused = opened.waitFor('Debugger.paused');
+      await opened.send('Debugger.pause');
+      const { callFrames } = await paused as { callFrames?: Array<{ functionName: string; url: string; location: { lineNumber: number; columnNumber: number } }> };
+      // Once paused, always resume — closing the session alone is left as the last resort
+      await opened.send('Debugger.resume');
+      stopIfTimedOut();
+      await opened.send('Debugger.disable');
+      if (closeInspector) {
+        // Closes the inspector server, and with it this session — don't wait for a reply
+        opened.fire('Runtime.evaluate', { expression: 'process._debugEnd && process._debugEnd()' });
+      }
+      return (callFrames ?? []).map(f => ({
+        functionName: f.functionName || '(anonymous)',
+        url: f.url,
+        line: f.location.lineNumber + 1,
+        column: f.location.columnNumber + 1,
+      }));
+    } finally {
+      opened.close();
+    }
+  };
+
+  try {
+    return await Promise.race([capture(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
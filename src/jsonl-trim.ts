@@ -0,0 +1,360 @@
+/**
+ * Structure-aware trimming of JSONL session transcripts.
+ *
+ * Two streaming passes over the file: the first frames records and classifies them,
+ * the second copies the kept ones to a temp file that then replaces the original.
+ * Only the record being classified, the prompts within the last `keepRecords` records and
+ * the preserved records' positions are held in memory, so multi-GB transcripts trim in
+ * bounded memory. Both passes read the size the file had when the trim started; if it has
+ * changed by the time the copy is done (Claude appended to it), the trim is abandoned.
+ *
+ * What is kept, in file order:
+ * - header entries (the summary/system records before the first message)
+ * - every summary entry and compaction entry (compact boundary, compact summary)
+ * - the last `keepRecords` records, with the cut moved to the next user prompt so the
+ *   kept tail never starts with an orphaned tool result or mid-turn reply
+ *
+ * A transcript with a record that is not valid JSON (truncated mid-write, or framed wrongly)
+ * is not trimmed at all: where one record ends can't be trusted, so the caller rotates it.
+ *
+ * The first record of the tail is re-rooted: a `parentUuid` pointing at a dropped record is
+ * rewritten to the last preserved record before it (null if there is none), so the chain a
+ * resumed session follows back from its newest message stays unbroken.
+ */
+
+import { createReadStream } from 'fs';
+import { open, rename, stat, chmod, unlink } from 'fs/promises';
+import { GuardianError } from './errors.js';
+
+/** What a trim did. */
+export interface JsonlTrimResult {
+  /** Size of the file afterwards. */
+  sizeBytes: number;
+  /** Records in the file before trimming. */
+  records: number;
+  /** Records written (tail + preserved). */
+  kept: number;
+  /** Records before the tail kept because resume needs them. */
+  preserved: number;
+}
+
+/** Records longer than this are copied or dropped whole but never parsed. */
+const MAX_PARSE_BYTES = 32 * 1024 * 1024;
+
+/** Leading records considered part of the header. */
+const HEADER_MAX = 50;
+
+/** Output is written in blocks of this size. */
+const WRITE_BUFFER_BYTES = 1024 * 1024;
+
+const NEWLINE = 0x0a;
+const OPEN_BRACE = 0x7b;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACE = 0x7d;
+const CLOSE_BRACKET = 0x5d;
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+
+/** Whitespace allowed between JSON values. */
+function isSpace(b: number): boolean {
+  return b === 0x20 || b === 0x09 || b === 0x0a || b === 0x0d;
+}
+
+/**
+ * Splits a byte stream into JSON records. A record starts at its first non-whitespace byte
+ * and ends at the first newline outside any string, object or array, so pretty-printed
+ * records stay whole. A broken record (truncated mid-write) runs on into the ones after it.
+ */
+class RecordFramer {
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private inRecord = false;
+  index = 0;
+
+  constructor(
+    private readonly onData: (index: number, bytes: Buffer) => void,
+    private readonly onEnd: (index: number) => void,
+  ) {}
+
+  push(chunk: Buffer): void {
+    let start = this.inRecord ? 0 : -1;
+    for (let i = 0; i < chunk.length; i++) {
+      const b = chunk[i];
+      if (!this.inRecord) {
+        if (isSpace(b)) continue;
+        this.inRecord = true;
+        start = i;
+      }
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (b === BACKSLASH) this.escaped = true;
+        else if (b === QUOTE) this.inString = false;
+        else if (b === NEWLINE) this.inString = false; // raw newline: the record is broken
+        if (b !== NEWLINE) continue;
+      }
+      if (b === QUOTE) this.inString = true;
+      else if (b === OPEN_BRACE || b === OPEN_BRACKET) this.depth++;
+      else if ((b === CLOSE_BRACE || b === CLOSE_BRACKET) && this.depth > 0) this.depth--;
+      else if (b === NEWLINE && this.depth === 0) {
+        this.onData(this.index, chunk.subarray(start, i + 1));
+        this.endRecord();
+        start = -1;
+      }
+    }
+    if (this.inRecord && start >= 0 && start < chunk.length) {
+      this.onData(this.index, chunk.subarray(start));
+    }
+  }
+
+  /** End of input: close a final record that has no trailing newline. */
+  finish(): void {
+    if (this.inRecord) this.endRecord();
+  }
+
+  private endRecord(): void {
+    this.onEnd(this.index);
+    this.index++;
+    this.inRecord = false;
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+  }
+}
+
+/**
+ * Stream the first `size` bytes of a file through a RecordFramer, awaiting `afterChunk`
+ * between chunks. Returns the record count.
+ */
+async function scanRecords(
+  filePath: string,
+  size: number,
+  onData: (index: number, bytes: Buffer) => void,
+  onEnd: (index: number) => void,
+  afterChunk: () => Promise<void> = async () => {},
+): Promise<number> {
+  const framer = new RecordFramer(onData, onEnd);
+  for await (const chunk of createReadStream(filePath, { end: size - 1 }) as AsyncIterable<Buffer>) {
+    framer.push(chunk);
+    await afterChunk();
+  }
+  framer.finish();
+  return framer.index;
+}
+
+interface TranscriptRecord {
+  type?: unknown;
+  uuid?: unknown;
+  parentUuid?: unknown;
+  subtype?: unknown;
+  isCompactSummary?: unknown;
+  isSidechain?: unknown;
+  message?: { content?: unknown };
+}
+
+/** Summary and compaction entries: what a resumed session needs from before the tail. */
+function isPreservedRecord(r: TranscriptRecord): boolean {
+  return r.type === 'summary'
+    || (r.type === 'system' && r.subtype === 'compact_boundary')
+    || r.isCompactSummary === true;
+}
+
+/** A main-chain user prompt (not a tool result): a clean place for the kept tail to start. */
+function isPromptRecord(r: TranscriptRecord): boolean {
+  if (r.type !== 'user' || r.isSidechain === true) return false;
+  const content = r.message?.content;
+  return !Array.isArray(content) || !content.some(c => (c as { type?: unknown })?.type === 'tool_result');
+}
+
+function isMessageRecord(r: TranscriptRecord): boolean {
+  return r.type === 'user' || r.type === 'assistant';
+}
+
+/** Parse a record, or null if it is not a JSON object. */
+function parseRecord(bytes: Buffer): TranscriptRecord | null {
+  try {
+    const value = JSON.parse(bytes.toString('utf-8'));
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as TranscriptRecord : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Classify every record of a transcript (first pass) and find where the tail starts: the
+ * first prompt at or after the cut (`records - keepRecords`), else the last one before it.
+ * Only prompts past the running cut are remembered, so this holds at most `keepRecords` of them.
+ */
+async function classifyRecords(filePath: string, size: number, keepRecords: number): Promise<{
+  records: number;
+  /** Preserved records by index, with their uuid (null if they have none). */
+  preserved: Map<number, string | null>;
+  /** First record of the tail (the cut itself for plain JSONL). */
+  start: number;
+  hasMessages: boolean;
+  /** Records that are not valid JSON objects (records too large to parse aside). */
+  invalid: number;
+}> {
+  const preserved = new Map<number, string | null>();
+  const header: Array<[number, string | null]> = [];
+  const prompts: number[] = [];
+  let lastPromptBeforeCut: number | undefined;
+  let hasMessages = false;
+  let invalid = 0;
+  let parts: Buffer[] = [];
+  let bytes = 0;
+
+  const passCut = (cut: number) => {
+    while (prompts.length > 0 && prompts[0] < cut) lastPromptBeforeCut = prompts.shift();
+  };
+
+  const records = await scanRecords(
+    filePath,
+    size,
+    (_i, data) => {
+      bytes += data.length;
+      if (bytes <= MAX_PARSE_BYTES) parts.push(Buffer.from(data));
+    },
+    i => {
+      // Too large to parse: kept only if it falls in the tail
+      const record = bytes <= MAX_PARSE_BYTES ? parseRecord(Buffer.concat(parts)) : null;
+      if (!record && bytes <= MAX_PARSE_BYTES) invalid++;
+      parts = [];
+      bytes = 0;
+      if (!record) return;
+
+      const uuid = typeof record.uuid === 'string' ? record.uuid : null;
+      if (isPreservedRecord(record)) preserved.set(i, uuid);
+      if (isPromptRecord(record) || (record.type === 'system' && record.subtype === 'compact_boundary')) {
+        prompts.push(i);
+        passCut(i + 1 - keepRecords);
+      }
+      if (isMessageRecord(record)) {
+        if (!hasMessages) header.forEach(([h, id]) => preserved.set(h, id));
+        hasMessages = true;
+      } else if (!hasMessages && i < HEADER_MAX && (record.type === 'summary' || record.type === 'system')) {
+        header.push([i, uuid]);
+      }
+    },
+  );
+
+  // Plain JSONL (no messages) is cut where it falls
+  const cut = Math.max(records - keepRecords, 0);
+  passCut(cut);
+  const start = hasMessages ? prompts[0] ?? lastPromptBeforeCut ?? cut : cut;
+  return { records, preserved, start, hasMessages, invalid };
+}
+
+/**
+ * The first tail record with its `parentUuid` re-rooted (see the module comment), or the
+ * bytes unchanged when its parent is kept or it has none.
+ */
+function reRoot(bytes: Buffer, keptUuids: Set<string>, anchor: string | null): Buffer {
+  const record = parseRecord(bytes);
+  if (!record || typeof record.parentUuid !== 'string' || keptUuids.has(record.parentUuid)) return bytes;
+  return Buffer.from(JSON.stringify({ ...record, parentUuid: anchor }) + '\n');
+}
+
+/**
+ * Trim a JSONL transcript to about its last `keepRecords` records without splitting records
+ * or losing what resume needs (see the module comment). The result replaces the file
+ * atomically (temp file + rename); on failure the original is untouched.
+ * Returns null, leaving the file untouched, if a record is not valid JSON.
+ */
+export async function trimJsonlFile(filePath: string, keepRecords: number): Promise<JsonlTrimResult | null> {
+  const original = await stat(filePath);
+  if (original.size === 0) {
+    return { sizeBytes: 0, records: 0, kept: 0, preserved: 0 };
+  }
+  const { records, preserved, start, hasMessages, invalid } = await classifyRecords(filePath, original.size, keepRecords);
+  // A broken record swallows the ones after it, so the file may look short
+  if (invalid > 0) return null;
+  if (records <= keepRecords || start === 0) {
+    return { sizeBytes: original.size, records, kept: records, preserved: 0 };
+  }
+
+  // The tail's parent links may only point at preserved records written before it
+  let anchor: string | null = null;
+  const keptUuids = new Set<string>();
+  for (const [i, uuid] of [...preserved].sort((a, b) => a[0] - b[0])) {
+    if (i >= start || uuid === null) continue;
+    keptUuids.add(uuid);
+    anchor = uuid;
+  }
+
+  const tmpPath = `${filePath}.${process.pid}.trim.tmp`;
+  const out = await open(tmpPath, 'w');
+  let buffered: Buffer[] = [];
+  let bufferedBytes = 0;
+  let written = 0;
+  let lastByte = NEWLINE;
+  let kept = 0;
+  const flush = async () => {
+    if (bufferedBytes === 0) return;
+    const block = Buffer.concat(buffered);
+    await out.write(block);
+    written += block.length;
+    buffered = [];
+    bufferedBytes = 0;
+  };
+  const append = (data: Buffer) => {
+    buffered.push(Buffer.from(data));
+    bufferedBytes += data.length;
+    lastByte = data[data.length - 1];
+  };
+
+  // The first tail record is held back (unless too large to parse) so it can be re-rooted
+  let first: Buffer[] | null = hasMessages ? [] : null;
+  let firstBytes = 0;
+
+  try {
+    await scanRecords(
+      filePath,
+      original.size,
+      (i, data) => {
+        if (i === start && first) {
+          first.push(Buffer.from(data));
+          firstBytes += data.length;
+          if (firstBytes > MAX_PARSE_BYTES) {
+            first.forEach(append);
+            first = null;
+          }
+        } else if (i >= start || preserved.has(i)) {
+          append(data);
+        }
+      },
+      i => {
+        if (i < start && !preserved.has(i)) return;
+        if (i === start && first) {
+          append(reRoot(Buffer.concat(first), keptUuids, anchor));
+          first = null;
+        }
+        kept++;
+        // A record without its own newline (the file's last line) still ends one
+        if (lastByte !== NEWLINE) append(Buffer.from('\n'));
+      },
+      async () => {
+        if (bufferedBytes >= WRITE_BUFFER_BYTES) await flush();
+      },
+    );
+    await flush();
+    await out.close();
+    const current = await stat(filePath);
+    if (current.size !== original.size || current.mtimeMs !== original.mtimeMs) {
+      throw new GuardianError(
+        'FIX_FAILED',
+        `${filePath} changed while it was being trimmed (${original.size} → ${current.size} bytes)`,
+        'Nothing was changed. Trim it again once the session is idle.',
+      );
+    }
+    await chmod(tmpPath, original.mode);
+    await rename(tmpPath, filePath);
+  } catch (err) {
+    await out.close().catch(() => {});
+    await unlink(tmpPath).catch(() => {});
+    throw err;
+  }
+
+  const preservedBefore = [...preserved.keys()].filter(i => i < start).length;
+  return { sizeBytes: written, records, kept, preserved: preservedBefore };
+}
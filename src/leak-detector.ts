@@ -0,0 +1,192 @@
+/**
+ * Leak trend detection per Claude process.
+ * The watch daemon already samples each PID's RSS and open handle count every poll; this
+ * fits a least-squares line through a sliding window of those samples and flags a leak
+ * when the growth is steady (good fit), fast enough to matter, and projected to cross
+ * its threshold (thresholds.memoryHighMB for RSS; the process's soft RLIMIT_NOFILE, else
+ * leaks.handleLimit, for handles) within
+ * the configured horizon — long before assessHangRisk's memoryHigh check would fire.
+ */
+
+import { LEAK_CONFIG } from './defaults.js';
+import type { LeakConfig } from './types.js';
+
+/** Most samples kept per PID; older ones are thinned to fit the window. */
+const MAX_SAMPLES = 360;
+
+/** One poll's reading for a PID. */
+export interface LeakSample {
+  t: number;
+  rssMB: number;
+  /** Open handles/FDs (null if unavailable). */
+  handles: number | null;
+}
+
+/** Least-squares fit of y over x. */
+export interface Regression {
+  slope: number;
+  intercept: number;
+  /** Coefficient of determination (0 when y is flat). */
+  r2: number;
+}
+
+/** Growth trend of one metric. */
+export interface MetricTrend {
+  /** Fitted growth (MB or handles per hour). */
+  perHour: number;
+  r2: number;
+  /** Latest sample. */
+  current: number;
+  /** Value the trend is projected toward. */
+  threshold: number;
+  /** Seconds until the trend reaches `threshold` (0 if already there, null if not growing). */
+  projectedSeconds: number | null;
+  /** Steady, fast growth that reaches `threshold` within the horizon. */
+  suspected: boolean;
+}
+
+/** Leak assessment for one PID. */
+export interface LeakTrend {
+  pid: number;
+  sampleCount: number;
+  /** Seconds between the oldest and newest sample in the window. */
+  spanSeconds: number;
+  /** Null until the window spans leaks.minSpanSeconds. */
+  rss: MetricTrend | null;
+  /** Null until the window spans leaks.minSpanSeconds, or if handle counts are unavailable. */
+  handles: MetricTrend | null;
+  leakSuspected: boolean;
+  /** Soonest projected crossing among the suspected metrics (null if none is suspected). */
+  projectedSecondsToThreshold: number | null;
+  /** "RSS +180MB/h, 1650MB now, reaches 4096MB in ~13h 35m" (null if no leak is suspected). */
+  reason: string | null;
+}
+
+/** Least-squares regression. Null with fewer than two points or no spread in x. */
+export function linearRegression(points: Array<{ x: number; y: number }>): Regression | null {
+  const n = points.length;
+  if (n < 2) return null;
+  const meanX = points.reduce((s, p) => s + p.x, 0) / n;
+  const meanY = points.reduce((s, p) => s + p.y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (const p of points) {
+    sxx += (p.x - meanX) ** 2;
+    sxy += (p.x - meanX) * (p.y - meanY);
+    syy += (p.y - meanY) ** 2;
+  }
+  if (sxx === 0) return null;
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    r2: syy === 0 ? 0 : (sxy * sxy) / (sxx * syy),
+  };
+}
+
+/** "3h 20m", "45m", "<1m". */
+export function formatEta(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 1) return '<1m';
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+function metricTrend(
+  points: Array<{ x: number; y: number }>,
+  threshold: number,
+  minPerHour: number,
+  config: LeakConfig,
+): MetricTrend | null {
+  const fit = linearRegression(points);
+  if (!fit) return null;
+  const perHour = fit.slope * 3600;
+  const current = points[points.length - 1].y;
+  const projectedSeconds = current >= threshold ? 0
+    : fit.slope > 0 ? Math.round((threshold - current) / fit.slope)
+      : null;
+  const suspected = perHour >= minPerHour
+    && fit.r2 >= config.minR2
+    && projectedSeconds !== null
+    && projectedSeconds <= config.horizonSeconds;
+  return {
+    perHour: Math.round(perHour * 10) / 10,
+    r2: Math.round(fit.r2 * 1000) / 1000,
+    current,
+    threshold,
+    projectedSeconds,
+    suspected,
+  };
+}
+
+function describeTrend(label: string, unit: string, trend: MetricTrend): string {
+  const eta = trend.projectedSeconds === 0 ? 'already past' : `reaches ${trend.threshold}${unit} in ~${formatEta(trend.projectedSeconds!)}`;
+  return `${label} +${Math.round(trend.perHour)}${unit}/h, ${Math.round(trend.current)}${unit} now, ${eta}`;
+}
+
+/**
+ * Fit RSS and handle trends for one PID's samples (oldest first).
+ * `memoryHighMB` and `handleLimit` are the thresholds the trends are projected toward.
+ */
+export function analyzeLeak(
+  pid: number,
+  samples: LeakSample[],
+  memoryHighMB: number,
+  config: LeakConfig = LEAK_CONFIG,
+  handleLimit: number = config.handleLimit,
+): LeakTrend {
+  const spanSeconds = samples.length > 1 ? Math.round((samples[samples.length - 1].t - samples[0].t) / 1000) : 0;
+  const result: LeakTrend = {
+    pid, sampleCount: samples.length, spanSeconds,
+    rss: null, handles: null, leakSuspected: false, projectedSecondsToThreshold: null, reason: null,
+  };
+  if (spanSeconds < config.minSpanSeconds) return result;
+
+  const t0 = samples[0].t;
+  const x = (s: LeakSample) => (s.t - t0) / 1000;
+  result.rss = metricTrend(samples.map(s => ({ x: x(s), y: s.rssMB })), memoryHighMB, config.minRssGrowthMBPerHour, config);
+  const withHandles = samples.filter(s => s.handles !== null);
+  result.handles = withHandles.length >= 2
+    ? metricTrend(withHandles.map(s => ({ x: x(s), y: s.handles! })), handleLimit, config.minHandleGrowthPerHour, config)
+    : null;
+
+  const suspected = [
+    result.rss?.suspected ? describeTrend('RSS', 'MB', result.rss) : null,
+    result.handles?.suspected ? describeTrend('handles', '', result.handles) : null,
+  ].filter((r): r is string => r !== null);
+  if (suspected.length > 0) {
+    result.leakSuspected = true;
+    result.projectedSecondsToThreshold = Math.min(
+      ...[result.rss, result.handles].filter(t => t?.suspected).map(t => t!.projectedSeconds!),
+    );
+    result.reason = suspected.join('; ');
+  }
+  return result;
+}
+
+/**
+ * Sliding window of samples for one PID. Keeps at most MAX_SAMPLES, spaced at least
+ * windowSeconds / MAX_SAMPLES apart, so a 2s poll doesn't grow the window without bound.
+ */
+export class LeakWindow {
+  private samples: LeakSample[] = [];
+  private pid: number;
+  private config: LeakConfig;
+
+  constructor(pid: number, config: LeakConfig = LEAK_CONFIG) {
+    this.pid = pid;
+    this.config = config;
+  }
+
+  /** Add a sample (dropping ones older than the window) and return the current trend. */
+  update(sample: LeakSample, memoryHighMB: number, handleLimit: number = this.config.handleLimit): LeakTrend {
+    const windowMs = this.config.windowSeconds * 1000;
+    const last = this.samples[this.samples.length - 1];
+    if (!last || sample.t - last.t >= windowMs / MAX_SAMPLES) {
+      this.samples.push(sample);
+    }
+    this.samples = this.samples.filter(s => sample.t - s.t <= windowMs);
+    return analyzeLeak(this.pid, this.samples, memoryHighMB, this.config, handleLimit);
+  }
+}
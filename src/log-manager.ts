@@ -1,18 +1,22 @@
-import { readdir, stat, mkdir, rm, unlink } from 'fs/promises';
-import { join } from 'path';
-import { existsSync } from 'fs';
+import { readdir } from 'fs/promises';
+import { join, basename } from 'path';
 import type { GuardianConfig, PreflightResult, PreflightAction, ScanEntry } from './types.js';
-import { DEFAULT_CONFIG, THRESHOLDS, getClaudeProjectsPath, getArchivePath } from './defaults.js';
+import { DEFAULT_CONFIG, THRESHOLDS, getClaudeProjectsPath } from './defaults.js';
 import {
-  dirSize, fileSize, listFilesRecursive, listFilesWithStats, getDiskFreeGB,
-  gzipFile, trimFileToLines, bytesToMB, pathExists, writeJournalEntry,
+  dirSize, fileSize, listFilesRecursive, getDiskFreeGB, bytesToMB, pathExists,
 } from './fs-utils.js';
+import { planFixes, planStaleSessions, applyFixPlan, executeFixItems } from './fix-plan.js';
+import { resolveProjectRetentions, retainedBy, formatRetentionPolicy } from './retention.js';
 
-/** Scan Claude's project logs and return a preflight report. */
+/**
+ * Scan Claude's project logs and return a preflight report. Each project dir is checked
+ * against its retention policy (see retention.ts), which is recorded on its entry.
+ */
 export async function scanLogs(config: GuardianConfig = DEFAULT_CONFIG): Promise<PreflightResult> {
+  const t = config.thresholds ?? THRESHOLDS;
   const claudePath = getClaudeProjectsPath();
   const diskFreeGB = await getDiskFreeGB(claudePath);
-  const diskFreeWarning = diskFreeGB >= 0 && diskFreeGB < THRESHOLDS.diskFreeWarningGB;
+  const diskFreeWarning = diskFreeGB >= 0 && diskFreeGB < t.diskFreeWarningGB;
 
   const result: PreflightResult = {
     diskFreeGB: Math.round(diskFreeGB * 100) / 100,
@@ -32,17 +36,20 @@ export async function scanLogs(config: GuardianConfig = DEFAULT_CONFIG): Promise
   result.claudeProjectsSizeMB = bytesToMB(totalSize);
 
   // Scan top-level project directories
+  const retentions = await resolveProjectRetentions(claudePath, config);
   try {
     const topEntries = await readdir(claudePath, { withFileTypes: true });
     for (const entry of topEntries) {
       const fullPath = join(claudePath, entry.name);
       if (entry.isDirectory()) {
         const size = await dirSize(fullPath);
+        const retention = retentions.get(entry.name);
         result.entries.push({
           path: fullPath,
           sizeBytes: size,
           sizeMB: bytesToMB(size),
           isFile: false,
+          ...(retention?.key ? { retention: { policy: retention.key, summary: formatRetentionPolicy(retention.policy) } } : {}),
         });
       }
     }
@@ -53,60 +60,49 @@ export async function scanLogs(config: GuardianConfig = DEFAULT_CONFIG): Promise
   // Sort by size descending
   result.entries.sort((a, b) => b.sizeBytes - a.sizeBytes);
 
-  // Flag oversized directories
+  // Flag oversized directories (keep-forever projects have no limit)
   for (const entry of result.entries) {
-    if (entry.sizeMB > config.maxProjectLogDirMB) {
+    const { key, policy } = retentions.get(basename(entry.path)) ?? { key: null, policy: {} };
+    const limitMB = policy.maxSizeMB ?? config.maxProjectLogDirMB;
+    if (!policy.keepForever && entry.sizeMB > limitMB) {
       result.actions.push({
         type: 'warning',
         target: entry.path,
-        detail: `Project log dir is ${entry.sizeMB}MB (limit: ${config.maxProjectLogDirMB}MB)`,
+        detail: `Project log dir is ${entry.sizeMB}MB (limit: ${limitMB}MB${key ? `, policy ${key}` : ''})`,
       });
     }
   }
 
-  // Count stale sessions per project directory
-  const cutoff = Date.now() - THRESHOLDS.staleSessionDays * 24 * 60 * 60 * 1000;
+  // Count stale sessions per project directory, as --fix would clean them
+  const now = Date.now();
   for (const entry of result.entries) {
     if (entry.isFile) continue;
-    try {
-      const subEntries = await readdir(entry.path, { withFileTypes: true });
-      let staleCount = 0;
-      let staleBytes = 0;
-      for (const sub of subEntries) {
-        if (PROTECTED_NAMES.has(sub.name)) continue;
-        const subPath = join(entry.path, sub.name);
-        // Match UUID session files and dirs
-        const isSessionFile = sub.isFile() && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.jsonl(\.gz)?$/i.test(sub.name);
-        const isSessionDir = sub.isDirectory() && UUID_RE.test(sub.name);
-        if (!isSessionFile && !isSessionDir) continue;
-        try {
-          const subStat = await stat(subPath);
-          if (subStat.mtimeMs < cutoff) {
-            staleCount++;
-            staleBytes += sub.isFile() ? subStat.size : await dirSize(subPath);
-          }
-        } catch { /* skip */ }
-      }
-      if (staleCount > 0) {
-        result.actions.push({
-          type: 'warning',
-          target: entry.path,
-          detail: `${staleCount} stale session(s) (${bytesToMB(staleBytes)}MB) older than ${THRESHOLDS.staleSessionDays}d. Run with --fix to clean.`,
-        });
-      }
-    } catch { /* skip */ }
+    const retention = retentions.get(basename(entry.path));
+    const stale = await planStaleSessions(entry.path, false, config, now, retention);
+    if (stale.length === 0) continue;
+    const staleBytes = stale.reduce((sum, item) => sum + item.sizeBytes, 0);
+    const policy = retention?.policy ?? {};
+    const days = policy.maxAgeDays ?? t.staleSessionDays;
+    const limit = policy.maxSessions !== undefined
+      ? `older than ${days}d or beyond the newest ${policy.maxSessions}`
+      : `older than ${days}d`;
+    result.actions.push({
+      type: 'warning',
+      target: entry.path,
+      detail: `${stale.length} stale session(s) (${bytesToMB(staleBytes)}MB) ${limit}${retention?.key ? ` (policy ${retention.key})` : ''}. Run with --fix to clean.`,
+    });
   }
 
-  // Scan for individual oversized files
+  // Scan for individual oversized files (not those a retention policy keeps)
   const allFiles = await listFilesRecursive(claudePath);
   for (const filePath of allFiles) {
     const size = await fileSize(filePath);
     const sizeMB = bytesToMB(size);
-    if (sizeMB > THRESHOLDS.maxFileMB && !filePath.endsWith('.gz')) {
+    if (sizeMB > t.maxFileMB && !filePath.endsWith('.gz') && !retainedBy(filePath, claudePath, retentions)) {
       result.actions.push({
         type: 'warning',
         target: filePath,
-        detail: `File is ${sizeMB}MB (limit: ${THRESHOLDS.maxFileMB}MB)`,
+        detail: `File is ${sizeMB}MB (limit: ${t.maxFileMB}MB)`,
       });
     }
   }
@@ -115,142 +111,22 @@ export async function scanLogs(config: GuardianConfig = DEFAULT_CONFIG): Promise
     result.actions.push({
       type: 'warning',
       target: 'disk',
-      detail: `Disk free space is ${result.diskFreeGB}GB (threshold: ${THRESHOLDS.diskFreeWarningGB}GB)`,
+      detail: `Disk free space is ${result.diskFreeGB}GB (threshold: ${t.diskFreeWarningGB}GB)`,
     });
   }
 
   return result;
 }
 
-/** Fix issues found in preflight — rotate, trim, and compress. */
+/**
+ * Fix issues found in preflight — rotate, trim, and compress.
+ * Plans the fixes (see planFixes) and applies them at once; paths that change in between are left alone.
+ */
 export async function fixLogs(
   config: GuardianConfig = DEFAULT_CONFIG,
   aggressive: boolean = false,
 ): Promise<PreflightAction[]> {
-  const claudePath = getClaudeProjectsPath();
-  const actions: PreflightAction[] = [];
-
-  if (!await pathExists(claudePath)) {
-    return actions;
-  }
-
-  const diskFreeGB = await getDiskFreeGB(claudePath);
-  const effectiveAggressive = aggressive || (diskFreeGB >= 0 && diskFreeGB < THRESHOLDS.diskFreeWarningGB);
-
-  // Single traversal: collect all files with stats (avoids redundant stat calls)
-  const allFiles = await listFilesWithStats(claudePath);
-  const now = Date.now();
-
-  for (const file of allFiles) {
-    // Skip already compressed files
-    if (file.path.endsWith('.gz')) continue;
-
-    const size = file.size;
-    const sizeMB = bytesToMB(size);
-
-    // Check file age
-    const ageDays = (now - file.mtimeMs) / (1000 * 60 * 60 * 24);
-    const retainDays = effectiveAggressive ? Math.floor(THRESHOLDS.retainDays / 2) : THRESHOLDS.retainDays;
-
-    // Rotate old files (gzip them)
-    if (ageDays > retainDays && sizeMB > 1) {
-      try {
-        const gzPath = await gzipFile(file.path);
-        const newSize = await fileSize(gzPath);
-        const action: PreflightAction = {
-          type: 'rotated',
-          target: file.path,
-          detail: `Compressed ${sizeMB}MB → ${bytesToMB(newSize)}MB (${Math.round(ageDays)}d old)`,
-          sizeBefore: size,
-          sizeAfter: newSize,
-        };
-        actions.push(action);
-        await writeJournalEntry({
-          timestamp: new Date().toISOString(),
-          action: 'rotated',
-          target: file.path,
-          detail: action.detail,
-          sizeBefore: size,
-          sizeAfter: newSize,
-        });
-      } catch {
-        // Skip files we can't compress
-      }
-      continue;
-    }
-
-    // Trim oversized files (keep last N lines)
-    if (sizeMB > THRESHOLDS.maxFileMB || (effectiveAggressive && sizeMB > THRESHOLDS.maxFileMB / 2)) {
-      // Only trim text-ish files
-      if (isTextFile(file.path)) {
-        try {
-          const keepLines = effectiveAggressive ? 5000 : 10000;
-          const newSize = await trimFileToLines(file.path, keepLines);
-          const action: PreflightAction = {
-            type: 'trimmed',
-            target: file.path,
-            detail: `Trimmed ${sizeMB}MB → ${bytesToMB(newSize)}MB (kept last ${keepLines} lines)`,
-            sizeBefore: size,
-            sizeAfter: newSize,
-          };
-          actions.push(action);
-          await writeJournalEntry({
-            timestamp: new Date().toISOString(),
-            action: 'trimmed',
-            target: file.path,
-            detail: action.detail,
-            sizeBefore: size,
-            sizeAfter: newSize,
-          });
-        } catch {
-          // Skip files we can't trim
-        }
-      }
-    }
-  }
-
-  // Clean stale session transcripts from each project directory
-  try {
-    const topEntries = await readdir(claudePath, { withFileTypes: true });
-    for (const entry of topEntries) {
-      if (!entry.isDirectory()) continue;
-      const fullPath = join(claudePath, entry.name);
-      const sessionActions = await cleanStaleSessions(fullPath, effectiveAggressive);
-      actions.push(...sessionActions);
-    }
-  } catch {
-    // unreadable
-  }
-
-  // Check total project dir sizes after per-file fixes
-  try {
-    const topEntries = await readdir(claudePath, { withFileTypes: true });
-    for (const entry of topEntries) {
-      if (!entry.isDirectory()) continue;
-      const fullPath = join(claudePath, entry.name);
-      const size = await dirSize(fullPath);
-      const sizeMB = bytesToMB(size);
-
-      if (sizeMB > config.maxProjectLogDirMB) {
-        // Archive the whole directory
-        const archiveDir = getArchivePath();
-        if (!existsSync(archiveDir)) {
-          await mkdir(archiveDir, { recursive: true });
-        }
-
-        const action: PreflightAction = {
-          type: 'warning',
-          target: fullPath,
-          detail: `Directory still ${sizeMB}MB after trimming (limit: ${config.maxProjectLogDirMB}MB). Manual review recommended.`,
-        };
-        actions.push(action);
-      }
-    }
-  } catch {
-    // unreadable
-  }
-
-  return actions;
+  return applyFixPlan(await planFixes(config, aggressive), config, { onChanged: 'skip' });
 }
 
 /** Format a preflight result as a human-readable report. */
@@ -275,12 +151,15 @@ export function formatPreflightReport(result: PreflightResult): string {
 
     if (result.entries.length > 0) {
       lines.push('Project directories (by size):');
-      for (const entry of result.entries.slice(0, 10)) {
+      // The largest ten, plus any smaller ones under a retention policy
+      const shown = result.entries.filter((entry, i) => i < 10 || entry.retention);
+      for (const entry of shown) {
         const name = entry.path.split(/[/\\]/).pop() || entry.path;
-        lines.push(`  ${name}: ${entry.sizeMB}MB`);
+        const policy = entry.retention ? `  [retention ${entry.retention.policy}: ${entry.retention.summary}]` : '';
+        lines.push(`  ${name}: ${entry.sizeMB}MB${policy}`);
       }
-      if (result.entries.length > 10) {
-        lines.push(`  ... and ${result.entries.length - 10} more`);
+      if (result.entries.length > shown.length) {
+        lines.push(`  ... and ${result.entries.length - shown.length} more`);
       }
     }
   } else {
@@ -338,115 +217,15 @@ export function healthBanner(result: PreflightResult): string {
   return `[guardian] ${parts.join(' | ')}`;
 }
 
-/** UUID pattern matching session IDs (directories and files). */
-const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-
-/** Entries to never delete inside a project directory. */
-const PROTECTED_NAMES = new Set(['memory', 'sessions-index.json']);
-
 /**
  * Clean stale session transcripts from a single project directory.
  * Removes UUID-named .jsonl files, .jsonl.gz files, and UUID-named
- * subdirectories older than the configured threshold.
+ * subdirectories older than the configured threshold (into the trash unless trash.enabled is false).
  */
 export async function cleanStaleSessions(
   projectDir: string,
   aggressive: boolean = false,
+  config: GuardianConfig = DEFAULT_CONFIG,
 ): Promise<PreflightAction[]> {
-  const actions: PreflightAction[] = [];
-  const retainDays = aggressive
-    ? Math.floor(THRESHOLDS.staleSessionDays / 2)
-    : THRESHOLDS.staleSessionDays;
-  const cutoff = Date.now() - retainDays * 24 * 60 * 60 * 1000;
-
-  let entries;
-  try {
-    entries = await readdir(projectDir, { withFileTypes: true });
-  } catch {
-    return actions;
-  }
-
-  for (const entry of entries) {
-    const name = entry.name;
-
-    // Never touch protected entries
-    if (PROTECTED_NAMES.has(name)) continue;
-
-    const fullPath = join(projectDir, name);
-
-    if (entry.isFile()) {
-      // Match: <uuid>.jsonl or <uuid>.jsonl.gz
-      const match = name.match(/^([0-9a-f-]+)\.jsonl(\.gz)?$/i);
-      if (!match) continue;
-      const stem = match[1];
-      if (!UUID_RE.test(stem)) continue;
-
-      try {
-        const fileStat = await stat(fullPath);
-        if (fileStat.mtimeMs < cutoff) {
-          const size = fileStat.size;
-          await unlink(fullPath);
-          const action: PreflightAction = {
-            type: 'cleaned',
-            target: fullPath,
-            detail: `Removed stale session transcript ${name} (${bytesToMB(size)}MB, ${Math.round((Date.now() - fileStat.mtimeMs) / 86400000)}d old)`,
-            sizeBefore: size,
-            sizeAfter: 0,
-          };
-          actions.push(action);
-          await writeJournalEntry({
-            timestamp: new Date().toISOString(),
-            action: 'cleaned',
-            target: fullPath,
-            detail: action.detail,
-            sizeBefore: size,
-            sizeAfter: 0,
-          });
-        }
-      } catch {
-        // Skip files we can't stat or delete
-      }
-    } else if (entry.isDirectory()) {
-      // Match UUID-named session directories
-      if (!UUID_RE.test(name)) continue;
-
-      try {
-        const dirStat = await stat(fullPath);
-        if (dirStat.mtimeMs < cutoff) {
-          const size = await dirSize(fullPath);
-          await rm(fullPath, { recursive: true, force: true });
-          const action: PreflightAction = {
-            type: 'cleaned',
-            target: fullPath,
-            detail: `Removed stale session dir ${name} (${bytesToMB(size)}MB, ${Math.round((Date.now() - dirStat.mtimeMs) / 86400000)}d old)`,
-            sizeBefore: size,
-            sizeAfter: 0,
-          };
-          actions.push(action);
-          await writeJournalEntry({
-            timestamp: new Date().toISOString(),
-            action: 'cleaned',
-            target: fullPath,
-            detail: action.detail,
-            sizeBefore: size,
-            sizeAfter: 0,
-          });
-        }
-      } catch {
-        // Skip dirs we can't remove
-      }
-    }
-  }
-
-  return actions;
-}
-
-/** Check if a file is likely text-based (safe to trim by lines). */
-function isTextFile(filePath: string): boolean {
-  const textExtensions = [
-    '.log', '.jsonl', '.json', '.txt', '.md',
-    '.yaml', '.yml', '.toml', '.csv', '.ndjson',
-  ];
-  const lower = filePath.toLowerCase();
-  return textExtensions.some(ext => lower.endsWith(ext));
+  return executeFixItems(await planStaleSessions(projectDir, aggressive, config), config);
 }
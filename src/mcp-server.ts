@@ -2,18 +2,31 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
 import { scanLogs, fixLogs, formatPreflightReport, formatFixReport, healthBanner } from './log-manager.js';
-import { generateBundle, formatDoctorReport } from './doctor.js';
-import { getDiskFreeGB, dirSize, bytesToMB, pathExists } from './fs-utils.js';
-import { getClaudeProjectsPath, DEFAULT_CONFIG, THRESHOLDS } from './defaults.js';
+import { planFixes, applyFixPlan, readFixPlan, writeFixPlan, formatFixPlan } from './fix-plan.js';
+import { generateBundle, formatDoctorReport, validateOutputPath } from './doctor.js';
+import { formatRedactionSummary } from './redaction.js';
+import { getDiskFreeGB, dirSize, bytesToMB, pathExists, writeJournalEntry } from './fs-utils.js';
+import { getClaudeProjectsPath, DEEP_CAPTURE_CONFIG } from './defaults.js';
+import { loadConfig } from './config.js';
 import { findClaudeProcesses, checkActivitySignals, assessHangRisk, recommendActions } from './process-monitor.js';
+import { attachProcessTrees, topDescendants } from './process-tree.js';
+import { formatSessionLine, stuckSessions, resolveLeaseOwner } from './session-tracker.js';
 import { readState, isStateFresh, computeAttention, type GuardianState } from './state.js';
-import { readBudget, writeBudget, emptyBudget, withBudgetLock } from './budget-store.js';
-import { Budget } from './budget.js';
+import { readBudget, withBudgetLock } from './budget-store.js';
+import { saveBudget, readLedger, computeBudgetReport, formatBudgetReport } from './budget-ledger.js';
+import { BudgetPools, DEFAULT_POOL, formatBudget } from './budget.js';
+import { acquireWithWait } from './budget-queue.js';
 import { generateRecoveryPlan, formatRecoveryPlan } from './recovery-plan.js';
 import { GuardianError, wrapError } from './errors.js';
 import { probePort, PROBE_DEFAULTS } from './port-probe.js';
 import { classifyProject } from './project-classify.js';
+import { MetricsStore, resolveTimeRange, formatMetricsReport } from './metrics-store.js';
+import {
+  loadIncidentHistory, filterIncidents, findIncidents, computeIncidentStats, resolveIncidentRange,
+  formatIncidentList, formatIncident, formatIncidentStats,
+} from './incident-history.js';
 import { homedir } from 'os';
+import { resolve } from 'path';
 
 /** Wrap an MCP tool handler so thrown errors become structured text, never stack traces. */
 function mcpResult(text: string) {
@@ -56,6 +69,7 @@ export function createMcpServer(): McpServer {
       }
 
       // No daemon — do a live scan with default composite values
+      const config = await loadConfig(process.cwd());
       const claudePath = getClaudeProjectsPath();
       const diskFreeGB = await getDiskFreeGB(homedir());
       let claudeLogSizeMB = 0;
@@ -64,27 +78,34 @@ export function createMcpServer(): McpServer {
       }
 
       const { processes } = await findClaudeProcesses();
-      const activity = await checkActivitySignals(processes);
+      await attachProcessTrees(processes);
+      const activity = await checkActivitySignals(processes, null, config.thresholds, {
+        hangThresholdSeconds: config.hangNoActivitySeconds,
+      });
 
       // Without the daemon we can't track process age or composite quiet duration,
       // so we use safe defaults (grace=0, quiet=0) — risk will be ok.
       const hangRisk = assessHangRisk(
         processes, activity, diskFreeGB,
-        DEFAULT_CONFIG.hangNoActivitySeconds,
+        config.hangNoActivitySeconds,
         0, // processAgeSeconds — unknown without daemon
         0, // compositeQuietSeconds — unknown without daemon
+        config.thresholds,
+        config.activity,
       );
       const actions = recommendActions(hangRisk);
 
-      const scan = await scanLogs();
+      const scan = await scanLogs(config);
 
       const liveState: GuardianState = {
         updatedAt: new Date().toISOString(),
         daemonRunning: false,
         daemonPid: null,
         claudeProcesses: processes,
+        topDescendants: topDescendants(processes),
         activity,
         hangRisk,
+        sessions: [],
         recommendedActions: actions,
         diskFreeGB: Math.round(diskFreeGB * 100) / 100,
         claudeLogSizeMB,
@@ -107,19 +128,38 @@ export function createMcpServer(): McpServer {
   server.registerTool('guardian_preflight_fix', {
     title: 'Guardian Preflight Fix',
     description:
-      'Scans Claude project logs and automatically rotates/trims oversized files. ' +
-      'Safe and reversible — old logs are gzipped, large files are trimmed to last N lines. ' +
+      'Scans Claude project logs and automatically rotates/trims oversized files and removes stale session transcripts. ' +
+      'Old logs are gzipped, large files are trimmed to last N lines. ' +
+      'With dryRun, nothing is changed: returns the exact plan (every file to rotate/trim/delete, with sizes and reasons) ' +
+      'and saves it; pass that planPath to apply exactly that plan, which is refused if any file changed since. ' +
       'Use this when guardian_status shows warnings or before starting intensive work.',
     inputSchema: {
       aggressive: z.boolean().optional().describe(
         'Enable aggressive mode: shorter retention, lower thresholds. Auto-enabled when disk is low.'
       ),
+      dryRun: z.boolean().optional().describe(
+        'Only plan: save the fix plan (to planPath, default ~/.claude-guardian/fix-plan.json) and return it without changing anything.'
+      ),
+      planPath: z.string().optional().describe(
+        'Without dryRun: apply exactly the plan saved at this path and nothing else.'
+      ),
     },
-  }, async ({ aggressive }) => {
+  }, async ({ aggressive, dryRun, planPath }) => {
     try {
-      const scanBefore = await scanLogs();
-      const fixActions = await fixLogs(DEFAULT_CONFIG, aggressive ?? false);
-      const scanAfter = await scanLogs();
+      const config = await loadConfig(process.cwd());
+      if (dryRun) {
+        const plan = await planFixes(config, aggressive ?? false);
+        const savedPath = await writeFixPlan(plan, planPath ? validateOutputPath(planPath) : undefined);
+        return mcpResult(
+          `${formatFixPlan(plan)}\n\nPlan saved: ${savedPath}\n` +
+          `Apply exactly this plan with guardian_preflight_fix({ planPath: "${savedPath}" }).`,
+        );
+      }
+      const scanBefore = await scanLogs(config);
+      const fixActions = planPath
+        ? await applyFixPlan(await readFixPlan(resolve(planPath)), config)
+        : await fixLogs(config, aggressive ?? false);
+      const scanAfter = await scanLogs(config);
 
       const report = formatFixReport(fixActions);
       const bannerBefore = healthBanner(scanBefore);
@@ -136,18 +176,28 @@ export function createMcpServer(): McpServer {
     title: 'Guardian Doctor',
     description:
       'Generates a full diagnostics bundle (zip) containing system info, log tails, ' +
-      'file size reports, and the guardian action journal. Returns the bundle path and a summary report. ' +
+      'file size reports, and the guardian action journal. Secrets, emails and home-dir usernames are redacted ' +
+      '(counts in redaction-report.json). Returns the bundle path and a summary report. ' +
       'Use this when something has gone wrong and you need evidence.',
     inputSchema: {
       outputPath: z.string().optional().describe(
         'Custom output path for the zip bundle. Defaults to ~/.claude-guardian/bundle-<timestamp>.zip'
       ),
+      redact: z.enum(['strict', 'standard', 'off']).optional().describe(
+        'Redaction of secrets, emails and home paths in the bundle. Defaults to config redaction.level (standard).'
+      ),
+      deep: z.boolean().optional().describe(
+        'Add process-deep.json: /proc status, wait channel, kernel stack, per-thread CPU and sockets of each Claude process (Linux). ' +
+        'A JS stack via the inspector is included only when config deepCapture.inspector is true.'
+      ),
     },
-  }, async ({ outputPath }) => {
+  }, async ({ outputPath, redact, deep }) => {
     try {
-      const bundle = await generateBundle(outputPath);
+      const config = await loadConfig(process.cwd());
+      const inspector = (config.deepCapture ?? DEEP_CAPTURE_CONFIG).inspector;
+      const bundle = await generateBundle(outputPath, config, { redact, deep: deep ? { inspector } : undefined });
       const report = formatDoctorReport(bundle.summary);
-      return mcpResult(`Bundle saved: ${bundle.zipPath}\n\n${report}`);
+      return mcpResult(`Bundle saved: ${bundle.zipPath}\n${formatRedactionSummary(bundle.redaction)}\n\n${report}`);
     } catch (err) {
       return mcpError(err, 'Check disk space. Try `claude-guardian doctor` from CLI.');
     }
@@ -163,6 +213,7 @@ export function createMcpServer(): McpServer {
   }, async () => {
     try {
       // Get current state (daemon or live)
+      const config = await loadConfig(process.cwd());
       const state = await readState();
       let effectiveState: GuardianState;
 
@@ -177,18 +228,23 @@ export function createMcpServer(): McpServer {
           claudeLogSizeMB = bytesToMB(await dirSize(claudePath));
         }
         const { processes } = await findClaudeProcesses();
-        const activity = await checkActivitySignals(processes);
+        await attachProcessTrees(processes);
+        const activity = await checkActivitySignals(processes, null, config.thresholds, {
+          hangThresholdSeconds: config.hangNoActivitySeconds,
+        });
         const hangRisk = assessHangRisk(
           processes, activity, diskFreeGB,
-          DEFAULT_CONFIG.hangNoActivitySeconds, 0, 0,
+          config.hangNoActivitySeconds, 0, 0, config.thresholds, config.activity,
         );
         effectiveState = {
           updatedAt: new Date().toISOString(),
           daemonRunning: false,
           daemonPid: null,
           claudeProcesses: processes,
+          topDescendants: topDescendants(processes),
           activity,
           hangRisk,
+          sessions: [],
           recommendedActions: recommendActions(hangRisk),
           diskFreeGB: Math.round(diskFreeGB * 100) / 100,
           claudeLogSizeMB,
@@ -205,8 +261,8 @@ export function createMcpServer(): McpServer {
       const actions: string[] = [];
 
       // 1. Logs/disk threshold check
-      if (effectiveState.hangRisk.diskLow || effectiveState.claudeLogSizeMB > DEFAULT_CONFIG.maxProjectLogDirMB) {
-        const fixActions = await fixLogs(DEFAULT_CONFIG, effectiveState.hangRisk.diskLow);
+      if (effectiveState.hangRisk.diskLow || effectiveState.claudeLogSizeMB > config.maxProjectLogDirMB) {
+        const fixActions = await fixLogs(config, effectiveState.hangRisk.diskLow);
         if (fixActions.length > 0) {
           actions.push(`Preflight fix: ${fixActions.length} items repaired`);
         }
@@ -217,7 +273,7 @@ export function createMcpServer(): McpServer {
           (effectiveState.hangRisk.level === 'warn' || effectiveState.hangRisk.level === 'critical') &&
           !effectiveState.activeIncident.bundleCaptured) {
         try {
-          const bundle = await generateBundle();
+          const bundle = await generateBundle(undefined, config);
           actions.push(`Doctor bundle saved: ${bundle.zipPath}`);
         } catch (err) {
           actions.push(`Doctor bundle failed: ${err instanceof Error ? err.message : String(err)}`);
@@ -229,6 +285,13 @@ export function createMcpServer(): McpServer {
         return mcpResult('All clear. No actions needed.');
       }
 
+      // Recorded so the daemon can attach it to the open incident
+      await writeJournalEntry({
+        timestamp: new Date().toISOString(),
+        action: 'nudge',
+        detail: actions.join('; '),
+      });
+
       // 4. Operator script
       return mcpResult(formatNudgeReport(actions, effectiveState));
     } catch (err) {
@@ -240,7 +303,8 @@ export function createMcpServer(): McpServer {
   server.registerTool('guardian_budget_get', {
     title: 'Guardian Budget Get',
     description:
-      'Returns the current concurrency budget: cap, slots in use, available slots, and active leases. ' +
+      'Returns the current concurrency budget: cap, slots in use, available slots, active leases (with owners) and ' +
+      'queued requests — per pool when named pools are configured. ' +
       'Use this before starting heavy work to check if capacity is available.',
   }, async () => {
     try {
@@ -248,28 +312,12 @@ export function createMcpServer(): McpServer {
       if (!data) {
         return mcpResult('Budget not initialized. No daemon running and no previous budget state.');
       }
-      const budget = new Budget(data);
-      budget.expireLeases();
-      const s = budget.summarize();
-
-      const lines: string[] = [];
-      lines.push(`Budget: cap=${s.currentCap}/${s.baseCap} | in-use=${s.slotsInUse} | available=${s.slotsAvailable}`);
-      lines.push(`Active leases: ${s.activeLeases}`);
-      if (s.capSetByRisk) {
-        lines.push(`Cap reduced by: ${s.capSetByRisk}`);
-      }
-      if (s.hysteresisRemainingSeconds > 0) {
-        lines.push(`Recovery in: ${s.hysteresisRemainingSeconds}s`);
-      }
-      if (data.leases.length > 0) {
-        lines.push('');
-        for (const l of data.leases) {
-          const expiresIn = Math.max(0, Math.round((new Date(l.expiresAt).getTime() - Date.now()) / 1000));
-          lines.push(`  ${l.id}: ${l.slots} slot(s) — "${l.reason}" (expires in ${expiresIn}s)`);
-        }
+      const config = await loadConfig(process.cwd());
+      const pools = new BudgetPools(data, config.budget);
+      for (const name of pools.names) {
+        pools.pool(name).expireLeases();
       }
-
-      return mcpResult(lines.join('\n'));
+      return mcpResult(formatBudget(pools));
     } catch (err) {
       return mcpError(err, 'Budget file may be corrupt. Try `claude-guardian budget show` from CLI.');
     }
@@ -280,29 +328,88 @@ export function createMcpServer(): McpServer {
     title: 'Guardian Budget Acquire',
     description:
       'Acquire concurrency slots before starting heavy work. Returns granted/denied with lease ID. ' +
+      'For long work, set heartbeatSeconds and call guardian_budget_renew at least that often; a lease that ' +
+      'misses several heartbeats is reclaimed early. The lease is recorded against this Claude session and ' +
+      'reclaimed if the session exits. Pass waitSeconds to queue (FIFO per priority) instead of being denied ' +
+      'when slots are short. Pick a named pool (e.g. "tests", "builds") if budget.pools configures one. ' +
       'Release the lease when done with guardian_budget_release.',
     inputSchema: {
       slots: z.number().int().min(1).describe('Number of concurrency slots to acquire'),
-      ttlSeconds: z.number().int().min(1).default(120).describe('Lease time-to-live in seconds (default: 120)'),
+      ttlSeconds: z.number().int().min(1).default(120).describe('Lease time-to-live in seconds (default: 120, capped at budget.maxLeaseSeconds)'),
       reason: z.string().default('mcp-acquire').describe('Why you need the slots'),
+      heartbeatSeconds: z.number().int().min(1).optional().describe(
+        'Promise to renew at least this often. Missing budget.missedHeartbeats (default 3) renewals reclaims the lease.'
+      ),
+      waitSeconds: z.number().int().min(0).optional().describe(
+        'Wait in the queue up to this long for slots (capped at budget.maxWaitSeconds). Omit to be denied immediately.'
+      ),
+      pool: z.string().default(DEFAULT_POOL).describe('Budget pool to acquire from (default: the default pool)'),
+      priority: z.enum(['high', 'normal', 'low']).default('normal').describe(
+        'Queue priority class. Waiters move up one class per budget.queueAgingSeconds, so low priority still gets served.'
+      ),
+    },
+  }, async ({ slots, ttlSeconds, reason, heartbeatSeconds, waitSeconds, pool, priority }, extra) => {
+    try {
+      const config = await loadConfig(process.cwd());
+      const owner = await resolveLeaseOwner();
+      // A client that cancels or times out must not leave a waiter behind to be granted a lease nobody releases
+      const result = await acquireWithWait(slots, ttlSeconds, reason, config.budget, {
+        heartbeatSeconds, owner, waitSeconds, priority, pool, signal: extra.signal,
+      });
+      const budgetLine = `Budget${pool !== DEFAULT_POOL ? ` (${pool})` : ''}: ${result.slotsInUse}/${result.currentCap} in use | ${result.slotsAvailable} available`;
+
+      if (result.granted) {
+        const l = result.lease!;
+        const ttl = Math.round((Date.parse(l.expiresAt) - Date.parse(l.grantedAt)) / 1000);
+        const heartbeat = l.heartbeatSeconds ? ` | heartbeat=${l.heartbeatSeconds}s` : '';
+        const waited = result.waitedSeconds > 0 ? ` | waited=${result.waitedSeconds}s` : '';
+        return mcpResult(`Granted: lease=${l.id} | slots=${l.slots} | ttl=${ttl}s${heartbeat}${waited}\n${budgetLine}`);
+      }
+
+      return mcpResult(`Denied: ${result.reason}\n${budgetLine}`);
+    } catch (err) {
+      return mcpError(err, 'Budget acquire failed. Check disk space and permissions.');
+    }
+  });
+
+  // === guardian_budget_renew ===
+  server.registerTool('guardian_budget_renew', {
+    title: 'Guardian Budget Renew',
+    description:
+      'Renew (heartbeat) a concurrency lease so it does not expire mid-work. Call it at least every ' +
+      'heartbeatSeconds for heartbeat leases. Leases cannot outlive budget.maxLeaseSeconds from grant.',
+    inputSchema: {
+      leaseId: z.string().describe('The lease ID returned by guardian_budget_acquire'),
+      ttlSeconds: z.number().int().min(1).default(120).describe('New time-to-live from now in seconds (default: 120)'),
     },
-  }, async ({ slots, ttlSeconds, reason }) => {
+  }, async ({ leaseId, ttlSeconds }) => {
     try {
+      const config = await loadConfig(process.cwd());
       return await withBudgetLock(async () => {
-        const data = await readBudget() ?? emptyBudget();
-        const budget = new Budget(data);
+        const data = await readBudget();
+        if (!data) {
+          return mcpResult('Budget not initialized. Nothing to renew.');
+        }
+        const pools = new BudgetPools(data, config.budget);
+        const budget = pools.pool(pools.findLease(leaseId)?.pool);
         budget.expireLeases();
-        const result = budget.acquire(slots, ttlSeconds, reason);
-        await writeBudget(budget.getData());
+        const result = budget.renew(leaseId, ttlSeconds);
+        await saveBudget(pools);
 
-        if (result.granted) {
-          return mcpResult(`Granted: lease=${result.lease!.id} | slots=${result.lease!.slots} | ttl=${ttlSeconds}s\nBudget: ${result.slotsInUse}/${result.currentCap} in use | ${result.slotsAvailable} available`);
+        if (!result.renewed) {
+          return mcpResult(`Not renewed: ${result.reason}. Acquire a new lease with guardian_budget_acquire.`);
         }
-
-        return mcpResult(`Denied: ${result.reason}\nBudget: ${result.slotsInUse}/${result.currentCap} in use | ${result.slotsAvailable} available`);
+        const l = result.lease!;
+        await writeJournalEntry({
+          timestamp: new Date().toISOString(),
+          action: 'lease-renewed',
+          detail: `Lease ${l.id} renewed until ${l.expiresAt} (renewal #${l.renewals}${result.capped ? ', capped at max lifetime' : ''})`,
+        });
+        const expiresIn = Math.round((Date.parse(l.expiresAt) - Date.now()) / 1000);
+        return mcpResult(`${result.reason}: lease=${l.id} | expires in ${expiresIn}s | renewals=${l.renewals}`);
       });
     } catch (err) {
-      return mcpError(err, 'Budget acquire failed. Check disk space and permissions.');
+      return mcpError(err, 'Budget renew failed. Check disk space and permissions.');
     }
   });
 
@@ -316,18 +423,26 @@ export function createMcpServer(): McpServer {
     },
   }, async ({ leaseId }) => {
     try {
+      const config = await loadConfig(process.cwd());
       return await withBudgetLock(async () => {
         const data = await readBudget();
         if (!data) {
           return mcpResult('Budget not initialized. Nothing to release.');
         }
-        const budget = new Budget(data);
-        const released = budget.release(leaseId);
-        await writeBudget(budget.getData());
+        const pools = new BudgetPools(data, config.budget);
+        const released = pools.release(leaseId);
+        await saveBudget(pools);
 
         if (released) {
-          const s = budget.summarize();
-          return mcpResult(`Released: lease=${leaseId}\nBudget: ${s.slotsInUse}/${s.currentCap} in use | ${s.slotsAvailable} available`);
+          const { pool, lease } = released;
+          const poolNote = pool !== DEFAULT_POOL ? ` (${pool})` : '';
+          await writeJournalEntry({
+            timestamp: new Date().toISOString(),
+            action: 'lease-released',
+            detail: `Lease ${lease.id} released (${lease.slots} slot(s), reason: "${lease.reason}"${pool !== DEFAULT_POOL ? `, pool ${pool}` : ''})`,
+          });
+          const s = pools.pool(pool).summarize();
+          return mcpResult(`Released: lease=${leaseId}\nBudget${poolNote}: ${s.slotsInUse}/${s.currentCap} in use | ${s.slotsAvailable} available`);
         }
 
         return mcpResult(`Lease ${leaseId} not found. It may have already expired or been released.`);
@@ -337,6 +452,94 @@ export function createMcpServer(): McpServer {
     }
   });
 
+  // === guardian_budget_report ===
+  server.registerTool('guardian_budget_report', {
+    title: 'Guardian Budget Report',
+    description:
+      'Budget usage over a time window, from the budget ledger: slot-seconds per reason and per owning session, ' +
+      'denial rate and causes, mean queue wait, peak concurrency and time spent at reduced caps. ' +
+      'Use this to see who has been holding slots and how often work was throttled.',
+    inputSchema: {
+      since: z.string().default('24h').describe('Range start: duration ago (e.g. "2h", "7d") or ISO timestamp (default: 24h)'),
+      until: z.string().optional().describe('Range end: duration ago or ISO timestamp (default: now)'),
+      pool: z.string().optional().describe('Only this budget pool (default: all pools)'),
+    },
+  }, async ({ since, until, pool }) => {
+    try {
+      const { from, to } = resolveTimeRange(since, until);
+      return mcpResult(formatBudgetReport(computeBudgetReport(await readLedger(), { from, to, pool })));
+    } catch (err) {
+      return mcpError(err, 'Budget report failed. Try `claude-guardian budget report` from CLI.');
+    }
+  });
+
+  // === guardian_metrics ===
+  server.registerTool('guardian_metrics', {
+    title: 'Guardian Metrics',
+    description:
+      'Returns historical metrics recorded by the watch daemon (CPU, memory, handles, disk, log size, process count, risk) ' +
+      'for a time range, downsampled to 2s/1m/1h buckets. Use this to see what led up to a hang or slowdown.',
+    inputSchema: {
+      since: z.string().default('10m').describe('Range start: duration ago (e.g. "10m", "2h", "7d") or ISO timestamp (default: 10m)'),
+      until: z.string().optional().describe('Range end: duration ago or ISO timestamp (default: now)'),
+      metrics: z.array(z.enum(['cpu', 'memory', 'handles', 'disk', 'logs', 'procs', 'risk'])).optional()
+        .describe('Metrics to return (default: all)'),
+      resolution: z.enum(['auto', '2s', '1m', '1h']).default('auto')
+        .describe('Bucket size (default: auto — finest tier that covers the range)'),
+      maxPoints: z.number().int().min(1).max(500).default(30).describe('Max points per metric (default: 30)'),
+    },
+  }, async ({ since, until, metrics, resolution, maxPoints }) => {
+    try {
+      const { from, to } = resolveTimeRange(since, until);
+      const result = await new MetricsStore().query({ from, to, metrics, resolution, maxPoints });
+      return mcpResult(formatMetricsReport(result));
+    } catch (err) {
+      return mcpError(err, 'Metrics query failed. Try `claude-guardian metrics` from CLI.');
+    }
+  });
+
+  // === guardian_incidents ===
+  server.registerTool('guardian_incidents', {
+    title: 'Guardian Incidents',
+    description:
+      'Incident history recorded by the watch daemon. action "list" returns incidents newest first, ' +
+      '"show" returns one incident by ID or prefix, "stats" returns MTTR, incidents per day and the most common reasons. ' +
+      'Use this to tell whether hangs are recurring or getting better.',
+    inputSchema: {
+      action: z.enum(['list', 'show', 'stats']).default('list').describe('list, show or stats (default: list)'),
+      id: z.string().optional().describe('Incident ID or unique prefix (required for "show")'),
+      since: z.string().optional().describe('Only incidents started after: duration ago (e.g. "7d") or ISO timestamp'),
+      until: z.string().optional().describe('Only incidents started before: duration ago or ISO timestamp'),
+      peakLevel: z.enum(['warn', 'critical']).optional().describe('Only incidents that peaked at this level'),
+      hasBundle: z.boolean().optional().describe('Only incidents with (true) or without (false) a diagnostics bundle'),
+      limit: z.number().int().min(1).max(500).default(20).describe('Max incidents for "list" (default: 20)'),
+    },
+  }, async ({ action, id, since, until, peakLevel, hasBundle, limit }) => {
+    try {
+      const history = await loadIncidentHistory();
+      if (action === 'show') {
+        const matches = id ? findIncidents(history, id) : [];
+        if (matches.length !== 1) {
+          return mcpResult(!id
+            ? 'Pass `id` to show an incident (see action "list").'
+            : matches.length === 0
+              ? `Incident ${id} not found.`
+              : `Incident prefix ${id} is ambiguous (${matches.length} matches).`);
+        }
+        return mcpResult(formatIncident(matches[0]));
+      }
+
+      const range = resolveIncidentRange(since, until);
+      const incidents = filterIncidents(history, { ...range, peakLevel, hasBundle });
+      if (action === 'stats') {
+        return mcpResult(formatIncidentStats(computeIncidentStats(incidents, range)));
+      }
+      return mcpResult(formatIncidentList(incidents.slice(-limit)));
+    } catch (err) {
+      return mcpError(err, 'Incident query failed. Try `claude-guardian incidents` from CLI.');
+    }
+  });
+
   // === guardian_recovery_plan ===
   server.registerTool('guardian_recovery_plan', {
     title: 'Guardian Recovery Plan',
@@ -346,6 +549,7 @@ export function createMcpServer(): McpServer {
   }, async () => {
     try {
       // Get current state (daemon or live)
+      const config = await loadConfig(process.cwd());
       const state = await readState();
       let effectiveState: GuardianState;
 
@@ -359,18 +563,23 @@ export function createMcpServer(): McpServer {
           claudeLogSizeMB = bytesToMB(await dirSize(claudePath));
         }
         const { processes } = await findClaudeProcesses();
-        const activity = await checkActivitySignals(processes);
+        await attachProcessTrees(processes);
+        const activity = await checkActivitySignals(processes, null, config.thresholds, {
+          hangThresholdSeconds: config.hangNoActivitySeconds,
+        });
         const hangRisk = assessHangRisk(
           processes, activity, diskFreeGB,
-          DEFAULT_CONFIG.hangNoActivitySeconds, 0, 0,
+          config.hangNoActivitySeconds, 0, 0, config.thresholds, config.activity,
         );
         effectiveState = {
           updatedAt: new Date().toISOString(),
           daemonRunning: false,
           daemonPid: null,
           claudeProcesses: processes,
+          topDescendants: topDescendants(processes),
           activity,
           hangRisk,
+          sessions: [],
           recommendedActions: recommendActions(hangRisk),
           diskFreeGB: Math.round(diskFreeGB * 100) / 100,
           claudeLogSizeMB,
@@ -576,14 +785,29 @@ function formatStatus(state: GuardianState): string {
     for (const p of state.claudeProcesses) {
       let line = `  PID ${p.pid} (${p.name}): CPU ${p.cpuPercent}% | RAM ${p.memoryMB}MB`;
       if (p.handleCount != null) {
-        line += ` | handles=${p.handleCount}`;
+        line += ` | handles=${p.handleCount}${p.handleLimit ? `/${p.handleLimit}` : ''}`;
       }
       line += ` | up ${fmtUptime(p.uptimeSeconds)}`;
       lines.push(line);
+      if (p.tree && p.tree.descendantCount > 0) {
+        lines.push(`    tree: ${p.tree.descendantCount} descendant(s) | CPU ${p.tree.treeCpuPercent}% | RAM ${p.tree.treeMemoryMB}MB${p.tree.treeHandleCount != null ? ` | handles=${p.tree.treeHandleCount}` : ''}`);
+      }
     }
   } else {
     lines.push('Claude processes: none detected');
   }
+  if (state.topDescendants.length > 0) {
+    lines.push('Top descendants:');
+    for (const d of state.topDescendants) {
+      lines.push(`  PID ${d.pid} (${d.name}) under ${d.rootPid}: CPU ${d.cpuPercent}% | RAM ${d.memoryMB}MB${d.handleCount != null ? ` | handles=${d.handleCount}` : ''}`);
+    }
+  }
+  if (state.sessions.length > 0) {
+    lines.push('Sessions:');
+    for (const s of state.sessions) {
+      lines.push(`  ${formatSessionLine(s)}`);
+    }
+  }
   lines.push('');
 
   // Composite signals
@@ -624,8 +848,8 @@ function formatStatus(state: GuardianState): string {
   if (state.budgetSummary) {
     const b = state.budgetSummary;
     lines.push(`Budget: cap=${b.currentCap}/${b.baseCap} | in-use=${b.slotsInUse} | available=${b.slotsAvailable} | leases=${b.activeLeases}`);
-    if (b.capSetByRisk) {
-      lines.push(`  Reduced by: ${b.capSetByRisk}`);
+    if (b.capReason ?? b.capSetByRisk) {
+      lines.push(`  Reduced by: ${b.capReason ?? b.capSetByRisk}`);
     }
     if (b.hysteresisRemainingSeconds > 0) {
       lines.push(`  Recovery in: ${b.hysteresisRemainingSeconds}s`);
@@ -670,6 +894,14 @@ export function formatBanner(state: GuardianState): string {
 
   parts.push(`quiet=${state.compositeQuietSeconds}s`);
   parts.push(`risk=${state.hangRisk.level}`);
+  const stuck = stuckSessions(state.sessions);
+  if (stuck.length > 0) {
+    parts.push(`stuck=${stuck.map(s => s.pid).join(',')}`);
+  }
+  const leaking = state.sessions.filter(s => s.leak?.leakSuspected);
+  if (leaking.length > 0) {
+    parts.push(`leak=${leaking.map(s => s.pid).join(',')}`);
+  }
   if (state.attention.level !== 'none') {
     parts.push(`attn=${state.attention.level}`);
   }
@@ -0,0 +1,213 @@
+/**
+ * Prometheus/OpenMetrics exporter for the watch daemon.
+ * Opt-in (exporter.enabled or `watch --metrics-port`), loopback-bound by default, read-only:
+ * the listener only ever serves GET /metrics rendered from the daemon's in-memory state.
+ */
+
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { GuardianError } from './errors.js';
+import type { GuardianState } from './state.js';
+import type { ExporterConfig } from './types.js';
+import type { ClaudeProcess, RiskLevel } from './process-monitor.js';
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+const PREFIX = 'claude_guardian';
+const BYTES_PER_MB = 1024 * 1024;
+
+/** Numeric encoding of hang risk for the risk gauge. */
+const RISK_VALUE: Record<RiskLevel, number> = { ok: 0, warn: 1, critical: 2 };
+
+/** Monotonic counters kept by the daemon since it started. */
+export interface ExporterCounters {
+  /** Poll cycles started. */
+  polls: number;
+  /** Incidents opened. */
+  incidents: number;
+  /** Diagnostics bundles captured. */
+  bundles: number;
+  /** Budget leases reclaimed by TTL expiry or missed heartbeats. */
+  leaseExpirations: number;
+}
+
+/** What the exporter renders on each scrape. */
+export interface ExporterSnapshot {
+  /** Latest state written by the daemon (null before the first poll completes). */
+  state: GuardianState | null;
+  counters: ExporterCounters;
+}
+
+/** A running exporter. */
+export interface MetricsExporter {
+  /** Scrape URL, e.g. http://127.0.0.1:9464/metrics. */
+  url: string;
+  close(): Promise<void>;
+}
+
+export function emptyCounters(): ExporterCounters {
+  return { polls: 0, incidents: 0, bundles: 0, leaseExpirations: 0 };
+}
+
+type Labels = Record<string, string | number>;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatSample(name: string, value: number, labels?: Labels): string {
+  const labelText = labels && Object.keys(labels).length > 0
+    ? '{' + Object.entries(labels).map(([k, v]) => `${k}="${escapeLabelValue(String(v))}"`).join(',') + '}'
+    : '';
+  const valueText = Number.isFinite(value) ? String(value) : 'NaN';
+  return `${name}${labelText} ${valueText}`;
+}
+
+/** Collects metric families and renders them in OpenMetrics text format. */
+class FamilyWriter {
+  private lines: string[] = [];
+
+  gauge(name: string, help: string, samples: Array<{ value: number; labels?: Labels }>): void {
+    const full = `${PREFIX}_${name}`;
+    this.lines.push(`# TYPE ${full} gauge`);
+    this.lines.push(`# HELP ${full} ${help}`);
+    for (const s of samples) {
+      this.lines.push(formatSample(full, s.value, s.labels));
+    }
+  }
+
+  counter(name: string, help: string, value: number): void {
+    const full = `${PREFIX}_${name}`;
+    this.lines.push(`# TYPE ${full} counter`);
+    this.lines.push(`# HELP ${full} ${help}`);
+    this.lines.push(formatSample(`${full}_total`, value));
+  }
+
+  toString(): string {
+    return this.lines.join('\n') + '\n# EOF\n';
+  }
+}
+
+/**
+ * Render daemon state and counters as an OpenMetrics exposition.
+ * Sizes are converted to bytes (Prometheus base units); per-process series are labelled by pid.
+ * State-derived gauges are omitted until the daemon has completed its first poll.
+ */
+export function formatOpenMetrics(snapshot: ExporterSnapshot): string {
+  const { state, counters } = snapshot;
+  const w = new FamilyWriter();
+
+  w.gauge('daemon_up', 'Whether the watch daemon has published state (1) or is still starting (0).', [
+    { value: state ? 1 : 0 },
+  ]);
+
+  if (state) {
+    const procLabels = (p: ClaudeProcess): Labels => ({ pid: p.pid, name: p.name });
+
+    w.gauge('processes', 'Number of Claude processes detected.', [
+      { value: state.claudeProcesses.length },
+    ]);
+    w.gauge('process_cpu_percent', 'CPU usage of a Claude process (percent of one core).',
+      state.claudeProcesses.map(p => ({ value: p.cpuPercent, labels: procLabels(p) })));
+    w.gauge('process_memory_bytes', 'Resident memory of a Claude process.',
+      state.claudeProcesses.map(p => ({ value: Math.round(p.memoryMB * BYTES_PER_MB), labels: procLabels(p) })));
+    w.gauge('process_handles', 'Open handles (FDs on Unix) of a Claude process.',
+      state.claudeProcesses
+        .filter(p => p.handleCount != null)
+        .map(p => ({ value: p.handleCount!, labels: procLabels(p) })));
+
+    const withTree = state.claudeProcesses.filter(p => p.tree);
+    w.gauge('process_descendants', 'Descendant processes spawned under a Claude process.',
+      withTree.map(p => ({ value: p.tree!.descendantCount, labels: procLabels(p) })));
+    w.gauge('process_tree_cpu_percent', 'CPU of a Claude process plus its descendants.',
+      withTree.map(p => ({ value: p.tree!.treeCpuPercent, labels: procLabels(p) })));
+    w.gauge('process_tree_memory_bytes', 'Resident memory of a Claude process plus its descendants.',
+      withTree.map(p => ({ value: Math.round(p.tree!.treeMemoryMB * BYTES_PER_MB), labels: procLabels(p) })));
+
+    w.gauge('disk_free_bytes', 'Free disk space on the home volume.', [
+      { value: Math.round(state.diskFreeGB * 1024 * BYTES_PER_MB) },
+    ]);
+    w.gauge('claude_log_size_bytes', 'Total size of ~/.claude/projects.', [
+      { value: Math.round(state.claudeLogSizeMB * BYTES_PER_MB) },
+    ]);
+    w.gauge('hang_risk_level', 'Composite hang risk: 0=ok, 1=warn, 2=critical.', [
+      { value: RISK_VALUE[state.hangRisk.level] },
+    ]);
+    w.gauge('session_hang_risk_level', 'Hang risk of one Claude session: 0=ok, 1=warn, 2=critical.',
+      state.sessions.map(s => ({ value: RISK_VALUE[s.hangRisk.level], labels: { pid: s.pid } })));
+    w.gauge('session_quiet_seconds', 'How long one Claude session has been below its activity quorum.',
+      state.sessions.map(s => ({ value: s.compositeQuietSeconds, labels: { pid: s.pid } })));
+    w.gauge('composite_quiet_seconds', 'How long logs and CPU have both been quiet.', [
+      { value: state.compositeQuietSeconds },
+    ]);
+
+    if (state.budgetSummary) {
+      const b = state.budgetSummary;
+      w.gauge('budget_cap_slots', 'Current concurrency cap (reduced under risk).', [{ value: b.currentCap }]);
+      w.gauge('budget_base_cap_slots', 'Configured base concurrency cap.', [{ value: b.baseCap }]);
+      w.gauge('budget_slots_in_use', 'Slots held by active leases.', [{ value: b.slotsInUse }]);
+      w.gauge('budget_active_leases', 'Number of active leases.', [{ value: b.activeLeases }]);
+    }
+
+    w.gauge('incident_active', 'Whether an incident is open (1) or not (0).', [
+      { value: state.activeIncident ? 1 : 0 },
+    ]);
+  }
+
+  w.counter('polls', 'Daemon poll cycles since start.', counters.polls);
+  w.counter('incidents', 'Incidents opened since daemon start.', counters.incidents);
+  w.counter('bundles', 'Diagnostics bundles captured since daemon start.', counters.bundles);
+  w.counter('lease_expirations', 'Budget leases reclaimed by TTL expiry or missed heartbeats since daemon start.', counters.leaseExpirations);
+
+  return w.toString();
+}
+
+/**
+ * Start the HTTP listener. `snapshot` is called on every scrape.
+ * Rejects with EXPORTER_FAILED if the address cannot be bound (e.g. port already in use).
+ */
+export async function startMetricsExporter(
+  exporter: Pick<ExporterConfig, 'host' | 'port'>,
+  snapshot: () => ExporterSnapshot,
+): Promise<MetricsExporter> {
+  const server: Server = createServer((req, res) => {
+    const path = (req.url ?? '/').split('?')[0];
+    if (path !== '/metrics') {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Not found. Metrics are served at /metrics\n');
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { 'Content-Type': 'text/plain; charset=utf-8', Allow: 'GET, HEAD' });
+      res.end('Method not allowed\n');
+      return;
+    }
+    const body = formatOpenMetrics(snapshot());
+    res.writeHead(200, { 'Content-Type': OPENMETRICS_CONTENT_TYPE });
+    res.end(req.method === 'HEAD' ? undefined : body);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const onError = (err: Error) => {
+      reject(new GuardianError(
+        'EXPORTER_FAILED',
+        `Cannot listen on ${exporter.host}:${exporter.port}: ${err.message}`,
+        'Pick a free port with `--metrics-port` or `claude-guardian config set exporter.port <port>`.',
+        err,
+      ));
+    };
+    server.once('error', onError);
+    server.listen(exporter.port, exporter.host, () => {
+      server.off('error', onError);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}/metrics`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,368 @@
+/**
+ * Historical metrics time series, written by the watch daemon.
+ *
+ * Each resolution tier is a fixed-size ring buffer file of binary records. A sample's slot is
+ * derived from its time bucket (`floor(t / bucketMs) % capacity`), so there is no head pointer
+ * to persist: writing a sample merges it into the current bucket of every tier (2s, 1m, 1h),
+ * and stale buckets are overwritten in place. Disk usage is constant (~0.9MB total).
+ */
+
+import { open, readFile, mkdir, type FileHandle } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { getMetricsPath } from './defaults.js';
+import { GuardianError } from './errors.js';
+import type { RiskLevel } from './process-monitor.js';
+
+export type MetricName = 'cpu' | 'memory' | 'handles' | 'disk' | 'logs' | 'procs' | 'risk';
+export type MetricsResolution = '2s' | '1m' | '1h';
+
+/** All metrics, in on-disk record order. Append only — reordering breaks existing files. */
+export const METRIC_NAMES: readonly MetricName[] = ['cpu', 'memory', 'handles', 'disk', 'logs', 'procs', 'risk'];
+
+export const METRIC_UNITS: Record<MetricName, string> = {
+  cpu: '%',
+  memory: 'MB',
+  handles: 'handles',
+  disk: 'GB',
+  logs: 'MB',
+  procs: 'procs',
+  risk: '0=ok 1=warn 2=critical',
+};
+
+/** Resolution tiers: bucket width and ring capacity (retention = bucketMs × capacity). */
+export const METRICS_TIERS: ReadonlyArray<{ resolution: MetricsResolution; bucketMs: number; capacity: number }> = [
+  { resolution: '2s', bucketMs: 2_000, capacity: 1_800 },    // 1 hour
+  { resolution: '1m', bucketMs: 60_000, capacity: 1_440 },   // 24 hours
+  { resolution: '1h', bucketMs: 3_600_000, capacity: 720 },  // 30 days
+];
+
+/** One daemon poll's worth of measurements (totals across Claude processes). */
+export interface MetricsSample {
+  /** Epoch ms. */
+  t: number;
+  cpuPercent: number;
+  memoryMB: number;
+  /** Total handles (null if unavailable for every process). */
+  handleCount: number | null;
+  diskFreeGB: number;
+  claudeLogSizeMB: number;
+  processCount: number;
+  risk: RiskLevel;
+}
+
+export interface MetricPoint {
+  timestamp: string;
+  avg: number;
+  min: number;
+  max: number;
+  samples: number;
+}
+
+export interface MetricSeries {
+  metric: MetricName;
+  unit: string;
+  points: MetricPoint[];
+  /** Aggregate over the whole range (null if no samples). */
+  summary: { avg: number; min: number; max: number; samples: number } | null;
+}
+
+export interface MetricsQuery {
+  /** Range start (epoch ms). */
+  from: number;
+  /** Range end (epoch ms). */
+  to: number;
+  /** Metrics to return (default: all). */
+  metrics?: MetricName[];
+  /** Tier to read; 'auto' picks the finest tier that still covers `from`. */
+  resolution?: MetricsResolution | 'auto';
+  /** Merge adjacent buckets so each series has at most this many points. */
+  maxPoints?: number;
+}
+
+export interface MetricsQueryResult {
+  from: string;
+  to: string;
+  resolution: MetricsResolution;
+  series: MetricSeries[];
+}
+
+const RISK_VALUE: Record<RiskLevel, number> = { ok: 0, warn: 1, critical: 2 };
+
+/** Per metric: count, sum, min, max. Plus the bucket start. All float64. */
+const FIELDS_PER_METRIC = 4;
+const RECORD_FIELDS = 1 + METRIC_NAMES.length * FIELDS_PER_METRIC;
+const RECORD_BYTES = RECORD_FIELDS * 8;
+
+interface Accumulator { count: number; sum: number; min: number; max: number }
+interface BucketRecord { bucketStart: number; metrics: Accumulator[] }
+
+function emptyRecord(bucketStart: number): BucketRecord {
+  return {
+    bucketStart,
+    metrics: METRIC_NAMES.map(() => ({ count: 0, sum: 0, min: 0, max: 0 })),
+  };
+}
+
+function decodeRecord(buf: Buffer, offset: number): BucketRecord {
+  const rec: BucketRecord = { bucketStart: buf.readDoubleLE(offset), metrics: [] };
+  for (let i = 0; i < METRIC_NAMES.length; i++) {
+    const base = offset + (1 + i * FIELDS_PER_METRIC) * 8;
+    rec.metrics.push({
+      count: buf.readDoubleLE(base),
+      sum: buf.readDoubleLE(base + 8),
+      min: buf.readDoubleLE(base + 16),
+      max: buf.readDoubleLE(base + 24),
+    });
+  }
+  return rec;
+}
+
+function encodeRecord(rec: BucketRecord): Buffer {
+  const buf = Buffer.alloc(RECORD_BYTES);
+  buf.writeDoubleLE(rec.bucketStart, 0);
+  rec.metrics.forEach((m, i) => {
+    const base = (1 + i * FIELDS_PER_METRIC) * 8;
+    buf.writeDoubleLE(m.count, base);
+    buf.writeDoubleLE(m.sum, base + 8);
+    buf.writeDoubleLE(m.min, base + 16);
+    buf.writeDoubleLE(m.max, base + 24);
+  });
+  return buf;
+}
+
+function sampleValue(sample: MetricsSample, metric: MetricName): number | null {
+  switch (metric) {
+    case 'cpu': return sample.cpuPercent;
+    case 'memory': return sample.memoryMB;
+    case 'handles': return sample.handleCount;
+    case 'disk': return sample.diskFreeGB >= 0 ? sample.diskFreeGB : null;
+    case 'logs': return sample.claudeLogSizeMB;
+    case 'procs': return sample.processCount;
+    case 'risk': return RISK_VALUE[sample.risk];
+  }
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Ring-buffer metrics store. One instance per data directory. */
+export class MetricsStore {
+  private readonly dir: string;
+
+  constructor(dir: string = getMetricsPath()) {
+    this.dir = dir;
+  }
+
+  /** Merge one sample into every resolution tier. */
+  async record(sample: MetricsSample): Promise<void> {
+    if (!existsSync(this.dir)) {
+      await mkdir(this.dir, { recursive: true });
+    }
+
+    for (const tier of METRICS_TIERS) {
+      const fh = await this.openTier(tier.resolution, tier.capacity);
+      try {
+        const bucket = Math.floor(sample.t / tier.bucketMs);
+        const bucketStart = bucket * tier.bucketMs;
+        const offset = (bucket % tier.capacity) * RECORD_BYTES;
+
+        const buf = Buffer.alloc(RECORD_BYTES);
+        await fh.read(buf, 0, RECORD_BYTES, offset);
+        let rec = decodeRecord(buf, 0);
+        if (rec.bucketStart !== bucketStart) {
+          rec = emptyRecord(bucketStart); // Slot holds an older lap of the ring — overwrite
+        }
+
+        METRIC_NAMES.forEach((metric, i) => {
+          const value = sampleValue(sample, metric);
+          if (value === null || !Number.isFinite(value)) return;
+          const acc = rec.metrics[i];
+          acc.min = acc.count === 0 ? value : Math.min(acc.min, value);
+          acc.max = acc.count === 0 ? value : Math.max(acc.max, value);
+          acc.count += 1;
+          acc.sum += value;
+        });
+
+        await fh.write(encodeRecord(rec), 0, RECORD_BYTES, offset);
+      } finally {
+        await fh.close();
+      }
+    }
+  }
+
+  /** Read a time range from the best-fitting tier. */
+  async query(q: MetricsQuery, now: number = Date.now()): Promise<MetricsQueryResult> {
+    if (!(q.from < q.to)) {
+      throw new GuardianError('METRICS_FAILED', 'Metrics range start must be before its end', 'Check --since/--until (e.g. --since 10m).');
+    }
+
+    const tier = pickTier(q.resolution ?? 'auto', q.from, now);
+    const metrics = q.metrics && q.metrics.length > 0 ? q.metrics : [...METRIC_NAMES];
+
+    const records: BucketRecord[] = [];
+    let content: Buffer | null = null;
+    try {
+      content = await readFile(this.tierPath(tier.resolution));
+    } catch {
+      // No data yet for this tier
+    }
+    if (content && content.length === tier.capacity * RECORD_BYTES) {
+      for (let slot = 0; slot < tier.capacity; slot++) {
+        const rec = decodeRecord(content, slot * RECORD_BYTES);
+        if (rec.bucketStart <= 0) continue;
+        if (rec.bucketStart + tier.bucketMs <= q.from || rec.bucketStart > q.to) continue;
+        records.push(rec);
+      }
+    }
+    records.sort((a, b) => a.bucketStart - b.bucketStart);
+
+    const series: MetricSeries[] = metrics.map(metric => {
+      const idx = METRIC_NAMES.indexOf(metric);
+      const raw = records
+        .map(r => ({ start: r.bucketStart, acc: r.metrics[idx] }))
+        .filter(r => r.acc.count > 0);
+
+      const points = mergePoints(raw, q.maxPoints).map(p => ({
+        timestamp: new Date(p.start).toISOString(),
+        avg: round(p.acc.sum / p.acc.count),
+        min: round(p.acc.min),
+        max: round(p.acc.max),
+        samples: p.acc.count,
+      }));
+
+      let summary: MetricSeries['summary'] = null;
+      if (raw.length > 0) {
+        const total = raw.reduce((acc, r) => mergeAcc(acc, r.acc), { count: 0, sum: 0, min: 0, max: 0 });
+        summary = { avg: round(total.sum / total.count), min: round(total.min), max: round(total.max), samples: total.count };
+      }
+
+      return { metric, unit: METRIC_UNITS[metric], points, summary };
+    });
+
+    return {
+      from: new Date(q.from).toISOString(),
+      to: new Date(q.to).toISOString(),
+      resolution: tier.resolution,
+      series,
+    };
+  }
+
+  private tierPath(resolution: MetricsResolution): string {
+    return join(this.dir, `metrics-${resolution}.bin`);
+  }
+
+  /** Open a tier file for read/write, (re)creating it zero-filled if missing or mis-sized. */
+  private async openTier(resolution: MetricsResolution, capacity: number): Promise<FileHandle> {
+    const path = this.tierPath(resolution);
+    const expected = capacity * RECORD_BYTES;
+    let fh: FileHandle;
+    try {
+      fh = await open(path, 'r+');
+    } catch {
+      fh = await open(path, 'w+');
+    }
+    const { size } = await fh.stat();
+    if (size !== expected) {
+      await fh.truncate(0);
+      await fh.truncate(expected);
+    }
+    return fh;
+  }
+}
+
+function mergeAcc(a: Accumulator, b: Accumulator): Accumulator {
+  if (a.count === 0) return { ...b };
+  if (b.count === 0) return { ...a };
+  return {
+    count: a.count + b.count,
+    sum: a.sum + b.sum,
+    min: Math.min(a.min, b.min),
+    max: Math.max(a.max, b.max),
+  };
+}
+
+/** Merge adjacent buckets so at most `maxPoints` remain. */
+function mergePoints(
+  points: Array<{ start: number; acc: Accumulator }>,
+  maxPoints?: number,
+): Array<{ start: number; acc: Accumulator }> {
+  if (!maxPoints || maxPoints <= 0 || points.length <= maxPoints) return points;
+  const groupSize = Math.ceil(points.length / maxPoints);
+  const merged: Array<{ start: number; acc: Accumulator }> = [];
+  for (let i = 0; i < points.length; i += groupSize) {
+    const group = points.slice(i, i + groupSize);
+    merged.push({
+      start: group[0].start,
+      acc: group.reduce((acc, p) => mergeAcc(acc, p.acc), { count: 0, sum: 0, min: 0, max: 0 }),
+    });
+  }
+  return merged;
+}
+
+function pickTier(resolution: MetricsResolution | 'auto', from: number, now: number) {
+  if (resolution !== 'auto') {
+    return METRICS_TIERS.find(t => t.resolution === resolution)!;
+  }
+  const age = Math.max(0, now - from);
+  return METRICS_TIERS.find(t => t.bucketMs * t.capacity >= age) ?? METRICS_TIERS[METRICS_TIERS.length - 1];
+}
+
+/** Parse a duration like "90s", "10m", "2h", "7d" into ms. Returns null if malformed. */
+export function parseDuration(text: string): number | null {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*(s|m|h|d)$/i);
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  const unitMs = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2].toLowerCase() as 's' | 'm' | 'h' | 'd'];
+  return n * unitMs;
+}
+
+/**
+ * Resolve a `since`/`until` pair into epoch ms.
+ * Each accepts a duration ago ("10m") or an ISO timestamp; `until` defaults to now.
+ */
+export function resolveTimeRange(since: string, until?: string, now: number = Date.now()): { from: number; to: number } {
+  const parsePoint = (text: string, label: string): number => {
+    const duration = parseDuration(text);
+    if (duration !== null) return now - duration;
+    const ts = Date.parse(text);
+    if (Number.isNaN(ts)) {
+      throw new GuardianError(
+        'METRICS_FAILED',
+        `Invalid ${label} "${text}"`,
+        'Use a duration like 10m, 2h, 7d or an ISO timestamp like 2026-03-01T12:00:00Z.',
+      );
+    }
+    return ts;
+  };
+
+  const from = parsePoint(since, 'since');
+  const to = until ? parsePoint(until, 'until') : now;
+  return { from, to };
+}
+
+/** Format a query result as a human-readable report. */
+export function formatMetricsReport(result: MetricsQueryResult): string {
+  const lines: string[] = [];
+  lines.push(`Metrics ${result.from} → ${result.to} (resolution ${result.resolution})`);
+
+  for (const s of result.series) {
+    lines.push('');
+    if (!s.summary) {
+      lines.push(`${s.metric} (${s.unit}): no samples`);
+      continue;
+    }
+    lines.push(`${s.metric} (${s.unit}): min ${s.summary.min} | avg ${s.summary.avg} | max ${s.summary.max} | ${s.summary.samples} samples`);
+    for (const p of s.points) {
+      lines.push(`  ${p.timestamp.substring(0, 19).replace('T', ' ')}  avg ${p.avg}  min ${p.min}  max ${p.max}`);
+    }
+  }
+
+  if (result.series.every(s => !s.summary)) {
+    lines.push('');
+    lines.push('No data in range. Metrics are recorded by the watch daemon (`claude-guardian watch`).');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,451 @@
+/**
+ * Notification sinks for daemon events.
+ * Attention changes, incidents, bundle captures and budget cap changes otherwise only reach
+ * state.json — these sinks push them out: a JSON webhook (retried with backoff), a desktop
+ * notification, and/or a user command. Each event type is rate limited on its own (budget cap
+ * changes per pool); a more severe event than the last one sent always goes through.
+ */
+
+import { execFile, spawn } from 'child_process';
+import { promisify } from 'util';
+import { hostname } from 'os';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { NOTIFICATION_CONFIG } from './defaults.js';
+import { GuardianError } from './errors.js';
+import type { NotificationConfig, NotificationEventType } from './types.js';
+import type { Attention } from './state.js';
+import type { Incident } from './incident.js';
+import type { RiskLevel } from './process-monitor.js';
+
+const execFileAsync = promisify(execFile);
+
+export type NotificationSeverity = 'info' | 'warn' | 'critical';
+
+/** Something the daemon wants to tell the outside world. */
+export interface NotificationEvent {
+  type: NotificationEventType;
+  severity: NotificationSeverity;
+  /** Short one-liner (desktop notification title). */
+  title: string;
+  message: string;
+  /** Event-specific fields (incident id, caps, bundle path...). */
+  data: Record<string, unknown>;
+}
+
+/** JSON body POSTed to the webhook and written to the command's stdin. */
+export interface NotificationPayload extends NotificationEvent {
+  source: 'claude-guardian';
+  timestamp: string;
+  hostname: string;
+  /** Events of this type (and pool) dropped by rate limiting since the previous one was sent. */
+  suppressed: number;
+}
+
+export type NotificationSink = 'webhook' | 'desktop' | 'command';
+
+export interface SinkResult {
+  sink: NotificationSink;
+  ok: boolean;
+  /** Webhook attempts made (including retries). */
+  attempts?: number;
+  error?: string;
+}
+
+/** Outcome of one `Notifier.notify` call. */
+export interface NotifyResult {
+  sent: boolean;
+  /** Why nothing was sent. */
+  skipped?: 'filtered' | 'rate-limited' | 'no-sinks';
+  sinks: SinkResult[];
+}
+
+/** Webhook retry settings. */
+export type WebhookOptions = Pick<NotificationConfig, 'retries' | 'retryBackoffMs' | 'timeoutMs'>;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const SEVERITY_RANK: Record<NotificationSeverity, number> = { info: 0, warn: 1, critical: 2 };
+
+// ─── Events ───
+
+function severityOf(level: RiskLevel | Attention['level']): NotificationSeverity {
+  return level === 'critical' || level === 'warn' ? level : 'info';
+}
+
+/** Attention level transition, or null if the level did not change. */
+export function attentionChangedEvent(previous: Attention | undefined, next: Attention): NotificationEvent | null {
+  const from = previous?.level ?? 'none';
+  if (from === next.level) return null;
+  return {
+    type: 'attention',
+    severity: severityOf(next.level),
+    title: `Attention ${from} → ${next.level}`,
+    message: next.reason,
+    data: { from, to: next.level, incidentId: next.incidentId, recommendedActions: next.recommendedActions },
+  };
+}
+
+export function incidentOpenedEvent(incident: Incident): NotificationEvent {
+  return {
+    type: 'incident-open',
+    severity: severityOf(incident.peakLevel),
+    title: `Incident opened (${incident.peakLevel})`,
+    message: incident.reason,
+    data: { incidentId: incident.id, level: incident.peakLevel, startedAt: incident.startedAt },
+  };
+}
+
+export function incidentClosedEvent(incident: Incident): NotificationEvent {
+  const durationSeconds = incident.closedAt
+    ? Math.max(0, Math.round((new Date(incident.closedAt).getTime() - new Date(incident.startedAt).getTime()) / 1000))
+    : null;
+  return {
+    type: 'incident-close',
+    severity: 'info',
+    title: 'Incident closed',
+    message: `Incident ${incident.id} closed after ${durationSeconds ?? '?'}s (peak ${incident.peakLevel})`,
+    data: {
+      incidentId: incident.id,
+      peakLevel: incident.peakLevel,
+      startedAt: incident.startedAt,
+      closedAt: incident.closedAt,
+      durationSeconds,
+      bundlePath: incident.bundlePath,
+    },
+  };
+}
+
+export function bundleCapturedEvent(incidentId: string | null, bundlePath: string): NotificationEvent {
+  return {
+    type: 'bundle',
+    severity: 'critical',
+    title: 'Diagnostics bundle captured',
+    message: bundlePath,
+    data: { incidentId, bundlePath },
+  };
+}
+
+export function budgetCapChangedEvent(
+  fromCap: number,
+  toCap: number,
+  baseCap: number,
+  risk: RiskLevel,
+  pool: string = 'default',
+  capReason: string | null = null,
+): NotificationEvent {
+  const which = pool === 'default' ? '' : ` (${pool})`;
+  return {
+    type: 'budget-cap',
+    severity: toCap < baseCap ? severityOf(risk) : 'info',
+    title: `Budget cap${which} ${fromCap} → ${toCap}`,
+    message: toCap < fromCap
+      ? `Concurrency cap${which} reduced to ${toCap}/${baseCap} (${capReason ?? `risk=${risk}`})`
+      : `Concurrency cap${which} raised to ${toCap}/${baseCap}`,
+    data: { fromCap, toCap, baseCap, risk, pool, capReason },
+  };
+}
+
+export function testEvent(): NotificationEvent {
+  return {
+    type: 'test',
+    severity: 'info',
+    title: 'Test notification',
+    message: 'claude-guardian notifications are working.',
+    data: {},
+  };
+}
+
+// ─── Sinks ───
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * POST the payload as JSON. Network errors, timeouts, 429 and 5xx are retried with
+ * exponential backoff; other non-2xx responses fail immediately.
+ * Returns the number of attempts. Throws NOTIFY_FAILED when every attempt fails.
+ */
+export async function postWebhook(
+  url: string,
+  payload: NotificationPayload,
+  options: WebhookOptions = NOTIFICATION_CONFIG,
+): Promise<number> {
+  const body = JSON.stringify(payload);
+  let lastError = '';
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    if (attempt > 0) {
+      await sleep(options.retryBackoffMs * 2 ** (attempt - 1));
+    }
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'claude-guardian' },
+        body,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+      if (res.ok) return attempt + 1;
+      lastError = `HTTP ${res.status}`;
+      if (!isRetryable(res.status)) break;
+    } catch (err) {
+      lastError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  throw new GuardianError(
+    'NOTIFY_FAILED',
+    `Webhook ${url} failed: ${lastError}`,
+    'Check notifications.webhookUrl, or run `claude-guardian notify test --stub` to verify the payload locally.',
+  );
+}
+
+/** Show a desktop notification (notify-send on Linux, osascript on macOS). Throws NOTIFY_FAILED otherwise. */
+export async function showDesktopNotification(payload: NotificationPayload, timeoutMs: number): Promise<void> {
+  const title = `claude-guardian: ${payload.title}`;
+  try {
+    if (process.platform === 'linux') {
+      const urgency = payload.severity === 'critical' ? 'critical' : 'normal';
+      await execFileAsync('notify-send', ['-a', 'claude-guardian', '-u', urgency, title, payload.message], { timeout: timeoutMs });
+      return;
+    }
+    if (process.platform === 'darwin') {
+      const quote = (s: string) => '"' + s.replace(/\\/g, '\\\\').replace(/"/g, '\\"') + '"';
+      await execFileAsync('osascript', ['-e', `display notification ${quote(payload.message)} with title ${quote(title)}`], { timeout: timeoutMs });
+      return;
+    }
+  } catch (err) {
+    throw new GuardianError(
+      'NOTIFY_FAILED',
+      `Desktop notification failed: ${err instanceof Error ? err.message : String(err)}`,
+      process.platform === 'linux'
+        ? 'Install notify-send (libnotify) or set notifications.desktop to false.'
+        : 'Set notifications.desktop to false.',
+      err instanceof Error ? err : undefined,
+    );
+  }
+  throw new GuardianError(
+    'NOTIFY_FAILED',
+    `Desktop notifications are not supported on ${process.platform}`,
+    'Use notifications.webhookUrl or notifications.command instead.',
+  );
+}
+
+/**
+ * Run the user's command through the shell. The payload is written to stdin as JSON and
+ * summarised in CLAUDE_GUARDIAN_EVENT / _SEVERITY / _TITLE / _MESSAGE.
+ * Throws NOTIFY_FAILED on non-zero exit or timeout.
+ */
+export async function runNotifyCommand(command: string, payload: NotificationPayload, timeoutMs: number): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ['pipe', 'ignore', 'pipe'],
+      env: {
+        ...process.env,
+        CLAUDE_GUARDIAN_EVENT: payload.type,
+        CLAUDE_GUARDIAN_SEVERITY: payload.severity,
+        CLAUDE_GUARDIAN_TITLE: payload.title,
+        CLAUDE_GUARDIAN_MESSAGE: payload.message,
+      },
+    });
+
+    let stderr = '';
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-500);
+    });
+
+    const fail = (message: string, cause?: Error) => reject(new GuardianError(
+      'NOTIFY_FAILED',
+      `Notification command failed: ${message}`,
+      'Check notifications.command — it runs through the shell with the JSON payload on stdin.',
+      cause,
+    ));
+
+    const timer = setTimeout(() => {
+      child.kill();
+      fail(`timed out after ${timeoutMs}ms`);
+    }, timeoutMs);
+
+    child.on('error', (err) => {
+      clearTimeout(timer);
+      fail(err.message, err);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve();
+      } else {
+        fail(`exit code ${code}${stderr.trim() ? `: ${stderr.trim()}` : ''}`);
+      }
+    });
+
+    child.stdin?.on('error', () => { /* command didn't read stdin — fine */ });
+    child.stdin?.end(JSON.stringify(payload) + '\n');
+  });
+}
+
+// ─── Notifier ───
+
+/**
+ * What an event is rate limited by: its type, plus the pool for budget cap changes (pools
+ * change in the same poll) and the incident for incident opens (a new incident is news).
+ */
+function rateLimitKey(event: NotificationEvent): string {
+  if (event.type === 'budget-cap') return `budget-cap:${String(event.data.pool ?? 'default')}`;
+  if (event.type === 'incident-open') return `incident-open:${String(event.data.incidentId)}`;
+  return event.type;
+}
+
+/** Rate-limited fan-out to the configured sinks — one per daemon. */
+export class Notifier {
+  private config: NotificationConfig;
+  private lastSent = new Map<string, { at: number; severity: NotificationSeverity }>();
+  private suppressed = new Map<string, number>();
+
+  constructor(config: NotificationConfig = NOTIFICATION_CONFIG) {
+    this.config = config;
+  }
+
+  /** Sinks that are switched on. */
+  get sinks(): NotificationSink[] {
+    const sinks: NotificationSink[] = [];
+    if (this.config.webhookUrl) sinks.push('webhook');
+    if (this.config.desktop) sinks.push('desktop');
+    if (this.config.command) sinks.push('command');
+    return sinks;
+  }
+
+  /**
+   * Send an event to every sink. Never throws — sink failures are reported in the result.
+   * Test events bypass the event filter and rate limit; escalations (an event more severe
+   * than the last one sent under its key, see rateLimitKey) bypass the rate limit.
+   */
+  async notify(event: NotificationEvent, now: number = Date.now()): Promise<NotifyResult> {
+    if (this.sinks.length === 0) {
+      return { sent: false, skipped: 'no-sinks', sinks: [] };
+    }
+
+    const key = rateLimitKey(event);
+    if (event.type !== 'test') {
+      if (!this.config.events.includes(event.type)) {
+        return { sent: false, skipped: 'filtered', sinks: [] };
+      }
+      const windowMs = this.config.minIntervalSeconds * 1000;
+      const last = this.lastSent.get(key);
+      if (last !== undefined && now - last.at < windowMs && SEVERITY_RANK[event.severity] <= SEVERITY_RANK[last.severity]) {
+        this.suppressed.set(key, (this.suppressed.get(key) ?? 0) + 1);
+        return { sent: false, skipped: 'rate-limited', sinks: [] };
+      }
+      // Forget windows that have passed with nothing suppressed (one key per incident)
+      for (const [k, sent] of this.lastSent) {
+        if (now - sent.at >= windowMs && !this.suppressed.has(k)) this.lastSent.delete(k);
+      }
+      this.lastSent.set(key, { at: now, severity: event.severity });
+    }
+
+    const payload: NotificationPayload = {
+      ...event,
+      source: 'claude-guardian',
+      timestamp: new Date(now).toISOString(),
+      hostname: hostname(),
+      suppressed: this.suppressed.get(key) ?? 0,
+    };
+    this.suppressed.delete(key);
+
+    const sinks = await Promise.all(this.sinks.map(sink => this.send(sink, payload)));
+    return { sent: true, sinks };
+  }
+
+  private async send(sink: NotificationSink, payload: NotificationPayload): Promise<SinkResult> {
+    try {
+      if (sink === 'webhook') {
+        const attempts = await postWebhook(this.config.webhookUrl!, payload, this.config);
+        return { sink, ok: true, attempts };
+      }
+      if (sink === 'desktop') {
+        await showDesktopNotification(payload, this.config.timeoutMs);
+      } else {
+        await runNotifyCommand(this.config.command!, payload, this.config.timeoutMs);
+      }
+      return { sink, ok: true };
+    } catch (err) {
+      return { sink, ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+}
+
+// ─── Webhook stub ───
+
+/** A local webhook receiver for trying out notifications. */
+export interface WebhookStub {
+  url: string;
+  /** Payloads received so far, oldest first. */
+  received: NotificationPayload[];
+  close(): Promise<void>;
+}
+
+export interface WebhookStubOptions {
+  host: string;
+  port: number;
+  /** Answer the first N requests with 503 (exercises the retry path). */
+  failFirst?: number;
+  onPayload?: (payload: NotificationPayload) => void;
+}
+
+/** Start a loopback HTTP server that accepts webhook POSTs and records their JSON bodies. */
+export async function startWebhookStub(options: WebhookStubOptions): Promise<WebhookStub> {
+  const received: NotificationPayload[] = [];
+  let failuresLeft = options.failFirst ?? 0;
+
+  const server: Server = createServer((req, res) => {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' });
+      res.end();
+      return;
+    }
+    let body = '';
+    req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+    req.on('end', () => {
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        res.writeHead(503);
+        res.end();
+        return;
+      }
+      try {
+        const payload = JSON.parse(body) as NotificationPayload;
+        received.push(payload);
+        options.onPayload?.(payload);
+        res.writeHead(204);
+      } catch {
+        res.writeHead(400);
+      }
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const onError = (err: Error) => reject(new GuardianError(
+      'NOTIFY_FAILED',
+      `Cannot listen on ${options.host}:${options.port}: ${err.message}`,
+      'Pick a free port with `--port`.',
+      err,
+    ));
+    server.once('error', onError);
+    server.listen(options.port, options.host, () => {
+      server.off('error', onError);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}/`,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
@@ -1,8 +1,14 @@
 import { execFile } from 'child_process';
 import { promisify } from 'util';
 import pidusage from 'pidusage';
-import { getClaudeProjectsPath, THRESHOLDS } from './defaults.js';
-import { listFilesWithStats, pathExists } from './fs-utils.js';
+import { getClaudeProjectsPath, THRESHOLDS, ACTIVITY_CONFIG, DEFAULT_CONFIG } from './defaults.js';
+import type { Thresholds, ActivityConfig } from './types.js';
+import type { ProcessTree } from './process-tree.js';
+import type { LeakTrend } from './leak-detector.js';
+import { listFilesWithStats, pathExists, type FileWithStats } from './fs-utils.js';
+import {
+  createActivitySources, sampleActivitySources, meetsQuorum, type ActivitySignalSource,
+} from './activity-sources.js';
 
 const execFileAsync = promisify(execFile);
 
@@ -15,14 +21,18 @@ export interface ClaudeProcess {
   commandLine?: string;
   /** Open handles/FDs (null if unavailable, undefined if not fetched). */
   handleCount?: number | null;
+  /** Soft RLIMIT_NOFILE (null if unknown or unlimited, undefined if not fetched; Linux only). */
+  handleLimit?: number | null;
+  /** Descendants and tree-level totals (null if unavailable, undefined if not fetched). */
+  tree?: ProcessTree | null;
 }
 
 export interface ActivitySignals {
   /** Seconds since any Claude log file was modified. */
   logLastModifiedSecondsAgo: number;
-  /** Whether CPU is above the "low" threshold for any Claude process. */
+  /** Whether CPU is above the "low" threshold for any Claude process tree. */
   cpuActive: boolean;
-  /** Which signal sources detected activity. */
+  /** Which activity sources fired this poll (see activity-sources.ts). */
   sources: string[];
   /** Last process enumeration error (null/undefined if none). */
   lastEnumerationError?: string | null;
@@ -38,18 +48,53 @@ export interface HangRisk {
   cpuLowSeconds: number;
   cpuHot: boolean;
   memoryHigh: boolean;
+  /** Open FDs near the soft RLIMIT_NOFILE, or growing steadily toward it. */
+  handlesHigh: boolean;
+  /** RSS or handle count is growing steadily toward its threshold (see leak-detector.ts). */
+  leakSuspected: boolean;
+  /** Projected seconds until a suspected leak crosses its threshold (null if none suspected). */
+  leakEtaSeconds: number | null;
   diskLow: boolean;
   /** Seconds remaining in grace window (0 if grace expired). */
   graceRemainingSeconds: number;
   reasons: string[];
 }
 
+export interface ActivityCheckOptions {
+  /**
+   * Sources to sample. Pass the same instances every poll so delta sources
+   * (transcript growth, I/O) have a baseline. Default: fresh built-in sources.
+   */
+  sources?: ActivitySignalSource[];
+  /** Log quiet longer than this counts as no log activity. Default: DEFAULT_CONFIG.hangNoActivitySeconds. */
+  hangThresholdSeconds?: number;
+}
+
 export interface FindProcessesResult {
   processes: ClaudeProcess[];
   /** Non-null if the top-level enumeration command failed. */
   enumerationError: string | null;
 }
 
+/** CPU of the process plus its descendants (own CPU when no tree was collected). */
+export function treeCpuPercent(p: ClaudeProcess): number {
+  return p.tree?.treeCpuPercent ?? p.cpuPercent;
+}
+
+/** RSS of the process plus its descendants (own RSS when no tree was collected). */
+export function treeMemoryMB(p: ClaudeProcess): number {
+  return p.tree?.treeMemoryMB ?? p.memoryMB;
+}
+
+/** " (top child: node PID 123 at 97%)" — names the descendant most likely responsible. */
+function topChildNote(p: ClaudeProcess, metric: 'cpu' | 'memory'): string {
+  const list = p.tree?.topDescendants ?? [];
+  if (list.length === 0) return '';
+  const top = list.reduce((a, b) => (metric === 'cpu' ? b.cpuPercent > a.cpuPercent : b.memoryMB > a.memoryMB) ? b : a);
+  const value = metric === 'cpu' ? `${top.cpuPercent}%` : `${top.memoryMB}MB`;
+  return ` (top child: ${top.name} PID ${top.pid} at ${value})`;
+}
+
 /** Find PIDs that look like Claude Code processes. */
 export async function findClaudeProcesses(): Promise<FindProcessesResult> {
   const processes: ClaudeProcess[] = [];
@@ -120,35 +165,41 @@ export async function findClaudeProcesses(): Promise<FindProcessesResult> {
   return { processes, enumerationError };
 }
 
-/** Check activity signals from Claude's log directory + process CPU. */
-export async function checkActivitySignals(processes: ClaudeProcess[], enumerationError?: string | null): Promise<ActivitySignals> {
-  const claudePath = getClaudeProjectsPath();
-  const sources: string[] = [];
+/** Seconds since the newest of `files` was modified (-1 if there are none). */
+export function logAgeSeconds(files: FileWithStats[], now: number = Date.now()): number {
   let mostRecentMtime = 0;
-
-  if (await pathExists(claudePath)) {
-    // Single traversal with pre-fetched stats — no redundant stat calls
-    const files = await listFilesWithStats(claudePath);
-    for (const f of files) {
-      if (f.mtimeMs > mostRecentMtime) {
-        mostRecentMtime = f.mtimeMs;
-      }
+  for (const f of files) {
+    if (f.mtimeMs > mostRecentMtime) {
+      mostRecentMtime = f.mtimeMs;
     }
   }
+  return mostRecentMtime > 0 ? Math.round((now - mostRecentMtime) / 1000) : -1;
+}
+
+/** Sample activity sources against Claude's log directory and process trees. */
+export async function checkActivitySignals(
+  processes: ClaudeProcess[],
+  enumerationError?: string | null,
+  thresholds: Thresholds = THRESHOLDS,
+  options: ActivityCheckOptions = {},
+): Promise<ActivitySignals> {
+  const claudePath = getClaudeProjectsPath();
 
-  const logAge = mostRecentMtime > 0
-    ? Math.round((Date.now() - mostRecentMtime) / 1000)
-    : -1;
+  // Single traversal with pre-fetched stats — shared by every source
+  const files = await pathExists(claudePath) ? await listFilesWithStats(claudePath) : [];
+  const logAge = logAgeSeconds(files);
 
-  if (logAge >= 0 && logAge < 300) {
-    sources.push('log-mtime');
-  }
+  const sources = await sampleActivitySources(options.sources ?? createActivitySources(), {
+    processes,
+    files,
+    logLastModifiedSecondsAgo: logAge,
+    hangThresholdSeconds: options.hangThresholdSeconds ?? DEFAULT_CONFIG.hangNoActivitySeconds,
+    thresholds,
+  });
 
-  // CPU activity: any Claude process above low threshold = active
-  const cpuActive = processes.some(p => p.cpuPercent > THRESHOLDS.cpuLowThreshold);
-  if (cpuActive) {
-    sources.push('cpu');
-  }
+  // CPU activity: any Claude process tree above low threshold
+  // (a busy test runner or build under an idle Claude process still counts as work)
+  const cpuActive = processes.some(p => treeCpuPercent(p) > thresholds.cpuLowThreshold);
 
   return {
     logLastModifiedSecondsAgo: logAge,
@@ -161,15 +212,20 @@ export async function checkActivitySignals(processes: ClaudeProcess[], enumerati
 /**
  * Composite hang risk assessment.
  *
- * Three-signal logic:
- *   - Signal A: log mtime quiet for hangThresholdSeconds
- *   - Signal B: CPU low (below cpuLowThreshold) — not doing work
+ * Quorum logic:
+ *   - Activity sources (log mtime, CPU, child CPU, transcript growth, network/disk I/O) fire independently
+ *   - Session is active when `activityConfig` quorum is met (default: any one source)
  *   - Grace: first graceWindowSeconds after process discovery → always ok
  *
  * Escalation:
  *   - During grace → ok (no matter what)
- *   - A quiet AND B low for hangThresholdSeconds → warn
+ *   - Quorum not met for hangThresholdSeconds → warn
  *   - Stays warn for criticalAfterSeconds → critical
+ *
+ * All limits (grace, CPU hot/low, memory, disk) come from `thresholds`.
+ * CPU and memory checks use process-tree totals when a tree was attached (see process-tree.ts).
+ * A suspected leak (from the daemon's per-PID trend) adds a reason but never raises the level.
+ * FDs at thresholds.handlesHighPercent of RLIMIT_NOFILE raise it to warn: at the limit every open() fails.
  */
 export function assessHangRisk(
   processes: ClaudeProcess[],
@@ -180,41 +236,58 @@ export function assessHangRisk(
   processAgeSeconds: number,
   /** How long the composite "quiet+low-cpu" condition has been true. */
   compositeQuietSeconds: number,
+  thresholds: Thresholds = THRESHOLDS,
+  activityConfig: ActivityConfig = ACTIVITY_CONFIG,
+  /** Growth trend of the assessed process (null if not tracked). */
+  leak: LeakTrend | null = null,
 ): HangRisk {
   const reasons: string[] = [];
 
   // Grace window
-  const graceRemaining = Math.max(0, THRESHOLDS.graceWindowSeconds - processAgeSeconds);
+  const graceRemaining = Math.max(0, thresholds.graceWindowSeconds - processAgeSeconds);
   const inGrace = graceRemaining > 0;
 
-  // Signal A: log quiet
-  const logQuiet = activity.logLastModifiedSecondsAgo < 0 ||
-    activity.logLastModifiedSecondsAgo > hangThresholdSeconds;
-
-  // Signal B: CPU low across all processes
+  // CPU low across all process trees
   const cpuLow = !activity.cpuActive;
 
-  // Composite: both signals quiet
-  const compositeQuiet = logQuiet && cpuLow;
+  // Composite: activity quorum not met
+  const compositeQuiet = !meetsQuorum(activity.sources, activityConfig);
+  const quietDetail = activity.sources.length > 0
+    ? `${activity.sources.length}/${activityConfig.quorum} activity sources: ${activity.sources.join(', ')}`
+    : 'no activity sources firing';
 
   // CPU hot check (separate from hang — this is "pegged, maybe serialization storm")
-  const cpuHot = processes.some(p => p.cpuPercent > 95);
+  const hotProcs = processes.filter(p => treeCpuPercent(p) > thresholds.cpuHotPercent);
+  const cpuHot = hotProcs.length > 0;
   if (cpuHot) {
-    const hotProcs = processes.filter(p => p.cpuPercent > 95);
-    reasons.push(`CPU hot: ${hotProcs.map(p => `PID ${p.pid} at ${p.cpuPercent}%`).join(', ')}`);
+    reasons.push(`CPU hot: ${hotProcs.map(p => `PID ${p.pid}${p.tree ? ' tree' : ''} at ${treeCpuPercent(p)}%${topChildNote(p, 'cpu')}`).join(', ')}`);
   }
 
   // Memory high check
-  const memoryHigh = processes.some(p => p.memoryMB > 4096);
+  const bigProcs = processes.filter(p => treeMemoryMB(p) > thresholds.memoryHighMB);
+  const memoryHigh = bigProcs.length > 0;
   if (memoryHigh) {
-    const bigProcs = processes.filter(p => p.memoryMB > 4096);
-    reasons.push(`High memory: ${bigProcs.map(p => `PID ${p.pid} at ${p.memoryMB}MB`).join(', ')}`);
+    reasons.push(`High memory: ${bigProcs.map(p => `PID ${p.pid}${p.tree ? ' tree' : ''} at ${treeMemoryMB(p)}MB${topChildNote(p, 'memory')}`).join(', ')}`);
+  }
+
+  // Handles near the soft RLIMIT_NOFILE (only when both the count and the limit are known)
+  const fdLimitProcs = processes.filter(p => p.handleCount != null && p.handleLimit != null
+    && p.handleCount >= p.handleLimit * thresholds.handlesHighPercent / 100);
+  if (fdLimitProcs.length > 0) {
+    reasons.push(`Handles high: ${fdLimitProcs.map(p => `PID ${p.pid} at ${p.handleCount}/${p.handleLimit} FDs (${Math.round(p.handleCount! / p.handleLimit! * 100)}% of RLIMIT_NOFILE)`).join(', ')}`);
+  }
+  const handlesHigh = fdLimitProcs.length > 0 || (leak?.handles?.suspected ?? false);
+
+  // Leak trend — flagged well before memoryHigh, so a restart can wait for a safe point
+  const leakSuspected = leak?.leakSuspected ?? false;
+  if (leakSuspected) {
+    reasons.push(`Leak suspected: ${leak!.reason} — restart at a safe point`);
   }
 
   // Disk check
-  const diskLow = diskFreeGB >= 0 && diskFreeGB < 5;
+  const diskLow = diskFreeGB >= 0 && diskFreeGB < thresholds.diskFreeWarningGB;
   if (diskLow) {
-    reasons.push(`Disk free: ${diskFreeGB}GB (< 5GB threshold)`);
+    reasons.push(`Disk free: ${diskFreeGB}GB (< ${thresholds.diskFreeWarningGB}GB threshold)`);
   }
 
   // Risk level
@@ -226,15 +299,15 @@ export function assessHangRisk(
       level = 'warn';
     }
   } else if (compositeQuiet && compositeQuietSeconds > hangThresholdSeconds) {
-    // Both signals quiet beyond threshold
-    if (compositeQuietSeconds > hangThresholdSeconds + THRESHOLDS.criticalAfterSeconds) {
+    // Quorum not met beyond threshold
+    if (compositeQuietSeconds > hangThresholdSeconds + thresholds.criticalAfterSeconds) {
       level = 'critical';
-      reasons.push(`No activity for ${compositeQuietSeconds}s (logs quiet + CPU low) — critical threshold exceeded`);
+      reasons.push(`No activity for ${compositeQuietSeconds}s (${quietDetail}) — critical threshold exceeded`);
     } else {
       level = 'warn';
-      reasons.push(`No activity for ${compositeQuietSeconds}s (logs quiet + CPU low)`);
+      reasons.push(`No activity for ${compositeQuietSeconds}s (${quietDetail})`);
     }
-  } else if (diskLow) {
+  } else if (diskLow || fdLimitProcs.length > 0) {
     level = 'warn';
   } else if (cpuHot && memoryHigh) {
     level = 'warn';
@@ -246,6 +319,9 @@ export function assessHangRisk(
     cpuLowSeconds: cpuLow ? compositeQuietSeconds : 0,
     cpuHot,
     memoryHigh,
+    handlesHigh,
+    leakSuspected,
+    leakEtaSeconds: leakSuspected ? leak!.projectedSecondsToThreshold : null,
     diskLow,
     graceRemainingSeconds: graceRemaining,
     reasons,
@@ -272,5 +348,9 @@ export function recommendActions(risk: HangRisk): string[] {
     }
   }
 
+  if ((risk.leakSuspected || risk.handlesHigh) && risk.level !== 'critical') {
+    actions.push('restart_at_safe_point');
+  }
+
   return actions;
 }
@@ -0,0 +1,216 @@
+/**
+ * Process tree discovery — what each Claude process has spawned.
+ * Test runners, dev servers, language servers and MCP servers run as descendants
+ * and are usually what actually pegs CPU or leaks memory.
+ *
+ * Linux only (parent links come from /proc/<pid>/stat). Elsewhere `tree` stays null
+ * and callers fall back to the root process's own numbers.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import pidusage from 'pidusage';
+import { getHandleCounts } from './handle-count.js';
+import type { ClaudeProcess } from './process-monitor.js';
+
+/** Descendants listed per tree / in state. */
+export const TOP_DESCENDANTS = 5;
+
+/** Upper bound on descendants sampled per tree (keeps a fork bomb from stalling the poll). */
+const MAX_TREE_PROCESSES = 256;
+
+export interface DescendantProcess {
+  pid: number;
+  /** Parent PID (the Claude process or another descendant). */
+  ppid: number;
+  /** The Claude process this descendant belongs to. */
+  rootPid: number;
+  name: string;
+  cpuPercent: number;
+  memoryMB: number;
+  /** Open FDs (null if unavailable). */
+  handleCount: number | null;
+}
+
+/** Aggregate view of a Claude process and everything below it. */
+export interface ProcessTree {
+  /** Number of descendants found (may exceed the sampled count for huge trees). */
+  descendantCount: number;
+  /** CPU of the root plus all sampled descendants. */
+  treeCpuPercent: number;
+  /** RSS of the root plus all sampled descendants. */
+  treeMemoryMB: number;
+  /** FDs of the root plus all sampled descendants (null if none could be read). */
+  treeHandleCount: number | null;
+  /** Heaviest descendants, by combined share of the tree's CPU and RSS. */
+  topDescendants: DescendantProcess[];
+  /** Every sampled descendant PID (used for per-tree I/O accounting). */
+  descendantPids: number[];
+}
+
+interface ProcStat {
+  pid: number;
+  ppid: number;
+  name: string;
+}
+
+/**
+ * Parse /proc/<pid>/stat. The command name is wrapped in parentheses and may itself
+ * contain spaces or ')' — so split on the last ')'.
+ */
+export function parseProcStat(content: string): ProcStat | null {
+  const open = content.indexOf('(');
+  const close = content.lastIndexOf(')');
+  if (open < 0 || close < open) return null;
+
+  const pid = parseInt(content.substring(0, open).trim(), 10);
+  const rest = content.substring(close + 1).trim().split(/\s+/);
+  // rest[0] = state, rest[1] = ppid
+  const ppid = parseInt(rest[1], 10);
+  if (isNaN(pid) || isNaN(ppid)) return null;
+
+  return { pid, ppid, name: content.substring(open + 1, close) };
+}
+
+/**
+ * Walk parent links breadth-first from `rootPid`.
+ * Subtrees rooted at a PID in `stopAt` (another Claude process) are skipped so
+ * nested Claude sessions are not double-counted.
+ */
+export function findDescendants(
+  parents: Map<number, number>,
+  rootPid: number,
+  stopAt: Set<number> = new Set(),
+): number[] {
+  const children = new Map<number, number[]>();
+  for (const [pid, ppid] of parents) {
+    const list = children.get(ppid);
+    if (list) {
+      list.push(pid);
+    } else {
+      children.set(ppid, [pid]);
+    }
+  }
+
+  const result: number[] = [];
+  const seen = new Set<number>([rootPid]);
+  const queue = [rootPid];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const child of children.get(current) ?? []) {
+      if (seen.has(child) || stopAt.has(child)) continue;
+      seen.add(child);
+      result.push(child);
+      queue.push(child);
+    }
+  }
+  return result;
+}
+
+/** Snapshot of every process's parent and name from /proc. Empty off Linux. */
+async function readProcTable(): Promise<Map<number, ProcStat>> {
+  const table = new Map<number, ProcStat>();
+  if (process.platform !== 'linux') return table;
+
+  let entries: string[];
+  try {
+    entries = await readdir('/proc');
+  } catch {
+    return table;
+  }
+
+  await Promise.all(entries.filter(e => /^\d+$/.test(e)).map(async (entry) => {
+    try {
+      const stat = parseProcStat(await readFile(`/proc/${entry}/stat`, 'utf-8'));
+      if (stat) table.set(stat.pid, stat);
+    } catch { /* process exited mid-scan */ }
+  }));
+  return table;
+}
+
+async function sampleDescendant(stat: ProcStat, rootPid: number): Promise<DescendantProcess | null> {
+  try {
+    const usage = await pidusage(stat.pid);
+    return {
+      pid: stat.pid,
+      ppid: stat.ppid,
+      rootPid,
+      name: stat.name,
+      cpuPercent: Math.round(usage.cpu * 100) / 100,
+      memoryMB: Math.round((usage.memory / (1024 * 1024)) * 100) / 100,
+      handleCount: null,
+    };
+  } catch {
+    return null; // exited between scan and sample
+  }
+}
+
+/**
+ * Rank descendants by their combined share of total CPU and RSS, so both a pegged
+ * test runner and an idle-but-bloated language server surface as offenders.
+ */
+function rankByLoad(descendants: DescendantProcess[], limit: number): DescendantProcess[] {
+  const totalCpu = descendants.reduce((s, d) => s + d.cpuPercent, 0) || 1;
+  const totalMem = descendants.reduce((s, d) => s + d.memoryMB, 0) || 1;
+  const score = (d: DescendantProcess) => d.cpuPercent / totalCpu + d.memoryMB / totalMem;
+  return [...descendants].sort((a, b) => score(b) - score(a)).slice(0, limit);
+}
+
+async function buildTree(
+  root: ClaudeProcess,
+  table: Map<number, ProcStat>,
+  claudePids: Set<number>,
+): Promise<ProcessTree> {
+  const parents = new Map<number, number>();
+  for (const stat of table.values()) parents.set(stat.pid, stat.ppid);
+
+  const descendantPids = findDescendants(parents, root.pid, claudePids);
+  const sampled = (await Promise.all(
+    descendantPids.slice(0, MAX_TREE_PROCESSES).map(pid => sampleDescendant(table.get(pid)!, root.pid)),
+  )).filter((d): d is DescendantProcess => d !== null);
+
+  const handles = await getHandleCounts([root.pid, ...sampled.map(d => d.pid)]);
+  const handleMap = new Map(handles.map(h => [h.pid, h.count]));
+  for (const d of sampled) {
+    d.handleCount = handleMap.get(d.pid) ?? null;
+  }
+
+  const knownHandles = handles.filter(h => h.count != null);
+  const round = (n: number) => Math.round(n * 100) / 100;
+
+  return {
+    descendantCount: descendantPids.length,
+    treeCpuPercent: round(root.cpuPercent + sampled.reduce((s, d) => s + d.cpuPercent, 0)),
+    treeMemoryMB: round(root.memoryMB + sampled.reduce((s, d) => s + d.memoryMB, 0)),
+    treeHandleCount: knownHandles.length > 0 ? knownHandles.reduce((s, h) => s + (h.count ?? 0), 0) : null,
+    topDescendants: rankByLoad(sampled, TOP_DESCENDANTS),
+    descendantPids: sampled.map(d => d.pid),
+  };
+}
+
+/**
+ * Attach a `tree` to each Claude process (mutates in place). Best-effort, never throws:
+ * off Linux, or if /proc cannot be read, `tree` is set to null.
+ */
+export async function attachProcessTrees(processes: ClaudeProcess[]): Promise<void> {
+  if (processes.length === 0) return;
+
+  const table = await readProcTable();
+  if (table.size === 0) {
+    for (const p of processes) p.tree = null;
+    return;
+  }
+
+  const claudePids = new Set(processes.map(p => p.pid));
+  for (const p of processes) {
+    try {
+      p.tree = await buildTree(p, table, claudePids);
+    } catch {
+      p.tree = null;
+    }
+  }
+}
+
+/** Heaviest descendants across all Claude processes. */
+export function topDescendants(processes: ClaudeProcess[], limit: number = TOP_DESCENDANTS): DescendantProcess[] {
+  return rankByLoad(processes.flatMap(p => p.tree?.topDescendants ?? []), limit);
+}
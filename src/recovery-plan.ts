@@ -16,6 +16,20 @@ export interface RecoveryPlan {
   steps: RecoveryStep[];
 }
 
+/** Step for a suspected leak or FDs near the limit: restart, but only once the current work is safe. */
+function leakStep(order: number, state: GuardianState): RecoveryStep {
+  const leaking = state.sessions
+    .filter(s => s.leak?.leakSuspected || s.hangRisk.handlesHigh)
+    .map(s => `PID ${s.pid}`);
+  return {
+    order,
+    action: 'Restart at a safe point',
+    tool: null,
+    detail: `${leaking.length > 0 ? leaking.join(', ') : 'A Claude process'} is leaking memory or file descriptors (see guardian_status). ` +
+      'Finish or commit the current task, then restart Claude Code before the threshold is reached.',
+  };
+}
+
 /**
  * Generate a deterministic recovery plan from current state.
  * Never kills processes or auto-restarts — only guides the agent.
@@ -118,6 +132,10 @@ export function generateRecoveryPlan(state: GuardianState): RecoveryPlan {
       });
     }
 
+    if (risk.leakSuspected || risk.handlesHigh) {
+      steps.push(leakStep(order++, state));
+    }
+
     steps.push({
       order: order++,
       action: 'Monitor',
@@ -134,6 +152,10 @@ export function generateRecoveryPlan(state: GuardianState): RecoveryPlan {
 
   // === OK ===
   // Check for info-level conditions
+  if (risk.leakSuspected || risk.handlesHigh) {
+    steps.push(leakStep(order++, state));
+  }
+
   if (state.budgetSummary && state.budgetSummary.currentCap < state.budgetSummary.baseCap) {
     steps.push({
       order: order++,
@@ -0,0 +1,188 @@
+/**
+ * Redaction for doctor bundles.
+ * Every text file written into a bundle passes through a Redactor, which replaces
+ * secrets and personal data with markers ("[REDACTED:email]", "/home/<user>") and
+ * counts what it replaced per rule, so bundles can be attached to bug reports.
+ *
+ * Levels:
+ *   off      — nothing is redacted
+ *   standard — built-in detectors + user rules
+ *   strict   — standard + broader detectors that may over-redact (secret assignments,
+ *              JWTs, IP addresses, long opaque tokens, the bare username anywhere)
+ */
+
+import { homedir, userInfo } from 'os';
+import { REDACTION_CONFIG } from './defaults.js';
+import { GuardianError } from './errors.js';
+import { encodeProjectDirName } from './session-tracker.js';
+import type { RedactionConfig, RedactionLevel } from './types.js';
+
+export const REDACTION_LEVELS: RedactionLevel[] = ['strict', 'standard', 'off'];
+
+/** A compiled rule. `pattern` always has the global flag. */
+export interface RedactionRule {
+  name: string;
+  source: 'builtin' | 'user';
+  pattern: RegExp;
+  replacement: string;
+}
+
+/** Contents of redaction-report.json. */
+export interface RedactionReport {
+  level: RedactionLevel;
+  generatedAt: string;
+  totalRedactions: number;
+  /** Every active rule, in the order applied, with its match count. */
+  rules: Array<{ name: string; source: 'builtin' | 'user'; count: number }>;
+  /** Redactions per bundle entry (entries with none are omitted). */
+  files: Array<{ name: string; redactions: number }>;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function marker(name: string): string {
+  return `[REDACTED:${name}]`;
+}
+
+function builtin(name: string, pattern: RegExp, replacement: string = marker(name)): RedactionRule {
+  return { name, source: 'builtin', pattern, replacement };
+}
+
+/** Detectors used at standard and strict. Order matters: private key blocks go first so nothing inside them is counted twice. */
+function standardRules(username: string): RedactionRule[] {
+  const rules = [
+    builtin('private-key', /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g),
+    builtin('api-key', /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35}|glpat-[A-Za-z0-9_-]{20,})/g),
+    builtin('bearer-token', /\b(Bearer)\s+[A-Za-z0-9._~+/=-]{16,}/gi, `$1 ${marker('bearer-token')}`),
+    builtin('aws-access-key', /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16}\b/g),
+    builtin('aws-secret-key', /(aws_?secret_?access_?key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}/gi, `$1${marker('aws-secret-key')}`),
+    builtin('email', /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g),
+    // Any user's home directory (JSON-escaped Windows paths included), then this user's encoded project dirs
+    builtin('home-username', /((?:\/home|\/Users|[A-Za-z]:(?:\\\\|\\)Users)(?:\\\\|\\|\/))(?!<user>)[^/\\\s"'`:<>]+/g, '$1<user>'),
+  ];
+  // Home directories elsewhere (/root, /var/lib/x) are replaced with "~"
+  const home = homedir();
+  if (home.length > 1 && !/^(?:\/home|\/Users|[A-Za-z]:\\Users)[/\\]/.test(home)) {
+    const escaped = [home, JSON.stringify(home).slice(1, -1)].map(escapeRegExp).join('|');
+    rules.push(builtin('home-username', new RegExp(`(?:${escaped})(?![A-Za-z0-9_.-])`, 'g'), '~'));
+  }
+  const encoded = encodeProjectDirName(username);
+  if (encoded.length > 0) {
+    rules.push(builtin('home-username', new RegExp(`(-(?:home|Users)-)${escapeRegExp(encoded)}(?![A-Za-z0-9])`, 'g'), '$1<user>'));
+  }
+  return rules;
+}
+
+/** Extra detectors used at strict. */
+function strictRules(username: string): RedactionRule[] {
+  const rules = [
+    builtin('jwt', /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g),
+    builtin('secret-assignment', /(\b[A-Za-z_]*(?:password|passwd|secret|token|api_?key)["']?\s*[:=]\s*["']?)(?!\[REDACTED)[^\s"',;]{6,}/gi, `$1${marker('secret-assignment')}`),
+    builtin('ip-address', /\b(?!127\.0\.0\.1\b)(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g),
+    // Hex digests, base64 blobs; "-" and "/" are left out so paths and encoded project dirs survive
+    builtin('opaque-token', /(?<![A-Za-z0-9+_/-])(?=[A-Za-z0-9+_]*\d)(?=[A-Za-z0-9+_]*[A-Za-z])[A-Za-z0-9+_]{40,}={0,2}/g),
+  ];
+  // Short names ("me", "ci") would hit ordinary words
+  if (username.length >= 3) {
+    rules.push(builtin('username', new RegExp(`\\b${escapeRegExp(username)}\\b`, 'gi'), '<user>'));
+  }
+  return rules;
+}
+
+/** Compile the rules for a level. Throws CONFIG_INVALID for a user rule that is not a valid regex. */
+export function compileRedactionRules(
+  level: RedactionLevel,
+  config: RedactionConfig = REDACTION_CONFIG,
+  username: string = currentUsername(),
+): RedactionRule[] {
+  if (level === 'off') return [];
+
+  const rules = standardRules(username);
+  if (level === 'strict') rules.push(...strictRules(username));
+
+  for (const r of config.rules) {
+    let pattern: RegExp;
+    try {
+      const flags = r.flags ?? '';
+      pattern = new RegExp(r.pattern, flags.includes('g') ? flags : flags + 'g');
+    } catch (err) {
+      throw new GuardianError(
+        'CONFIG_INVALID',
+        `Redaction rule "${r.name}" has an invalid pattern: ${(err as Error).message}`,
+        'Fix redaction.rules in your config, then run `claude-guardian config validate`.',
+        err as Error,
+      );
+    }
+    rules.push({ name: r.name, source: 'user', pattern, replacement: r.replacement ?? marker(r.name) });
+  }
+  return rules;
+}
+
+/** Login name, falling back to the last home directory segment. */
+function currentUsername(): string {
+  try {
+    return userInfo().username;
+  } catch {
+    return homedir().split(/[/\\]/).pop() ?? '';
+  }
+}
+
+/** Applies one level's rules to every bundle entry and keeps the counts for the report. */
+export class Redactor {
+  readonly level: RedactionLevel;
+  private rules: RedactionRule[];
+  private ruleCounts: number[];
+  private fileCounts = new Map<string, number>();
+
+  constructor(level: RedactionLevel, config: RedactionConfig = REDACTION_CONFIG, username?: string) {
+    this.level = level;
+    this.rules = compileRedactionRules(level, config, username);
+    this.ruleCounts = this.rules.map(() => 0);
+  }
+
+  /** Redact `text`. Pass the bundle entry name to attribute the counts to it. */
+  redact(text: string, entryName?: string): string {
+    let result = text;
+    let total = 0;
+    this.rules.forEach((rule, i) => {
+      const count = result.match(rule.pattern)?.length ?? 0;
+      if (count === 0) return;
+      result = result.replace(rule.pattern, rule.replacement);
+      this.ruleCounts[i] += count;
+      total += count;
+    });
+    if (entryName !== undefined && total > 0) {
+      this.fileCounts.set(entryName, (this.fileCounts.get(entryName) ?? 0) + total);
+    }
+    return result;
+  }
+
+  report(now: Date = new Date()): RedactionReport {
+    // Rules sharing a name (home-username) are reported once
+    const byName = new Map<string, { name: string; source: 'builtin' | 'user'; count: number }>();
+    this.rules.forEach((rule, i) => {
+      const entry = byName.get(rule.name) ?? { name: rule.name, source: rule.source, count: 0 };
+      entry.count += this.ruleCounts[i];
+      byName.set(rule.name, entry);
+    });
+    const rules = [...byName.values()];
+    return {
+      level: this.level,
+      generatedAt: now.toISOString(),
+      totalRedactions: rules.reduce((sum, r) => sum + r.count, 0),
+      rules,
+      files: [...this.fileCounts.entries()].map(([name, redactions]) => ({ name, redactions })),
+    };
+  }
+}
+
+/** One line for the doctor output: "Redaction (standard): 14 redacted — email 3, home-username 11". */
+export function formatRedactionSummary(report: RedactionReport): string {
+  if (report.level === 'off') {
+    return 'Redaction: off — the bundle contains raw logs, paths and any secrets in them.';
+  }
+  const hits = report.rules.filter(r => r.count > 0).map(r => `${r.name} ${r.count}`);
+  return `Redaction (${report.level}): ${report.totalRedactions} redacted${hits.length > 0 ? ` — ${hits.join(', ')}` : ''}`;
+}
@@ -0,0 +1,176 @@
+/**
+ * Per-project retention policies.
+ *
+ * `config.retention` maps a key to a RetentionPolicy. A key is either an encoded project
+ * directory name as found in ~/.claude/projects ("-home-me-app", globs allowed) or a glob on
+ * the project's original path ("~/work/investigations/**"): keys containing "/" or starting
+ * with "~" are path globs. An exact directory name wins; otherwise the first matching key in
+ * config order applies. Unmatched projects use the global thresholds.
+ */
+
+import { readdir, stat, open } from 'fs/promises';
+import { join, basename, relative, sep } from 'path';
+import { homedir } from 'os';
+import type { GuardianConfig, RetentionPolicy } from './types.js';
+
+/** The policy that applies to one project dir. */
+export interface ResolvedRetention {
+  /** Matching `retention` key, or null when the global settings apply. */
+  key: string | null;
+  policy: RetentionPolicy;
+}
+
+/** Bytes read from the head of a transcript when looking for its cwd. */
+const CWD_PROBE_BYTES = 64 * 1024;
+
+const GLOBAL: ResolvedRetention = { key: null, policy: {} };
+
+/** Whether a `retention` key is a glob on the original path rather than a project dir name. */
+export function isPathKey(key: string): boolean {
+  return key.includes('/') || key.startsWith('~');
+}
+
+/**
+ * Compile a glob to an anchored RegExp: `*` matches within one path segment, `**` across
+ * segments, `?` one character. A leading `~` is the home directory.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const expanded = glob === '~' || glob.startsWith('~/') ? homedir() + glob.slice(1) : glob;
+  let source = '';
+  for (let i = 0; i < expanded.length; i++) {
+    const c = expanded[i];
+    if (c === '/' && expanded.startsWith('**', i + 1) && (i + 3 === expanded.length || expanded[i + 3] === '/')) {
+      // A "/**" segment also matches zero segments: "~/work/**" matches ~/work itself
+      source += '(?:/.*)?';
+      i += 2;
+    } else if (c === '*' && expanded[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * The original path of a project: the `cwd` recorded in its newest transcript, else the
+ * directory name decoded naively ("-home-me-app" → "/home/me/app"; dashes in the original
+ * path are indistinguishable from separators, so prefer the recorded cwd).
+ */
+export async function projectOriginalPath(projectDir: string): Promise<string> {
+  const transcripts: Array<{ path: string; mtimeMs: number }> = [];
+  try {
+    for (const entry of await readdir(projectDir, { withFileTypes: true })) {
+      if (!entry.isFile() || !entry.name.endsWith('.jsonl')) continue;
+      const path = join(projectDir, entry.name);
+      try {
+        transcripts.push({ path, mtimeMs: (await stat(path)).mtimeMs });
+      } catch {
+        // Skip entries we can't stat
+      }
+    }
+  } catch {
+    // unreadable
+  }
+  transcripts.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  for (const transcript of transcripts) {
+    const cwd = await readCwd(transcript.path);
+    if (cwd) return cwd;
+  }
+  return basename(projectDir).replace(/-/g, '/');
+}
+
+async function readCwd(filePath: string): Promise<string | null> {
+  let handle;
+  try {
+    handle = await open(filePath, 'r');
+    const buf = Buffer.alloc(CWD_PROBE_BYTES);
+    const { bytesRead } = await handle.read(buf, 0, CWD_PROBE_BYTES, 0);
+    const match = buf.subarray(0, bytesRead).toString('utf-8').match(/"cwd"\s*:\s*("(?:[^"\\]|\\.)*")/);
+    return match ? JSON.parse(match[1]) as string : null;
+  } catch {
+    return null;
+  } finally {
+    await handle?.close();
+  }
+}
+
+/** Find the policy for a project dir by its encoded name and original path (see the module comment). */
+export function matchRetentionPolicy(
+  policies: Record<string, RetentionPolicy>,
+  dirName: string,
+  originalPath: string,
+): ResolvedRetention {
+  if (Object.prototype.hasOwnProperty.call(policies, dirName)) {
+    return { key: dirName, policy: policies[dirName] };
+  }
+  for (const [key, policy] of Object.entries(policies)) {
+    const target = isPathKey(key) ? originalPath : dirName;
+    if (globToRegExp(key).test(target)) return { key, policy };
+  }
+  return GLOBAL;
+}
+
+/** The retention policy that applies to a project dir under the Claude projects directory. */
+export async function resolveRetention(projectDir: string, config: GuardianConfig): Promise<ResolvedRetention> {
+  const policies = config.retention ?? {};
+  const keys = Object.keys(policies);
+  if (keys.length === 0) return GLOBAL;
+  const dirName = basename(projectDir);
+  // Only read transcripts when a path glob could match
+  const originalPath = keys.some(isPathKey) && !Object.prototype.hasOwnProperty.call(policies, dirName)
+    ? await projectOriginalPath(projectDir)
+    : '';
+  return matchRetentionPolicy(policies, dirName, originalPath);
+}
+
+/** Resolve the policy of every project dir under the Claude projects directory, by dir name. */
+export async function resolveProjectRetentions(root: string, config: GuardianConfig): Promise<Map<string, ResolvedRetention>> {
+  const retentions = new Map<string, ResolvedRetention>();
+  if (Object.keys(config.retention ?? {}).length === 0) return retentions;
+  try {
+    for (const entry of await readdir(root, { withFileTypes: true })) {
+      if (entry.isDirectory()) retentions.set(entry.name, await resolveRetention(join(root, entry.name), config));
+    }
+  } catch {
+    // unreadable
+  }
+  return retentions;
+}
+
+/** Whether a session entry (<uuid>.jsonl[.gz] or <uuid>/) is pinned by a policy. */
+export function isPinned(name: string, policy: RetentionPolicy): boolean {
+  const id = name.split('.')[0].toLowerCase();
+  return (policy.pinned ?? []).some(p => id.startsWith(p.toLowerCase()));
+}
+
+/** Whether a policy leaves a path alone: keep-forever projects and pinned sessions. */
+export function isRetained(sessionName: string | undefined, policy: RetentionPolicy): boolean {
+  return policy.keepForever === true || (sessionName !== undefined && isPinned(sessionName, policy));
+}
+
+/**
+ * The key of the policy that keeps a path under the projects directory out of any cleanup
+ * (keep-forever project or pinned session), or null if none does.
+ */
+export function retainedBy(path: string, root: string, retentions: Map<string, ResolvedRetention>): string | null {
+  const [project, session] = relative(root, path).split(sep);
+  const retention = retentions.get(project);
+  return retention?.key && isRetained(session, retention.policy) ? retention.key : null;
+}
+
+/** One-line description of a policy, e.g. "keep-forever" or "max 20 sessions, max 90d, 2 pinned". */
+export function formatRetentionPolicy(policy: RetentionPolicy): string {
+  if (policy.keepForever) return 'keep-forever';
+  const parts: string[] = [];
+  if (policy.maxSessions !== undefined) parts.push(`max ${policy.maxSessions} sessions`);
+  if (policy.maxAgeDays !== undefined) parts.push(`max ${policy.maxAgeDays}d`);
+  if (policy.maxSizeMB !== undefined) parts.push(`max ${policy.maxSizeMB}MB`);
+  if (policy.pinned?.length) parts.push(`${policy.pinned.length} pinned`);
+  return parts.join(', ') || 'global defaults';
+}
@@ -0,0 +1,344 @@
+/**
+ * Per-session hang tracking.
+ * Each Claude PID gets its own grace window, quiet timer, activity sources and HangRisk,
+ * so one busy session can't mask a hung one and a new session doesn't reset everyone's grace.
+ * Each PID also keeps a window of RSS/handle samples for leak trend detection (leak-detector.ts).
+ * The top-level risk is the worst session (plus machine-wide checks like disk).
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { readFile, readlink } from 'fs/promises';
+import { basename, join, sep } from 'path';
+import { getClaudeProjectsPath, THRESHOLDS, ACTIVITY_CONFIG, LEAK_CONFIG, DEFAULT_CONFIG } from './defaults.js';
+import { listFilesWithStats, pathExists, type FileWithStats } from './fs-utils.js';
+import {
+  assessHangRisk, logAgeSeconds, treeCpuPercent,
+  type ClaudeProcess, type ActivitySignals, type HangRisk, type RiskLevel,
+} from './process-monitor.js';
+import { parseProcStat } from './process-tree.js';
+import { LeakWindow, formatEta, type LeakTrend } from './leak-detector.js';
+import {
+  createActivitySources, sampleActivitySources, meetsQuorum, type ActivitySignalSource,
+} from './activity-sources.js';
+import type { ActivityConfig, LeakConfig, Thresholds } from './types.js';
+import type { LeaseOwner } from './budget-store.js';
+
+const execFileAsync = promisify(execFile);
+
+/** How far up the process tree to look for the owning Claude process. */
+const OWNER_SEARCH_DEPTH = 8;
+
+const RISK_ORDER: Record<RiskLevel, number> = { ok: 0, warn: 1, critical: 2 };
+
+/** Risk assessment for one Claude process and the transcript it is writing. */
+export interface SessionRisk {
+  pid: number;
+  /** Project log directory under ~/.claude/projects (null if the PID's cwd is unknown). */
+  projectDir: string | null;
+  /** Most recently written transcript in the project directory (null if none found). */
+  transcriptPath: string | null;
+  /** Session ID (transcript file name without .jsonl). */
+  sessionId: string | null;
+  activity: ActivitySignals;
+  hangRisk: HangRisk;
+  /** Seconds since this PID was first discovered. */
+  processAgeSeconds: number;
+  /** How long this session's activity quorum has been unmet. */
+  compositeQuietSeconds: number;
+  /** RSS/handle growth trend (null when leak detection is off). */
+  leak: LeakTrend | null;
+}
+
+/** Result of one tracker update. */
+export interface SessionUpdate {
+  sessions: SessionRisk[];
+  /** Worst session combined with machine-wide checks. */
+  hangRisk: HangRisk;
+  /** Union of per-session activity. */
+  activity: ActivitySignals;
+  /** Age of the oldest tracked session. */
+  processAgeSeconds: number;
+  /** Quiet time of the worst session. */
+  compositeQuietSeconds: number;
+}
+
+interface SessionState {
+  firstSeenAt: number;
+  quietSince: number | null;
+  sources: ActivitySignalSource[];
+  leakWindow: LeakWindow | null;
+}
+
+/**
+ * Claude Code stores transcripts under ~/.claude/projects/<cwd with every
+ * non-alphanumeric character replaced by '-'>.
+ */
+export function encodeProjectDirName(cwd: string): string {
+  return cwd.replace(/[^a-zA-Z0-9]/g, '-');
+}
+
+/** Working directory of a PID. Best-effort: Linux /proc, macOS lsof, otherwise null. */
+export async function getProcessCwd(pid: number): Promise<string | null> {
+  try {
+    if (process.platform === 'linux') {
+      return await readlink(`/proc/${pid}/cwd`);
+    }
+    if (process.platform === 'darwin') {
+      const { stdout } = await execFileAsync('lsof', ['-a', '-p', String(pid), '-d', 'cwd', '-Fn'], { timeout: 3000 });
+      const line = stdout.split('\n').find(l => l.startsWith('n'));
+      return line ? line.substring(1) : null;
+    }
+  } catch { /* exited, or not ours to inspect */ }
+  return null;
+}
+
+/**
+ * The Claude process a request comes from: the nearest ancestor of `startPid` (inclusive)
+ * named "claude" — the MCP server's parent, or the session running `claude-guardian` via a
+ * shell. Falls back to `startPid` off Linux or when no Claude ancestor is found.
+ */
+export async function findOwningClaudePid(startPid: number = process.ppid): Promise<number> {
+  if (process.platform !== 'linux') return startPid;
+  let pid = startPid;
+  for (let depth = 0; depth < OWNER_SEARCH_DEPTH && pid > 1; depth++) {
+    try {
+      const stat = parseProcStat(await readFile(`/proc/${pid}/stat`, 'utf-8'));
+      if (!stat) break;
+      if (stat.name === 'claude') return pid;
+      pid = stat.ppid;
+    } catch {
+      break; // exited mid-walk
+    }
+  }
+  return startPid;
+}
+
+/** Session ID for a working directory: the newest transcript in its project directory. */
+export async function findSessionId(cwd: string): Promise<string | null> {
+  const projectDir = join(getClaudeProjectsPath(), encodeProjectDirName(cwd));
+  if (!await pathExists(projectDir)) return null;
+  const transcript = (await listFilesWithStats(projectDir))
+    .filter(f => f.path.endsWith('.jsonl'))
+    .sort((a, b) => b.mtimeMs - a.mtimeMs)[0];
+  return transcript ? basename(transcript.path, '.jsonl') : null;
+}
+
+/** Owner to record on a budget lease requested from this process. */
+export async function resolveLeaseOwner(startPid: number = process.ppid): Promise<LeaseOwner> {
+  const pid = await findOwningClaudePid(startPid);
+  const cwd = await getProcessCwd(pid) ?? process.cwd();
+  let sessionId: string | null = null;
+  try {
+    sessionId = await findSessionId(cwd);
+  } catch { /* projects dir unreadable — owner still has a PID */ }
+  return { pid, sessionId, cwd };
+}
+
+/** Short label for messages: "PID 123 (session 1a2b3c4d)". */
+export function sessionLabel(session: Pick<SessionRisk, 'pid' | 'sessionId'>): string {
+  return session.sessionId
+    ? `PID ${session.pid} (session ${session.sessionId.substring(0, 8)})`
+    : `PID ${session.pid}`;
+}
+
+/** Sessions currently at warn or critical, worst first. */
+export function stuckSessions(sessions: SessionRisk[]): SessionRisk[] {
+  return sessions
+    .filter(s => s.hangRisk.level !== 'ok')
+    .sort((a, b) => RISK_ORDER[b.hangRisk.level] - RISK_ORDER[a.hangRisk.level]);
+}
+
+/** One status line: "PID 123 (session 1a2b3c4d): WARN | quiet 300s | sources: cpu". */
+export function formatSessionLine(session: SessionRisk): string {
+  let line = `${sessionLabel(session)}: ${session.hangRisk.level.toUpperCase()} | quiet ${session.compositeQuietSeconds}s`;
+  if (session.hangRisk.graceRemainingSeconds > 0) {
+    line += ` | grace ${session.hangRisk.graceRemainingSeconds}s`;
+  }
+  line += ` | sources: ${session.activity.sources.join(', ') || 'none'}`;
+  if (session.leak?.leakSuspected) {
+    line += ` | leak: threshold in ~${formatEta(session.leak.projectedSecondsToThreshold!)}`;
+  }
+  return line;
+}
+
+/**
+ * Combine machine-wide risk (disk) with per-session risks.
+ * Level is the worst of them; session reasons are prefixed with the session label.
+ */
+export function combineSessionRisks(machine: HangRisk, sessions: SessionRisk[]): HangRisk {
+  let level = machine.level;
+  for (const s of sessions) {
+    if (RISK_ORDER[s.hangRisk.level] > RISK_ORDER[level]) level = s.hangRisk.level;
+  }
+  const max = (f: (r: HangRisk) => number) => Math.max(0, ...sessions.map(s => f(s.hangRisk)));
+
+  return {
+    level,
+    noActivitySeconds: max(r => r.noActivitySeconds),
+    cpuLowSeconds: max(r => r.cpuLowSeconds),
+    cpuHot: sessions.some(s => s.hangRisk.cpuHot),
+    memoryHigh: sessions.some(s => s.hangRisk.memoryHigh),
+    handlesHigh: sessions.some(s => s.hangRisk.handlesHigh),
+    leakSuspected: sessions.some(s => s.hangRisk.leakSuspected),
+    leakEtaSeconds: sessions.reduce<number | null>((soonest, s) => {
+      const eta = s.hangRisk.leakEtaSeconds ?? null;
+      return eta !== null && (soonest === null || eta < soonest) ? eta : soonest;
+    }, null),
+    diskLow: machine.diskLow,
+    graceRemainingSeconds: max(r => r.graceRemainingSeconds),
+    reasons: [
+      ...machine.reasons,
+      ...sessions.flatMap(s => s.hangRisk.reasons.map(r => `${sessionLabel(s)}: ${r}`)),
+    ],
+  };
+}
+
+/** Mutable per-session tracker — one per daemon. */
+export class SessionTracker {
+  private sessions = new Map<number, SessionState>();
+  private thresholds: Thresholds;
+  private activityConfig: ActivityConfig;
+  private leakConfig: LeakConfig;
+  private hangThresholdSeconds: number;
+
+  constructor(
+    hangThresholdSeconds: number = DEFAULT_CONFIG.hangNoActivitySeconds,
+    thresholds: Thresholds = THRESHOLDS,
+    activityConfig: ActivityConfig = ACTIVITY_CONFIG,
+    leakConfig: LeakConfig = LEAK_CONFIG,
+  ) {
+    this.hangThresholdSeconds = hangThresholdSeconds;
+    this.thresholds = thresholds;
+    this.activityConfig = activityConfig;
+    this.leakConfig = leakConfig;
+  }
+
+  /** Assess every Claude process on its own, then combine. */
+  async update(
+    processes: ClaudeProcess[],
+    diskFreeGB: number,
+    enumerationError: string | null = null,
+    now: number = Date.now(),
+  ): Promise<SessionUpdate> {
+    // Forget PIDs that exited — a restarted session gets a fresh grace window
+    const live = new Set(processes.map(p => p.pid));
+    for (const pid of this.sessions.keys()) {
+      if (!live.has(pid)) this.sessions.delete(pid);
+    }
+
+    const claudePath = getClaudeProjectsPath();
+    const files = await pathExists(claudePath) ? await listFilesWithStats(claudePath) : [];
+
+    const sessions: SessionRisk[] = [];
+    for (const p of processes) {
+      sessions.push(await this.assessSession(p, files, claudePath, enumerationError, now));
+    }
+
+    const activity: ActivitySignals = {
+      logLastModifiedSecondsAgo: logAgeSeconds(files, now),
+      cpuActive: sessions.some(s => s.activity.cpuActive),
+      sources: [...new Set(sessions.flatMap(s => s.activity.sources))],
+      lastEnumerationError: enumerationError,
+    };
+
+    // Machine-wide checks only (no processes, always "in grace" so quiet can't escalate here)
+    const machine = assessHangRisk([], activity, diskFreeGB, this.hangThresholdSeconds, 0, 0, this.thresholds, this.activityConfig);
+    const hangRisk = combineSessionRisks(machine, sessions);
+
+    const worst = stuckSessions(sessions)[0];
+    return {
+      sessions,
+      hangRisk,
+      activity,
+      processAgeSeconds: Math.max(0, ...sessions.map(s => s.processAgeSeconds)),
+      compositeQuietSeconds: worst
+        ? worst.compositeQuietSeconds
+        : Math.max(0, ...sessions.map(s => s.compositeQuietSeconds)),
+    };
+  }
+
+  private async assessSession(
+    p: ClaudeProcess,
+    allFiles: FileWithStats[],
+    claudePath: string,
+    enumerationError: string | null,
+    now: number,
+  ): Promise<SessionRisk> {
+    let state = this.sessions.get(p.pid);
+    if (!state) {
+      state = {
+        firstSeenAt: now,
+        quietSince: null,
+        sources: createActivitySources(this.activityConfig),
+        leakWindow: this.leakConfig.enabled ? new LeakWindow(p.pid, this.leakConfig) : null,
+      };
+      this.sessions.set(p.pid, state);
+    }
+
+    // Scope log/transcript signals to this PID's project directory when we can find it
+    const cwd = await getProcessCwd(p.pid);
+    let projectDir: string | null = cwd ? join(claudePath, encodeProjectDirName(cwd)) : null;
+    let files = projectDir ? allFiles.filter(f => f.path.startsWith(projectDir + sep)) : [];
+    if (files.length === 0) {
+      projectDir = null;
+      files = allFiles; // unknown project — fall back to machine-wide log signals
+    }
+
+    const transcript = projectDir
+      ? files.filter(f => f.path.endsWith('.jsonl')).sort((a, b) => b.mtimeMs - a.mtimeMs)[0]
+      : undefined;
+
+    const logAge = logAgeSeconds(files, now);
+    const fired = await sampleActivitySources(state.sources, {
+      processes: [p],
+      files,
+      logLastModifiedSecondsAgo: logAge,
+      hangThresholdSeconds: this.hangThresholdSeconds,
+      thresholds: this.thresholds,
+    });
+    const activity: ActivitySignals = {
+      logLastModifiedSecondsAgo: logAge,
+      cpuActive: treeCpuPercent(p) > this.thresholds.cpuLowThreshold,
+      sources: fired,
+      lastEnumerationError: enumerationError,
+    };
+
+    if (meetsQuorum(fired, this.activityConfig)) {
+      state.quietSince = null;
+    } else if (state.quietSince === null) {
+      state.quietSince = now;
+    }
+
+    const processAgeSeconds = Math.max(0, Math.round((now - state.firstSeenAt) / 1000));
+    const compositeQuietSeconds = state.quietSince !== null
+      ? Math.max(0, Math.round((now - state.quietSince) / 1000))
+      : 0;
+
+    // Own RSS and handles, not the tree's — children come and go, a leak stays with the PID
+    const leak = state.leakWindow?.update(
+      { t: now, rssMB: p.memoryMB, handles: p.handleCount ?? null },
+      this.thresholds.memoryHighMB,
+      p.handleLimit ?? undefined,
+    ) ?? null;
+
+    // Disk is machine-wide — reported once by the caller, not per session
+    const hangRisk = assessHangRisk(
+      [p], activity, -1, this.hangThresholdSeconds,
+      processAgeSeconds, compositeQuietSeconds,
+      this.thresholds, this.activityConfig, leak,
+    );
+
+    return {
+      pid: p.pid,
+      projectDir,
+      transcriptPath: transcript?.path ?? null,
+      sessionId: transcript ? basename(transcript.path, '.jsonl') : null,
+      activity,
+      hangRisk,
+      processAgeSeconds,
+      compositeQuietSeconds,
+      leak,
+    };
+  }
+}
@@ -4,9 +4,12 @@ import { join } from 'path';
 import { getGuardianDataPath } from './defaults.js';
 import { writeJournalEntry } from './fs-utils.js';
 import { GuardianError, wrapError } from './errors.js';
+import { withFileLock } from './file-lock.js';
 import type { ClaudeProcess, ActivitySignals, HangRisk } from './process-monitor.js';
 import type { Incident } from './incident.js';
 import type { BudgetSummary } from './budget.js';
+import type { DescendantProcess } from './process-tree.js';
+import type { SessionRisk } from './session-tracker.js';
 
 export type AttentionLevel = 'none' | 'info' | 'warn' | 'critical';
 
@@ -34,10 +37,14 @@ export interface GuardianState {
   daemonPid: number | null;
   /** Detected Claude Code processes. */
   claudeProcesses: ClaudeProcess[];
+  /** Heaviest descendants (test runners, dev servers, MCP servers) across all Claude process trees. */
+  topDescendants: DescendantProcess[];
   /** Activity signals from log directory + CPU. */
   activity: ActivitySignals;
-  /** Current hang risk assessment (composite). */
+  /** Current hang risk assessment — the worst session plus machine-wide checks. */
   hangRisk: HangRisk;
+  /** Per-session risk (one entry per Claude PID). Empty when the daemon isn't running. */
+  sessions: SessionRisk[];
   /** Recommended actions based on current state. */
   recommendedActions: string[];
   /** Disk free in GB. */
@@ -60,13 +67,16 @@ export interface GuardianState {
   pollCount: number;
 }
 
+/** A suspected leak projected to cross its threshold sooner than this raises attention to warn. */
+const LEAK_URGENT_SECONDS = 3600;
+
 function getStatePath(): string {
   return join(getGuardianDataPath(), 'state.json');
 }
 
 /**
- * Async mutex to serialize state file writes.
- * Prevents partial reads when daemon writes overlap with MCP reads.
+ * Serialize state file writes: an in-process queue plus state.json.lock,
+ * so writers in different processes can't interleave read-modify-write cycles.
  */
 let stateLockQueue: Promise<void> = Promise.resolve();
 
@@ -77,7 +87,11 @@ export async function withStateLock<T>(fn: () => Promise<T>): Promise<T> {
   stateLockQueue = next;
   await prev;
   try {
-    return await fn();
+    const dataDir = getGuardianDataPath();
+    if (!existsSync(dataDir)) {
+      await mkdir(dataDir, { recursive: true });
+    }
+    return await withFileLock(getStatePath() + '.lock', fn);
   } finally {
     release!();
   }
@@ -149,12 +163,14 @@ export function emptyState(): GuardianState {
     daemonRunning: false,
     daemonPid: null,
     claudeProcesses: [],
+    topDescendants: [],
     activity: { logLastModifiedSecondsAgo: -1, cpuActive: false, sources: [], lastEnumerationError: null },
     hangRisk: {
       level: 'ok', noActivitySeconds: 0, cpuLowSeconds: 0,
-      cpuHot: false, memoryHigh: false, diskLow: false,
+      cpuHot: false, memoryHigh: false, handlesHigh: false, leakSuspected: false, leakEtaSeconds: null, diskLow: false,
       graceRemainingSeconds: 0, reasons: [],
     },
+    sessions: [],
     recommendedActions: [],
     diskFreeGB: -1,
     claudeLogSizeMB: 0,
@@ -204,6 +220,18 @@ export function computeAttention(
     actions.push('Run guardian_preflight_fix to free space');
   }
 
+  // Suspected leak: info, or warn when the threshold is less than an hour away
+  if (hangRisk.leakSuspected) {
+    const urgent = hangRisk.leakEtaSeconds !== null && hangRisk.leakEtaSeconds < LEAK_URGENT_SECONDS;
+    if (level === 'none') level = urgent ? 'warn' : 'info';
+    reasons.push(urgent ? 'Leak suspected, threshold reached within the hour' : 'Leak suspected');
+    actions.push('Restart Claude Code at a safe point — finish or commit the current task first (guardian_status names the PID)');
+  } else if (hangRisk.handlesHigh) {
+    // Near RLIMIT_NOFILE the hang risk is already warn; name the cause
+    reasons.push('Open file descriptors near RLIMIT_NOFILE');
+    actions.push('Restart Claude Code at a safe point — finish or commit the current task first (guardian_status names the PID)');
+  }
+
   // Budget reduction is info level
   if (budgetSummary && budgetSummary.currentCap < budgetSummary.baseCap) {
     if (level === 'none') level = 'info';
@@ -0,0 +1,216 @@
+/**
+ * System metrics for resource-aware budget caps.
+ * The watch daemon samples load average, memory, swap activity and Claude tree RSS each
+ * poll, smooths them with a time-based moving average, and turns them into one pressure
+ * value (0..1) that lowers every pool's cap (see Budget.adjustCap).
+ *
+ * Linux reads /proc; elsewhere load and memory come from `os` and swap activity is unknown.
+ */
+
+import { readFile } from 'fs/promises';
+import os from 'os';
+import { RESOURCE_CAP_CONFIG } from './defaults.js';
+import type { ResourceCapConfig, ResourceMetricPolicy } from './types.js';
+
+/** One raw sample of machine-wide metrics. */
+export interface SystemLoadSample {
+  t: number;
+  cores: number;
+  /** 1-minute load average. */
+  load1: number;
+  memTotalMB: number;
+  memAvailableMB: number;
+  /** Pages swapped in plus out since boot (null if unknown). */
+  swapPages: number | null;
+  /** RSS of all Claude process trees. */
+  claudeRssMB: number;
+}
+
+/** Smoothed metrics, in the units the policy bounds use. */
+export interface ResourceMetrics {
+  cores: number;
+  loadPerCore: number;
+  /** Fraction of RAM in use. */
+  memoryUsed: number;
+  /** Pages swapped in plus out per second (null until two samples exist, or off Linux). */
+  swapPagesPerSecond: number | null;
+  /** Claude tree RSS as a fraction of RAM. */
+  claudeRss: number;
+}
+
+/** Combined pressure and the metric behind it. */
+export interface ResourcePressure {
+  /** 0 = no reduction, 1 = caps down to minCap. */
+  pressure: number;
+  /** Why the caps are reduced, e.g. "memory 93% in use" (null without pressure). */
+  reason: string | null;
+  metrics: ResourceMetrics;
+}
+
+type MetricName = 'load' | 'memory' | 'swap' | 'claudeRss';
+
+const round = (n: number, digits: number) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+/** Parse /proc/loadavg ("0.52 0.58 0.59 1/467 12345") into the 1-minute average. */
+export function parseLoadavg(content: string): number | null {
+  const load1 = parseFloat(content.trim().split(/\s+/)[0]);
+  return Number.isFinite(load1) ? load1 : null;
+}
+
+/** Parse MemTotal and MemAvailable (MB) from /proc/meminfo. Null if either is missing. */
+export function parseMeminfo(content: string): { memTotalMB: number; memAvailableMB: number } | null {
+  const kb = (key: string) => {
+    const m = content.match(new RegExp(`^${key}:\\s+(\\d+)\\s*kB`, 'm'));
+    return m ? parseInt(m[1], 10) : null;
+  };
+  const total = kb('MemTotal');
+  const available = kb('MemAvailable');
+  if (total === null || available === null) return null;
+  return { memTotalMB: round(total / 1024, 1), memAvailableMB: round(available / 1024, 1) };
+}
+
+/** Pages swapped in plus out since boot, from /proc/vmstat. */
+export function parseVmstatSwap(content: string): number | null {
+  const pswpin = content.match(/^pswpin\s+(\d+)/m);
+  const pswpout = content.match(/^pswpout\s+(\d+)/m);
+  if (!pswpin || !pswpout) return null;
+  return parseInt(pswpin[1], 10) + parseInt(pswpout[1], 10);
+}
+
+async function readProc(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Usable CPU count. `os.availableParallelism` only exists from Node 18.14, so older
+ * runtimes fall back to the number of logical CPUs.
+ */
+export function countCores(host: Pick<typeof os, 'cpus'> & { availableParallelism?: () => number } = os): number {
+  return typeof host.availableParallelism === 'function' ? host.availableParallelism() : host.cpus().length;
+}
+
+/** Sample machine-wide metrics. Best-effort, never throws. */
+export async function readSystemLoad(claudeRssMB: number, now: number = Date.now()): Promise<SystemLoadSample> {
+  const mb = (bytes: number) => round(bytes / (1024 * 1024), 1);
+  const sample: SystemLoadSample = {
+    t: now,
+    cores: countCores(),
+    load1: os.loadavg()[0],
+    memTotalMB: mb(os.totalmem()),
+    memAvailableMB: mb(os.freemem()),
+    swapPages: null,
+    claudeRssMB,
+  };
+  if (process.platform !== 'linux') return sample;
+
+  const [loadContent, memContent, vmstatContent] = await Promise.all([
+    readProc('/proc/loadavg'), readProc('/proc/meminfo'), readProc('/proc/vmstat'),
+  ]);
+  const load1 = loadContent ? parseLoadavg(loadContent) : null;
+  if (load1 !== null) sample.load1 = load1;
+  // MemAvailable counts reclaimable cache, unlike os.freemem()
+  const mem = memContent ? parseMeminfo(memContent) : null;
+  if (mem) Object.assign(sample, mem);
+  sample.swapPages = vmstatContent ? parseVmstatSwap(vmstatContent) : null;
+  return sample;
+}
+
+/** Pressure for one metric value under its policy. */
+export function metricPressure(value: number | null, policy: ResourceMetricPolicy): number {
+  if (value === null || policy.formula === 'off') return 0;
+  if (value >= policy.high) return 1;
+  if (policy.formula === 'step' || value <= policy.low) return 0;
+  return (value - policy.low) / (policy.high - policy.low);
+}
+
+function describeMetric(metric: MetricName, m: ResourceMetrics): string {
+  switch (metric) {
+    case 'load':
+      return `load ${m.loadPerCore.toFixed(2)}/core on ${m.cores} cores`;
+    case 'memory':
+      return `memory ${Math.round(m.memoryUsed * 100)}% in use`;
+    case 'swap':
+      return `swapping ${Math.round(m.swapPagesPerSecond ?? 0)} pages/s`;
+    case 'claudeRss':
+      return `Claude processes using ${Math.round(m.claudeRss * 100)}% of RAM`;
+  }
+}
+
+/** Combined pressure: the highest of the individual metrics, named in `reason`. */
+export function computeResourcePressure(metrics: ResourceMetrics, config: ResourceCapConfig = RESOURCE_CAP_CONFIG): ResourcePressure {
+  const values: Record<MetricName, number | null> = {
+    load: metrics.loadPerCore,
+    memory: metrics.memoryUsed,
+    swap: metrics.swapPagesPerSecond,
+    claudeRss: metrics.claudeRss,
+  };
+  let pressure = 0;
+  let worst: MetricName | null = null;
+  for (const metric of Object.keys(values) as MetricName[]) {
+    const p = metricPressure(values[metric], config[metric]);
+    if (p > pressure) {
+      pressure = p;
+      worst = metric;
+    }
+  }
+  return {
+    pressure: round(pressure, 3),
+    reason: worst ? describeMetric(worst, metrics) : null,
+    metrics,
+  };
+}
+
+/**
+ * Turns raw samples into smoothed metrics. Keeps the previous sample (for the swap rate)
+ * and the moving averages, so one instance lives as long as the daemon.
+ */
+export class ResourceMonitor {
+  private config: ResourceCapConfig;
+  private previous: SystemLoadSample | null = null;
+  private smoothed: ResourceMetrics | null = null;
+
+  constructor(config: ResourceCapConfig = RESOURCE_CAP_CONFIG) {
+    this.config = config;
+  }
+
+  /** Add a sample and return the smoothed metrics. */
+  update(sample: SystemLoadSample): ResourceMetrics {
+    const previous = this.previous;
+    this.previous = sample;
+    const elapsedSeconds = previous ? (sample.t - previous.t) / 1000 : 0;
+
+    const memTotal = sample.memTotalMB || 1;
+    const raw: ResourceMetrics = {
+      cores: sample.cores,
+      loadPerCore: sample.load1 / Math.max(1, sample.cores),
+      memoryUsed: Math.max(0, 1 - sample.memAvailableMB / memTotal),
+      swapPagesPerSecond: previous?.swapPages != null && sample.swapPages !== null && elapsedSeconds > 0
+        ? Math.max(0, sample.swapPages - previous.swapPages) / elapsedSeconds
+        : null,
+      claudeRss: sample.claudeRssMB / memTotal,
+    };
+
+    const last = this.smoothed;
+    if (!last || this.config.smoothingSeconds <= 0) {
+      this.smoothed = raw;
+      return raw;
+    }
+    // Exponential moving average with a time constant, so uneven poll gaps weigh correctly
+    const alpha = 1 - Math.exp(-Math.max(0, elapsedSeconds) / this.config.smoothingSeconds);
+    const ewma = (prev: number, next: number) => prev + alpha * (next - prev);
+    this.smoothed = {
+      cores: raw.cores,
+      loadPerCore: ewma(last.loadPerCore, raw.loadPerCore),
+      memoryUsed: ewma(last.memoryUsed, raw.memoryUsed),
+      swapPagesPerSecond: raw.swapPagesPerSecond === null ? last.swapPagesPerSecond
+        : last.swapPagesPerSecond === null ? raw.swapPagesPerSecond
+          : ewma(last.swapPagesPerSecond, raw.swapPagesPerSecond),
+      claudeRss: ewma(last.claudeRss, raw.claudeRss),
+    };
+    return this.smoothed;
+  }
+}
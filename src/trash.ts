@@ -0,0 +1,248 @@
+/**
+ * Trash — quarantine for removed session transcripts. Each item is a directory under
+ * ~/.claude-guardian/trash/<id>/ holding the moved file or session dir under its
+ * original name, plus meta.json recording where it came from.
+ *
+ * Preflight fixes move stale sessions here instead of deleting them; `trash restore`
+ * puts one back and `trash purge` applies the age/size policy. Fix plans list the items
+ * the policy would purge (see selectTrashToPurge), so a reviewed plan purges only those.
+ */
+
+import { readdir, readFile, writeFile, mkdir, rename, rm, cp, stat } from 'fs/promises';
+import { join, dirname, basename } from 'path';
+import type { TrashConfig } from './types.js';
+import { TRASH_CONFIG, getTrashPath } from './defaults.js';
+import { dirSize, bytesToMB, pathExists, writeJournalEntry, timestampId } from './fs-utils.js';
+import { GuardianError } from './errors.js';
+
+/** One quarantined file or directory (trash/<id>/meta.json). */
+export interface TrashItem {
+  id: string;
+  /** Absolute path the item was moved from, and is restored to. */
+  originalPath: string;
+  kind: 'file' | 'dir';
+  sizeBytes: number;
+  /** mtime of the original, preserved by the move. */
+  mtimeMs: number;
+  trashedAt: string;
+  /** Why it was removed (e.g. the fix plan reason). */
+  reason: string;
+}
+
+/** What a purge removed. */
+export interface TrashPurgeResult {
+  purged: TrashItem[];
+  freedBytes: number;
+  /** Items left and their total size. */
+  remaining: number;
+  remainingBytes: number;
+}
+
+const META_FILE = 'meta.json';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Rename, or copy + remove when source and trash are on different filesystems. */
+async function movePath(from: string, to: string): Promise<void> {
+  try {
+    await rename(from, to);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+    await cp(from, to, { recursive: true, preserveTimestamps: true });
+    await rm(from, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Move a file or directory into the trash and record its original path.
+ * Returns the new item; throws if the path can't be moved (nothing is left half-moved in the trash).
+ */
+export async function moveToTrash(path: string, reason: string, now: Date = new Date()): Promise<TrashItem> {
+  const s = await stat(path);
+  const kind = s.isDirectory() ? 'dir' : 'file';
+  const item: TrashItem = {
+    id: timestampId(now),
+    originalPath: path,
+    kind,
+    sizeBytes: kind === 'dir' ? await dirSize(path) : s.size,
+    mtimeMs: s.mtimeMs,
+    trashedAt: now.toISOString(),
+    reason,
+  };
+  const itemDir = join(getTrashPath(), item.id);
+  await mkdir(itemDir, { recursive: true });
+  try {
+    await movePath(path, join(itemDir, basename(path)));
+  } catch (err) {
+    await rm(itemDir, { recursive: true, force: true });
+    throw err;
+  }
+  await writeFile(join(itemDir, META_FILE), JSON.stringify(item, null, 2) + '\n', 'utf-8');
+  return item;
+}
+
+/** Every trash item, newest first. Directories without a readable meta.json are skipped. */
+export async function listTrash(): Promise<TrashItem[]> {
+  let entries;
+  try {
+    entries = await readdir(getTrashPath(), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const items: TrashItem[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    try {
+      const meta = JSON.parse(await readFile(join(getTrashPath(), entry.name, META_FILE), 'utf-8')) as TrashItem;
+      if (meta.id === entry.name && typeof meta.originalPath === 'string') items.push(meta);
+    } catch {
+      // Skip items with missing or corrupt metadata
+    }
+  }
+  return items.sort((a, b) => b.trashedAt.localeCompare(a.trashedAt) || b.id.localeCompare(a.id));
+}
+
+/** Exact ID match, or every item whose ID starts with the prefix. */
+export function findTrashItems(items: TrashItem[], idOrPrefix: string): TrashItem[] {
+  const exact = items.filter(i => i.id === idOrPrefix);
+  if (exact.length > 0) return exact;
+  return items.filter(i => i.id.startsWith(idOrPrefix));
+}
+
+/**
+ * Move a trash item back to its original path (recreating the parent directory) and journal it.
+ * Throws TRASH_ITEM_UNKNOWN for an unknown or ambiguous ID and TRASH_RESTORE_CONFLICT if
+ * something already exists at the original path.
+ */
+export async function restoreFromTrash(idOrPrefix: string): Promise<TrashItem> {
+  const matches = findTrashItems(await listTrash(), idOrPrefix);
+  if (matches.length !== 1) {
+    throw new GuardianError(
+      'TRASH_ITEM_UNKNOWN',
+      matches.length === 0
+        ? `Trash item ${idOrPrefix} not found`
+        : `Trash ID prefix ${idOrPrefix} is ambiguous (${matches.length} matches)`,
+      matches.length === 0
+        ? 'Run `claude-guardian trash list` to see what can be restored; purged items are gone.'
+        : 'Use more characters of the ID.',
+    );
+  }
+  const item = matches[0];
+  if (await pathExists(item.originalPath)) {
+    throw new GuardianError(
+      'TRASH_RESTORE_CONFLICT',
+      `Cannot restore ${item.id}: ${item.originalPath} already exists`,
+      'Move the existing file out of the way first. Nothing was changed.',
+    );
+  }
+
+  const itemDir = join(getTrashPath(), item.id);
+  await mkdir(dirname(item.originalPath), { recursive: true });
+  await movePath(join(itemDir, basename(item.originalPath)), item.originalPath);
+  await rm(itemDir, { recursive: true, force: true });
+
+  await writeJournalEntry({
+    timestamp: new Date().toISOString(),
+    action: 'trash-restored',
+    target: item.originalPath,
+    detail: `Restored ${basename(item.originalPath)} (${bytesToMB(item.sizeBytes)}MB) from trash`,
+    sizeAfter: item.sizeBytes,
+    trashId: item.id,
+  });
+  return item;
+}
+
+/**
+ * The trash items a purge removes: those trashed more than maxAgeDays ago, then the oldest
+ * until the trash fits in maxSizeMB — except items trashed within minRestoreHours, which the
+ * size cap never takes. With `all`, everything. `items` must be newest first (as listTrash returns).
+ */
+export function selectTrashToPurge(
+  items: TrashItem[],
+  policy: TrashConfig = TRASH_CONFIG,
+  options: { all?: boolean; now?: number } = {},
+): TrashItem[] {
+  const now = options.now ?? Date.now();
+  const cutoff = now - policy.maxAgeDays * DAY_MS;
+  const restoreCutoff = now - (policy.minRestoreHours ?? TRASH_CONFIG.minRestoreHours) * HOUR_MS;
+  const maxBytes = policy.maxSizeMB * 1024 * 1024;
+
+  const doomed: TrashItem[] = [];
+  let keptBytes = 0;
+  let full = false;
+  // Newest first: keep items while they are young enough; once the size cap is reached, everything older goes
+  for (const item of items) {
+    const trashedAt = Date.parse(item.trashedAt);
+    full = full || keptBytes + item.sizeBytes > maxBytes;
+    if (options.all || trashedAt < cutoff || (full && trashedAt < restoreCutoff)) {
+      doomed.push(item);
+    } else {
+      keptBytes += item.sizeBytes;
+    }
+  }
+  return doomed.reverse();
+}
+
+/** Permanently delete the given trash items and journal each. Returns those actually removed. */
+export async function purgeTrashItems(items: TrashItem[], now: number = Date.now()): Promise<TrashItem[]> {
+  const purged: TrashItem[] = [];
+  for (const item of items) {
+    try {
+      await rm(join(getTrashPath(), item.id), { recursive: true, force: true });
+    } catch {
+      continue;
+    }
+    purged.push(item);
+    const ageDays = Math.round((now - Date.parse(item.trashedAt)) / DAY_MS);
+    await writeJournalEntry({
+      timestamp: new Date().toISOString(),
+      action: 'trash-purged',
+      target: item.originalPath,
+      detail: `Purged ${basename(item.originalPath)} from trash (${bytesToMB(item.sizeBytes)}MB, trashed ${ageDays}d ago)`,
+      sizeBefore: item.sizeBytes,
+      sizeAfter: 0,
+      trashId: item.id,
+    });
+  }
+  return purged;
+}
+
+/** Apply the purge policy now (see selectTrashToPurge). Each purge is journaled. */
+export async function purgeTrash(
+  policy: TrashConfig = TRASH_CONFIG,
+  options: { all?: boolean; now?: number } = {},
+): Promise<TrashPurgeResult> {
+  const now = options.now ?? Date.now();
+  const items = await listTrash();
+  const purged = await purgeTrashItems(selectTrashToPurge(items, policy, { ...options, now }), now);
+
+  const freedBytes = purged.reduce((sum, i) => sum + i.sizeBytes, 0);
+  const remainingItems = items.filter(i => !purged.includes(i));
+  return {
+    purged,
+    freedBytes,
+    remaining: remainingItems.length,
+    remainingBytes: remainingItems.reduce((sum, i) => sum + i.sizeBytes, 0),
+  };
+}
+
+/** Format the trash contents as a human-readable list. */
+export function formatTrashList(items: TrashItem[], policy: TrashConfig = TRASH_CONFIG): string {
+  if (items.length === 0) {
+    return 'Trash is empty.';
+  }
+  const lines: string[] = [];
+  lines.push('=== Claude Guardian Trash ===');
+  lines.push('');
+  for (const item of items) {
+    lines.push(`${item.id}  ${item.trashedAt.slice(0, 19).replace('T', ' ')}  ${bytesToMB(item.sizeBytes)}MB  ${item.kind}`);
+    lines.push(`    ${item.originalPath}`);
+    if (item.reason) lines.push(`    ${item.reason}`);
+  }
+  lines.push('');
+  const total = items.reduce((sum, i) => sum + i.sizeBytes, 0);
+  lines.push(`${items.length} item(s), ${bytesToMB(total)}MB — purged after ${policy.maxAgeDays}d or above ${policy.maxSizeMB}MB`);
+  lines.push('Restore with: claude-guardian trash restore <id>');
+  return lines.join('\n');
+}
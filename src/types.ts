@@ -1,5 +1,6 @@
 /**
- * Guardian configuration — 3 user-facing knobs + hardcoded sane defaults.
+ * Guardian configuration — 3 top-level knobs plus tunable thresholds.
+ * Loaded from ~/.claude-guardian/config.json (see config.ts).
  */
 export interface GuardianConfig {
   /** Max size in MB for any single project log directory. Default: 200 */
@@ -10,6 +11,305 @@ export interface GuardianConfig {
 
   /** Whether to auto-restart after crash/hang. Default: false */
   autoRestart: boolean;
+
+  /** Detection and maintenance thresholds. Falls back to THRESHOLDS when omitted. */
+  thresholds?: Thresholds;
+
+  /** Concurrency budget thresholds. Falls back to BUDGET_THRESHOLDS when omitted. */
+  budget?: BudgetThresholds;
+
+  /** OpenMetrics exporter served by the watch daemon. Falls back to EXPORTER_CONFIG when omitted. */
+  exporter?: ExporterConfig;
+
+  /** Activity signal sources and quorum rules for hang detection. Falls back to ACTIVITY_CONFIG when omitted. */
+  activity?: ActivityConfig;
+
+  /** Webhook / desktop / command notifications from the watch daemon. Falls back to NOTIFICATION_CONFIG when omitted. */
+  notifications?: NotificationConfig;
+
+  /** Secret/PII redaction applied to doctor bundles. Falls back to REDACTION_CONFIG when omitted. */
+  redaction?: RedactionConfig;
+
+  /** Memory/handle leak trend detection in the watch daemon. Falls back to LEAK_CONFIG when omitted. */
+  leaks?: LeakConfig;
+
+  /** Live /proc and inspector capture in doctor bundles. Falls back to DEEP_CAPTURE_CONFIG when omitted. */
+  deepCapture?: DeepCaptureConfig;
+
+  /** Quarantine for removed session transcripts. Falls back to TRASH_CONFIG when omitted. */
+  trash?: TrashConfig;
+
+  /** Packing old sessions of oversized projects into .tar.gz archives. Falls back to ARCHIVE_CONFIG when omitted. */
+  archive?: ArchiveConfig;
+
+  /**
+   * Per-project retention policies, keyed by encoded project dir name (e.g. "-home-me-app")
+   * or by a glob on the project's original path (e.g. "~/work/investigations/**").
+   * Projects that match none use the global thresholds. See retention.ts.
+   */
+  retention?: Record<string, RetentionPolicy>;
+}
+
+/** Detection and maintenance thresholds. */
+export interface Thresholds {
+  /** Disk free below this triggers aggressive mode. */
+  diskFreeWarningGB: number;
+  /** Max single file size before trimming. */
+  maxFileMB: number;
+  /** How many days of logs to retain during rotation. */
+  retainDays: number;
+  /** Days before a session transcript is considered stale and eligible for cleanup. */
+  staleSessionDays: number;
+  /** Tail lines to include in doctor bundle per log file. */
+  doctorTailLines: number;
+  /** Watchdog poll interval in ms. */
+  watchdogPollMs: number;
+  /** Restart backoff schedule in ms. */
+  restartBackoffMs: number[];
+  /** Max restarts before giving up. */
+  maxRestarts: number;
+  /** Grace period after first discovering a PID — risk stays ok. */
+  graceWindowSeconds: number;
+  /** CPU below this % counts as "low" for hang detection. */
+  cpuLowThreshold: number;
+  /** CPU above this % counts as "hot" (pegged). */
+  cpuHotPercent: number;
+  /** RSS above this many MB counts as "high memory". */
+  memoryHighMB: number;
+  /** Open FDs above this % of the process's soft RLIMIT_NOFILE count as "handles high" (Linux). */
+  handlesHighPercent: number;
+  /** After warn, escalate to critical after this many additional seconds. */
+  criticalAfterSeconds: number;
+  /** Rate limit: min seconds between bundles for the same PID. */
+  bundleCooldownSeconds: number;
+}
+
+/** Lowest hang risk level that reduces a pool's cap ('never': the cap stays at baseCap). */
+export type RiskReduction = 'warn' | 'critical' | 'never';
+
+/** A named budget pool. Unset keys fall back to the top-level budget settings. */
+export interface BudgetPoolConfig {
+  baseCap?: number;
+  warnCap?: number;
+  criticalCap?: number;
+  hysteresisSeconds?: number;
+  reduceOnRisk?: RiskReduction;
+  reduceOnResources?: boolean;
+}
+
+/**
+ * How a metric turns into cap pressure (0 = none, 1 = cap down to minCap):
+ * `linear` ramps from low to high, `step` is all-or-nothing at high, `off` ignores the metric.
+ */
+export type ResourceFormula = 'linear' | 'step' | 'off';
+
+/** Pressure curve for one system metric. */
+export interface ResourceMetricPolicy {
+  formula: ResourceFormula;
+  /** No pressure at or below this value. */
+  low: number;
+  /** Full pressure at or above this value. */
+  high: number;
+}
+
+/** Resource-aware caps: live system metrics lower every pool's cap (see system-load.ts). */
+export interface ResourceCapConfig {
+  /** Sample system metrics in the watch daemon and apply them to caps. Off by default. */
+  enabled: boolean;
+  /** Lowest cap resource pressure can impose. */
+  minCap: number;
+  /** Time constant of the moving average applied to each metric (0 = use raw samples). */
+  smoothingSeconds: number;
+  /** 1-minute load average per CPU core. */
+  load: ResourceMetricPolicy;
+  /** Fraction of RAM in use (1 - MemAvailable / MemTotal). */
+  memory: ResourceMetricPolicy;
+  /** Pages swapped in plus out per second. */
+  swap: ResourceMetricPolicy;
+  /** RSS of all Claude process trees as a fraction of RAM. */
+  claudeRss: ResourceMetricPolicy;
+}
+
+/** Budget thresholds for concurrency control. These settings are the default pool. */
+export interface BudgetThresholds {
+  /** Maximum concurrency slots (base cap). */
+  baseCap: number;
+  /** Cap when risk = warn. */
+  warnCap: number;
+  /** Cap when risk = critical. */
+  criticalCap: number;
+  /** Seconds of sustained ok before restoring base cap. */
+  hysteresisSeconds: number;
+  /** Longest a lease may live from grant, however often it is renewed. */
+  maxLeaseSeconds: number;
+  /** Heartbeat leases are reclaimed after this many heartbeat intervals without a renewal. */
+  missedHeartbeats: number;
+  /** Longest an acquire may wait in the queue (longer waits are clamped). */
+  maxWaitSeconds: number;
+  /** A queued request is promoted one priority class per this many seconds waited, so low priority can't starve. */
+  queueAgingSeconds: number;
+  /** Lowest risk level that reduces the cap. */
+  reduceOnRisk: RiskReduction;
+  /** Whether resource pressure (when budget.resources is enabled) reduces the cap. */
+  reduceOnResources: boolean;
+  /** Resource-aware cap policy, shared by all pools. */
+  resources: ResourceCapConfig;
+  /** Named pools with their own caps (e.g. "tests", "builds"), acquired by name. */
+  pools: Record<string, BudgetPoolConfig>;
+}
+
+/** Opt-in Prometheus/OpenMetrics HTTP listener. */
+export interface ExporterConfig {
+  /** Serve /metrics from the watch daemon. Off by default. */
+  enabled: boolean;
+  /** Bind address. Keep on loopback unless you know who can reach it. */
+  host: string;
+  /** TCP port. */
+  port: number;
+}
+
+/** Built-in activity signal sources (see activity-sources.ts). */
+export type ActivitySourceName =
+  | 'log-mtime'
+  | 'cpu'
+  | 'child-cpu'
+  | 'transcript-growth'
+  | 'network-io'
+  | 'disk-io';
+
+/** Which activity sources run and how many must fire before a session counts as active. */
+export interface ActivityConfig {
+  /** Sources sampled every poll. */
+  sources: ActivitySourceName[];
+  /** Session is active when at least this many sources fire. */
+  quorum: number;
+  /** Sources that count as activity on their own, regardless of quorum. */
+  decisive: ActivitySourceName[];
+  /** Min bytes appended to any session transcript between polls. */
+  minTranscriptGrowthBytes: number;
+  /** Min non-storage I/O bytes (sockets, pipes) across a process tree between polls. */
+  minNetworkBytes: number;
+  /** Min storage I/O bytes across a process tree between polls. */
+  minDiskBytes: number;
+}
+
+/** Per-PID RSS and handle growth analysis (see leak-detector.ts). */
+export interface LeakConfig {
+  /** Fit growth trends for every Claude PID in the watch daemon. */
+  enabled: boolean;
+  /** Samples older than this drop out of the fit. */
+  windowSeconds: number;
+  /** No verdict until the samples span at least this long. */
+  minSpanSeconds: number;
+  /** Fit quality (R²) growth needs before it counts as steady. */
+  minR2: number;
+  /** RSS growth slower than this is not a leak. */
+  minRssGrowthMBPerHour: number;
+  /** Handle growth slower than this is not a leak. */
+  minHandleGrowthPerHour: number;
+  /** Open handles the handle trend is projected toward when the process's RLIMIT_NOFILE is unknown (RSS uses thresholds.memoryHighMB). */
+  handleLimit: number;
+  /** A leak is suspected when a trend reaches its threshold within this many seconds. */
+  horizonSeconds: number;
+}
+
+/** Live capture of what a process is doing, written as process-deep.json (see deep-capture.ts). */
+export interface DeepCaptureConfig {
+  /** Deep-capture critical PIDs in the watch daemon's automatic bundles. */
+  enabled: boolean;
+  /** Also signal SIGUSR1 and pull a JS stack through the inspector (daemon bundles and MCP). */
+  inspector: boolean;
+  /** Interval between the two per-thread CPU samples. */
+  threadSampleMs: number;
+  /** Give up on the inspector after this long. */
+  inspectorTimeoutMs: number;
+}
+
+/** Where stale sessions go instead of being deleted (see trash.ts). */
+export interface TrashConfig {
+  /** Move removed session transcripts to ~/.claude-guardian/trash; false deletes them permanently. */
+  enabled: boolean;
+  /** Purge trash items older than this. */
+  maxAgeDays: number;
+  /** Purge the oldest trash items while the trash is larger than this. */
+  maxSizeMB: number;
+  /** Items trashed more recently than this are never purged for size, so they can still be restored. */
+  minRestoreHours: number;
+}
+
+/** Archival of project dirs still over maxProjectLogDirMB after a fix (see archive.ts). */
+export interface ArchiveConfig {
+  /** Pack the oldest sessions into ~/.claude-guardian/archive; false only warns. */
+  enabled: boolean;
+  /** Sessions modified more recently than this are never archived. */
+  minSessionAgeHours: number;
+  /** Prune the oldest archives while their total size is above this. */
+  maxTotalMB: number;
+}
+
+/** Retention for the project dirs a `retention` key matches. Unset fields fall back to the global settings. */
+export interface RetentionPolicy {
+  /** Never rotate, trim, clean up or archive anything in the project. */
+  keepForever?: boolean;
+  /** Keep at most this many sessions (newest first); older ones are cleaned up as stale. */
+  maxSessions?: number;
+  /** Sessions untouched for this many days are stale. Replaces thresholds.staleSessionDays and is not halved in aggressive mode. */
+  maxAgeDays?: number;
+  /** Size limit for the project dir. Replaces maxProjectLogDirMB. */
+  maxSizeMB?: number;
+  /** Session IDs (or ID prefixes) that are never rotated, trimmed, cleaned up or archived. */
+  pinned?: string[];
+}
+
+/** Daemon events that can be sent to notification sinks (see notifier.ts). */
+export type NotificationEventType =
+  | 'attention'
+  | 'incident-open'
+  | 'incident-close'
+  | 'bundle'
+  | 'budget-cap'
+  | 'test';
+
+/** Where daemon events are sent. Every sink is off until configured. */
+export interface NotificationConfig {
+  /** POST a JSON payload here (http/https). Null disables the webhook. */
+  webhookUrl: string | null;
+  /** Show a desktop notification (notify-send on Linux, osascript on macOS). */
+  desktop: boolean;
+  /** Shell command run per event; the payload is on stdin and in CLAUDE_GUARDIAN_* env vars. Null disables it. */
+  command: string | null;
+  /** Event types to send. */
+  events: NotificationEventType[];
+  /** Min seconds between two notifications of the same event type (extra events are counted, not sent). */
+  minIntervalSeconds: number;
+  /** Webhook retries after the first attempt (network errors, 429 and 5xx only). */
+  retries: number;
+  /** Delay before the first retry; doubles on each further retry. */
+  retryBackoffMs: number;
+  /** Per-attempt timeout for the webhook and the command. */
+  timeoutMs: number;
+}
+
+/** How aggressively doctor bundles are redacted (see redaction.ts). */
+export type RedactionLevel = 'strict' | 'standard' | 'off';
+
+/** A user-defined redaction rule. */
+export interface RedactionRuleConfig {
+  /** Rule name, used in the replacement marker and redaction-report.json. */
+  name: string;
+  /** JavaScript regular expression source. */
+  pattern: string;
+  /** Extra RegExp flags ("g" is always added). */
+  flags?: string;
+  /** Replacement text ($1 etc. allowed). Defaults to "[REDACTED:<name>]". */
+  replacement?: string;
+}
+
+export interface RedactionConfig {
+  /** Default level for `doctor` and daemon bundles; `--redact` overrides it. */
+  level: RedactionLevel;
+  /** Extra rules applied after the built-in detectors (at standard and strict). */
+  rules: RedactionRuleConfig[];
 }
 
 /** Result of scanning a single directory or file. */
@@ -18,6 +318,8 @@ export interface ScanEntry {
   sizeBytes: number;
   sizeMB: number;
   isFile: boolean;
+  /** Retention policy that applies to this project dir: its key and a summary (absent: global settings). */
+  retention?: { policy: string; summary: string };
 }
 
 /** Result of a preflight check. */
@@ -32,11 +334,47 @@ export interface PreflightResult {
 
 /** An action taken (or recommended) during preflight. */
 export interface PreflightAction {
-  type: 'rotated' | 'trimmed' | 'archived' | 'cleaned' | 'warning';
+  type: 'rotated' | 'trimmed' | 'archived' | 'cleaned' | 'purged' | 'warning';
   target: string;
   detail: string;
   sizeBefore?: number;
   sizeAfter?: number;
+  /** Trash item holding what was removed (cleaned actions with the trash enabled). */
+  trashId?: string;
+}
+
+/**
+ * What a fix plan does to one path. `archive` packs a session into a project archive if its
+ * project is still over the limit; `purge` permanently deletes a trash item, `prune` an archive.
+ */
+export type FixOperation = 'rotate' | 'trim' | 'delete' | 'archive' | 'purge' | 'prune';
+
+/** One planned change, with the state the path had when it was planned. */
+export interface FixPlanItem {
+  op: FixOperation;
+  path: string;
+  kind: 'file' | 'dir';
+  /** Size at planning time (whole tree for a directory). */
+  sizeBytes: number;
+  /** mtime at planning time; applying refuses if it has changed. */
+  mtimeMs: number;
+  /** Why the path is in the plan, e.g. "12d old, retention 7d". */
+  reason: string;
+  /** Lines kept by a trim. */
+  keepLines?: number;
+}
+
+/** Every change `preflight --fix` would make, serializable to JSON (see fix-plan.ts). */
+export interface FixPlan {
+  version: 1;
+  createdAt: string;
+  /** Claude projects directory the plan was made for; every item lies under it, except trash purges and archive prunes. */
+  root: string;
+  /** Whether aggressive retention was in effect (requested, or low disk). */
+  aggressive: boolean;
+  items: FixPlanItem[];
+  /** Sum of the items' sizes at planning time. */
+  totalBytes: number;
 }
 
 /** Health status returned by the watchdog / MCP server. */
@@ -69,4 +407,6 @@ export interface JournalEntry {
   detail: string;
   sizeBefore?: number;
   sizeAfter?: number;
+  /** Trash item the entry refers to (see trash.ts). */
+  trashId?: string;
 }
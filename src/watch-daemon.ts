@@ -1,38 +1,82 @@
 import { getDiskFreeGB, dirSize, bytesToMB, pathExists, writeJournalEntry } from './fs-utils.js';
-import { getClaudeProjectsPath, DEFAULT_CONFIG, THRESHOLDS } from './defaults.js';
-import { findClaudeProcesses, checkActivitySignals, assessHangRisk, recommendActions } from './process-monitor.js';
+import { getClaudeProjectsPath, DEFAULT_CONFIG, THRESHOLDS, BUDGET_THRESHOLDS, RESOURCE_CAP_CONFIG, EXPORTER_CONFIG, ACTIVITY_CONFIG, LEAK_CONFIG, NOTIFICATION_CONFIG, DEEP_CAPTURE_CONFIG } from './defaults.js';
+import { findClaudeProcesses, recommendActions, treeMemoryMB } from './process-monitor.js';
 import { writeState, withStateLock, computeAttention, type GuardianState, type Attention } from './state.js';
 import { IncidentTracker } from './incident.js';
-import { Budget } from './budget.js';
-import { readBudget, writeBudget, emptyBudget, withBudgetLock } from './budget-store.js';
-import { getHandleCounts } from './handle-count.js';
+import { BudgetPools, DEFAULT_POOL, type ExpiredLease } from './budget.js';
+import { readBudget, emptyBudget, withBudgetLock } from './budget-store.js';
+import { saveBudget } from './budget-ledger.js';
+import { getHandleCounts, getNofileLimit } from './handle-count.js';
+import { isPidAlive } from './file-lock.js';
+import { ResourceMonitor, readSystemLoad, computeResourcePressure, type ResourcePressure } from './system-load.js';
+import { attachProcessTrees, topDescendants } from './process-tree.js';
+import { SessionTracker } from './session-tracker.js';
+import { MetricsStore } from './metrics-store.js';
+import { startMetricsExporter, emptyCounters } from './metrics-exporter.js';
+import {
+  Notifier, attentionChangedEvent, incidentOpenedEvent, incidentClosedEvent,
+  bundleCapturedEvent, budgetCapChangedEvent, type NotificationEvent,
+} from './notifier.js';
 import { fixLogs } from './log-manager.js';
 import { generateBundle } from './doctor.js';
 import { homedir } from 'os';
+import type { GuardianConfig } from './types.js';
 
 export interface WatchDaemonOptions {
   hangTimeoutSeconds: number;
   autoFix: boolean;
   verbose: boolean;
+  /** Effective config (see config.ts). Thresholds and budget caps come from here. */
+  config: GuardianConfig;
 }
 
 const DEFAULT_OPTIONS: WatchDaemonOptions = {
   hangTimeoutSeconds: DEFAULT_CONFIG.hangNoActivitySeconds,
   autoFix: false,
   verbose: false,
+  config: DEFAULT_CONFIG,
 };
 
+/** Journal detail for a lease removed by the daemon. */
+function describeExpiredLease(lease: ExpiredLease, now: number): string {
+  const what = `${lease.slots} slot(s), reason: "${lease.reason}"`;
+  switch (lease.cause) {
+    case 'heartbeat':
+      return `Lease ${lease.id} reclaimed: no heartbeat for ${Math.round((now - Date.parse(lease.lastHeartbeatAt ?? lease.grantedAt)) / 1000)}s (expected every ${lease.heartbeatSeconds}s; ${what})`;
+    case 'owner-exited':
+      return `Lease ${lease.id} reclaimed: owner PID ${lease.owner!.pid} exited${lease.owner!.sessionId ? ` (session ${lease.owner!.sessionId})` : ''} (${what})`;
+    default:
+      return `Lease ${lease.id} expired (${what})`;
+  }
+}
+
 /** Start the watch daemon. Runs forever, polling every 2s. */
 export async function startWatchDaemon(opts: Partial<WatchDaemonOptions> = {}): Promise<void> {
-  const options = { ...DEFAULT_OPTIONS, ...opts };
-  const incidents = new IncidentTracker();
+  const config = opts.config ?? DEFAULT_OPTIONS.config;
+  const options = {
+    ...DEFAULT_OPTIONS,
+    hangTimeoutSeconds: config.hangNoActivitySeconds,
+    ...opts,
+    config,
+  };
+  const thresholds = config.thresholds ?? THRESHOLDS;
+  const incidents = new IncidentTracker(thresholds);
+  const metrics = new MetricsStore();
+  // Per-PID grace windows, quiet timers, activity sources and leak windows live for the daemon's lifetime
+  const sessionTracker = new SessionTracker(
+    options.hangTimeoutSeconds, thresholds, config.activity ?? ACTIVITY_CONFIG, config.leaks ?? LEAK_CONFIG,
+  );
+  // Resource-aware caps keep moving averages across polls
+  const resourceConfig = (config.budget ?? BUDGET_THRESHOLDS).resources ?? RESOURCE_CAP_CONFIG;
+  const resourceMonitor = resourceConfig.enabled ? new ResourceMonitor(resourceConfig) : null;
 
   // Tracking state across polls
   const daemonStartedAt = new Date().toISOString();
   let pollCount = 0;
-  let processFirstSeenAt: number | null = null;
-  let compositeQuietSince: number | null = null;
   let previousAttention: Attention | undefined;
+  let latestState: GuardianState | null = null;
+  let lastIncidentId: string | null = null;
+  const counters = emptyCounters();
 
   const log = (msg: string) => {
     const ts = new Date().toISOString().substring(11, 19);
@@ -41,7 +85,31 @@ export async function startWatchDaemon(opts: Partial<WatchDaemonOptions> = {}):
 
   log('Watch daemon starting...');
   log(`Hang timeout: ${options.hangTimeoutSeconds}s | Auto-fix: ${options.autoFix}`);
-  log(`Grace window: ${THRESHOLDS.graceWindowSeconds}s | Critical after: ${THRESHOLDS.criticalAfterSeconds}s`);
+  log(`Grace window: ${thresholds.graceWindowSeconds}s | Critical after: ${thresholds.criticalAfterSeconds}s`);
+  if (resourceMonitor) {
+    log(`Resource-aware caps: on (smoothing ${resourceConfig.smoothingSeconds}s, min cap ${resourceConfig.minCap})`);
+  }
+
+  // Opt-in OpenMetrics listener (fails startup if the port is taken — a silent no-op would hide a misconfig)
+  const exporterConfig = config.exporter ?? EXPORTER_CONFIG;
+  if (exporterConfig.enabled) {
+    const exporter = await startMetricsExporter(exporterConfig, () => ({ state: latestState, counters }));
+    log(`Metrics exporter: ${exporter.url}`);
+  }
+
+  // Notifications are fire-and-forget: a slow webhook (retries, backoff) must never stall a poll
+  const notifier = new Notifier(config.notifications ?? NOTIFICATION_CONFIG);
+  if (notifier.sinks.length > 0) {
+    log(`Notifications: ${notifier.sinks.join(', ')}`);
+  }
+  const notify = (event: NotificationEvent | null) => {
+    if (!event) return;
+    notifier.notify(event).then((result) => {
+      for (const r of result.sinks.filter(s => !s.ok)) {
+        log(`Notification (${event.type}) via ${r.sink} failed: ${r.error}`);
+      }
+    }).catch(() => { /* notify never throws */ });
+  };
 
   let pollInProgress = false;
 
@@ -49,6 +117,7 @@ export async function startWatchDaemon(opts: Partial<WatchDaemonOptions> = {}):
     if (pollInProgress) return; // Prevent overlapping polls
     pollInProgress = true;
     pollCount++;
+    counters.polls = pollCount;
     try {
       // Collect signals
       const claudePath = getClaudeProjectsPath();
@@ -59,57 +128,53 @@ export async function startWatchDaemon(opts: Partial<WatchDaemonOptions> = {}):
       }
 
       const { processes, enumerationError } = await findClaudeProcesses();
-      const activity = await checkActivitySignals(processes, enumerationError);
+      await attachProcessTrees(processes);
 
-      // Track process age (grace window)
-      const now = Date.now();
-      if (processes.length > 0 && processFirstSeenAt === null) {
-        processFirstSeenAt = now;
-      } else if (processes.length === 0) {
-        processFirstSeenAt = null;
-        compositeQuietSince = null;
-      }
-      const processAgeSeconds = processFirstSeenAt
-        ? Math.max(0, Math.round((now - processFirstSeenAt) / 1000))
-        : 0;
-
-      // Track composite quiet duration
-      const logQuiet = activity.logLastModifiedSecondsAgo < 0 ||
-        activity.logLastModifiedSecondsAgo > options.hangTimeoutSeconds;
-      const cpuLow = !activity.cpuActive;
-      const compositeQuiet = logQuiet && cpuLow;
-
-      if (compositeQuiet) {
-        if (compositeQuietSince === null) {
-          compositeQuietSince = now;
+      // Handle counts and FD limits (best-effort, attached to process objects; leak trends use them)
+      if (processes.length > 0) {
+        const handleResults = await getHandleCounts(processes.map(p => p.pid));
+        for (const hc of handleResults) {
+          const proc = processes.find(p => p.pid === hc.pid);
+          if (proc) proc.handleCount = hc.count;
+        }
+        for (const proc of processes) {
+          proc.handleLimit = await getNofileLimit(proc.pid);
         }
-      } else {
-        compositeQuietSince = null;
       }
-      const compositeQuietSeconds = compositeQuietSince
-        ? Math.max(0, Math.round((now - compositeQuietSince) / 1000))
-        : 0;
-
-      // Assess risk with composite signals
-      const hangRisk = assessHangRisk(
-        processes, activity, diskFreeGB,
-        options.hangTimeoutSeconds,
-        processAgeSeconds,
-        compositeQuietSeconds,
-      );
+
+      // Assess each session on its own; top-level risk is the worst of them
+      const now = Date.now();
+      const { sessions, hangRisk, activity, processAgeSeconds, compositeQuietSeconds } =
+        await sessionTracker.update(processes, diskFreeGB, enumerationError, now);
       const actions = recommendActions(hangRisk);
 
       // Update incident tracker
       const reason = hangRisk.reasons.join('; ') || 'healthy';
-      const incident = await incidents.update(hangRisk.level, reason);
+      const incident = await incidents.update(hangRisk.level, reason, hangRisk, processes.map(p => p.pid));
+      if (incident && incident.id !== lastIncidentId) {
+        counters.incidents++;
+        notify(incidentOpenedEvent(incident));
+      }
+      if (incident?.closedAt) {
+        notify(incidentClosedEvent(incident));
+      }
+      lastIncidentId = incident?.id ?? null;
 
       // Bundle capture: exactly once per incident, on first critical
       if (incidents.shouldCaptureBundle(processes.map(p => p.pid))) {
         log('CRITICAL — capturing diagnostics bundle (once per incident)...');
         try {
-          const bundle = await generateBundle();
+          const deepConfig = config.deepCapture ?? DEEP_CAPTURE_CONFIG;
+          // Deep-capture the sessions that are critical themselves, or all of them if none is on its own
+          const criticalPids = sessions.filter(s => s.hangRisk.level === 'critical').map(s => s.pid);
+          const deep = deepConfig.enabled
+            ? { pids: criticalPids.length > 0 ? criticalPids : undefined, inspector: deepConfig.inspector }
+            : undefined;
+          const bundle = await generateBundle(undefined, config, { deep });
           incidents.markBundleCaptured(bundle.zipPath, processes.map(p => p.pid));
+          counters.bundles++;
           log(`Bundle saved: ${bundle.zipPath}`);
+          notify(bundleCapturedEvent(incident?.id ?? null, bundle.zipPath));
           await writeJournalEntry({
             timestamp: new Date().toISOString(),
             action: 'auto-bundle',
@@ -124,48 +189,83 @@ export async function startWatchDaemon(opts: Partial<WatchDaemonOptions> = {}):
       // Auto-fix on low disk
       if (hangRisk.diskLow && options.autoFix) {
         log('Low disk detected with auto-fix enabled. Running aggressive preflight...');
-        const fixActions = await fixLogs(DEFAULT_CONFIG, true);
+        const fixActions = await fixLogs(config, true);
         if (fixActions.length > 0) {
           log(`Fixed ${fixActions.length} items.`);
         }
       }
 
+      // System resource pressure (opt-in), smoothed across polls
+      let resources: ResourcePressure | null = null;
+      if (resourceMonitor) {
+        const claudeRssMB = processes.reduce((s, p) => s + treeMemoryMB(p), 0);
+        const metrics = resourceMonitor.update(await readSystemLoad(claudeRssMB, now));
+        resources = computeResourcePressure(metrics, resourceConfig);
+      }
+
       // Budget cap adjustment (read fresh each poll to avoid overwriting CLI changes)
       const budget = await withBudgetLock(async () => {
-        const budgetData = await readBudget() ?? emptyBudget();
-        const b = new Budget(budgetData);
-        const expired = b.expireLeases(now);
-        if (expired.length > 0) {
-          for (const lease of expired) {
-            await writeJournalEntry({
-              timestamp: new Date().toISOString(),
-              action: 'lease-expired',
-              detail: `Lease ${lease.id} expired (${lease.slots} slot(s), reason: "${lease.reason}")`,
-            });
+        const budgetData = await readBudget() ?? emptyBudget(config.budget);
+        const pools = new BudgetPools(budgetData, config.budget);
+        for (const pool of pools.names) {
+          const b = pools.pool(pool);
+          const label = pool === DEFAULT_POOL ? 'Budget' : `Budget pool ${pool}`;
+          const expired = [...b.expireLeases(now), ...b.reclaimDeadOwners(isPidAlive, now)];
+          if (expired.length > 0) {
+            counters.leaseExpirations += expired.length;
+            for (const lease of expired) {
+              await writeJournalEntry({
+                timestamp: new Date().toISOString(),
+                action: lease.cause === 'ttl' ? 'lease-expired' : 'lease-reclaimed',
+                detail: describeExpiredLease(lease, now) + (pool !== DEFAULT_POOL ? ` [pool ${pool}]` : ''),
+              });
+            }
+            if (options.verbose) {
+              log(`${label}: ${expired.length} lease(s) expired or reclaimed`);
+            }
           }
-          if (options.verbose) {
-            log(`${expired.length} lease(s) expired`);
+          const previousCap = b.currentCap;
+          const capChanged = b.adjustCap(hangRisk.level, now, resources);
+          if (capChanged) {
+            const { baseCap, capReason } = b.summarize(now);
+            notify(budgetCapChangedEvent(previousCap, b.currentCap, baseCap, hangRisk.level, pool, capReason));
+            if (options.verbose) {
+              log(`${label} cap changed to ${b.currentCap} (${capReason ?? `risk=${hangRisk.level}`})`);
+            }
+          }
+          // Grant queued requests that now fit (freed slots or a restored cap)
+          const promoted = b.promoteWaiters(now);
+          if (options.verbose && (promoted.granted.length > 0 || promoted.timedOut.length > 0)) {
+            log(`${label} queue: ${promoted.granted.length} request(s) granted, ${promoted.timedOut.length} timed out`);
           }
         }
-        const capChanged = b.adjustCap(hangRisk.level, now);
-        if (capChanged && options.verbose) {
-          log(`Budget cap changed to ${b.currentCap} (risk=${hangRisk.level})`);
-        }
-        await writeBudget(b.getData());
-        return b;
+        await saveBudget(pools);
+        // The default pool drives attention and state.json's budget summary
+        return pools.pool(DEFAULT_POOL);
       });
 
-      // Handle counts (best-effort, attached to process objects)
-      if (processes.length > 0) {
-        const handleResults = await getHandleCounts(processes.map(p => p.pid));
-        for (const hc of handleResults) {
-          const proc = processes.find(p => p.pid === hc.pid);
-          if (proc) proc.handleCount = hc.count;
+      // Record time-series sample (best-effort — never fails the poll)
+      try {
+        const withHandles = processes.filter(p => p.handleCount != null);
+        await metrics.record({
+          t: now,
+          cpuPercent: processes.reduce((s, p) => s + p.cpuPercent, 0),
+          memoryMB: processes.reduce((s, p) => s + p.memoryMB, 0),
+          handleCount: withHandles.length > 0 ? withHandles.reduce((s, p) => s + (p.handleCount ?? 0), 0) : null,
+          diskFreeGB,
+          claudeLogSizeMB,
+          processCount: processes.length,
+          risk: hangRisk.level,
+        });
+      } catch (err) {
+        if (options.verbose) {
+          log(`Metrics write failed: ${err instanceof Error ? err.message : String(err)}`);
         }
       }
 
       // Compute attention (preserving `since` when level unchanged)
       const attention = computeAttention(hangRisk, budget.summarize(now), incidents.getActive(), previousAttention);
+      notify(attentionChangedEvent(previousAttention, attention));
       previousAttention = attention;
 
       // Persist state (locked to prevent partial reads during MCP access)
@@ -175,6 +275,8 @@ export async function startWatchDaemon(opts: Partial<WatchDaemonOptions> = {}):
           daemonRunning: true,
           daemonPid: process.pid,
           claudeProcesses: processes,
+          topDescendants: topDescendants(processes),
+          sessions,
           activity,
           hangRisk,
           recommendedActions: actions,
@@ -189,6 +291,7 @@ export async function startWatchDaemon(opts: Partial<WatchDaemonOptions> = {}):
           pollCount,
         };
         await writeState(state);
+        latestState = state;
       });
 
       if (options.verbose && processes.length > 0) {
@@ -201,7 +304,7 @@ export async function startWatchDaemon(opts: Partial<WatchDaemonOptions> = {}):
     } finally {
       pollInProgress = false;
     }
-  }, THRESHOLDS.watchdogPollMs);
+  }, thresholds.watchdogPollMs);
 
   // Graceful shutdown
   const shutdown = () => {
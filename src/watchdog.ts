@@ -1,6 +1,6 @@
 import { spawn, type ChildProcess } from 'child_process';
 import pidusage from 'pidusage';
-import type { GuardianConfig, HealthStatus, WatchdogState } from './types.js';
+import type { GuardianConfig, HealthStatus, Thresholds, WatchdogState } from './types.js';
 import { DEFAULT_CONFIG, THRESHOLDS, getClaudeProjectsPath } from './defaults.js';
 import { getDiskFreeGB, dirSize, bytesToMB, writeJournalEntry, pathExists } from './fs-utils.js';
 import { generateBundle } from './doctor.js';
@@ -20,6 +20,7 @@ export type WatchdogEventHandler = (event: WatchdogEventType, detail: string) =>
 
 export class Watchdog {
   private config: GuardianConfig;
+  private thresholds: Thresholds;
   private state: WatchdogState;
   private child: ChildProcess | null = null;
   private pollTimer: ReturnType<typeof setInterval> | null = null;
@@ -38,6 +39,7 @@ export class Watchdog {
     this.command = command;
     this.args = args;
     this.config = config;
+    this.thresholds = config.thresholds ?? THRESHOLDS;
     this.onEvent = onEvent || (() => {});
     this.state = {
       childPid: null,
@@ -157,7 +159,7 @@ export class Watchdog {
   private startPolling(): void {
     this.pollTimer = setInterval(() => {
       this.pollCheck();
-    }, THRESHOLDS.watchdogPollMs);
+    }, this.thresholds.watchdogPollMs);
   }
 
   private stopPolling(): void {
@@ -200,9 +202,9 @@ export class Watchdog {
       detail,
     });
 
-    if (this.config.autoRestart && this.state.restartCount < THRESHOLDS.maxRestarts) {
-      const backoffIndex = Math.min(this.state.restartCount, THRESHOLDS.restartBackoffMs.length - 1);
-      const delay = THRESHOLDS.restartBackoffMs[backoffIndex];
+    if (this.config.autoRestart && this.state.restartCount < this.thresholds.maxRestarts) {
+      const backoffIndex = Math.min(this.state.restartCount, this.thresholds.restartBackoffMs.length - 1);
+      const delay = this.thresholds.restartBackoffMs[backoffIndex];
 
       this.onEvent('restarting', `Restart #${this.state.restartCount + 1} in ${delay}ms`);
 
@@ -213,15 +215,15 @@ export class Watchdog {
           this.spawnChild();
         }
       }, delay);
-    } else if (this.state.restartCount >= THRESHOLDS.maxRestarts) {
-      this.onEvent('max-restarts', `Reached max restarts (${THRESHOLDS.maxRestarts}). Giving up.`);
+    } else if (this.state.restartCount >= this.thresholds.maxRestarts) {
+      this.onEvent('max-restarts', `Reached max restarts (${this.thresholds.maxRestarts}). Giving up.`);
       this.stop();
     }
   }
 
   private async captureBundle(reason: string): Promise<void> {
     try {
-      const bundle = await generateBundle();
+      const bundle = await generateBundle(undefined, this.config);
       this.state.lastBundlePath = bundle.zipPath;
       this.onEvent('bundle-created', `Bundle saved: ${bundle.zipPath} (reason: ${reason})`);
 
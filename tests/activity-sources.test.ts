@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { openSync, readSync, closeSync } from 'fs';
+import {
+  parseProcIo, meetsQuorum, createActivitySources, sampleActivitySources,
+  TranscriptGrowthSource, ProcIoSource, LogMtimeSource, ChildCpuSource,
+  type ActivityContext, type ActivitySignalSource,
+} from '../src/activity-sources.js';
+import { assessHangRisk, type ClaudeProcess } from '../src/process-monitor.js';
+import { ACTIVITY_CONFIG, THRESHOLDS } from '../src/defaults.js';
+
+function ctx(overrides: Partial<ActivityContext> = {}): ActivityContext {
+  return {
+    processes: [],
+    files: [],
+    logLastModifiedSecondsAgo: -1,
+    hangThresholdSeconds: 300,
+    thresholds: THRESHOLDS,
+    ...overrides,
+  };
+}
+
+describe('activity-sources', () => {
+  describe('parseProcIo', () => {
+    it('parses the four byte counters', () => {
+      const io = parseProcIo('rchar: 1000\nwchar: 200\nsyscr: 5\nsyscw: 2\nread_bytes: 400\nwrite_bytes: 100\ncancelled_write_bytes: 0\n');
+      expect(io).toEqual({ rchar: 1000, wchar: 200, readBytes: 400, writeBytes: 100 });
+    });
+
+    it('returns null when fields are missing', () => {
+      expect(parseProcIo('rchar: 1\n')).toBeNull();
+    });
+  });
+
+  describe('meetsQuorum', () => {
+    it('defaults to any single source', () => {
+      expect(meetsQuorum([])).toBe(false);
+      expect(meetsQuorum(['network-io'])).toBe(true);
+    });
+
+    it('requires the configured number of sources', () => {
+      const config = { ...ACTIVITY_CONFIG, quorum: 2 };
+      expect(meetsQuorum(['cpu'], config)).toBe(false);
+      expect(meetsQuorum(['cpu', 'disk-io'], config)).toBe(true);
+    });
+
+    it('lets a decisive source win on its own', () => {
+      const config = { ...ACTIVITY_CONFIG, quorum: 3, decisive: ['transcript-growth' as const] };
+      expect(meetsQuorum(['transcript-growth'], config)).toBe(true);
+      expect(meetsQuorum(['cpu', 'disk-io'], config)).toBe(false);
+    });
+  });
+
+  describe('createActivitySources', () => {
+    it('creates the enabled sources in config order, once each', () => {
+      const sources = createActivitySources({ ...ACTIVITY_CONFIG, sources: ['network-io', 'cpu', 'cpu'] });
+      expect(sources.map(s => s.name)).toEqual(['network-io', 'cpu']);
+    });
+  });
+
+  describe('LogMtimeSource', () => {
+    it('fires only within the hang threshold', async () => {
+      const source = new LogMtimeSource();
+      expect(await source.sample(ctx({ logLastModifiedSecondsAgo: 100 }))).toBe(true);
+      expect(await source.sample(ctx({ logLastModifiedSecondsAgo: 400 }))).toBe(false);
+      expect(await source.sample(ctx({ logLastModifiedSecondsAgo: -1 }))).toBe(false);
+    });
+  });
+
+  describe('ChildCpuSource', () => {
+    it('fires when descendants are busy but the root is idle', async () => {
+      const proc: ClaudeProcess = {
+        pid: 1, name: 'claude', cpuPercent: 1, memoryMB: 100, uptimeSeconds: 10,
+        tree: { descendantCount: 1, treeCpuPercent: 50, treeMemoryMB: 300, treeHandleCount: null, topDescendants: [], descendantPids: [2] },
+      };
+      expect(await new ChildCpuSource().sample(ctx({ processes: [proc] }))).toBe(true);
+      expect(await new ChildCpuSource().sample(ctx({ processes: [{ ...proc, tree: null }] }))).toBe(false);
+    });
+  });
+
+  describe('TranscriptGrowthSource', () => {
+    it('needs a baseline, then fires on appended bytes', async () => {
+      const source = new TranscriptGrowthSource(10);
+      const files = (size: number) => [{ path: '/p/session.jsonl', size, mtimeMs: 0 }];
+
+      expect(await source.sample(ctx({ files: files(100) }))).toBe(false); // baseline
+      expect(await source.sample(ctx({ files: files(105) }))).toBe(false); // below min
+      expect(await source.sample(ctx({ files: files(200) }))).toBe(true);
+      expect(await source.sample(ctx({ files: files(50) }))).toBe(false);  // truncated
+    });
+
+    it('ignores non-transcript files', async () => {
+      const source = new TranscriptGrowthSource(1);
+      await source.sample(ctx({ files: [{ path: '/p/notes.txt', size: 1, mtimeMs: 0 }] }));
+      expect(await source.sample(ctx({ files: [{ path: '/p/notes.txt', size: 999, mtimeMs: 0 }] }))).toBe(false);
+    });
+  });
+
+  describe.runIf(process.platform === 'linux')('ProcIoSource (live)', () => {
+    it('fires on non-storage I/O (character device / socket reads) from a tracked PID', async () => {
+      const self: ClaudeProcess = { pid: process.pid, name: 'node', cpuPercent: 0, memoryMB: 10, uptimeSeconds: 1 };
+      const source = new ProcIoSource('network', 32 * 1024);
+      expect(await source.sample(ctx({ processes: [self] }))).toBe(false); // baseline
+
+      // /dev/zero reads count toward rchar but never touch storage
+      const fd = openSync('/dev/zero', 'r');
+      try {
+        readSync(fd, Buffer.alloc(64 * 1024));
+      } finally {
+        closeSync(fd);
+      }
+      expect(await source.sample(ctx({ processes: [self] }))).toBe(true);
+    });
+  });
+
+  describe('sampleActivitySources', () => {
+    it('reports fired sources and treats a throwing source as not firing', async () => {
+      const sources: ActivitySignalSource[] = [
+        { name: 'always', sample: async () => true },
+        { name: 'broken', sample: async () => { throw new Error('boom'); } },
+        { name: 'never', sample: async () => false },
+      ];
+      expect(await sampleActivitySources(sources, ctx())).toEqual(['always']);
+    });
+  });
+
+  describe('assessHangRisk quorum', () => {
+    const procs: ClaudeProcess[] = [{ pid: 1, name: 'claude', cpuPercent: 1, memoryMB: 100, uptimeSeconds: 3600 }];
+
+    it('treats a lone network source as activity under the default quorum', () => {
+      const risk = assessHangRisk(
+        procs, { logLastModifiedSecondsAgo: 900, cpuActive: false, sources: ['network-io'] },
+        100, 300, 120, 400,
+      );
+      expect(risk.level).toBe('ok');
+    });
+
+    it('warns when fewer sources than the quorum fire', () => {
+      const risk = assessHangRisk(
+        procs, { logLastModifiedSecondsAgo: 900, cpuActive: false, sources: ['network-io'] },
+        100, 300, 120, 400, THRESHOLDS, { ...ACTIVITY_CONFIG, quorum: 2 },
+      );
+      expect(risk.level).toBe('warn');
+      expect(risk.reasons[0]).toContain('1/2 activity sources: network-io');
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, readFile, rm, readdir, utimes, stat } from 'fs/promises';
+import { join, basename } from 'path';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+import {
+  archiveSessions, readArchiveIndex, extractArchive, pruneArchives, findArchives, formatArchiveList,
+} from '../src/archive.js';
+import { applyFixPlan, planFixes, selectSessionsToArchive } from '../src/fix-plan.js';
+import { DEFAULT_CONFIG, THRESHOLDS, ARCHIVE_CONFIG, getArchivePath } from '../src/defaults.js';
+import { readJournal } from '../src/fs-utils.js';
+import type { GuardianConfig } from '../src/types.js';
+
+const DAY = 86400000;
+const uuid = (n: number) => `${String(n).repeat(8)}-1111-2222-3333-444444444444`;
+
+let home: string;
+let project: string;
+const savedHome = process.env.HOME;
+
+/** A session transcript plus session dir, `daysOld` days old, with incompressible content. */
+async function session(n: number, bytes: number, daysOld: number): Promise<void> {
+  const t = new Date(Date.now() - daysOld * DAY);
+  const transcript = join(project, `${uuid(n)}.jsonl`);
+  await writeFile(transcript, randomBytes(bytes / 2).toString('hex'));
+  await mkdir(join(project, uuid(n), 'subagents'), { recursive: true });
+  // Long enough to need a pax/ustar prefix path in the tar
+  await writeFile(join(project, uuid(n), 'subagents', `agent-${'x'.repeat(80)}.jsonl`), `{"n":${n}}\n`);
+  await utimes(transcript, t, t);
+  await utimes(join(project, uuid(n)), t, t);
+}
+
+beforeEach(async () => {
+  home = await mkdtemp(join(tmpdir(), 'guardian-archive-'));
+  process.env.HOME = home;
+  project = join(home, '.claude', 'projects', '-home-user-app');
+  await mkdir(project, { recursive: true });
+});
+
+afterEach(async () => {
+  process.env.HOME = savedHome;
+  await rm(home, { recursive: true, force: true });
+});
+
+describe('archive', () => {
+  it('packs sessions into an indexed .tar.gz and extracts them back byte for byte', async () => {
+    await session(1, 20_000, 5);
+    const original = await readFile(join(project, `${uuid(1)}.jsonl`));
+    const mtime = (await stat(join(project, `${uuid(1)}.jsonl`))).mtimeMs;
+
+    const entry = await archiveSessions(project, [join(project, `${uuid(1)}.jsonl`), join(project, uuid(1))]);
+    expect(entry.file).toBe(`${entry.id}_-home-user-app.tar.gz`);
+    expect(entry.sessions.map(s => s.kind)).toEqual(['file', 'dir']);
+    expect(entry.originalBytes).toBe(20_000 + 8);
+    expect(await readdir(project)).toEqual([]);
+    expect(await readArchiveIndex()).toEqual([entry]);
+    expect((await readJournal()).at(-1)).toMatchObject({ action: 'archived', target: project });
+
+    const result = await extractArchive(entry.id.slice(0, 17));
+    expect(result).toMatchObject({ files: 2, bytes: 20_008 });
+    expect(await readFile(join(project, `${uuid(1)}.jsonl`))).toEqual(original);
+    expect(Math.floor((await stat(join(project, `${uuid(1)}.jsonl`))).mtimeMs / 1000)).toBe(Math.floor(mtime / 1000));
+    expect(await readFile(join(project, uuid(1), 'subagents', `agent-${'x'.repeat(80)}.jsonl`), 'utf-8')).toBe('{"n":1}\n');
+  });
+
+  it('extracts one session elsewhere and refuses to overwrite', async () => {
+    await session(1, 1000, 5);
+    await session(2, 1000, 5);
+    const entry = await archiveSessions(project, (await readdir(project)).map(n => join(project, n)));
+    await writeFile(join(project, `${uuid(1)}.jsonl`), 'new');
+
+    await expect(extractArchive(entry.id)).rejects.toMatchObject({ code: 'ARCHIVE_EXTRACT_CONFLICT' });
+    expect(await readdir(project)).toEqual([`${uuid(1)}.jsonl`]);
+
+    const out = join(home, 'out');
+    const result = await extractArchive(entry.id, { destination: out, session: uuid(2) });
+    expect(result.files).toBe(2);
+    expect((await readdir(join(out, '-home-user-app'))).sort()).toEqual([uuid(2), `${uuid(2)}.jsonl`]);
+
+    await expect(extractArchive('nope')).rejects.toMatchObject({ code: 'ARCHIVE_UNKNOWN' });
+    await expect(extractArchive(entry.id, { session: 'ffff' })).rejects.toMatchObject({ code: 'ARCHIVE_UNKNOWN' });
+  });
+
+  it('prunes the oldest archives above maxTotalMB and drops missing files from the index', async () => {
+    const ids: string[] = [];
+    for (let n = 1; n <= 3; n++) {
+      await session(n, 400_000, 5);
+      const entry = await archiveSessions(project, [join(project, `${uuid(n)}.jsonl`)], new Date(Date.now() - (4 - n) * 1000));
+      ids.push(entry.id);
+    }
+    expect(findArchives(await readArchiveIndex(), ids[1])).toHaveLength(1);
+
+    // 400KB of hex each, about 200KB compressed: a 0.5MB cap keeps the newest two
+    const result = await pruneArchives({ ...ARCHIVE_CONFIG, maxTotalMB: 0.5 });
+    expect(result.pruned.map(e => e.id)).toEqual([ids[0]]);
+    expect((await readArchiveIndex()).map(e => e.id)).toEqual([ids[1], ids[2]]);
+    expect((await readJournal()).filter(e => e.action === 'archive-pruned')).toHaveLength(1);
+
+    const [second] = await readArchiveIndex();
+    await rm(join(getArchivePath(), second.file));
+    expect((await pruneArchives()).remaining).toBe(1);
+    expect(formatArchiveList(await readArchiveIndex())).toContain(ids[2]);
+
+    await pruneArchives(ARCHIVE_CONFIG, { all: true });
+    expect(await readArchiveIndex()).toEqual([]);
+  });
+
+  it('selects the oldest sessions that bring a project under its limit, never recent ones', async () => {
+    await session(1, 1000, 10);
+    await session(2, 1000, 8);
+    await session(3, 1000, 6);
+    await writeFile(join(project, `${uuid(4)}.jsonl`), 'x'.repeat(5000));
+    await writeFile(join(project, 'notes.txt'), 'x'.repeat(5000));
+
+    const paths = await selectSessionsToArchive(project, 1500, 24);
+    expect(paths.sort()).toEqual([
+      join(project, uuid(1)), join(project, `${uuid(1)}.jsonl`),
+      join(project, uuid(2)), join(project, `${uuid(2)}.jsonl`),
+    ].sort());
+    expect(await selectSessionsToArchive(project, 1_000_000, 24)).toHaveLength(6);
+  });
+
+  it('preflight fixes archive oversized projects instead of only warning', async () => {
+    await session(1, 40_000, 2);
+    await session(2, 40_000, 1.5);
+    await writeFile(join(project, `${uuid(3)}.jsonl`), 'x'.repeat(10_000));
+    // 0.06MB limit, no trimming or stale-session cleanup in the way
+    const config: GuardianConfig = {
+      ...DEFAULT_CONFIG,
+      maxProjectLogDirMB: 0.06,
+      thresholds: { ...THRESHOLDS, maxFileMB: 10, staleSessionDays: 30, diskFreeWarningGB: 0 },
+    };
+
+    const plan = await planFixes(config);
+    expect(plan.items.filter(i => i.op === 'archive').map(i => basename(i.path)).sort()).toEqual([uuid(1), `${uuid(1)}.jsonl`]);
+    const actions = await applyFixPlan(plan, config);
+    expect(actions.map(a => a.type)).toEqual(['archived']);
+    expect((await readdir(project)).sort()).toEqual([uuid(2), `${uuid(2)}.jsonl`, `${uuid(3)}.jsonl`]);
+    expect((await readArchiveIndex())[0].sessions.map(s => s.name).sort()).toEqual([uuid(1), `${uuid(1)}.jsonl`]);
+
+    // Nothing old enough is left: warn as before
+    const more = await applyFixPlan(await planFixes({ ...config, maxProjectLogDirMB: 0.005 }), { ...config, maxProjectLogDirMB: 0.005 });
+    expect(more.map(a => a.type)).toEqual(['archived', 'warning']);
+    expect(more[1].detail).toContain('after trimming and archiving');
+
+    const off = { ...config, maxProjectLogDirMB: 0.001, archive: { ...ARCHIVE_CONFIG, enabled: false } };
+    expect((await applyFixPlan(await planFixes(off), off)).map(a => a.type)).toEqual(['warning']);
+  });
+
+  it('archives planned sessions only while the project is still over its limit', async () => {
+    await session(1, 40_000, 2);
+    await writeFile(join(project, 'notes.txt'), 'x'.repeat(40_000));
+    const config: GuardianConfig = {
+      ...DEFAULT_CONFIG,
+      maxProjectLogDirMB: 0.06,
+      thresholds: { ...THRESHOLDS, maxFileMB: 10, staleSessionDays: 30, diskFreeWarningGB: 0 },
+    };
+    const plan = await planFixes(config);
+    expect(plan.items.map(i => i.op)).toEqual(['archive', 'archive']);
+
+    // Something outside the plan freed the space: nothing is archived
+    await rm(join(project, 'notes.txt'));
+    expect(await applyFixPlan(plan, config)).toEqual([]);
+    expect(await readArchiveIndex()).toEqual([]);
+
+    const forged = { ...plan, items: [{ ...plan.items[0], path: join(project, 'notes.txt') }] };
+    await expect(applyFixPlan(forged, config)).rejects.toMatchObject({ code: 'FIX_PLAN_INVALID' });
+  });
+
+  it('prunes only the archives a plan lists', async () => {
+    await session(1, 20_000, 5);
+    await session(2, 20_000, 4);
+    const first = await archiveSessions(project, [join(project, `${uuid(1)}.jsonl`)]);
+    const second = await archiveSessions(project, [join(project, `${uuid(2)}.jsonl`)]);
+    const config: GuardianConfig = {
+      ...DEFAULT_CONFIG,
+      thresholds: { ...THRESHOLDS, staleSessionDays: 30, diskFreeWarningGB: 0 },
+      archive: { ...ARCHIVE_CONFIG, maxTotalMB: (second.archiveBytes + 100) / 1024 / 1024 },
+    };
+
+    const plan = await planFixes(config);
+    expect(plan.items.map(i => [i.op, i.path])).toEqual([['prune', join(getArchivePath(), first.file)]]);
+    const actions = await applyFixPlan(plan, config);
+    expect(actions.map(a => a.type)).toEqual(['purged']);
+    expect((await readArchiveIndex()).map(e => e.id)).toEqual([second.id]);
+    expect((await readJournal()).at(-1)).toMatchObject({ action: 'archive-pruned' });
+
+    const forged = { ...plan, items: [{ ...plan.items[0], path: join(getArchivePath(), 'index.json') }] };
+    await expect(applyFixPlan(forged, config)).rejects.toMatchObject({ code: 'FIX_PLAN_INVALID', message: expect.stringContaining('only archives can be pruned') });
+  });
+});
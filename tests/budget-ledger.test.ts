@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Budget, BudgetPools } from '../src/budget.js';
+import { emptyBudget } from '../src/budget-store.js';
+import { saveBudget, readLedger, computeBudgetReport, formatBudgetReport, type LedgerEntry } from '../src/budget-ledger.js';
+import { BUDGET_THRESHOLDS } from '../src/defaults.js';
+
+const T0 = Date.parse('2026-05-01T12:00:00.000Z');
+const at = (seconds: number) => T0 + seconds * 1000;
+const owner = (pid: number) => ({ pid, sessionId: `sess000${pid}-4a1b`, cwd: '/work' });
+
+describe('budget ledger', () => {
+  describe('recording', () => {
+    it('records acquires, denials, releases and expiries with the pool state after each', () => {
+      const budget = new Budget(emptyBudget());
+      const lease = budget.acquire(3, 60, 'build', { owner: owner(10) }, at(0)).lease!;
+      budget.acquire(2, 60, 'tests', {}, at(1));
+      budget.acquire(1, 5, 'lint', {}, at(2));
+      budget.release(lease.id, at(30));
+      budget.expireLeases(at(60));
+
+      const entries = budget.takeLedgerEntries();
+      expect(entries.map(e => [e.event, e.reason, e.cause ?? null, e.inUse])).toEqual([
+        ['acquire', 'build', null, 3],
+        ['deny', 'tests', 'capacity', 3],
+        ['acquire', 'lint', null, 4],
+        ['release', 'build', 'released', 1],
+        ['expire', 'lint', 'ttl', 0],
+      ]);
+      expect(entries[0]).toMatchObject({ ownerPid: 10, sessionId: 'sess00010-4a1b', cap: 4, baseCap: 4 });
+      expect(entries[3].heldSeconds).toBe(30);
+      expect(budget.takeLedgerEntries()).toEqual([]);
+    });
+
+    it('records queue waits, timeouts and cap changes', () => {
+      const budget = new Budget(emptyBudget());
+      const held = budget.acquire(4, 600, 'holder', {}, at(0)).lease!;
+      budget.acquire(1, 60, 'patient', { waitSeconds: 60 }, at(0));
+      budget.acquire(1, 60, 'impatient', { waitSeconds: 5, priority: 'low' }, at(0));
+      budget.promoteWaiters(at(10));
+      budget.release(held.id, at(20));
+      budget.promoteWaiters(at(20));
+      budget.adjustCap('warn', at(21));
+
+      const entries = budget.takeLedgerEntries().slice(1);
+      expect(entries.map(e => [e.event, e.reason, e.cause ?? null])).toEqual([
+        ['queue', 'patient', null],
+        ['queue', 'impatient', null],
+        ['deny', 'impatient', 'timed-out'],
+        ['release', 'holder', 'released'],
+        ['acquire', 'patient', null],
+        ['cap', 'hang risk warn', null],
+      ]);
+      expect(entries[4].waitedSeconds).toBe(20);
+      expect(entries[5]).toMatchObject({ cap: 2, baseCap: 4 });
+    });
+
+    it('labels entries with their pool', () => {
+      const thresholds = { ...BUDGET_THRESHOLDS, pools: { tests: { baseCap: 2, warnCap: 1, criticalCap: 1 } } };
+      const pools = new BudgetPools(emptyBudget(thresholds), thresholds);
+      pools.pool('tests').acquire(1, 60, 'unit', {}, at(1));
+      pools.pool().acquire(1, 60, 'build', {}, at(0));
+      expect(pools.takeLedgerEntries().map(e => [e.pool, e.reason])).toEqual([['default', 'build'], ['tests', 'unit']]);
+    });
+  });
+
+  describe('computeBudgetReport', () => {
+    function entries(): LedgerEntry[] {
+      const budget = new Budget(emptyBudget());
+      const a = budget.acquire(2, 3600, 'build', { owner: owner(1) }, at(0)).lease!;
+      const b = budget.acquire(2, 3600, 'tests', { owner: owner(2) }, at(100)).lease!;
+      budget.acquire(1, 60, 'lint', { owner: owner(2) }, at(150));
+      budget.acquire(1, 60, 'lint', { owner: owner(2), waitSeconds: 120 }, at(160));
+      budget.release(a.id, at(200));
+      budget.promoteWaiters(at(200));
+      budget.adjustCap('critical', at(300));
+      budget.release(b.id, at(400));
+      budget.adjustCap('ok', at(500));
+      budget.adjustCap('ok', at(600));
+      return budget.takeLedgerEntries();
+    }
+
+    it('sums slot-seconds per reason and owner, and counts requests', () => {
+      const report = computeBudgetReport(entries(), { from: at(0), to: at(1000) });
+      expect(report).toMatchObject({
+        requests: 4,
+        granted: 3,
+        denied: 1,
+        denialRate: 0.25,
+        denials: { capacity: 1 },
+        queued: 1,
+        meanWaitSeconds: 40,
+        released: 2,
+        peakConcurrency: 4,
+      });
+      // build 2×200 + tests 2×300 + lint (queued, granted at 200, still held) 1×800
+      expect(report.slotSeconds).toBe(1800);
+      expect(report.byReason.map(u => [u.label, u.slotSeconds])).toEqual([['lint', 800], ['tests', 600], ['build', 400]]);
+      expect(report.byOwner[0]).toMatchObject({ label: 'PID 2 (session sess0002)', slotSeconds: 1400, leases: 2 });
+      // critical at 300 until restored at 600 (after 60s hysteresis)
+      expect(report.reducedCaps).toEqual([{ pool: 'default', seconds: 300, fraction: 0.3, lowestCap: 1 }]);
+    });
+
+    it('clips to the window and carries state in from before it', () => {
+      const report = computeBudgetReport(entries(), { from: at(350), to: at(450) });
+      expect(report.requests).toBe(0);
+      // tests 2×50 + lint 1×100
+      expect(report.slotSeconds).toBe(200);
+      expect(report.peakConcurrency).toBe(3);
+      expect(report.reducedCaps).toEqual([{ pool: 'default', seconds: 100, fraction: 1, lowestCap: 1 }]);
+    });
+
+    it('formats an empty range', () => {
+      const report = computeBudgetReport([], { from: at(0), to: at(60) });
+      expect(formatBudgetReport(report)).toContain('No budget activity in range.');
+    });
+
+    it('formats activity', () => {
+      const text = formatBudgetReport(computeBudgetReport(entries(), { from: at(0), to: at(1000) }));
+      expect(text).toContain('Requests: 4 | granted 3 | denied 1 (25% denied)');
+      expect(text).toContain('Reduced cap (default): 300s (30% of range, lowest 1)');
+      expect(text).toContain('By owner (slot-seconds):');
+    });
+  });
+
+  describe('saveBudget', () => {
+    let home: string;
+    const savedHome = process.env.HOME;
+
+    beforeEach(async () => {
+      home = await mkdtemp(join(tmpdir(), 'guardian-ledger-'));
+      process.env.HOME = home;
+    });
+
+    afterEach(async () => {
+      process.env.HOME = savedHome;
+      await rm(home, { recursive: true, force: true });
+    });
+
+    it('appends the entries of persisted changes', async () => {
+      const pools = new BudgetPools(emptyBudget(), BUDGET_THRESHOLDS);
+      pools.pool().acquire(1, 60, 'first');
+      await saveBudget(pools);
+      pools.pool().acquire(1, 60, 'second');
+      await saveBudget(pools);
+      expect((await readLedger()).map(e => e.reason)).toEqual(['first', 'second']);
+    });
+  });
+});
@@ -115,6 +115,32 @@ describe('budget MCP tools', () => {
     });
   });
 
+  describe('guardian_budget_renew', () => {
+    it('renews a lease and refuses an unknown one', { timeout: 15000 }, async () => {
+      await writeBudget(emptyBudget());
+      const { client, server } = await setupClientServer();
+
+      const acquireResult = await client.callTool({
+        name: 'guardian_budget_acquire',
+        arguments: { slots: 1, ttlSeconds: 60, reason: 'renew-test', heartbeatSeconds: 30 },
+      });
+      const acquireText = (acquireResult.content as Array<{ type: string; text: string }>)[0].text;
+      expect(acquireText).toContain('heartbeat=30s');
+      const leaseId = acquireText.match(/lease=([a-f0-9-]+)/)![1];
+
+      const renewResult = await client.callTool({ name: 'guardian_budget_renew', arguments: { leaseId, ttlSeconds: 300 } });
+      const renewText = (renewResult.content as Array<{ type: string; text: string }>)[0].text;
+      expect(renewText).toContain('Renewed');
+      expect(renewText).toContain('renewals=1');
+
+      const missing = await client.callTool({ name: 'guardian_budget_renew', arguments: { leaseId: 'no-such-lease' } });
+      expect((missing.content as Array<{ type: string; text: string }>)[0].text).toContain('Not renewed');
+
+      await client.callTool({ name: 'guardian_budget_release', arguments: { leaseId } });
+      await server.close();
+    });
+  });
+
   describe('guardian_recovery_plan', () => {
     it('is registered with correct metadata', async () => {
       const { client, server } = await setupClientServer();
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { acquireWithWait } from '../src/budget-queue.js';
+import { readBudget, writeBudget, withBudgetLock } from '../src/budget-store.js';
+import { BudgetPools } from '../src/budget.js';
+import { BUDGET_THRESHOLDS } from '../src/defaults.js';
+
+const thresholds = { ...BUDGET_THRESHOLDS, baseCap: 2 };
+
+describe('acquireWithWait', () => {
+  let home: string;
+  const savedHome = process.env.HOME;
+
+  beforeEach(async () => {
+    home = await mkdtemp(join(tmpdir(), 'guardian-queue-'));
+    process.env.HOME = home;
+  });
+
+  afterEach(async () => {
+    process.env.HOME = savedHome;
+    await rm(home, { recursive: true, force: true });
+  });
+
+  async function release(id: string): Promise<void> {
+    await withBudgetLock(async () => {
+      const pools = new BudgetPools((await readBudget())!, thresholds);
+      pools.release(id);
+      await writeBudget(pools.getData());
+    });
+  }
+
+  it('answers immediately without a wait time', async () => {
+    const held = await acquireWithWait(2, 60, 'holder', thresholds);
+    expect(held.granted).toBe(true);
+    const denied = await acquireWithWait(1, 60, 'no-wait', thresholds);
+    expect(denied).toMatchObject({ granted: false, queued: false, waitedSeconds: 0 });
+  });
+
+  it('waits in the queue and is granted when a slot frees up', async () => {
+    const held = await acquireWithWait(2, 60, 'holder', thresholds);
+    let queuedAt: number | null = null;
+    const waiting = acquireWithWait(1, 60, 'waiter', thresholds, {
+      waitSeconds: 10,
+      pollMs: 20,
+      onQueued: r => { queuedAt = r.queuePosition; },
+    });
+    await new Promise(r => setTimeout(r, 100));
+    expect(queuedAt).toBe(1);
+    await release(held.lease!.id);
+
+    const result = await waiting;
+    expect(result.granted).toBe(true);
+    expect(result.lease!.reason).toBe('waiter');
+    expect((await readBudget())!.queue).toEqual([]);
+  });
+
+  it('acquires from a named pool and rejects unknown pools', async () => {
+    const pooled = { ...thresholds, pools: { tests: { baseCap: 1, warnCap: 1, criticalCap: 1 } } };
+    expect((await acquireWithWait(1, 60, 'unit', pooled, { pool: 'tests' })).granted).toBe(true);
+    expect((await acquireWithWait(1, 60, 'unit-2', pooled, { pool: 'tests' })).granted).toBe(false);
+    // The default pool is untouched
+    expect((await acquireWithWait(2, 60, 'build', pooled)).granted).toBe(true);
+    expect((await readBudget())!.pools!.tests.leases).toHaveLength(1);
+
+    await expect(acquireWithWait(1, 60, 'x', pooled, { pool: 'gpu' })).rejects.toMatchObject({ code: 'BUDGET_POOL_UNKNOWN' });
+  });
+
+  it('leaves the queue without a lease when the wait is aborted', async () => {
+    await acquireWithWait(2, 60, 'holder', thresholds);
+    const controller = new AbortController();
+    const waiting = acquireWithWait(1, 60, 'waiter', thresholds, { waitSeconds: 60, pollMs: 5000, signal: controller.signal });
+    await new Promise(r => setTimeout(r, 100));
+    expect((await readBudget())!.queue).toHaveLength(1);
+
+    controller.abort();
+    const result = await waiting;
+    expect(result).toMatchObject({ granted: false, lease: null });
+    expect(result.reason).toContain('Cancelled');
+    const data = (await readBudget())!;
+    expect(data.queue).toEqual([]);
+    expect(data.leases.map(l => l.reason)).toEqual(['holder']);
+  });
+
+  it('releases a lease granted by someone else before the aborted waiter collected it', async () => {
+    const held = await acquireWithWait(2, 60, 'holder', thresholds);
+    const controller = new AbortController();
+    const waiting = acquireWithWait(1, 60, 'waiter', thresholds, { waitSeconds: 60, pollMs: 5000, signal: controller.signal });
+    await new Promise(r => setTimeout(r, 100));
+    // The daemon frees a slot and grants the queued request on its behalf
+    await release(held.lease!.id);
+    await withBudgetLock(async () => {
+      const pools = new BudgetPools((await readBudget())!, thresholds);
+      pools.pool().promoteWaiters();
+      await writeBudget(pools.getData());
+    });
+    expect((await readBudget())!.leases.map(l => l.reason)).toEqual(['waiter']);
+
+    controller.abort();
+    expect((await waiting).granted).toBe(false);
+    expect((await readBudget())!).toMatchObject({ queue: [], leases: [] });
+  });
+
+  it('gives up when the wait runs out', async () => {
+    await acquireWithWait(2, 60, 'holder', thresholds);
+    const result = await acquireWithWait(1, 60, 'waiter', thresholds, { waitSeconds: 1, pollMs: 50 });
+    expect(result.granted).toBe(false);
+    expect(result.reason).toContain('Timed out');
+    expect((await readBudget())!.queue).toEqual([]);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { Budget, type BudgetSummary } from '../src/budget.js';
+import { Budget, BudgetPools, formatBudget, formatLeaseLine, type BudgetSummary } from '../src/budget.js';
 import { emptyBudget, writeBudget, readBudget, type BudgetData } from '../src/budget-store.js';
 import { BUDGET_THRESHOLDS } from '../src/defaults.js';
 
@@ -77,6 +77,25 @@ describe('Budget', () => {
       budget.adjustCap('warn');
       expect(budget.currentCap).toBe(2);
     });
+
+    it('uses configured caps when thresholds are passed', () => {
+      const configured = new Budget(emptyBudget(), { ...BUDGET_THRESHOLDS, baseCap: 8, warnCap: 4, criticalCap: 2, hysteresisSeconds: 10 });
+      expect(configured.currentCap).toBe(8);
+      configured.adjustCap('critical');
+      expect(configured.currentCap).toBe(2);
+
+      const now = Date.now();
+      configured.adjustCap('ok', now);
+      configured.adjustCap('ok', now + 11000);
+      expect(configured.currentCap).toBe(8);
+    });
+
+    it('keeps a risk-reduced cap when the configured baseCap changes', () => {
+      budget.adjustCap('warn');
+      const configured = new Budget(budget.getData(), { ...BUDGET_THRESHOLDS, baseCap: 6 });
+      expect(configured.summarize().baseCap).toBe(6);
+      expect(configured.currentCap).toBe(BUDGET_THRESHOLDS.warnCap);
+    });
   });
 
   describe('lease management', () => {
@@ -166,6 +185,322 @@ describe('Budget', () => {
       expect(result.granted).toBe(false);
       expect(result.reason).toContain('TTL');
     });
+
+    it('clamps the TTL to maxLeaseSeconds', () => {
+      const lease = budget.acquire(1, 999_999, 'long').lease!;
+      const ttl = (Date.parse(lease.expiresAt) - Date.parse(lease.grantedAt)) / 1000;
+      expect(ttl).toBe(BUDGET_THRESHOLDS.maxLeaseSeconds);
+    });
+  });
+
+  describe('renewal and heartbeats', () => {
+    it('renew extends expiry from now and counts renewals', () => {
+      const lease = budget.acquire(1, 60, 'work').lease!;
+      const now = Date.parse(lease.grantedAt) + 50_000;
+      const result = budget.renew(lease.id, 60, now);
+      expect(result.renewed).toBe(true);
+      expect(Date.parse(result.lease!.expiresAt)).toBe(now + 60_000);
+      expect(result.lease!.renewals).toBe(1);
+      expect(result.lease!.lastHeartbeatAt).toBe(new Date(now).toISOString());
+    });
+
+    it('renew refuses unknown and expired leases', () => {
+      expect(budget.renew('nope', 60).renewed).toBe(false);
+      const lease = budget.acquire(1, 10, 'short').lease!;
+      const result = budget.renew(lease.id, 60, Date.parse(lease.grantedAt) + 11_000);
+      expect(result.renewed).toBe(false);
+      expect(result.reason).toContain('expired');
+    });
+
+    it('never extends a lease past its max lifetime', () => {
+      const capped = new Budget(emptyBudget(), { ...BUDGET_THRESHOLDS, maxLeaseSeconds: 100 });
+      const lease = capped.acquire(1, 60, 'work').lease!;
+      const granted = Date.parse(lease.grantedAt);
+
+      const result = capped.renew(lease.id, 60, granted + 50_000);
+      expect(result.capped).toBe(true);
+      expect(Date.parse(result.lease!.expiresAt)).toBe(granted + 100_000);
+
+      expect(capped.renew(lease.id, 60, granted + 99_000).reason).toContain('max lifetime');
+    });
+
+    it('reclaims a heartbeat lease after missed heartbeats, before its TTL', () => {
+      const lease = budget.acquire(1, 3600, 'hb', { heartbeatSeconds: 30 }).lease!;
+      const granted = Date.parse(lease.grantedAt);
+
+      // Renewed in time — kept
+      budget.renew(lease.id, 3600, granted + 60_000);
+      expect(budget.expireLeases(granted + 120_000)).toHaveLength(0);
+
+      // 3 intervals (90s) after the last heartbeat — reclaimed
+      const reclaimed = budget.expireLeases(granted + 60_000 + 91_000);
+      expect(reclaimed).toHaveLength(1);
+      expect(reclaimed[0].cause).toBe('heartbeat');
+      expect(budget.slotsInUse).toBe(0);
+    });
+
+    it('leaves plain TTL leases alone until they expire', () => {
+      const lease = budget.acquire(1, 600, 'ttl').lease!;
+      const granted = Date.parse(lease.grantedAt);
+      expect(budget.expireLeases(granted + 500_000)).toHaveLength(0);
+      expect(budget.expireLeases(granted + 600_000)[0].cause).toBe('ttl');
+    });
+  });
+
+  describe('lease owners', () => {
+    const owner = (pid: number) => ({ pid, sessionId: `sess-${pid}-0000`, cwd: '/work/app' });
+
+    it('records the owner and shows it on the lease line', () => {
+      const lease = budget.acquire(1, 60, 'build', { owner: owner(4242) }).lease!;
+      expect(lease.owner).toEqual(owner(4242));
+      expect(formatLeaseLine(lease)).toContain('owner PID 4242 (session sess-424) in /work/app');
+    });
+
+    it('reclaims leases whose owner PID is gone and keeps the rest', () => {
+      budget.acquire(1, 60, 'dead-a', { owner: owner(10) });
+      budget.acquire(1, 60, 'dead-b', { owner: owner(10) });
+      budget.acquire(1, 60, 'alive', { owner: owner(20) });
+      budget.acquire(1, 60, 'unowned');
+
+      const checked: number[] = [];
+      const reclaimed = budget.reclaimDeadOwners(pid => { checked.push(pid); return pid !== 10; });
+      expect(reclaimed.map(l => l.reason)).toEqual(['dead-a', 'dead-b']);
+      expect(reclaimed.every(l => l.cause === 'owner-exited')).toBe(true);
+      expect(checked).toEqual([10, 20]); // one liveness check per PID
+      expect(budget.getData().leases.map(l => l.reason)).toEqual(['alive', 'unowned']);
+    });
+
+    it('releases every lease of one owner', () => {
+      budget.acquire(1, 60, 'a', { owner: owner(10) });
+      budget.acquire(2, 60, 'b', { owner: owner(10) });
+      budget.acquire(1, 60, 'c', { owner: owner(20) });
+
+      expect(budget.releaseByOwner(10).map(l => l.reason)).toEqual(['a', 'b']);
+      expect(budget.slotsInUse).toBe(1);
+      expect(budget.releaseByOwner(10)).toEqual([]);
+    });
+  });
+
+  describe('queue', () => {
+    const T0 = Date.parse('2026-01-01T00:00:00Z');
+
+    it('queues when slots are short and grants in arrival order as slots free up', () => {
+      const holder = budget.acquire(4, 600, 'holder', {}, T0).lease!;
+      const a = budget.acquire(1, 60, 'a', { waitSeconds: 60 }, T0 + 1000);
+      const b = budget.acquire(1, 60, 'b', { waitSeconds: 60 }, T0 + 2000);
+      expect(a).toMatchObject({ granted: false, queued: true, queuePosition: 1 });
+      expect(b.queuePosition).toBe(2);
+      expect(budget.summarize(T0 + 2000)).toMatchObject({ queuedRequests: 2, queuedSlots: 2 });
+
+      expect(budget.promoteWaiters(T0 + 3000).granted).toEqual([]);
+      expect(budget.pollWaiter(a.waiterId!, T0 + 3000)).toMatchObject({ state: 'waiting', position: 1 });
+
+      budget.release(holder.id);
+      expect(budget.promoteWaiters(T0 + 4000).granted.map(w => w.reason)).toEqual(['a', 'b']);
+      const polled = budget.pollWaiter(a.waiterId!, T0 + 4000);
+      expect(polled.state).toBe('granted');
+      expect(polled.lease!.reason).toBe('a');
+      // Collected once, then gone
+      expect(budget.pollWaiter(a.waiterId!, T0 + 4000).state).toBe('gone');
+    });
+
+    it('does not let later small requests starve a large one at the head', () => {
+      const first = budget.acquire(3, 600, 'first', {}, T0).lease!;
+      const large = budget.acquire(3, 60, 'large', { waitSeconds: 60 }, T0);
+      // One slot is free, but the large request is ahead — no barging, queued or not
+      expect(budget.acquire(1, 60, 'small', {}, T0).reason).toContain('1 queued request(s) ahead');
+      const small = budget.acquire(1, 60, 'small', { waitSeconds: 60 }, T0);
+      expect(small.queuePosition).toBe(2);
+      expect(budget.promoteWaiters(T0).granted).toEqual([]);
+
+      budget.release(first.id);
+      const granted = budget.promoteWaiters(T0 + 1000).granted.map(w => w.reason);
+      expect(granted).toEqual(['large', 'small']);
+      expect(budget.pollWaiter(large.waiterId!, T0 + 1000).state).toBe('granted');
+    });
+
+    it('orders by priority class, and ages waiters up so low priority is served', () => {
+      budget.acquire(4, 600, 'holder', {}, T0);
+      const low = budget.acquire(1, 60, 'low', { waitSeconds: 600, priority: 'low' }, T0);
+      const high = budget.acquire(1, 60, 'high', { waitSeconds: 600, priority: 'high' }, T0 + 1000);
+      expect(budget.queuePosition(high.waiterId!, T0 + 1000)).toBe(1);
+      expect(budget.queuePosition(low.waiterId!, T0 + 1000)).toBe(2);
+
+      // After 2 × queueAgingSeconds the low waiter ranks as high, and it arrived first
+      const aged = T0 + 2 * BUDGET_THRESHOLDS.queueAgingSeconds * 1000;
+      expect(budget.queuePosition(low.waiterId!, aged)).toBe(1);
+    });
+
+    it('grants a waiter once adjustCap restores the cap', () => {
+      budget.adjustCap('critical', T0);
+      budget.acquire(1, 600, 'holder', {}, T0);
+      const w = budget.acquire(2, 60, 'wide', { waitSeconds: 600 }, T0);
+      expect(w.queued).toBe(true);
+
+      budget.adjustCap('ok', T0 + 1000);
+      budget.adjustCap('ok', T0 + 1000 + BUDGET_THRESHOLDS.hysteresisSeconds * 1000);
+      expect(budget.promoteWaiters(T0 + 62_000).granted).toHaveLength(1);
+      expect(budget.pollWaiter(w.waiterId!, T0 + 62_000).state).toBe('granted');
+    });
+
+    it('drops waiters whose wait ran out, and clamps the wait', () => {
+      budget.acquire(4, 600, 'holder', {}, T0);
+      const w = budget.acquire(1, 60, 'impatient', { waitSeconds: 10 }, T0);
+      expect(budget.pollWaiter(w.waiterId!, T0 + 10_000).state).toBe('timed-out');
+
+      const long = budget.acquire(1, 60, 'long', { waitSeconds: 999_999 }, T0);
+      expect(long.reason).toContain(`waiting up to ${BUDGET_THRESHOLDS.maxWaitSeconds}s`);
+      expect(budget.promoteWaiters(T0 + BUDGET_THRESHOLDS.maxWaitSeconds * 1000).timedOut).toHaveLength(1);
+    });
+
+    it('refuses to queue a request larger than the base cap', () => {
+      const result = budget.acquire(5, 60, 'huge', { waitSeconds: 60 }, T0);
+      expect(result.queued).toBe(false);
+      expect(result.reason).toContain('can never be granted');
+    });
+
+    it('releases a granted but uncollected lease on cancel, and drops waiters of exited owners', () => {
+      const holder = budget.acquire(4, 600, 'holder', {}, T0).lease!;
+      const w = budget.acquire(1, 60, 'w', { waitSeconds: 60 }, T0);
+      budget.acquire(1, 60, 'orphan', { waitSeconds: 60, owner: { pid: 10, sessionId: null, cwd: null } }, T0);
+      budget.reclaimDeadOwners(pid => pid !== 10);
+      expect(budget.queue(T0).map(x => x.reason)).toEqual(['w']);
+
+      budget.release(holder.id);
+      budget.promoteWaiters(T0);
+      expect(budget.slotsInUse).toBe(1);
+      expect(budget.cancelWaiter(w.waiterId!)).toBe(true);
+      expect(budget.slotsInUse).toBe(0);
+    });
+  });
+
+  describe('pools', () => {
+    const thresholds = {
+      ...BUDGET_THRESHOLDS,
+      pools: {
+        tests: { baseCap: 2, warnCap: 1, criticalCap: 1 },
+        previews: { baseCap: 3, warnCap: 3, criticalCap: 1, reduceOnRisk: 'critical' as const },
+      },
+    };
+
+    it('gives each pool its own caps and leases', () => {
+      const pools = new BudgetPools(emptyBudget(thresholds), thresholds);
+      expect(pools.names).toEqual(['default', 'tests', 'previews']);
+
+      expect(pools.pool('tests').acquire(2, 60, 't').granted).toBe(true);
+      expect(pools.pool('tests').acquire(1, 60, 't2').granted).toBe(false);
+      expect(pools.pool().acquire(4, 60, 'd').granted).toBe(true);
+
+      const data = pools.getData();
+      // The default pool keeps the pre-pools layout at the top level
+      expect(data.leases.map(l => l.reason)).toEqual(['d']);
+      expect(data.pools!.tests.leases.map(l => l.reason)).toEqual(['t']);
+      expect(data.pools!.tests.baseCap).toBe(2);
+    });
+
+    it('rejects an unknown pool', () => {
+      const pools = new BudgetPools(emptyBudget(thresholds), thresholds);
+      expect(() => pools.pool('gpu')).toThrow(expect.objectContaining({ code: 'BUDGET_POOL_UNKNOWN' }));
+    });
+
+    it('applies each pool\'s risk reduction setting', () => {
+      const pools = new BudgetPools(emptyBudget(thresholds), thresholds);
+      for (const name of pools.names) pools.pool(name).adjustCap('warn');
+      expect(pools.summarize().map(s => [s.pool, s.currentCap])).toEqual([['default', 2], ['tests', 1], ['previews', 3]]);
+
+      for (const name of pools.names) pools.pool(name).adjustCap('critical');
+      expect(pools.pool('previews').currentCap).toBe(1);
+    });
+
+    it('finds and releases leases in any pool', () => {
+      const pools = new BudgetPools(emptyBudget(thresholds), thresholds);
+      const owner = { pid: 7, sessionId: null, cwd: null };
+      const lease = pools.pool('previews').acquire(1, 60, 'p', { owner }).lease!;
+      pools.pool('tests').acquire(1, 60, 't', { owner });
+
+      expect(pools.findLease(lease.id)!.pool).toBe('previews');
+      expect(pools.release(lease.id)!.lease.reason).toBe('p');
+      expect(pools.release(lease.id)).toBeNull();
+      expect(pools.releaseByOwner(7).map(x => x.pool)).toEqual(['tests']);
+    });
+
+    it('keeps busy pools removed from config and drops idle ones', () => {
+      const pools = new BudgetPools(emptyBudget(thresholds), thresholds);
+      pools.pool('tests').acquire(1, 60, 't');
+      pools.pool('previews');
+      const data = pools.getData();
+
+      const reconfigured = new BudgetPools(data, BUDGET_THRESHOLDS);
+      expect(reconfigured.names).toEqual(['default', 'tests', 'previews']);
+      expect(Object.keys(reconfigured.getData().pools!)).toEqual(['tests']);
+    });
+
+    it('shows one section per pool, or the single-budget layout without pools', () => {
+      const single = new BudgetPools(emptyBudget(), BUDGET_THRESHOLDS);
+      expect(formatBudget(single)).toMatch(/^Budget: cap=4\/4/);
+
+      const pools = new BudgetPools(emptyBudget(thresholds), thresholds);
+      pools.pool('tests').acquire(1, 60, 'unit tests');
+      const text = formatBudget(pools);
+      expect(text).toContain('Budget pools: 3');
+      expect(text).toContain('tests: cap=2/2 | in-use=1 | available=1 | leases=1');
+      expect(text).toContain('"unit tests"');
+    });
+  });
+
+  describe('resource caps', () => {
+    const pressure = (p: number, reason = 'memory 93% in use') => ({
+      pressure: p,
+      reason,
+      metrics: { cores: 8, loadPerCore: 0.5, memoryUsed: 0.93, swapPagesPerSecond: 0, claudeRss: 0.2 },
+    });
+
+    it('scales the cap between baseCap and minCap and records why', () => {
+      expect(budget.adjustCap('ok', Date.now(), pressure(0.5))).toBe(true);
+      // 4 - 0.5 × (4 - 1) = 2.5 → 3
+      expect(budget.currentCap).toBe(3);
+      expect(budget.summarize()).toMatchObject({ resourceCap: 3, capReason: 'memory 93% in use', capSetByRisk: null });
+
+      budget.adjustCap('ok', Date.now(), pressure(1));
+      expect(budget.currentCap).toBe(1);
+      expect(budget.acquire(2, 60, 'x').reason).toContain('cap reduced by memory 93% in use');
+    });
+
+    it('follows falling pressure without waiting for hysteresis', () => {
+      budget.adjustCap('ok', Date.now(), pressure(1));
+      budget.adjustCap('ok', Date.now(), pressure(0));
+      expect(budget.currentCap).toBe(4);
+      expect(budget.summarize()).toMatchObject({ resourceCap: null, capReason: null, hysteresisRemainingSeconds: 0 });
+    });
+
+    it('takes the lower of the risk and resource caps', () => {
+      const now = Date.now();
+      budget.adjustCap('warn', now, pressure(0.2));
+      expect(budget.currentCap).toBe(2);
+      expect(budget.summarize(now).capReason).toBe('hang risk warn');
+
+      budget.adjustCap('warn', now, pressure(1, 'load 1.80/core on 8 cores'));
+      expect(budget.currentCap).toBe(1);
+      expect(budget.summarize(now).capReason).toBe('load 1.80/core on 8 cores');
+
+      // Risk recovered but still in hysteresis: both reasons bind at 2
+      budget.adjustCap('ok', now, pressure(0.7, 'load 1.80/core on 8 cores'));
+      expect(budget.currentCap).toBe(2);
+      expect(budget.summarize(now).capReason).toBe('hang risk warn; load 1.80/core on 8 cores');
+    });
+
+    it('leaves pools that opt out alone', () => {
+      const thresholds = { ...BUDGET_THRESHOLDS, pools: { gpu: { baseCap: 2, warnCap: 1, criticalCap: 1, reduceOnResources: false } } };
+      const pools = new BudgetPools(emptyBudget(thresholds), thresholds);
+      for (const name of pools.names) pools.pool(name).adjustCap('ok', Date.now(), pressure(1));
+      expect(pools.summarize().map(s => [s.pool, s.currentCap])).toEqual([['default', 1], ['gpu', 2]]);
+    });
+
+    it('keeps the resource cap when the configured baseCap changes', () => {
+      budget.adjustCap('ok', Date.now(), pressure(1));
+      const reopened = new Budget(budget.getData(), { ...BUDGET_THRESHOLDS, baseCap: 6 });
+      expect(reopened.currentCap).toBe(1);
+    });
   });
 
   describe('summarize', () => {
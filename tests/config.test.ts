@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  validateConfig, validateConfigFile, readConfigFile, writeConfigFile,
+  mergeConfig, setConfigValue, checkConfigConsistency, loadConfigWithSources, PROJECT_CONFIG_FILENAME,
+} from '../src/config.js';
+import { DEFAULT_CONFIG, THRESHOLDS, BUDGET_THRESHOLDS } from '../src/defaults.js';
+import { GuardianError } from '../src/errors.js';
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'guardian-config-'));
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe('config', () => {
+  describe('validateConfig', () => {
+    it('accepts an empty object', () => {
+      const result = validateConfig({});
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('accepts partial thresholds and budget sections', () => {
+      const result = validateConfig({
+        maxProjectLogDirMB: 500,
+        thresholds: { retainDays: 14, cpuHotPercent: 90 },
+        budget: { baseCap: 8 },
+      });
+      expect(result.valid).toBe(true);
+      expect(result.config!.thresholds!.retainDays).toBe(14);
+    });
+
+    it('rejects unknown keys', () => {
+      const result = validateConfig({ thresholds: { retainDayz: 14 } });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('thresholds');
+    });
+
+    it('rejects wrong types with the key path', () => {
+      const result = validateConfig({ budget: { baseCap: 'four' } });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatch(/^budget\.baseCap:/);
+    });
+
+    it('rejects out-of-range values', () => {
+      const result = validateConfig({ thresholds: { cpuLowThreshold: 150 } });
+      expect(result.valid).toBe(false);
+    });
+
+    it('accepts http(s) webhook URLs and rejects other schemes', () => {
+      expect(validateConfig({ notifications: { webhookUrl: 'https://hooks.example.com/x' } }).valid).toBe(true);
+      expect(validateConfig({ notifications: { webhookUrl: null } }).valid).toBe(true);
+      const result = validateConfig({ notifications: { webhookUrl: 'file:///etc/passwd' } });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatch(/^notifications\.webhookUrl:/);
+    });
+
+    it('rejects redaction rules whose pattern does not compile', () => {
+      expect(validateConfig({ redaction: { rules: [{ name: 'ticket', pattern: 'ACME-\\d+' }] } }).valid).toBe(true);
+      const result = validateConfig({ redaction: { rules: [{ name: 'bad', pattern: '(' }] } });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatch(/^redaction\.rules\.0\.pattern:/);
+    });
+  });
+
+  describe('checkConfigConsistency', () => {
+    it('passes for defaults', () => {
+      expect(checkConfigConsistency(DEFAULT_CONFIG)).toHaveLength(0);
+    });
+
+    it('flags warnCap above baseCap', () => {
+      const config = mergeConfig(DEFAULT_CONFIG, { budget: { baseCap: 2, warnCap: 3 } });
+      const errors = checkConfigConsistency(config);
+      expect(errors.some(e => e.includes('budget.warnCap'))).toBe(true);
+    });
+
+    it('checks each pool against its own effective caps', () => {
+      const config = mergeConfig(DEFAULT_CONFIG, { budget: { pools: { tests: { baseCap: 1 } } } });
+      // warnCap 2 is inherited from the top level and exceeds the pool's baseCap
+      expect(checkConfigConsistency(config)).toEqual([
+        'budget.pools.tests.warnCap (2) must not exceed its baseCap (1)',
+      ]);
+    });
+
+    it('flags resource metric bounds that are out of order', () => {
+      const config = mergeConfig(DEFAULT_CONFIG, { budget: { resources: { memory: { low: 0.9, high: 0.8 }, swap: { formula: 'off', low: 5, high: 1 } } } });
+      expect(checkConfigConsistency(config)).toEqual([
+        'budget.resources.memory.low (0.9) must be below its high (0.8)',
+      ]);
+    });
+
+    it('flags an activity quorum larger than the enabled sources', () => {
+      const config = mergeConfig(DEFAULT_CONFIG, { activity: { sources: ['cpu'], quorum: 2 } });
+      const errors = checkConfigConsistency(config);
+      expect(errors.some(e => e.includes('activity.quorum'))).toBe(true);
+    });
+
+    it('flags a leak minimum span longer than the window', () => {
+      const config = mergeConfig(DEFAULT_CONFIG, { leaks: { windowSeconds: 600 } });
+      expect(checkConfigConsistency(config)).toEqual([
+        'leaks.minSpanSeconds (900) must not exceed leaks.windowSeconds (600)',
+      ]);
+    });
+  });
+
+  describe('mergeConfig', () => {
+    it('overrides only the given keys', () => {
+      const merged = mergeConfig(DEFAULT_CONFIG, { thresholds: { retainDays: 30 } });
+      expect(merged.thresholds!.retainDays).toBe(30);
+      expect(merged.thresholds!.maxFileMB).toBe(THRESHOLDS.maxFileMB);
+      expect(merged.budget).toEqual(BUDGET_THRESHOLDS);
+      expect(merged.maxProjectLogDirMB).toBe(DEFAULT_CONFIG.maxProjectLogDirMB);
+    });
+
+    it('merges budget pools per pool', () => {
+      const global = mergeConfig(DEFAULT_CONFIG, { budget: { pools: { tests: { baseCap: 2, warnCap: 1 }, builds: { baseCap: 1 } } } });
+      const merged = mergeConfig(global, { budget: { pools: { tests: { baseCap: 3 } } } });
+      expect(merged.budget!.pools).toEqual({ tests: { baseCap: 3, warnCap: 1 }, builds: { baseCap: 1 } });
+    });
+
+    it('merges resource metrics per metric', () => {
+      const merged = mergeConfig(DEFAULT_CONFIG, { budget: { resources: { enabled: true, load: { high: 2 } } } });
+      expect(merged.budget!.resources.enabled).toBe(true);
+      expect(merged.budget!.resources.load).toEqual({ ...BUDGET_THRESHOLDS.resources.load, high: 2 });
+      expect(merged.budget!.resources.memory).toEqual(BUDGET_THRESHOLDS.resources.memory);
+    });
+
+    it('does not mutate the defaults', () => {
+      mergeConfig(DEFAULT_CONFIG, { thresholds: { retainDays: 30 } });
+      expect(THRESHOLDS.retainDays).toBe(7);
+    });
+  });
+
+  describe('readConfigFile / writeConfigFile', () => {
+    it('returns null for a missing file', async () => {
+      expect(await readConfigFile(join(tempDir, 'nope.json'))).toBeNull();
+    });
+
+    it('round-trips a config file', async () => {
+      const f = join(tempDir, 'config.json');
+      await writeConfigFile({ budget: { baseCap: 6 } }, f);
+      const read = await readConfigFile(f);
+      expect(read).toEqual({ budget: { baseCap: 6 } });
+    });
+
+    it('throws CONFIG_INVALID for a config path it cannot read', async () => {
+      const f = join(tempDir, 'config.json');
+      await mkdir(f);
+      await expect(readConfigFile(f)).rejects.toMatchObject({ code: 'CONFIG_INVALID', message: expect.stringContaining('EISDIR') });
+    });
+
+    it('throws CONFIG_INVALID for malformed JSON', async () => {
+      const f = join(tempDir, 'config.json');
+      await writeFile(f, '{ not json');
+      await expect(readConfigFile(f)).rejects.toBeInstanceOf(GuardianError);
+      await expect(readConfigFile(f)).rejects.toMatchObject({ code: 'CONFIG_INVALID' });
+    });
+
+    it('throws CONFIG_INVALID for schema violations', async () => {
+      const f = join(tempDir, 'config.json');
+      await writeFile(f, JSON.stringify({ hangNoActivitySeconds: -1 }));
+      await expect(readConfigFile(f)).rejects.toMatchObject({ code: 'CONFIG_INVALID' });
+    });
+  });
+
+  describe('loadConfigWithSources', () => {
+    it('refuses notifications in a project override file', async () => {
+      await writeFile(join(tempDir, PROJECT_CONFIG_FILENAME), JSON.stringify({ notifications: { command: 'curl evil' } }));
+      await expect(loadConfigWithSources(tempDir)).rejects.toMatchObject({ code: 'CONFIG_INVALID' });
+    });
+
+    it('refuses budget caps and pools in a project override file', async () => {
+      for (const budget of [{ baseCap: 20 }, { pools: { tests: { baseCap: 9 } } }]) {
+        await writeFile(join(tempDir, PROJECT_CONFIG_FILENAME), JSON.stringify({ budget }));
+        await expect(loadConfigWithSources(tempDir)).rejects.toMatchObject({ code: 'CONFIG_INVALID', message: expect.stringContaining('"budget"') });
+      }
+    });
+
+    it('refuses deep capture settings in a project override file', async () => {
+      await writeFile(join(tempDir, PROJECT_CONFIG_FILENAME), JSON.stringify({ deepCapture: { inspector: true } }));
+      await expect(loadConfigWithSources(tempDir)).rejects.toMatchObject({ code: 'CONFIG_INVALID', message: expect.stringContaining('"deepCapture"') });
+    });
+
+    it('refuses trash settings in a project override file', async () => {
+      await writeFile(join(tempDir, PROJECT_CONFIG_FILENAME), JSON.stringify({ trash: { enabled: false } }));
+      await expect(loadConfigWithSources(tempDir)).rejects.toMatchObject({ code: 'CONFIG_INVALID', message: expect.stringContaining('"trash"') });
+    });
+
+    it('refuses retention overrides in a project override file', async () => {
+      await writeFile(join(tempDir, PROJECT_CONFIG_FILENAME), JSON.stringify({ retention: { '*': { maxSessions: 1 } } }));
+      await expect(loadConfigWithSources(tempDir)).rejects.toMatchObject({ code: 'CONFIG_INVALID', message: expect.stringContaining('"retention"') });
+    });
+
+    it('refuses archive settings in a project override file', async () => {
+      await writeFile(join(tempDir, PROJECT_CONFIG_FILENAME), JSON.stringify({ archive: { maxTotalMB: 0 } }));
+      await expect(loadConfigWithSources(tempDir)).rejects.toMatchObject({ code: 'CONFIG_INVALID', message: expect.stringContaining('"archive"') });
+    });
+
+    it('refuses a project override that turns redaction off', async () => {
+      await writeFile(join(tempDir, PROJECT_CONFIG_FILENAME), JSON.stringify({ redaction: { level: 'off' } }));
+      await expect(loadConfigWithSources(tempDir)).rejects.toMatchObject({ code: 'CONFIG_INVALID' });
+    });
+  });
+
+  describe('validateConfigFile', () => {
+    it('reports errors without throwing', async () => {
+      const f = join(tempDir, 'config.json');
+      await writeFile(f, JSON.stringify({ budget: { criticalCap: 3 } }));
+      const result = await validateConfigFile(f);
+      expect(result!.valid).toBe(false);
+      expect(result!.errors[0]).toContain('criticalCap');
+    });
+
+    it('returns null for a missing file', async () => {
+      expect(await validateConfigFile(join(tempDir, 'nope.json'))).toBeNull();
+    });
+
+    it('reports an unreadable file as invalid', async () => {
+      await mkdir(join(tempDir, 'dir.json'));
+      expect((await validateConfigFile(join(tempDir, 'dir.json')))!.errors[0]).toContain('EISDIR');
+    });
+  });
+
+  describe('setConfigValue', () => {
+    it('sets a nested key, parsing the value as JSON', () => {
+      const updated = setConfigValue({}, 'thresholds.retainDays', '14');
+      expect(updated.thresholds!.retainDays).toBe(14);
+    });
+
+    it('sets a boolean top-level key', () => {
+      const updated = setConfigValue({ maxProjectLogDirMB: 300 }, 'autoRestart', 'true');
+      expect(updated.autoRestart).toBe(true);
+      expect(updated.maxProjectLogDirMB).toBe(300);
+    });
+
+    it('sets a key of a named pool and rejects reserved pool names', () => {
+      const updated = setConfigValue({}, 'budget.pools.tests.baseCap', '2');
+      expect(updated.budget!.pools).toEqual({ tests: { baseCap: 2 } });
+      expect(() => setConfigValue({}, 'budget.pools.default.baseCap', '2')).toThrow(/pool names/);
+    });
+
+    it('rejects invalid values', () => {
+      expect(() => setConfigValue({}, 'budget.baseCap', 'lots')).toThrow(GuardianError);
+    });
+
+    it('rejects unknown keys', () => {
+      expect(() => setConfigValue({}, 'thresholds.nope', '1')).toThrow(/Cannot set/);
+    });
+
+    it('rejects keys that would reach Object.prototype', () => {
+      for (const key of ['__proto__.polluted', 'constructor.prototype.polluted', 'budget.__proto__.polluted']) {
+        expect(() => setConfigValue({}, key, '1')).toThrow(/contains/);
+      }
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+
+    it('does not mutate the input', async () => {
+      const input = { budget: { baseCap: 4 } };
+      setConfigValue(input, 'budget.baseCap', '6');
+      expect(input.budget.baseCap).toBe(4);
+    });
+  });
+
+  it('writes pretty-printed JSON', async () => {
+    const f = join(tempDir, 'config.json');
+    await writeConfigFile({ autoRestart: true }, f);
+    const content = await readFile(f, 'utf-8');
+    expect(content).toContain('\n  "autoRestart": true');
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { spawn } from 'child_process';
+import { createServer } from 'http';
+import type { AddressInfo, Socket } from 'net';
+import {
+  parseProcStatus, catchesSignal, parseTaskStat, decodeProcAddress, parseNetSockets, parseUnixSockets,
+  captureDeepState, formatDeepCaptureLine,
+} from '../src/deep-capture.js';
+import { encodeFrame, decodeFrame, captureJsStack } from '../src/inspector-client.js';
+import { DEEP_CAPTURE_CONFIG } from '../src/defaults.js';
+
+const isLinux = process.platform === 'linux';
+
+const TCP = `  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode
+   0: 0100007F:2405 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 41234 1 0000000000000000 100 0 0 10 0
+   1: 0100007F:A1B2 0100007F:01BB 01 00000000:00000000 00:00000000 00000000  1000        0 41235 1 0000000000000000 20 4 30 10 -1
+`;
+
+const TCP6 = `  sl  local_address                         remote_address                        st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode
+   0: 00000000000000000000000001000000:0050 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 51000 1 0000000000000000 100 0 0 10 0
+`;
+
+const UNIX = `Num       RefCount Protocol Flags    Type St Inode Path
+0000000000000000: 00000002 00000000 00010000 0001 01 61000 /tmp/app.sock
+0000000000000000: 00000003 00000000 00000000 0001 03 61001
+`;
+
+describe('deep-capture', () => {
+  it('parses /proc/<pid>/status and reads the caught-signal mask', () => {
+    const status = parseProcStatus('Name:\tnode\nState:\tS (sleeping)\nThreads:\t11\nSigCgt:\t0000000108004202\n');
+    expect(status.State).toBe('S (sleeping)');
+    expect(status.Threads).toBe('11');
+    // 0x4202 has bits 1, 9 and 14 set: signals 2 (INT), 10 (USR1) and 15 (TERM)
+    expect(catchesSignal(status, 10)).toBe(true);
+    expect(catchesSignal(status, 2)).toBe(true);
+    expect(catchesSignal(status, 12)).toBe(false);
+    expect(catchesSignal({}, 10)).toBe(false);
+  });
+
+  it('parses task stat lines whose name contains spaces and parentheses', () => {
+    const line = '4321 (node (worker) 1) S 1 4321 4321 0 -1 4194560 100 0 0 0 250 75 0 0 20 0 11 0 1000 0 0';
+    expect(parseTaskStat(line)).toEqual({ tid: 4321, name: 'node (worker) 1', state: 'S', ticks: 325 });
+    expect(parseTaskStat('garbage')).toBeNull();
+  });
+
+  it('decodes IPv4 and IPv6 /proc/net addresses', () => {
+    expect(decodeProcAddress('0100007F:1F90')).toBe('127.0.0.1:8080');
+    expect(decodeProcAddress('00000000000000000000000001000000:0050')).toBe('[::1]:80');
+    expect(decodeProcAddress('00000000000000000000000000000000:0000')).toBe('[::]:0');
+  });
+
+  it('parses TCP, UDP and unix socket tables', () => {
+    expect(parseNetSockets(TCP, 'tcp')).toEqual([
+      { protocol: 'tcp', inode: 41234, local: '127.0.0.1:9221', remote: null, state: 'LISTEN' },
+      { protocol: 'tcp', inode: 41235, local: '127.0.0.1:41394', remote: '127.0.0.1:443', state: 'ESTABLISHED' },
+    ]);
+    expect(parseNetSockets(TCP6, 'tcp6')[0]).toMatchObject({ local: '[::1]:80', state: 'LISTEN' });
+    expect(parseNetSockets(TCP.replace(' 0A ', ' 07 '), 'udp')[0].state).toBe('UNCONN');
+    expect(parseUnixSockets(UNIX)).toEqual([
+      { protocol: 'unix', inode: 61000, local: '/tmp/app.sock', remote: null, state: 'LISTEN' },
+      { protocol: 'unix', inode: 61001, local: null, remote: null, state: 'CONNECTED' },
+    ]);
+  });
+
+  it('round-trips WebSocket frames of every length encoding', () => {
+    for (const size of [5, 300, 70000]) {
+      const text = 'x'.repeat(size);
+      const frame = encodeFrame(text);
+      const decoded = decodeFrame(frame)!;
+      expect(decoded.opcode).toBe(1);
+      expect(decoded.fin).toBe(true);
+      expect(decoded.length).toBe(frame.length);
+      expect(decoded.payload.toString()).toBe(text);
+      expect(decodeFrame(frame.subarray(0, frame.length - 1))).toBeNull();
+    }
+  });
+
+  it('closes an inspector session that only opens after the timeout', async () => {
+    // A fake inspector that answers /json/list at once but the WebSocket upgrade late
+    let upgraded: Socket | null = null;
+    let received = 0;
+    const server = createServer((_req, res) => {
+      const { port } = server.address() as AddressInfo;
+      res.end(JSON.stringify([{ webSocketDebuggerUrl: `ws://127.0.0.1:${port}/session` }]));
+    });
+    server.on('upgrade', (_req, socket: Socket) => {
+      socket.on('data', (chunk: Buffer) => { received += chunk.length; });
+      socket.on('error', () => { /* the client hung up */ });
+      setTimeout(() => {
+        socket.write('HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n');
+        upgraded = socket;
+      }, 200);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      await expect(captureJsStack(port, 100)).rejects.toThrow(/timed out after 100ms/);
+      const closed = await new Promise<boolean>((resolve) => {
+        const started = Date.now();
+        const poll = setInterval(() => {
+          if (upgraded?.destroyed || upgraded?.readableEnded) resolve(true);
+          else if (Date.now() - started > 2000) resolve(false);
+          else return;
+          clearInterval(poll);
+        }, 20);
+      });
+      expect(closed).toBe(true);
+      // No Debugger.enable / pause was sent on the late session
+      expect(received).toBe(0);
+    } finally {
+      (upgraded as Socket | null)?.destroy();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it.runIf(isLinux)('captures status, threads and sockets of a live process', async () => {
+    const capture = await captureDeepState(process.pid, { config: { ...DEEP_CAPTURE_CONFIG, threadSampleMs: 50 } });
+    expect(capture.pid).toBe(process.pid);
+    expect(capture.status!.Name).toBeTruthy();
+    expect(capture.threads.length).toBeGreaterThan(0);
+    expect(capture.threads.some(t => t.tid === process.pid)).toBe(true);
+    expect(capture.inspector).toBeNull();
+    expect(formatDeepCaptureLine(capture)).toMatch(new RegExp(`^PID ${process.pid}: `));
+  });
+
+  it.runIf(isLinux)('records unreadable files instead of throwing', async () => {
+    const capture = await captureDeepState(999999999);
+    expect(capture.status).toBeNull();
+    expect(capture.errors.some(e => e.startsWith('status: '))).toBe(true);
+  });
+
+  it.runIf(isLinux)('pulls a JS stack from a Node process via SIGUSR1 and closes the inspector again', async () => {
+    const child = spawn(process.execPath, ['-e', 'function spin() { for (;;) {} } setTimeout(spin, 10)'], { stdio: 'ignore' });
+    try {
+      await new Promise(r => setTimeout(r, 300));
+      const capture = await captureDeepState(child.pid!, {
+        inspector: true,
+        config: { ...DEEP_CAPTURE_CONFIG, threadSampleMs: 50, inspectorTimeoutMs: 8000 },
+      });
+      expect(capture.inspector!.error).toBeNull();
+      expect(capture.inspector!.signalled).toBe(true);
+      expect(capture.inspector!.frames[0].functionName).toBe('spin');
+      // The busy JS thread shows up at the top of the thread list
+      expect(capture.threads[0].cpuPercent).toBeGreaterThan(50);
+      await new Promise(r => setTimeout(r, 300));
+      const after = await captureDeepState(child.pid!, { config: { ...DEEP_CAPTURE_CONFIG, threadSampleMs: 10 } });
+      expect(after.sockets.filter(s => s.state === 'LISTEN')).toEqual([]);
+    } finally {
+      child.kill('SIGKILL');
+    }
+  }, 15000);
+
+  it.runIf(isLinux)('does not signal a process without a SIGUSR1 handler', async () => {
+    const child = spawn('sleep', ['30'], { stdio: 'ignore' });
+    try {
+      await new Promise(r => setTimeout(r, 100));
+      const capture = await captureDeepState(child.pid!, { inspector: true, config: { ...DEEP_CAPTURE_CONFIG, threadSampleMs: 10 } });
+      expect(capture.inspector!.signalled).toBe(false);
+      expect(capture.inspector!.error).toMatch(/no SIGUSR1 handler/);
+      expect(child.exitCode).toBeNull();
+    } finally {
+      child.kill('SIGKILL');
+    }
+  });
+});
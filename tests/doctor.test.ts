@@ -60,13 +60,29 @@ describe('doctor', () => {
         processSnapshot: {
           timestamp: '2026-02-27T00:00:00.000Z',
           processes: [
-            { pid: 123, name: 'claude', cpuPercent: 25, memoryMB: 512, uptimeSeconds: 3600, handleCount: 150 },
+            { pid: 123, name: 'claude', cpuPercent: 25, memoryMB: 512, uptimeSeconds: 3600, handleCount: 150, handles: null, tree: null },
+            {
+              pid: 124, name: 'claude', cpuPercent: 5, memoryMB: 300, uptimeSeconds: 60, handleCount: 40,
+              handles: {
+                pid: 124, total: 40, byType: { file: 30, socket: 6, pipe: 2, inotify: 0, anon: 2, other: 0 },
+                topPaths: [], softLimit: 1024, hardLimit: 4096, usedFraction: 0.039,
+              },
+              tree: null,
+            },
           ],
           activitySignals: { logLastModifiedSecondsAgo: 5, cpuActive: true, sources: ['log-mtime', 'cpu'] },
         },
         timeline: [
           { timestamp: '2026-02-27T00:00:00.000Z', type: 'risk_change', detail: 'Current risk: ok | attention: none' },
         ],
+        deepCapture: [{
+          pid: 123, capturedAt: '2026-02-27T00:00:00.000Z',
+          status: { State: 'S (sleeping)' }, wchan: 'ep_poll', kernelStack: null,
+          threads: [{ tid: 123, name: 'node', state: 'S', cpuPercent: 0.5 }, { tid: 124, name: 'libuv-worker', state: 'S', cpuPercent: 0 }],
+          sockets: [{ protocol: 'tcp', inode: 1, local: '127.0.0.1:40000', remote: '127.0.0.1:443', state: 'ESTABLISHED' }],
+          inspector: { port: 9229, signalled: true, frames: [{ functionName: 'poll', url: 'file:///app.js', line: 3, column: 1 }], error: null },
+          errors: ['stack: EACCES'],
+        }],
       };
 
       const report = formatDoctorReport(summary);
@@ -84,7 +100,9 @@ describe('doctor', () => {
       // Phase 3: process snapshot and timeline
       expect(report).toContain('Process Snapshot:');
       expect(report).toContain('PID 123');
+      expect(report).toContain('handles=40 (file 30, socket 6, pipe 2, anon 2; limit 1024)');
       expect(report).toContain('Timeline:');
+      expect(report).toContain('PID 123: S (sleeping) | wchan=ep_poll | 2 threads (busiest node 0.5%) | 1 sockets | js stack: 1 frames at poll');
     });
 
     it('handles empty state gracefully', () => {
@@ -109,6 +127,7 @@ describe('doctor', () => {
           activitySignals: { logLastModifiedSecondsAgo: -1, cpuActive: false, sources: [] },
         },
         timeline: [],
+        deepCapture: null,
       };
 
       const report = formatDoctorReport(summary);
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, utimes, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { hostname, tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+import { acquireFileLock, withFileLock, isPidAlive, readLockInfo } from '../src/file-lock.js';
+
+const execFileAsync = promisify(execFile);
+const SRC = join(dirname(fileURLToPath(import.meta.url)), '..', 'src');
+
+// Far above pid_max, so never alive
+const DEAD_PID = 2_000_000_001;
+
+/** Transpile `entry` and its runtime imports from src/ into `outDir` so plain node can run them. */
+async function transpileClosure(entries: string[], outDir: string): Promise<void> {
+  const pending = [...entries];
+  const done = new Set<string>();
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    if (done.has(name)) continue;
+    done.add(name);
+    const source = await readFile(join(SRC, `${name}.ts`), 'utf-8');
+    for (const m of source.matchAll(/^(?:import|export) (?!type )[^;]*? from '\.\/([\w-]+)\.js'/gm)) {
+      pending.push(m[1]);
+    }
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.ES2022, target: ts.ScriptTarget.ES2022 },
+    });
+    await writeFile(join(outDir, `${name}.js`), outputText);
+  }
+  await writeFile(join(outDir, 'package.json'), '{ "type": "module" }');
+}
+
+/**
+ * Each worker repeatedly acquires one slot, holds it briefly and releases it, logging
+ * "+" after a grant and "-" before the release. The log undercounts real holders, so
+ * its running sum exceeding the cap proves an over-grant.
+ */
+const WORKER = `
+import { appendFileSync } from 'fs';
+import { withBudgetLock, readBudget, writeBudget, emptyBudget } from './budget-store.js';
+import { Budget } from './budget.js';
+
+const [iterations, cap, logPath] = [Number(process.argv[2]), Number(process.argv[3]), process.argv[4]];
+const thresholds = { baseCap: cap, warnCap: 1, criticalCap: 1, hysteresisSeconds: 60 };
+const sleep = ms => new Promise(r => setTimeout(r, ms));
+let granted = 0;
+
+for (let i = 0; i < iterations; i++) {
+  const lease = await withBudgetLock(async () => {
+    const budget = new Budget(await readBudget() ?? emptyBudget(thresholds), thresholds);
+    const result = budget.acquire(1, 3600, 'stress-' + process.pid);
+    await writeBudget(budget.getData());
+    return result.lease;
+  });
+  if (!lease) { await sleep(Math.random() * 5); continue; }
+  granted++;
+  appendFileSync(logPath, '+\\n');
+  await sleep(Math.random() * 10);
+  appendFileSync(logPath, '-\\n');
+  await withBudgetLock(async () => {
+    const budget = new Budget(await readBudget(), thresholds);
+    budget.release(lease.id);
+    await writeBudget(budget.getData());
+  });
+}
+console.log(JSON.stringify({ granted }));
+`;
+
+describe('file-lock', () => {
+  let dir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'guardian-lock-'));
+    lockPath = join(dir, 'budget.json.lock');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes the owner and removes the lock on release', async () => {
+    const release = await acquireFileLock(lockPath);
+    const info = await readLockInfo(lockPath);
+    expect(info).toMatchObject({ pid: process.pid, hostname: hostname() });
+    await release();
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it('serializes holders', async () => {
+    const order: string[] = [];
+    const hold = (name: string) => withFileLock(lockPath, async () => {
+      order.push(`${name}:in`);
+      await new Promise(r => setTimeout(r, 20));
+      order.push(`${name}:out`);
+    });
+    await Promise.all([hold('a'), hold('b')]);
+    // Either may win the create; each holder's in/out must be adjacent
+    expect(order.slice().sort()).toEqual(['a:in', 'a:out', 'b:in', 'b:out']);
+    for (const i of [0, 2]) {
+      const [name] = order[i].split(':');
+      expect(order.slice(i, i + 2)).toEqual([`${name}:in`, `${name}:out`]);
+    }
+  });
+
+  it('takes over a lock whose owner PID is gone', async () => {
+    expect(isPidAlive(DEAD_PID)).toBe(false);
+    await writeFile(lockPath, JSON.stringify({ pid: DEAD_PID, hostname: hostname(), token: 'old', acquiredAt: new Date().toISOString() }));
+    const release = await acquireFileLock(lockPath, { timeoutMs: 1000 });
+    expect((await readLockInfo(lockPath))!.pid).toBe(process.pid);
+    await release();
+  });
+
+  it('takes over a live owner\'s lock only once it stops refreshing it for staleMs', async () => {
+    await writeFile(lockPath, JSON.stringify({ pid: process.pid, hostname: hostname(), token: 'held', acquiredAt: new Date().toISOString() }));
+    await expect(acquireFileLock(lockPath, { timeoutMs: 150, staleMs: 60_000 }))
+      .rejects.toMatchObject({ code: 'LOCK_FAILED' });
+
+    const old = new Date(Date.now() - 120_000);
+    await utimes(lockPath, old, old);
+    const release = await acquireFileLock(lockPath, { timeoutMs: 1000, staleMs: 60_000 });
+    expect((await readLockInfo(lockPath))!.token).not.toBe('held');
+    await release();
+  });
+
+  it('keeps a live holder\'s lock past staleMs', async () => {
+    const release = await acquireFileLock(lockPath, { staleMs: 300 });
+    const token = (await readLockInfo(lockPath))!.token;
+    await expect(acquireFileLock(lockPath, { timeoutMs: 900, staleMs: 300 }))
+      .rejects.toMatchObject({ code: 'LOCK_FAILED' });
+    expect((await readLockInfo(lockPath))!.token).toBe(token);
+
+    await release();
+    const next = await acquireFileLock(lockPath, { timeoutMs: 1000, staleMs: 300 });
+    await next();
+  });
+
+  it('does not remove a lock that was taken over', async () => {
+    const release = await acquireFileLock(lockPath);
+    await writeFile(lockPath, JSON.stringify({ pid: process.pid, hostname: hostname(), token: 'other', acquiredAt: new Date().toISOString() }));
+    await release();
+    expect((await readLockInfo(lockPath))!.token).toBe('other');
+  });
+
+  it('never exceeds the budget cap across processes', async () => {
+    const outDir = join(dir, 'dist');
+    const home = join(dir, 'home');
+    await mkdir(outDir);
+    await mkdir(home);
+    await transpileClosure(['budget-store', 'budget'], outDir);
+    await writeFile(join(outDir, 'worker.js'), WORKER);
+
+    const cap = 2;
+    const logPath = join(dir, 'holders.log');
+    await writeFile(logPath, '');
+    const workers = Array.from({ length: 6 }, () =>
+      execFileAsync(process.execPath, [join(outDir, 'worker.js'), '15', String(cap), logPath], {
+        env: { ...process.env, HOME: home, USERPROFILE: home },
+        timeout: 60_000,
+      }));
+    const results = await Promise.all(workers);
+    const granted = results.reduce((sum, r) => sum + JSON.parse(r.stdout).granted, 0);
+
+    let holders = 0;
+    let peak = 0;
+    for (const line of (await readFile(logPath, 'utf-8')).split('\n').filter(Boolean)) {
+      holders += line === '+' ? 1 : -1;
+      peak = Math.max(peak, holders);
+    }
+    expect(granted).toBeGreaterThan(0);
+    expect(peak).toBeLessThanOrEqual(cap);
+
+    const budget = JSON.parse(await readFile(join(home, '.claude-guardian', 'budget.json'), 'utf-8'));
+    expect(budget.leases).toEqual([]);
+    expect(existsSync(join(home, '.claude-guardian', 'budget.json.lock'))).toBe(false);
+  }, 90_000);
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, readFile, rm, readdir, utimes, appendFile, stat, symlink } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  planFixes, applyFixPlan, validateFixPlan, readFixPlan, writeFixPlan, formatFixPlan,
+} from '../src/fix-plan.js';
+import { fixLogs } from '../src/log-manager.js';
+import { DEFAULT_CONFIG, THRESHOLDS } from '../src/defaults.js';
+import { readJournal } from '../src/fs-utils.js';
+import type { FixPlan, GuardianConfig } from '../src/types.js';
+
+const STALE = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+const FRESH = '11111111-2222-3333-4444-555555555555';
+const DAY = 86400000;
+
+// Small limits so fixtures stay tiny: trim above 0.01MB
+const config: GuardianConfig = { ...DEFAULT_CONFIG, thresholds: { ...THRESHOLDS, maxFileMB: 0.01, diskFreeWarningGB: 0 } };
+
+let home: string;
+let root: string;
+let project: string;
+const savedHome = process.env.HOME;
+
+async function age(path: string, days: number): Promise<void> {
+  const t = new Date(Date.now() - days * DAY);
+  await utimes(path, t, t);
+}
+
+beforeEach(async () => {
+  home = await mkdtemp(join(tmpdir(), 'guardian-plan-'));
+  process.env.HOME = home;
+  root = join(home, '.claude', 'projects');
+  project = join(root, '-home-user-app');
+  await mkdir(project, { recursive: true });
+
+  // Stale transcript and stale session dir (deleted), a fresh oversized transcript (trimmed),
+  // an old 2MB log (rotated), and memory/ which is never touched
+  await writeFile(join(project, `${STALE}.jsonl`), 'old\n');
+  await age(join(project, `${STALE}.jsonl`), 10);
+  await mkdir(join(project, STALE));
+  await writeFile(join(project, STALE, 'tool-output.json'), 'x'.repeat(50_000));
+  await age(join(project, STALE), 10);
+  await writeFile(join(project, `${FRESH}.jsonl`), Array.from({ length: 20_000 }, (_, i) => `{"n":${i}}`).join('\n'));
+  await writeFile(join(project, 'debug.log'), 'y'.repeat(2 * 1024 * 1024));
+  await age(join(project, 'debug.log'), 30);
+  await mkdir(join(project, 'memory'));
+  await writeFile(join(project, 'memory', 'MEMORY.md'), '# notes');
+  await age(join(project, 'memory'), 60);
+});
+
+afterEach(async () => {
+  process.env.HOME = savedHome;
+  await rm(home, { recursive: true, force: true });
+});
+
+describe('fix-plan', () => {
+  it('plans every change with sizes and reasons without touching anything', async () => {
+    const plan = await planFixes(config);
+    expect(plan.root).toBe(root);
+    const byPath = Object.fromEntries(plan.items.map(i => [i.path.slice(project.length + 1), i]));
+    expect(Object.keys(byPath).sort()).toEqual([`${FRESH}.jsonl`, STALE, `${STALE}.jsonl`, 'debug.log']);
+    expect(byPath['debug.log']).toMatchObject({ op: 'rotate', kind: 'file', sizeBytes: 2 * 1024 * 1024, reason: '30d old (retention 7d)' });
+    expect(byPath[`${FRESH}.jsonl`]).toMatchObject({ op: 'trim', keepLines: 10000 });
+    expect(byPath[STALE]).toMatchObject({ op: 'delete', kind: 'dir', sizeBytes: 50_000 });
+    // Files inside a session dir that will be deleted are not also trimmed
+    expect(plan.items.some(i => i.path.includes('tool-output'))).toBe(false);
+    expect(plan.totalBytes).toBe(plan.items.reduce((s, i) => s + i.sizeBytes, 0));
+    expect((await readdir(project)).sort()).toEqual([`${FRESH}.jsonl`, STALE, `${STALE}.jsonl`, 'debug.log', 'memory'].sort());
+
+    const text = formatFixPlan(plan);
+    expect(text).toContain(`[DELETE] ${join(project, STALE)}`);
+    expect(text).toContain('4 item(s): 1 rotate, 1 trim, 2 delete');
+  });
+
+  it('applies exactly the plan and journals each change', async () => {
+    const plan = await planFixes(config);
+    // A file that appears after planning is not part of the plan
+    await writeFile(join(project, 'late.log'), 'z'.repeat(50_000));
+
+    const actions = await applyFixPlan(plan, config);
+    expect(actions.map(a => a.type).sort()).toEqual(['cleaned', 'cleaned', 'rotated', 'trimmed']);
+    expect((await readdir(project)).sort()).toEqual([`${FRESH}.jsonl`, 'debug.log.gz', 'late.log', 'memory']);
+    expect((await readFile(join(project, `${FRESH}.jsonl`), 'utf-8')).trimEnd().split('\n')).toHaveLength(10000);
+    expect((await readJournal()).map(e => e.action).sort()).toEqual(['cleaned', 'cleaned', 'rotated', 'trimmed']);
+  });
+
+  it('rotates a transcript it cannot trim because a record is not valid JSON', async () => {
+    await appendFile(join(project, `${FRESH}.jsonl`), '\n{"n":"truncated mid-wri\n{"n":"after"}');
+    const plan = await planFixes(config);
+    const actions = await applyFixPlan(plan, config);
+
+    const transcript = actions.find(a => a.target === join(project, `${FRESH}.jsonl`))!;
+    expect(transcript).toMatchObject({ type: 'rotated', detail: expect.stringContaining('not valid JSON') });
+    expect(await readdir(project)).toContain(`${FRESH}.jsonl.gz`);
+    expect(await readdir(project)).not.toContain(`${FRESH}.jsonl`);
+  });
+
+  it('refuses the whole plan if a planned file changed', async () => {
+    const plan = await planFixes(config);
+    await appendFile(join(project, `${FRESH}.jsonl`), '\n{"n":"late"}');
+
+    await expect(applyFixPlan(plan, config)).rejects.toMatchObject({
+      code: 'FIX_PLAN_STALE',
+      message: expect.stringContaining(`${FRESH}.jsonl (size`),
+    });
+    // Nothing was applied
+    expect(await readdir(project)).toContain(`${STALE}.jsonl`);
+    expect(await readdir(project)).toContain('debug.log');
+  });
+
+  it('skips changed files when asked to', async () => {
+    const plan = await planFixes(config);
+    await rm(join(project, 'debug.log'));
+    const actions = await applyFixPlan(plan, config, { onChanged: 'skip' });
+    expect(actions.map(a => a.type).sort()).toEqual(['cleaned', 'cleaned', 'trimmed']);
+  });
+
+  it('rejects plans guardian would not make', () => {
+    const base: FixPlan = { version: 1, createdAt: '', root, aggressive: false, items: [], totalBytes: 0 };
+    const item = { kind: 'file' as const, sizeBytes: 1, mtimeMs: 0, reason: '' };
+    expect(validateFixPlan(base, root)).toEqual([]);
+    expect(validateFixPlan({ ...base, root: '/etc' }, root)).toEqual([`plan is for /etc, not ${root}`]);
+    expect(validateFixPlan({ ...base, items: [{ ...item, op: 'delete', path: join(home, '.bashrc') }] }, root)[0]).toMatch(/not inside/);
+    expect(validateFixPlan({ ...base, items: [{ ...item, op: 'delete', path: join(project, '..', '..', 'x') }] }, root)[0]).toMatch(/not inside/);
+    expect(validateFixPlan({ ...base, items: [{ ...item, op: 'delete', path: join(project, 'memory') }] }, root)[0]).toMatch(/only session transcripts/);
+    expect(validateFixPlan({ ...base, items: [{ ...item, op: 'trim', path: join(project, 'a.bin'), keepLines: 5 }] }, root)[0]).toMatch(/text file/);
+  });
+
+  it('rejects plan items that now go through a symlink', async () => {
+    const outside = join(home, 'outside');
+    await mkdir(outside);
+    await writeFile(join(outside, 'notes.log'), 'keep me\n');
+    await writeFile(join(outside, `${FRESH}.jsonl`), 'keep me\n');
+    const s = await stat(join(outside, 'notes.log'));
+    const base: FixPlan = { version: 1, createdAt: '', root, aggressive: false, items: [], totalBytes: s.size };
+    const item = { kind: 'file' as const, sizeBytes: s.size, mtimeMs: s.mtimeMs, reason: '' };
+
+    // A session transcript replaced by a link, and a project directory that is a link
+    await rm(join(project, `${FRESH}.jsonl`));
+    await symlink(join(outside, `${FRESH}.jsonl`), join(project, `${FRESH}.jsonl`));
+    await symlink(outside, join(root, '-home-user-linked'));
+    const linkedFile = { ...base, items: [{ ...item, op: 'delete' as const, path: join(project, `${FRESH}.jsonl`) }] };
+    const linkedDir = { ...base, items: [{ ...item, op: 'trim' as const, path: join(root, '-home-user-linked', 'notes.log'), keepLines: 1 }] };
+
+    await expect(applyFixPlan(linkedFile, config)).rejects.toMatchObject({
+      code: 'FIX_PLAN_INVALID', message: expect.stringContaining('is a symlink'),
+    });
+    await expect(applyFixPlan(linkedDir, config)).rejects.toMatchObject({
+      code: 'FIX_PLAN_INVALID', message: expect.stringContaining(`${join(root, '-home-user-linked')} is a symlink`),
+    });
+    expect(await readFile(join(outside, 'notes.log'), 'utf-8')).toBe('keep me\n');
+    expect(await readFile(join(outside, `${FRESH}.jsonl`), 'utf-8')).toBe('keep me\n');
+  });
+
+  it('round-trips a plan file and rejects malformed ones', async () => {
+    const plan = await planFixes(config);
+    const path = await writeFixPlan(plan, join(home, 'plan.json'));
+    expect(await readFixPlan(path)).toEqual(plan);
+
+    await writeFile(path, JSON.stringify({ ...plan, items: [{ op: 'shred', path: '/x' }] }));
+    await expect(readFixPlan(path)).rejects.toMatchObject({ code: 'FIX_PLAN_INVALID' });
+    await expect(readFixPlan(join(home, 'missing.json'))).rejects.toMatchObject({ code: 'FIX_PLAN_INVALID' });
+  });
+
+  it('fixLogs plans and applies in one step', async () => {
+    const actions = await fixLogs(config);
+    expect(actions.filter(a => a.type !== 'warning')).toHaveLength(4);
+    // Only the trim repeats: 10000 lines are still over this test's tiny limit
+    expect((await planFixes(config)).items.map(i => i.op)).toEqual(['trim']);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Builders for the state objects tests write by hand. Each fills in every required field
+ * with a neutral value, so a test only spells out what it is about.
+ */
+
+import type { HangRisk } from '../src/process-monitor.js';
+import type { Incident } from '../src/incident.js';
+import type { BudgetSummary } from '../src/budget.js';
+
+/** An `ok` hang risk with no reasons. */
+export function hangRisk(overrides: Partial<HangRisk> = {}): HangRisk {
+  return {
+    level: 'ok',
+    noActivitySeconds: 0,
+    cpuLowSeconds: 0,
+    cpuHot: false,
+    memoryHigh: false,
+    handlesHigh: false,
+    leakSuspected: false,
+    leakEtaSeconds: null,
+    diskLow: false,
+    graceRemainingSeconds: 0,
+    reasons: [],
+    ...overrides,
+  };
+}
+
+/** An open `warn` incident with nothing recorded yet. */
+export function incident(overrides: Partial<Incident> = {}): Incident {
+  return {
+    id: 'inc-1',
+    startedAt: '2026-01-01T00:00:00.000Z',
+    closedAt: null,
+    reason: 'No activity for 400s',
+    peakLevel: 'warn',
+    bundleCaptured: false,
+    bundlePath: null,
+    transitions: [],
+    snapshots: { open: null, peak: null, close: null },
+    pids: [],
+    actions: [],
+    ...overrides,
+  };
+}
+
+/** A budget at its base cap of 4 with nothing leased or queued. */
+export function budgetSummary(overrides: Partial<BudgetSummary> = {}): BudgetSummary {
+  return {
+    currentCap: 4,
+    baseCap: 4,
+    slotsInUse: 0,
+    slotsAvailable: 4,
+    activeLeases: 0,
+    queuedRequests: 0,
+    queuedSlots: 0,
+    capSetByRisk: null,
+    resourceCap: null,
+    capReason: null,
+    okSinceAt: null,
+    hysteresisRemainingSeconds: 0,
+    ...overrides,
+  };
+}
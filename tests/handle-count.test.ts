@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { getHandleCount, getHandleCounts, type HandleCountResult } from '../src/handle-count.js';
+import {
+  getHandleCount, getHandleCounts, classifyFdTarget, summarizeFdTargets, parseNofileLimit,
+  getNofileLimit, getHandleBreakdown, type HandleCountResult,
+} from '../src/handle-count.js';
 
 describe('handle-count', () => {
   it('returns a result for the current process PID', async () => {
@@ -47,4 +50,55 @@ describe('handle-count', () => {
     const results = await getHandleCounts([]);
     expect(results).toHaveLength(0);
   });
+
+  describe('FD breakdown', () => {
+    it('classifies FD link targets', () => {
+      expect(classifyFdTarget('/home/me/app/log.txt')).toBe('file');
+      expect(classifyFdTarget('/dev/null')).toBe('file');
+      expect(classifyFdTarget('socket:[12345]')).toBe('socket');
+      expect(classifyFdTarget('pipe:[678]')).toBe('pipe');
+      expect(classifyFdTarget('anon_inode:inotify')).toBe('inotify');
+      expect(classifyFdTarget('anon_inode:[eventpoll]')).toBe('anon');
+      expect(classifyFdTarget('anon_inode:[eventfd]')).toBe('anon');
+      expect(classifyFdTarget('net:[4026531840]')).toBe('other');
+    });
+
+    it('counts targets by type and ranks open paths', () => {
+      const summary = summarizeFdTargets([
+        '/tmp/a.log', '/tmp/b.log', '/tmp/a.log', '/tmp/a.log', '/tmp/b.log', '/tmp/c.log',
+        'socket:[1]', 'socket:[2]', 'pipe:[3]', 'anon_inode:inotify', 'anon_inode:[eventpoll]',
+      ], 2);
+      expect(summary.total).toBe(11);
+      expect(summary.byType).toEqual({ file: 6, socket: 2, pipe: 1, inotify: 1, anon: 1, other: 0 });
+      expect(summary.topPaths).toEqual([{ path: '/tmp/a.log', count: 3 }, { path: '/tmp/b.log', count: 2 }]);
+    });
+
+    it('parses the soft and hard open-file limits', () => {
+      const limits = [
+        'Limit                     Soft Limit           Hard Limit           Units',
+        'Max processes             127368               127368               processes',
+        'Max open files            1024                 1048576              files',
+        'Max locked memory         8388608              8388608              bytes',
+      ].join('\n');
+      expect(parseNofileLimit(limits)).toEqual({ soft: 1024, hard: 1048576 });
+      expect(parseNofileLimit('Max open files            unlimited            unlimited            files')).toEqual({ soft: null, hard: null });
+      expect(parseNofileLimit('Max processes 10 10 processes')).toBeNull();
+    });
+
+    it.runIf(process.platform === 'linux')('breaks down the FDs of the current process', async () => {
+      const breakdown = (await getHandleBreakdown(process.pid))!;
+      expect(breakdown.pid).toBe(process.pid);
+      expect(breakdown.total).toBeGreaterThan(0);
+      expect(Object.values(breakdown.byType).reduce((a, b) => a + b, 0)).toBe(breakdown.total);
+      expect(breakdown.softLimit).toBe(await getNofileLimit(process.pid));
+      if (breakdown.softLimit) {
+        expect(breakdown.usedFraction).toBeCloseTo(breakdown.total / breakdown.softLimit, 2);
+      }
+    });
+
+    it('returns null for a PID that does not exist', async () => {
+      expect(await getHandleBreakdown(2_000_000_001)).toBeNull();
+      expect(await getNofileLimit(2_000_000_001)).toBeNull();
+    });
+  });
 });
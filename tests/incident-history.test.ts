@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterIncidents, findIncidents, computeIncidentStats, normalizeReasons, resolveIncidentRange,
+  formatIncidentList, formatIncident, formatIncidentStats,
+} from '../src/incident-history.js';
+import { normalizeIncident, type Incident } from '../src/incident.js';
+import { hangRisk } from './fixtures.js';
+
+const DAY = 86_400_000;
+const now = Date.parse('2026-03-10T12:00:00.000Z');
+
+function incident(id: string, startedAgoMs: number, durationS: number | null, overrides: Partial<Incident> = {}): Incident {
+  const started = now - startedAgoMs;
+  return normalizeIncident({
+    id,
+    startedAt: new Date(started).toISOString(),
+    closedAt: durationS === null ? null : new Date(started + durationS * 1000).toISOString(),
+    reason: 'No activity for 412s (no activity sources firing)',
+    peakLevel: 'warn',
+    bundleCaptured: false,
+    bundlePath: null,
+    ...overrides,
+  });
+}
+
+const history: Incident[] = [
+  incident('aaaa1111', 6 * DAY, 120),
+  incident('aaaa2222', 3 * DAY, 600, { peakLevel: 'critical', bundleCaptured: true, bundlePath: '/b.zip' }),
+  incident('bbbb3333', 1 * DAY, 60, { reason: 'Disk free: 2.5GB (< 5GB threshold)' }),
+  incident('cccc4444', 60_000, null, { reason: 'PID 42 (session 1a2b3c4d): No activity for 900s (no activity sources firing)' }),
+];
+
+describe('incident-history', () => {
+  describe('filterIncidents', () => {
+    it('filters by start time range', () => {
+      const result = filterIncidents(history, { from: now - 4 * DAY, to: now - DAY / 2 });
+      expect(result.map(i => i.id)).toEqual(['aaaa2222', 'bbbb3333']);
+    });
+
+    it('filters by peak level and bundle presence', () => {
+      expect(filterIncidents(history, { peakLevel: 'critical' }).map(i => i.id)).toEqual(['aaaa2222']);
+      expect(filterIncidents(history, { hasBundle: false })).toHaveLength(3);
+    });
+  });
+
+  it('resolves optional since/until', () => {
+    expect(resolveIncidentRange(undefined, undefined, now)).toEqual({ from: undefined, to: undefined });
+    expect(resolveIncidentRange('2d', '1d', now)).toEqual({ from: now - 2 * DAY, to: now - DAY });
+  });
+
+  it('finds incidents by exact id or prefix', () => {
+    expect(findIncidents(history, 'bbbb')).toHaveLength(1);
+    expect(findIncidents(history, 'aaaa')).toHaveLength(2);
+    expect(findIncidents(history, 'zzzz')).toHaveLength(0);
+  });
+
+  it('normalizes numbers and session labels out of reasons', () => {
+    expect(normalizeReasons('PID 42 (session 1a2b3c4d): No activity for 900s (3/1 activity sources: cpu); Disk free: 2.5GB (< 5GB threshold)'))
+      .toEqual(['No activity for Ns (N/N activity sources: cpu)', 'Disk free: NGB (< NGB threshold)']);
+  });
+
+  describe('computeIncidentStats', () => {
+    it('computes MTTR over closed incidents and rate over the range', () => {
+      const stats = computeIncidentStats(history, { from: now - 8 * DAY }, now);
+      expect(stats.count).toBe(4);
+      expect(stats.closed).toBe(3);
+      expect(stats.open).toBe(1);
+      expect(stats.mttrSeconds).toBe(260);
+      expect(stats.longestSeconds).toBe(600);
+      expect(stats.incidentsPerDay).toBe(0.5);
+      expect(stats.critical).toBe(1);
+      expect(stats.withBundle).toBe(1);
+    });
+
+    it('ranks the most common reasons', () => {
+      const stats = computeIncidentStats(history, {}, now);
+      expect(stats.topReasons[0]).toEqual({ reason: 'No activity for Ns (no activity sources firing)', count: 3 });
+      expect(stats.topReasons[1].reason).toBe('Disk free: NGB (< NGB threshold)');
+    });
+
+    it('fills in days without incidents', () => {
+      const stats = computeIncidentStats(history, { from: now - 6 * DAY }, now);
+      expect(stats.daily).toHaveLength(7);
+      expect(stats.daily.reduce((s, d) => s + d.count, 0)).toBe(4);
+      expect(stats.daily.filter(d => d.count === 0)).toHaveLength(3);
+    });
+
+    it('handles an empty history', () => {
+      const stats = computeIncidentStats([], {}, now);
+      expect(stats.count).toBe(0);
+      expect(stats.mttrSeconds).toBeNull();
+      expect(formatIncidentStats(stats)).toContain('MTTR: n/a');
+    });
+  });
+
+  it('lists newest first with short ids', () => {
+    const text = formatIncidentList(history);
+    const lines = text.split('\n');
+    expect(lines[0]).toBe('Incidents: 4');
+    expect(lines[1]).toContain('cccc4444');
+    expect(lines[1]).toContain('open');
+    expect(text).toContain('| bundle');
+  });
+
+  it('shows transitions, actions and snapshots', () => {
+    const text = formatIncident(incident('dddd5555', 600_000, 300, {
+      pids: [42],
+      transitions: [
+        { at: '2026-03-10T11:50:00.000Z', from: 'ok', to: 'warn', reason: 'quiet' },
+        { at: '2026-03-10T11:55:00.000Z', from: 'warn', to: 'ok', reason: 'healthy' },
+      ],
+      actions: [{ at: '2026-03-10T11:52:00.000Z', type: 'nudge', detail: 'nudge: Preflight fix: 1 items repaired' }],
+      snapshots: {
+        open: hangRisk({ level: 'warn', noActivitySeconds: 400, cpuLowSeconds: 400, reasons: ['quiet'] }),
+        peak: null,
+        close: null,
+      },
+    }));
+    expect(text).toContain('PIDs:     42');
+    expect(text).toContain('2026-03-10 11:50:00  ok → warn  quiet');
+    expect(text).toContain('nudge  nudge: Preflight fix');
+    expect(text).toContain('Hang risk at open: WARN | quiet 400s');
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { IncidentTracker } from '../src/incident.js';
+import { IncidentTracker, collectIncidentActions, normalizeIncident, type Incident } from '../src/incident.js';
+import type { HangRisk, RiskLevel } from '../src/process-monitor.js';
+import { hangRisk } from './fixtures.js';
+
+function risk(level: RiskLevel, reason: string): HangRisk {
+  return hangRisk({ level, reasons: reason ? [reason] : [] });
+}
 
 describe('IncidentTracker', () => {
   let tracker: IncidentTracker;
@@ -122,6 +128,65 @@ describe('IncidentTracker', () => {
     });
   });
 
+  describe('incident record', () => {
+    it('records level transitions in order, including de-escalation and close', async () => {
+      await tracker.update('warn', 'quiet 400s');
+      await tracker.update('warn', 'quiet 500s');
+      await tracker.update('critical', 'quiet 950s');
+      await tracker.update('warn', 'quiet again');
+      const closed = await tracker.update('ok', '');
+
+      expect(closed!.transitions.map(t => `${t.from}>${t.to}`)).toEqual(['ok>warn', 'warn>critical', 'critical>warn', 'warn>ok']);
+      expect(closed!.transitions[1].reason).toBe('quiet 950s');
+      expect(closed!.peakLevel).toBe('critical');
+    });
+
+    it('keeps hang risk snapshots at open, peak and close', async () => {
+      await tracker.update('warn', 'open', risk('warn', 'open'));
+      await tracker.update('critical', 'peak', risk('critical', 'peak'));
+      await tracker.update('critical', 'later', risk('critical', 'later'));
+      const closed = await tracker.update('ok', '', risk('ok', ''));
+
+      expect(closed!.snapshots.open!.reasons).toEqual(['open']);
+      // Peak is the first time the peak level was reached, not the latest critical poll
+      expect(closed!.snapshots.peak!.reasons).toEqual(['peak']);
+      expect(closed!.snapshots.close!.level).toBe('ok');
+    });
+
+    it('accumulates the PIDs involved', async () => {
+      await tracker.update('warn', 'x', undefined, [100, 200]);
+      await tracker.update('warn', 'x', undefined, [200, 300]);
+      expect(tracker.getActive()!.pids).toEqual([100, 200, 300]);
+    });
+
+    it('collects nudges, preflight fixes and lease releases from the journal window', () => {
+      const incident = normalizeIncident({ id: 'i', startedAt: '2026-01-01T00:00:00.000Z' });
+      const actions = collectIncidentActions(incident, [
+        { timestamp: '2025-12-31T23:59:00.000Z', action: 'nudge', detail: 'before' },
+        { timestamp: '2026-01-01T00:01:00.000Z', action: 'nudge', detail: 'Preflight fix: 2 items repaired' },
+        { timestamp: '2026-01-01T00:02:00.000Z', action: 'trimmed', target: '/a.jsonl', detail: 'kept last 1000 lines' },
+        { timestamp: '2026-01-01T00:03:00.000Z', action: 'lease-released', detail: 'Lease x released' },
+        { timestamp: '2026-01-01T00:04:00.000Z', action: 'corruption-recovery', detail: 'unrelated' },
+        { timestamp: '2026-01-01T00:10:00.000Z', action: 'nudge', detail: 'after' },
+      ], '2026-01-01T00:05:00.000Z');
+
+      expect(actions.map(a => a.type)).toEqual(['nudge', 'preflight-fix', 'lease-release']);
+      expect(actions[1].detail).toBe('trimmed /a.jsonl: kept last 1000 lines');
+    });
+
+    it('fills in fields missing from older incident records', () => {
+      const old = normalizeIncident({
+        id: 'old', startedAt: '2026-01-01T00:00:00.000Z', closedAt: null,
+        reason: 'r', peakLevel: 'critical', bundleCaptured: false, bundlePath: null,
+      } as Incident);
+      expect(old.transitions).toEqual([]);
+      expect(old.actions).toEqual([]);
+      expect(old.pids).toEqual([]);
+      expect(old.snapshots).toEqual({ open: null, peak: null, close: null });
+      expect(old.peakLevel).toBe('critical');
+    });
+  });
+
   describe('getActive returns a copy', () => {
     it('mutations on returned object do not affect internal state', async () => {
       await tracker.update('warn', 'test');
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, writeFile, readFile, rm, readdir, chmod, stat, appendFile, access } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { trimJsonlFile } from '../src/jsonl-trim.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'guardian-jsonl-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const line = (r: object) => JSON.stringify(r) + '\n';
+const prompt = (n: number) => ({ type: 'user', uuid: `u${n}`, message: { role: 'user', content: `prompt ${n} ${'p'.repeat(200)}` } });
+const reply = (n: number) => ({ type: 'assistant', uuid: `a${n}`, message: { role: 'assistant', content: [{ type: 'tool_use', id: `t${n}`, text: 'r'.repeat(300) }] } });
+const toolResult = (n: number) => ({ type: 'user', uuid: `r${n}`, message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: `t${n}` }] } });
+
+async function records(path: string): Promise<Array<Record<string, unknown>>> {
+  return (await readFile(path, 'utf-8')).trimEnd().split('\n').map(l => JSON.parse(l));
+}
+
+describe('trimJsonlFile', () => {
+  it('keeps the tail from a user prompt plus header, summary and compaction entries', async () => {
+    const path = join(dir, 'session.jsonl');
+    let content = line({ type: 'summary', summary: 'Earlier work', leafUuid: 'x' });
+    content += line({ type: 'system', subtype: 'init', content: 'header' });
+    // 300 turns of prompt → tool use → tool result: ~200KB, so records straddle read chunks
+    for (let n = 0; n < 300; n++) {
+      content += line(prompt(n)) + line(reply(n)) + line(toolResult(n));
+      if (n === 100) {
+        content += line({ type: 'system', subtype: 'compact_boundary', uuid: 'cb', parentUuid: null });
+        content += line({ type: 'user', uuid: 'cs', isCompactSummary: true, message: { content: 'summary of turns 0-100' } });
+      }
+    }
+    await writeFile(path, content);
+
+    // Last 10 records would start on a tool result; the tail moves to the next prompt
+    const result = await trimJsonlFile(path, 10);
+    const kept = await records(path);
+    expect(kept.slice(0, 4).map(r => r.uuid ?? r.type)).toEqual(['summary', 'system', 'cb', 'cs']);
+    expect(kept.slice(4).map(r => r.uuid)).toEqual(['u297', 'a297', 'r297', 'u298', 'a298', 'r298', 'u299', 'a299', 'r299']);
+    expect(result).toEqual({ sizeBytes: (await stat(path)).size, records: 904, kept: 13, preserved: 4 });
+    expect(await readdir(dir)).toEqual(['session.jsonl']);
+  });
+
+  it('keeps a final turn longer than the limit whole', async () => {
+    const path = join(dir, 'session.jsonl');
+    let content = line(prompt(0)) + line(reply(0)) + line(prompt(1));
+    for (let n = 1; n < 20; n++) content += line(reply(n)) + line(toolResult(n));
+    await writeFile(path, content);
+
+    const result = await trimJsonlFile(path, 5);
+    expect((await records(path))[0].uuid).toBe('u1');
+    expect(result!.kept).toBe(39);
+  });
+
+  it('never splits multi-line records and repairs the missing final newline', async () => {
+    const path = join(dir, 'data.jsonl');
+    const pretty = JSON.stringify({ n: 1, note: 'has } and { and "quotes" in it', list: [1, 2] }, null, 2);
+    await writeFile(path, ['{"n":0}', pretty, '{"n":2}', '', '{"n":3}'].join('\n'));
+
+    // Plain JSONL without messages is cut exactly: the last 2 records (blank lines are not records)
+    const result = await trimJsonlFile(path, 2);
+    expect(result).toMatchObject({ records: 4, kept: 2, preserved: 0 });
+    expect(await readFile(path, 'utf-8')).toBe('{"n":2}\n{"n":3}\n');
+
+    const path2 = join(dir, 'pretty.jsonl');
+    await writeFile(path2, `{"n":0}\n${pretty}\n{"n":2}\n`);
+    await trimJsonlFile(path2, 2);
+    expect(await readFile(path2, 'utf-8')).toBe(`${pretty}\n{"n":2}\n`);
+  });
+
+  it('keeps a nested value that starts a line inside its record', async () => {
+    const path = join(dir, 'nested.jsonl');
+    const nested = '{"n":1,"message":\n{"role":"user"},\n"list":\n[1,2]}';
+    await writeFile(path, `{"n":0}\n${nested}\n{"n":2}\n`);
+    expect(await trimJsonlFile(path, 2)).toMatchObject({ records: 3, kept: 2 });
+    expect(await readFile(path, 'utf-8')).toBe(`${nested}\n{"n":2}\n`);
+  });
+
+  it('does not trim a transcript with a record that is not valid JSON', async () => {
+    const path = join(dir, 'broken.jsonl');
+    const content = ['{"n":0}', '{"n":1,"broken":"truncated mid-wri', '{"n":2}', '{"n":3}', '{"n":4}', ''].join('\n');
+    await writeFile(path, content);
+    expect(await trimJsonlFile(path, 2)).toBeNull();
+    expect(await readFile(path, 'utf-8')).toBe(content);
+  });
+
+  it('leaves short files untouched and keeps the file mode', async () => {
+    const path = join(dir, 'short.jsonl');
+    await writeFile(path, line(prompt(0)) + line(reply(0)));
+    await chmod(path, 0o600);
+    expect(await trimJsonlFile(path, 5)).toMatchObject({ records: 2, kept: 2 });
+
+    await writeFile(path, Array.from({ length: 10 }, (_, n) => line({ n })).join(''));
+    await trimJsonlFile(path, 4);
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+    expect(await records(path)).toEqual([{ n: 6 }, { n: 7 }, { n: 8 }, { n: 9 }]);
+  });
+
+  it('re-roots the tail so the resume chain stays unbroken', async () => {
+    const path = join(dir, 'session.jsonl');
+    let content = '';
+    let parent: string | null = null;
+    const chained = (r: { uuid: string }) => {
+      const text = line({ ...r, parentUuid: parent });
+      parent = r.uuid;
+      return text;
+    };
+    for (let n = 0; n < 20; n++) {
+      content += chained(prompt(n)) + chained(reply(n)) + chained(toolResult(n));
+      if (n === 5) {
+        parent = null;
+        content += chained({ type: 'system', subtype: 'compact_boundary', uuid: 'cb' } as { uuid: string });
+        content += chained({ type: 'user', uuid: 'cs', isCompactSummary: true, message: { content: 'summary' } } as { uuid: string });
+      }
+    }
+    await writeFile(path, content);
+
+    await trimJsonlFile(path, 6);
+    const kept = await records(path);
+    expect(kept.map(r => r.uuid)).toEqual(['cb', 'cs', 'u18', 'a18', 'r18', 'u19', 'a19', 'r19']);
+    expect(kept[2].parentUuid).toBe('cs');
+    const byUuid = new Map(kept.map(r => [r.uuid, r]));
+    const chain: unknown[] = [];
+    for (let r = kept.at(-1); r; r = byUuid.get(r.parentUuid)) chain.push(r.uuid);
+    expect(chain).toEqual(['r19', 'a19', 'u19', 'r18', 'a18', 'u18', 'cs', 'cb']);
+
+    // Nothing preserved to hang the tail on: it becomes the root
+    const plain = join(dir, 'plain.jsonl');
+    parent = null;
+    await writeFile(plain, Array.from({ length: 10 }, (_, n) => chained(prompt(n)) + chained(reply(n))).join(''));
+    await trimJsonlFile(plain, 4);
+    expect((await records(plain)).map(r => [r.uuid, r.parentUuid])).toEqual([['u8', null], ['a8', 'u8'], ['u9', 'a8'], ['a9', 'u9']]);
+  });
+
+  it('abandons the trim if the file grows before the rename', async () => {
+    const path = join(dir, 'session.jsonl');
+    let content = '';
+    for (let n = 0; n < 6000; n++) content += line(prompt(n)) + line(reply(n)) + line(toolResult(n));
+    await writeFile(path, content);
+
+    const trimming = trimJsonlFile(path, 10).then(() => null, (err: unknown) => err);
+    // Append once the copy pass has started
+    const tmpPath = `${path}.${process.pid}.trim.tmp`;
+    while (await access(tmpPath).then(() => false, () => true)) { /* wait */ }
+    await appendFile(path, line(prompt(6000)));
+
+    expect(await trimming).toMatchObject({ code: 'FIX_FAILED' });
+    expect(await readFile(path, 'utf-8')).toBe(content + line(prompt(6000)));
+    expect(await readdir(dir)).toEqual(['session.jsonl']);
+  });
+});
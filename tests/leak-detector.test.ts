@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { linearRegression, analyzeLeak, formatEta, LeakWindow, type LeakSample } from '../src/leak-detector.js';
+import { LEAK_CONFIG } from '../src/defaults.js';
+
+const t0 = 1_700_000_000_000;
+
+/** One sample per minute for `minutes`, RSS and handles from the given functions of the minute. */
+function series(minutes: number, rss: (m: number) => number, handles: (m: number) => number | null = () => null): LeakSample[] {
+  return Array.from({ length: minutes + 1 }, (_, m) => ({ t: t0 + m * 60_000, rssMB: rss(m), handles: handles(m) }));
+}
+
+describe('leak-detector', () => {
+  it('fits a least-squares line', () => {
+    const fit = linearRegression([{ x: 0, y: 1 }, { x: 1, y: 3 }, { x: 2, y: 5 }])!;
+    expect(fit.slope).toBeCloseTo(2);
+    expect(fit.intercept).toBeCloseTo(1);
+    expect(fit.r2).toBeCloseTo(1);
+    expect(linearRegression([{ x: 1, y: 1 }])).toBeNull();
+    expect(linearRegression([{ x: 1, y: 1 }, { x: 1, y: 2 }])).toBeNull();
+    expect(linearRegression([{ x: 0, y: 5 }, { x: 1, y: 5 }])!.r2).toBe(0);
+  });
+
+  it('formats projected times', () => {
+    expect(formatEta(30)).toBe('<1m');
+    expect(formatEta(45 * 60)).toBe('45m');
+    expect(formatEta(3 * 3600 + 20 * 60 + 59)).toBe('3h 20m');
+  });
+
+  it('flags steady RSS growth with a projected time to memoryHighMB', () => {
+    // 5MB/min = 300MB/h from 1000MB; after 30 minutes at 1150MB, 4096MB is ~9.8h away
+    const trend = analyzeLeak(42, series(30, m => 1000 + 5 * m), 4096, { ...LEAK_CONFIG, horizonSeconds: 12 * 3600 });
+    expect(trend.rss!.perHour).toBeCloseTo(300);
+    expect(trend.rss!.r2).toBeCloseTo(1);
+    expect(trend.rss!.projectedSeconds).toBe(Math.round((4096 - 1150) / (5 / 60)));
+    expect(trend.leakSuspected).toBe(true);
+    expect(trend.projectedSecondsToThreshold).toBe(trend.rss!.projectedSeconds);
+    expect(trend.reason).toBe('RSS +300MB/h, 1150MB now, reaches 4096MB in ~9h 49m');
+  });
+
+  it('only suspects leaks that cross the threshold within the horizon', () => {
+    const trend = analyzeLeak(42, series(30, m => 1000 + 5 * m), 4096);
+    expect(trend.rss!.projectedSeconds).toBeGreaterThan(LEAK_CONFIG.horizonSeconds);
+    expect(trend.leakSuspected).toBe(false);
+    expect(trend.reason).toBeNull();
+  });
+
+  it('ignores slow growth, noisy samples and short windows', () => {
+    // 1MB/min is below minRssGrowthMBPerHour
+    expect(analyzeLeak(1, series(30, m => 3500 + m), 4096).leakSuspected).toBe(false);
+    // A sawtooth that ends higher but does not fit a line
+    const sawtooth = analyzeLeak(1, series(30, m => 3000 + (m % 2) * 800 + m), 4096);
+    expect(sawtooth.rss!.r2).toBeLessThan(LEAK_CONFIG.minR2);
+    expect(sawtooth.leakSuspected).toBe(false);
+    // Fast growth, but only 10 minutes of samples
+    const short = analyzeLeak(1, series(10, m => 3500 + 20 * m), 4096);
+    expect(short.rss).toBeNull();
+    expect(short.leakSuspected).toBe(false);
+  });
+
+  it('tracks handle growth toward handleLimit', () => {
+    const trend = analyzeLeak(42, series(30, () => 500, m => 8000 + 20 * m), 4096);
+    expect(trend.rss!.suspected).toBe(false);
+    expect(trend.handles!.perHour).toBeCloseTo(1200);
+    expect(trend.leakSuspected).toBe(true);
+    expect(trend.reason).toMatch(/^handles \+1200\/h, 8600 now, reaches 10000 in ~1h 10m$/);
+    // Projected toward the process's own RLIMIT_NOFILE when it is known
+    const limited = analyzeLeak(42, series(30, () => 500, m => 500 + 20 * m), 4096, LEAK_CONFIG, 2048);
+    expect(limited.handles!.threshold).toBe(2048);
+    expect(limited.leakSuspected).toBe(true);
+  });
+
+  it('counts a process already past its threshold as due now', () => {
+    const trend = analyzeLeak(42, series(20, m => 4000 + 10 * m), 4096);
+    expect(trend.projectedSecondsToThreshold).toBe(0);
+    expect(trend.reason).toContain('already past');
+  });
+
+  it('keeps a bounded window of samples', () => {
+    const window = new LeakWindow(42, { ...LEAK_CONFIG, windowSeconds: 1800, minSpanSeconds: 600 });
+    let trend = window.update({ t: t0, rssMB: 1000, handles: null }, 4096);
+    // 2s polls for 1 hour: thinned to one sample per 5s, only the last 30 minutes kept
+    for (let s = 2; s <= 3600; s += 2) {
+      trend = window.update({ t: t0 + s * 1000, rssMB: 1000 + s, handles: null }, 4096);
+    }
+    expect(trend.sampleCount).toBeLessThanOrEqual(361);
+    expect(trend.spanSeconds).toBeLessThanOrEqual(1800);
+    expect(trend.rss!.perHour).toBeCloseTo(3600, -1);
+    expect(trend.leakSuspected).toBe(true);
+  });
+});
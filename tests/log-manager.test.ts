@@ -273,6 +273,11 @@ describe('log-manager integration (temp fs)', () => {
   });
 
   describe('cleanStaleSessions', () => {
+    // Removed sessions go to ~/.claude-guardian/trash — keep it inside the temp dir
+    const savedHome = process.env.HOME;
+    beforeEach(() => { process.env.HOME = tempDir; });
+    afterEach(() => { process.env.HOME = savedHome; });
+
     it('removes stale UUID-named jsonl files', async () => {
       const projectDir = join(tempDir, 'proj');
       await mkdir(projectDir);
@@ -1,6 +1,7 @@
 import { describe, it, expect, afterEach } from 'vitest';
 import { createMcpServer, formatBanner } from '../src/mcp-server.js';
 import { emptyState } from '../src/state.js';
+import { incident, budgetSummary } from './fixtures.js';
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { createServer, type Server } from 'http';
@@ -19,7 +20,7 @@ describe('MCP Server', () => {
   }
 
   describe('tool registration', () => {
-    it('exposes all 10 guardian tools', async () => {
+    it('exposes all 14 guardian tools', async () => {
       const { client, server } = await setupClientServer();
 
       const tools = await client.listTools();
@@ -31,11 +32,15 @@ describe('MCP Server', () => {
       expect(toolNames).toContain('guardian_nudge');
       expect(toolNames).toContain('guardian_budget_get');
       expect(toolNames).toContain('guardian_budget_acquire');
+      expect(toolNames).toContain('guardian_budget_renew');
       expect(toolNames).toContain('guardian_budget_release');
       expect(toolNames).toContain('guardian_recovery_plan');
       expect(toolNames).toContain('guardian_preview_ready');
       expect(toolNames).toContain('guardian_preview_recover');
-      expect(tools.tools.length).toBe(10);
+      expect(toolNames).toContain('guardian_metrics');
+      expect(toolNames).toContain('guardian_incidents');
+      expect(toolNames).toContain('guardian_budget_report');
+      expect(tools.tools.length).toBe(14);
 
       await server.close();
     });
@@ -178,6 +183,18 @@ describe('MCP Server', () => {
 
       await server.close();
     });
+
+    it('guardian_incidents asks for an id on show and returns stats', async () => {
+      const { client, server } = await setupClientServer();
+
+      const show = await client.callTool({ name: 'guardian_incidents', arguments: { action: 'show' } });
+      expect((show.content as Array<{ text: string }>)[0].text).toContain('Pass `id`');
+
+      const stats = await client.callTool({ name: 'guardian_incidents', arguments: { action: 'stats', since: '7d' } });
+      expect((stats.content as Array<{ text: string }>)[0].text).toContain('Incident stats');
+
+      await server.close();
+    });
   });
 });
 
@@ -215,15 +232,7 @@ describe('formatBanner', () => {
     const state = emptyState();
     state.diskFreeGB = 50;
     state.claudeLogSizeMB = 100;
-    state.activeIncident = {
-      id: 'abc123',
-      startedAt: new Date().toISOString(),
-      closedAt: null,
-      reason: 'test',
-      peakLevel: 'warn',
-      bundleCaptured: false,
-      bundlePath: null,
-    };
+    state.activeIncident = incident({ id: 'abc123', startedAt: new Date().toISOString(), reason: 'test' });
     const banner = formatBanner(state);
     expect(banner).toContain('incident=abc123');
   });
@@ -242,16 +251,7 @@ describe('formatBanner', () => {
     const state = emptyState();
     state.diskFreeGB = 50;
     state.claudeLogSizeMB = 100;
-    state.budgetSummary = {
-      currentCap: 2,
-      baseCap: 4,
-      slotsInUse: 1,
-      slotsAvailable: 1,
-      activeLeases: 1,
-      capSetByRisk: 'warn',
-      okSinceAt: null,
-      hysteresisRemainingSeconds: 0,
-    };
+    state.budgetSummary = budgetSummary({ currentCap: 2, slotsInUse: 1, slotsAvailable: 1, activeLeases: 1, capSetByRisk: 'warn' });
     const banner = formatBanner(state);
     expect(banner).toContain('cap=2/4');
   });
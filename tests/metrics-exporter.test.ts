@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  formatOpenMetrics, startMetricsExporter, emptyCounters,
+  OPENMETRICS_CONTENT_TYPE, type MetricsExporter,
+} from '../src/metrics-exporter.js';
+import { emptyState, type GuardianState } from '../src/state.js';
+import { GuardianError } from '../src/errors.js';
+import { incident, budgetSummary } from './fixtures.js';
+
+function makeState(): GuardianState {
+  const state = emptyState();
+  state.daemonRunning = true;
+  state.claudeProcesses = [
+    { pid: 101, name: 'claude', cpuPercent: 12.5, memoryMB: 512, uptimeSeconds: 60, handleCount: 340 },
+    { pid: 202, name: 'claude', cpuPercent: 0, memoryMB: 256, uptimeSeconds: 30 },
+  ];
+  state.diskFreeGB = 2;
+  state.claudeLogSizeMB = 10;
+  state.hangRisk.level = 'warn';
+  state.compositeQuietSeconds = 95;
+  state.budgetSummary = budgetSummary({ currentCap: 2, slotsInUse: 1, slotsAvailable: 1, activeLeases: 1, capSetByRisk: 'warn' });
+  state.activeIncident = incident({ startedAt: new Date().toISOString(), reason: 'quiet' });
+  return state;
+}
+
+describe('metrics-exporter', () => {
+  describe('formatOpenMetrics', () => {
+    it('renders per-PID gauges labelled by pid', () => {
+      const text = formatOpenMetrics({ state: makeState(), counters: emptyCounters() });
+      expect(text).toContain('claude_guardian_process_cpu_percent{pid="101",name="claude"} 12.5');
+      expect(text).toContain(`claude_guardian_process_memory_bytes{pid="202",name="claude"} ${256 * 1024 * 1024}`);
+      expect(text).toContain('claude_guardian_process_handles{pid="101",name="claude"} 340');
+      // PID without a handle count gets no handles sample
+      expect(text).not.toContain('claude_guardian_process_handles{pid="202"');
+    });
+
+    it('renders tree totals only for processes with a tree', () => {
+      const state = makeState();
+      state.claudeProcesses[0].tree = {
+        descendantCount: 3, treeCpuPercent: 140, treeMemoryMB: 1024, treeHandleCount: 400, topDescendants: [], descendantPids: [],
+      };
+      const text = formatOpenMetrics({ state, counters: emptyCounters() });
+      expect(text).toContain('claude_guardian_process_descendants{pid="101",name="claude"} 3');
+      expect(text).toContain('claude_guardian_process_tree_cpu_percent{pid="101",name="claude"} 140');
+      expect(text).not.toContain('claude_guardian_process_tree_cpu_percent{pid="202"');
+    });
+
+    it('renders state gauges in base units', () => {
+      const text = formatOpenMetrics({ state: makeState(), counters: emptyCounters() });
+      expect(text).toContain(`claude_guardian_disk_free_bytes ${2 * 1024 ** 3}`);
+      expect(text).toContain(`claude_guardian_claude_log_size_bytes ${10 * 1024 ** 2}`);
+      expect(text).toContain('claude_guardian_hang_risk_level 1');
+      expect(text).toContain('claude_guardian_composite_quiet_seconds 95');
+      expect(text).toContain('claude_guardian_budget_cap_slots 2');
+      expect(text).toContain('claude_guardian_budget_slots_in_use 1');
+      expect(text).toContain('claude_guardian_incident_active 1');
+    });
+
+    it('renders counters with _total samples', () => {
+      const counters = { polls: 42, incidents: 3, bundles: 1, leaseExpirations: 5 };
+      const text = formatOpenMetrics({ state: makeState(), counters });
+      expect(text).toContain('# TYPE claude_guardian_polls counter');
+      expect(text).toContain('claude_guardian_polls_total 42');
+      expect(text).toContain('claude_guardian_incidents_total 3');
+      expect(text).toContain('claude_guardian_bundles_total 1');
+      expect(text).toContain('claude_guardian_lease_expirations_total 5');
+    });
+
+    it('declares TYPE and HELP for every family and ends with # EOF', () => {
+      const text = formatOpenMetrics({ state: makeState(), counters: emptyCounters() });
+      const types = text.split('\n').filter(l => l.startsWith('# TYPE ')).length;
+      const helps = text.split('\n').filter(l => l.startsWith('# HELP ')).length;
+      expect(types).toBe(helps);
+      expect(text.endsWith('# EOF\n')).toBe(true);
+    });
+
+    it('omits state gauges before the first poll', () => {
+      const text = formatOpenMetrics({ state: null, counters: emptyCounters() });
+      expect(text).toContain('claude_guardian_daemon_up 0');
+      expect(text).not.toContain('claude_guardian_hang_risk_level');
+      expect(text).toContain('claude_guardian_polls_total 0');
+    });
+
+    it('escapes label values', () => {
+      const state = makeState();
+      state.claudeProcesses[0].name = 'cl"aude';
+      const text = formatOpenMetrics({ state, counters: emptyCounters() });
+      expect(text).toContain('name="cl\\"aude"');
+    });
+  });
+
+  describe('startMetricsExporter', () => {
+    let exporter: MetricsExporter | null = null;
+
+    afterEach(async () => {
+      await exporter?.close();
+      exporter = null;
+    });
+
+    it('serves /metrics with the OpenMetrics content type', async () => {
+      const counters = emptyCounters();
+      counters.polls = 7;
+      exporter = await startMetricsExporter({ host: '127.0.0.1', port: 0 }, () => ({ state: makeState(), counters }));
+
+      const res = await fetch(exporter.url);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toBe(OPENMETRICS_CONTENT_TYPE);
+      expect(await res.text()).toContain('claude_guardian_polls_total 7');
+    });
+
+    it('returns 404 for other paths and 405 for other methods', async () => {
+      exporter = await startMetricsExporter({ host: '127.0.0.1', port: 0 }, () => ({ state: null, counters: emptyCounters() }));
+      const root = exporter.url.replace(/\/metrics$/, '/');
+
+      expect((await fetch(root)).status).toBe(404);
+      expect((await fetch(exporter.url, { method: 'POST' })).status).toBe(405);
+    });
+
+    it('rejects with EXPORTER_FAILED when the port is taken', async () => {
+      const blocker = createServer();
+      await new Promise<void>(resolve => blocker.listen(0, '127.0.0.1', () => resolve()));
+      const port = (blocker.address() as AddressInfo).port;
+      try {
+        const err = await startMetricsExporter({ host: '127.0.0.1', port }, () => ({ state: null, counters: emptyCounters() }))
+          .catch(e => e);
+        expect(err).toBeInstanceOf(GuardianError);
+        expect(err.code).toBe('EXPORTER_FAILED');
+      } finally {
+        await new Promise<void>(resolve => blocker.close(() => resolve()));
+      }
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  MetricsStore, parseDuration, resolveTimeRange, formatMetricsReport,
+  METRICS_TIERS, type MetricsSample,
+} from '../src/metrics-store.js';
+import { GuardianError } from '../src/errors.js';
+
+let tempDir: string;
+let store: MetricsStore;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'guardian-metrics-'));
+  store = new MetricsStore(tempDir);
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+function sample(t: number, overrides: Partial<MetricsSample> = {}): MetricsSample {
+  return {
+    t,
+    cpuPercent: 10,
+    memoryMB: 1000,
+    handleCount: 200,
+    diskFreeGB: 50,
+    claudeLogSizeMB: 100,
+    processCount: 1,
+    risk: 'ok',
+    ...overrides,
+  };
+}
+
+describe('MetricsStore', () => {
+  const base = Date.UTC(2026, 2, 1, 12, 0, 0);
+
+  it('returns empty series when nothing was recorded', async () => {
+    const result = await store.query({ from: base - 60_000, to: base }, base);
+    expect(result.series).toHaveLength(7);
+    expect(result.series.every(s => s.summary === null)).toBe(true);
+  });
+
+  it('records and reads back raw 2s samples', async () => {
+    for (let i = 0; i < 5; i++) {
+      await store.record(sample(base + i * 2000, { memoryMB: 1000 + i * 100 }));
+    }
+    const result = await store.query({ from: base, to: base + 10_000, metrics: ['memory'] }, base + 10_000);
+    expect(result.resolution).toBe('2s');
+    const mem = result.series[0];
+    expect(mem.points).toHaveLength(5);
+    expect(mem.points[0].avg).toBe(1000);
+    expect(mem.points[4].avg).toBe(1400);
+    expect(mem.summary).toEqual({ avg: 1200, min: 1000, max: 1400, samples: 5 });
+  });
+
+  it('rolls samples up into 1m buckets', async () => {
+    for (let i = 0; i < 30; i++) {
+      await store.record(sample(base + i * 2000, { cpuPercent: i }));
+    }
+    const result = await store.query({ from: base, to: base + 60_000, metrics: ['cpu'], resolution: '1m' }, base + 60_000);
+    const cpu = result.series[0];
+    expect(cpu.points).toHaveLength(1);
+    expect(cpu.points[0]).toMatchObject({ min: 0, max: 29, samples: 30, avg: 14.5 });
+  });
+
+  it('auto-selects a coarser tier for old ranges', async () => {
+    const now = base;
+    const result = await store.query({ from: now - 6 * 3_600_000, to: now }, now);
+    expect(result.resolution).toBe('1m');
+    const older = await store.query({ from: now - 3 * 86_400_000, to: now }, now);
+    expect(older.resolution).toBe('1h');
+  });
+
+  it('skips null handle counts and unknown disk', async () => {
+    await store.record(sample(base, { handleCount: null, diskFreeGB: -1 }));
+    await store.record(sample(base + 2000, { handleCount: 300 }));
+    const result = await store.query({ from: base, to: base + 4000, metrics: ['handles', 'disk'] }, base + 4000);
+    expect(result.series[0].summary!.samples).toBe(1);
+    expect(result.series[1].summary!.samples).toBe(1);
+  });
+
+  it('encodes risk levels numerically', async () => {
+    await store.record(sample(base, { risk: 'critical' }));
+    const result = await store.query({ from: base, to: base + 2000, metrics: ['risk'] }, base + 2000);
+    expect(result.series[0].summary!.max).toBe(2);
+  });
+
+  it('overwrites slots after the ring wraps', async () => {
+    const lap = METRICS_TIERS[0].bucketMs * METRICS_TIERS[0].capacity;
+    await store.record(sample(base, { cpuPercent: 1 }));
+    await store.record(sample(base + lap, { cpuPercent: 99 }));
+    const old = await store.query({ from: base, to: base + 2000, metrics: ['cpu'], resolution: '2s' }, base + lap);
+    expect(old.series[0].summary).toBeNull();
+    const fresh = await store.query({ from: base + lap, to: base + lap + 2000, metrics: ['cpu'], resolution: '2s' }, base + lap);
+    expect(fresh.series[0].summary!.avg).toBe(99);
+  });
+
+  it('keeps tier files at a fixed size', async () => {
+    await store.record(sample(base));
+    await store.record(sample(base + 3_600_000 * 5));
+    const s = await stat(join(tempDir, 'metrics-2s.bin'));
+    const s2 = await stat(join(tempDir, 'metrics-1h.bin'));
+    expect(s.size).toBeGreaterThan(0);
+    expect(s2.size).toBeLessThan(s.size);
+  });
+
+  it('merges points down to maxPoints', async () => {
+    for (let i = 0; i < 20; i++) {
+      await store.record(sample(base + i * 2000, { cpuPercent: i }));
+    }
+    const result = await store.query({ from: base, to: base + 40_000, metrics: ['cpu'], maxPoints: 5 }, base + 40_000);
+    expect(result.series[0].points).toHaveLength(5);
+    expect(result.series[0].points.reduce((s, p) => s + p.samples, 0)).toBe(20);
+  });
+
+  it('rejects an inverted range', async () => {
+    await expect(store.query({ from: base, to: base - 1 })).rejects.toBeInstanceOf(GuardianError);
+  });
+});
+
+describe('time range parsing', () => {
+  it('parses durations', () => {
+    expect(parseDuration('90s')).toBe(90_000);
+    expect(parseDuration('10m')).toBe(600_000);
+    expect(parseDuration('2h')).toBe(7_200_000);
+    expect(parseDuration('7d')).toBe(604_800_000);
+    expect(parseDuration('soon')).toBeNull();
+  });
+
+  it('resolves durations and ISO timestamps', () => {
+    const now = Date.UTC(2026, 2, 1, 12, 0, 0);
+    expect(resolveTimeRange('10m', undefined, now)).toEqual({ from: now - 600_000, to: now });
+    const range = resolveTimeRange('2026-03-01T11:00:00Z', '5m', now);
+    expect(range.from).toBe(Date.UTC(2026, 2, 1, 11, 0, 0));
+    expect(range.to).toBe(now - 300_000);
+  });
+
+  it('throws METRICS_FAILED on garbage', () => {
+    expect(() => resolveTimeRange('yesterday-ish')).toThrow(GuardianError);
+  });
+});
+
+describe('formatMetricsReport', () => {
+  it('explains how to get data when empty', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'guardian-metrics-empty-'));
+    try {
+      const result = await new MetricsStore(dir).query({ from: Date.now() - 60_000, to: Date.now() });
+      expect(formatMetricsReport(result)).toContain('claude-guardian watch');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
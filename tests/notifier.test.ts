@@ -0,0 +1,194 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  Notifier, postWebhook, startWebhookStub, testEvent,
+  attentionChangedEvent, incidentOpenedEvent, incidentClosedEvent, budgetCapChangedEvent,
+  type WebhookStub, type NotificationPayload,
+} from '../src/notifier.js';
+import { NOTIFICATION_CONFIG } from '../src/defaults.js';
+import { GuardianError } from '../src/errors.js';
+import type { Attention } from '../src/state.js';
+import type { NotificationConfig } from '../src/types.js';
+import { incident } from './fixtures.js';
+
+function attention(level: Attention['level']): Attention {
+  return { level, since: new Date().toISOString(), reason: `level ${level}`, recommendedActions: [], incidentId: null };
+}
+
+function payload(): NotificationPayload {
+  return { ...testEvent(), source: 'claude-guardian', timestamp: new Date().toISOString(), hostname: 'h', suppressed: 0 };
+}
+
+const fast: Pick<NotificationConfig, 'retries' | 'retryBackoffMs' | 'timeoutMs'> = { retries: 2, retryBackoffMs: 1, timeoutMs: 2000 };
+
+describe('notifier', () => {
+  describe('events', () => {
+    it('fires attention events only on level transitions', () => {
+      expect(attentionChangedEvent(attention('warn'), attention('warn'))).toBeNull();
+      expect(attentionChangedEvent(undefined, attention('none'))).toBeNull();
+
+      const event = attentionChangedEvent(attention('none'), attention('critical'))!;
+      expect(event.type).toBe('attention');
+      expect(event.severity).toBe('critical');
+      expect(event.data).toMatchObject({ from: 'none', to: 'critical' });
+    });
+
+    it('describes incident open and close', () => {
+      expect(incidentOpenedEvent(incident()).severity).toBe('warn');
+      const closed = incidentClosedEvent(incident({ closedAt: '2026-01-01T00:05:00.000Z' }));
+      expect(closed.type).toBe('incident-close');
+      expect(closed.data.durationSeconds).toBe(300);
+    });
+
+    it('rates a reduced cap by risk and a restored cap as info', () => {
+      expect(budgetCapChangedEvent(4, 1, 4, 'critical').severity).toBe('critical');
+      expect(budgetCapChangedEvent(1, 4, 4, 'ok').severity).toBe('info');
+    });
+
+    it('names the resource behind a reduced cap', () => {
+      const event = budgetCapChangedEvent(4, 2, 4, 'ok', 'default', 'memory 93% in use');
+      expect(event.message).toBe('Concurrency cap reduced to 2/4 (memory 93% in use)');
+      expect(event.data.capReason).toBe('memory 93% in use');
+    });
+  });
+
+  describe('postWebhook', () => {
+    let stub: WebhookStub | null = null;
+
+    afterEach(async () => {
+      await stub?.close();
+      stub = null;
+    });
+
+    it('retries 5xx responses with backoff', async () => {
+      stub = await startWebhookStub({ host: '127.0.0.1', port: 0, failFirst: 2 });
+      const attempts = await postWebhook(stub.url, payload(), fast);
+      expect(attempts).toBe(3);
+      expect(stub.received).toHaveLength(1);
+      expect(stub.received[0].source).toBe('claude-guardian');
+    });
+
+    it('throws NOTIFY_FAILED after the last retry', async () => {
+      stub = await startWebhookStub({ host: '127.0.0.1', port: 0, failFirst: 10 });
+      const err = await postWebhook(stub.url, payload(), fast).catch(e => e);
+      expect(err).toBeInstanceOf(GuardianError);
+      expect(err.code).toBe('NOTIFY_FAILED');
+      expect(err.message).toContain('HTTP 503');
+    });
+
+    it('does not retry other 4xx responses', async () => {
+      let hits = 0;
+      const server = createServer((_req, res) => { hits++; res.writeHead(404); res.end(); });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+      try {
+        await expect(postWebhook(url, payload(), fast)).rejects.toMatchObject({ code: 'NOTIFY_FAILED' });
+        expect(hits).toBe(1);
+      } finally {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+      }
+    });
+  });
+
+  describe('Notifier', () => {
+    let stub: WebhookStub | null = null;
+
+    afterEach(async () => {
+      await stub?.close();
+      stub = null;
+    });
+
+    it('skips when no sink is configured', async () => {
+      const result = await new Notifier(NOTIFICATION_CONFIG).notify(testEvent());
+      expect(result).toEqual({ sent: false, skipped: 'no-sinks', sinks: [] });
+    });
+
+    it('rate limits per event type and reports the suppressed count', async () => {
+      stub = await startWebhookStub({ host: '127.0.0.1', port: 0 });
+      const notifier = new Notifier({ ...NOTIFICATION_CONFIG, ...fast, webhookUrl: stub.url, minIntervalSeconds: 60 });
+      const t0 = Date.now();
+
+      expect((await notifier.notify(incidentOpenedEvent(incident()), t0)).sent).toBe(true);
+      expect((await notifier.notify(incidentOpenedEvent(incident()), t0 + 1000)).skipped).toBe('rate-limited');
+      // A different event type has its own window
+      expect((await notifier.notify(incidentClosedEvent(incident()), t0 + 1000)).sent).toBe(true);
+      expect((await notifier.notify(incidentOpenedEvent(incident()), t0 + 61_000)).sent).toBe(true);
+
+      expect(stub.received.map(p => p.type)).toEqual(['incident-open', 'incident-close', 'incident-open']);
+      expect(stub.received[2].suppressed).toBe(1);
+    });
+
+    it('limits budget cap changes per pool, so pools changing in one poll are all sent', async () => {
+      stub = await startWebhookStub({ host: '127.0.0.1', port: 0 });
+      const notifier = new Notifier({ ...NOTIFICATION_CONFIG, ...fast, webhookUrl: stub.url });
+      const t0 = Date.now();
+
+      expect((await notifier.notify(budgetCapChangedEvent(4, 2, 4, 'warn'), t0)).sent).toBe(true);
+      expect((await notifier.notify(budgetCapChangedEvent(2, 1, 2, 'warn', 'tests'), t0)).sent).toBe(true);
+      expect((await notifier.notify(budgetCapChangedEvent(2, 4, 4, 'ok', 'tests'), t0 + 1000)).skipped).toBe('rate-limited');
+      expect(stub.received.map(p => p.data.pool)).toEqual(['default', 'tests']);
+    });
+
+    it('lets an escalation through the rate limit', async () => {
+      stub = await startWebhookStub({ host: '127.0.0.1', port: 0 });
+      const notifier = new Notifier({ ...NOTIFICATION_CONFIG, ...fast, webhookUrl: stub.url });
+      const t0 = Date.now();
+
+      expect((await notifier.notify(attentionChangedEvent(undefined, attention('warn'))!, t0)).sent).toBe(true);
+      expect((await notifier.notify(attentionChangedEvent(attention('warn'), attention('critical'))!, t0 + 1000)).sent).toBe(true);
+      // Back down (or the same level again) waits for the window
+      expect((await notifier.notify(attentionChangedEvent(attention('critical'), attention('warn'))!, t0 + 2000)).skipped).toBe('rate-limited');
+      expect(stub.received.map(p => p.data.to)).toEqual(['warn', 'critical']);
+    });
+
+    it('sends a new incident opening within the window of the previous one', async () => {
+      stub = await startWebhookStub({ host: '127.0.0.1', port: 0 });
+      const notifier = new Notifier({ ...NOTIFICATION_CONFIG, ...fast, webhookUrl: stub.url });
+      const t0 = Date.now();
+
+      expect((await notifier.notify(incidentOpenedEvent(incident()), t0)).sent).toBe(true);
+      expect((await notifier.notify(incidentOpenedEvent(incident({ id: 'inc-2' })), t0 + 1000)).sent).toBe(true);
+      expect(stub.received.map(p => p.data.incidentId)).toEqual(['inc-1', 'inc-2']);
+    });
+
+    it('drops event types that are not enabled', async () => {
+      stub = await startWebhookStub({ host: '127.0.0.1', port: 0 });
+      const notifier = new Notifier({ ...NOTIFICATION_CONFIG, webhookUrl: stub.url, events: ['bundle'] });
+      expect((await notifier.notify(incidentOpenedEvent(incident()))).skipped).toBe('filtered');
+      // Test events always go through
+      expect((await notifier.notify(testEvent())).sent).toBe(true);
+    });
+
+    it('reports a failing sink without throwing', async () => {
+      const notifier = new Notifier({ ...NOTIFICATION_CONFIG, ...fast, retries: 0, webhookUrl: 'http://127.0.0.1:1/' });
+      const result = await notifier.notify(testEvent());
+      expect(result.sent).toBe(true);
+      expect(result.sinks[0]).toMatchObject({ sink: 'webhook', ok: false });
+    });
+
+    it.skipIf(process.platform === 'win32')('pipes the payload to the command sink', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'guardian-notify-'));
+      try {
+        const out = join(dir, 'out.json');
+        const notifier = new Notifier({
+          ...NOTIFICATION_CONFIG,
+          command: `cat > "${out}" && test "$CLAUDE_GUARDIAN_EVENT" = test`,
+        });
+        const result = await notifier.notify(testEvent());
+        expect(result.sinks).toEqual([{ sink: 'command', ok: true }]);
+        expect(JSON.parse(await readFile(out, 'utf-8')).type).toBe('test');
+
+        const failing = new Notifier({ ...NOTIFICATION_CONFIG, command: 'echo nope >&2; exit 3' });
+        const failed = await failing.notify(testEvent());
+        expect(failed.sinks[0].ok).toBe(false);
+        expect(failed.sinks[0].error).toContain('exit code 3: nope');
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -18,7 +18,7 @@ describe('guardian_nudge', () => {
     const tools = await client.listTools();
     const names = tools.tools.map(t => t.name);
     expect(names).toContain('guardian_nudge');
-    expect(tools.tools.length).toBe(10);
+    expect(tools.tools.length).toBe(14);
     await server.close();
   });
 
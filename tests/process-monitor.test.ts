@@ -6,8 +6,9 @@ import {
   recommendActions,
   type ClaudeProcess,
   type ActivitySignals,
-  type HangRisk,
 } from '../src/process-monitor.js';
+import { THRESHOLDS } from '../src/defaults.js';
+import { hangRisk } from './fixtures.js';
 
 describe('process-monitor', () => {
   describe('findClaudeProcesses', () => {
@@ -56,6 +57,16 @@ describe('process-monitor', () => {
       expect(signals.cpuActive).toBe(false);
       expect(signals.sources).not.toContain('cpu');
     });
+
+    it('counts a busy descendant as CPU activity', async () => {
+      const processes: ClaudeProcess[] = [{
+        pid: 1, name: 'claude', cpuPercent: 1, memoryMB: 500, uptimeSeconds: 100,
+        tree: { descendantCount: 1, treeCpuPercent: 61, treeMemoryMB: 900, treeHandleCount: null, topDescendants: [], descendantPids: [] },
+      }];
+      const signals = await checkActivitySignals(processes);
+      expect(signals.cpuActive).toBe(true);
+      expect(signals.sources).toContain('child-cpu');
+    });
   });
 
   describe('assessHangRisk', () => {
@@ -158,47 +169,118 @@ describe('process-monitor', () => {
       });
       expect(risk.cpuLowSeconds).toBe(400);
     });
+
+    it('uses configured thresholds instead of built-in limits', () => {
+      const risk = assessHangRisk(
+        [{ pid: 1, name: 'claude', cpuPercent: 85, memoryMB: 2500, uptimeSeconds: 3600 }],
+        { logLastModifiedSecondsAgo: 5, cpuActive: true, sources: ['log-mtime', 'cpu'] },
+        8,
+        300,
+        120,
+        0,
+        { ...THRESHOLDS, cpuHotPercent: 80, memoryHighMB: 2048, diskFreeWarningGB: 10 },
+      );
+      expect(risk.cpuHot).toBe(true);
+      expect(risk.memoryHigh).toBe(true);
+      expect(risk.diskLow).toBe(true);
+      expect(risk.reasons.some(r => r.includes('< 10GB'))).toBe(true);
+    });
+
+    it('warns when open FDs near the soft RLIMIT_NOFILE', () => {
+      const near = healthy({ procs: [{ pid: 7, name: 'claude', cpuPercent: 20, memoryMB: 500, uptimeSeconds: 3600, handleCount: 900, handleLimit: 1024 }] });
+      expect(near.handlesHigh).toBe(true);
+      expect(near.level).toBe('warn');
+      expect(near.reasons).toContain('Handles high: PID 7 at 900/1024 FDs (88% of RLIMIT_NOFILE)');
+
+      const far = healthy({ procs: [{ pid: 7, name: 'claude', cpuPercent: 20, memoryMB: 500, uptimeSeconds: 3600, handleCount: 500, handleLimit: 1024 }] });
+      expect(far.handlesHigh).toBe(false);
+      expect(far.level).toBe('ok');
+      // No limit known — nothing to compare against
+      const unknown = healthy({ procs: [{ pid: 7, name: 'claude', cpuPercent: 20, memoryMB: 500, uptimeSeconds: 3600, handleCount: 5000, handleLimit: null }] });
+      expect(unknown.handlesHigh).toBe(false);
+    });
+
+    it('sets handlesHigh for a steady handle leak without raising the level', () => {
+      const leak = {
+        pid: 1, sampleCount: 30, spanSeconds: 1800, rss: null,
+        handles: { perHour: 1200, r2: 0.99, current: 800, threshold: 1024, projectedSeconds: 672, suspected: true },
+        leakSuspected: true, projectedSecondsToThreshold: 672, reason: 'handles +1200/h, 800 now, reaches 1024 in ~11m',
+      };
+      const risk = assessHangRisk(
+        [{ pid: 1, name: 'claude', cpuPercent: 20, memoryMB: 500, uptimeSeconds: 3600 }],
+        { logLastModifiedSecondsAgo: 5, cpuActive: true, sources: ['log-mtime', 'cpu'] },
+        100, 300, 120, 0, THRESHOLDS, undefined, leak,
+      );
+      expect(risk.level).toBe('ok');
+      expect(risk.handlesHigh).toBe(true);
+      expect(risk.leakSuspected).toBe(true);
+      expect(risk.leakEtaSeconds).toBe(672);
+    });
+  });
+
+  describe('assessHangRisk with process trees', () => {
+    const activity: ActivitySignals = { logLastModifiedSecondsAgo: 5, cpuActive: true, sources: ['log-mtime', 'cpu'] };
+    const runaway: ClaudeProcess = {
+      pid: 1, name: 'claude', cpuPercent: 3, memoryMB: 400, uptimeSeconds: 3600,
+      tree: {
+        descendantCount: 3, treeCpuPercent: 180, treeMemoryMB: 6000, treeHandleCount: 500,
+        topDescendants: [
+          { pid: 42, ppid: 1, rootPid: 1, name: 'node', cpuPercent: 170, memoryMB: 900, handleCount: 300 },
+          { pid: 43, ppid: 1, rootPid: 1, name: 'tsserver', cpuPercent: 5, memoryMB: 4600, handleCount: 100 },
+        ],
+        descendantPids: [42, 43, 44],
+      },
+    };
+
+    it('uses tree totals for CPU hot and memory high', () => {
+      const risk = assessHangRisk([runaway], activity, 100, 300, 120, 0);
+      expect(risk.cpuHot).toBe(true);
+      expect(risk.memoryHigh).toBe(true);
+      expect(risk.level).toBe('warn');
+    });
+
+    it('names the offending descendant in reasons', () => {
+      const risk = assessHangRisk([runaway], activity, 100, 300, 120, 0);
+      expect(risk.reasons.some(r => r.includes('PID 1 tree at 180%') && r.includes('node PID 42'))).toBe(true);
+      expect(risk.reasons.some(r => r.includes('tsserver PID 43 at 4600MB'))).toBe(true);
+    });
+
+    it('falls back to own numbers without a tree', () => {
+      const risk = assessHangRisk([{ ...runaway, tree: null }], activity, 100, 300, 120, 0);
+      expect(risk.cpuHot).toBe(false);
+      expect(risk.memoryHigh).toBe(false);
+    });
   });
 
   describe('recommendActions', () => {
     it('returns empty for ok risk', () => {
-      const risk: HangRisk = {
-        level: 'ok', noActivitySeconds: 0, cpuLowSeconds: 0,
-        cpuHot: false, memoryHigh: false, diskLow: false,
-        graceRemainingSeconds: 0, reasons: [],
-      };
+      const risk = hangRisk();
       expect(recommendActions(risk)).toHaveLength(0);
     });
 
     it('recommends preflight_fix for low disk', () => {
-      const risk: HangRisk = {
-        level: 'warn', noActivitySeconds: 0, cpuLowSeconds: 0,
-        cpuHot: false, memoryHigh: false, diskLow: true,
-        graceRemainingSeconds: 0, reasons: ['Disk low'],
-      };
+      const risk = hangRisk({ level: 'warn', diskLow: true, reasons: ['Disk low'] });
       const actions = recommendActions(risk);
       expect(actions).toContain('preflight_fix');
     });
 
     it('recommends doctor + restart for critical', () => {
-      const risk: HangRisk = {
-        level: 'critical', noActivitySeconds: 950, cpuLowSeconds: 950,
-        cpuHot: false, memoryHigh: false, diskLow: false,
-        graceRemainingSeconds: 0, reasons: ['No activity for 950s'],
-      };
+      const risk = hangRisk({ level: 'critical', noActivitySeconds: 950, cpuLowSeconds: 950, reasons: ['No activity for 950s'] });
       const actions = recommendActions(risk);
       expect(actions).toContain('doctor');
       expect(actions).toContain('restart_prompt');
     });
 
     it('recommends reduce_concurrency for CPU/memory warn', () => {
-      const risk: HangRisk = {
-        level: 'warn', noActivitySeconds: 0, cpuLowSeconds: 0,
-        cpuHot: true, memoryHigh: true, diskLow: false,
-        graceRemainingSeconds: 0, reasons: ['CPU hot', 'Memory high'],
-      };
+      const risk = hangRisk({ level: 'warn', cpuHot: true, memoryHigh: true, reasons: ['CPU hot', 'Memory high'] });
       const actions = recommendActions(risk);
       expect(actions).toContain('reduce_concurrency');
     });
+
+    it('recommends a restart at a safe point for a suspected leak', () => {
+      const risk = hangRisk({ leakSuspected: true, leakEtaSeconds: 3000, reasons: ['Leak suspected: RSS +300MB/h'] });
+      expect(recommendActions(risk)).toEqual(['restart_at_safe_point']);
+      expect(recommendActions({ ...risk, level: 'critical' })).not.toContain('restart_at_safe_point');
+    });
   });
 });
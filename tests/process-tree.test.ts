@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { spawn } from 'child_process';
+import {
+  parseProcStat, findDescendants, attachProcessTrees, topDescendants,
+} from '../src/process-tree.js';
+import type { ClaudeProcess } from '../src/process-monitor.js';
+
+describe('process-tree', () => {
+  describe('parseProcStat', () => {
+    it('parses pid, ppid and name', () => {
+      const stat = parseProcStat('1234 (node) S 1000 1234 1000 0 -1 4194304 ...');
+      expect(stat).toEqual({ pid: 1234, ppid: 1000, name: 'node' });
+    });
+
+    it('handles names containing spaces and parentheses', () => {
+      const stat = parseProcStat('77 (Web Content (x)) R 5 77 5 0');
+      expect(stat).toEqual({ pid: 77, ppid: 5, name: 'Web Content (x)' });
+    });
+
+    it('returns null for garbage', () => {
+      expect(parseProcStat('not a stat line')).toBeNull();
+    });
+  });
+
+  describe('findDescendants', () => {
+    // 1 ─┬─ 2 ── 4
+    //    └─ 3
+    // 5 (unrelated), 6 is a nested Claude under 2 with child 7
+    const parents = new Map([[2, 1], [3, 1], [4, 2], [5, 0], [6, 2], [7, 6]]);
+
+    it('walks the whole subtree', () => {
+      expect(findDescendants(parents, 1).sort()).toEqual([2, 3, 4, 6, 7]);
+    });
+
+    it('stops at nested Claude processes', () => {
+      expect(findDescendants(parents, 1, new Set([6])).sort()).toEqual([2, 3, 4]);
+    });
+
+    it('returns empty for a leaf', () => {
+      expect(findDescendants(parents, 4)).toEqual([]);
+    });
+
+    it('survives parent cycles', () => {
+      const cyclic = new Map([[2, 1], [1, 2]]);
+      expect(findDescendants(cyclic, 1)).toEqual([2]);
+    });
+  });
+
+  describe('topDescendants', () => {
+    it('merges trees and ranks by load', () => {
+      const procs: ClaudeProcess[] = [
+        {
+          pid: 1, name: 'claude', cpuPercent: 0, memoryMB: 100, uptimeSeconds: 1,
+          tree: {
+            descendantCount: 1, treeCpuPercent: 5, treeMemoryMB: 150, treeHandleCount: null,
+            topDescendants: [{ pid: 10, ppid: 1, rootPid: 1, name: 'a', cpuPercent: 5, memoryMB: 50, handleCount: null }],
+            descendantPids: [10],
+          },
+        },
+        {
+          pid: 2, name: 'claude', cpuPercent: 0, memoryMB: 100, uptimeSeconds: 1,
+          tree: {
+            descendantCount: 1, treeCpuPercent: 90, treeMemoryMB: 900, treeHandleCount: null,
+            topDescendants: [{ pid: 20, ppid: 2, rootPid: 2, name: 'b', cpuPercent: 90, memoryMB: 800, handleCount: null }],
+            descendantPids: [20],
+          },
+        },
+        { pid: 3, name: 'claude', cpuPercent: 0, memoryMB: 100, uptimeSeconds: 1, tree: null },
+      ];
+      expect(topDescendants(procs).map(d => d.pid)).toEqual([20, 10]);
+      expect(topDescendants(procs, 1)).toHaveLength(1);
+    });
+  });
+
+  describe.runIf(process.platform === 'linux')('attachProcessTrees (live)', () => {
+    it('finds a spawned child and includes it in tree totals', async () => {
+      const child = spawn('sleep', ['30'], { stdio: 'ignore' });
+      try {
+        await new Promise(resolve => setTimeout(resolve, 100));
+        const self: ClaudeProcess = {
+          pid: process.pid, name: 'node', cpuPercent: 0, memoryMB: 10, uptimeSeconds: 1,
+        };
+        await attachProcessTrees([self]);
+
+        expect(self.tree).toBeTruthy();
+        expect(self.tree!.descendantCount).toBeGreaterThanOrEqual(1);
+        expect(self.tree!.topDescendants.some(d => d.pid === child.pid && d.rootPid === process.pid)).toBe(true);
+        expect(self.tree!.treeMemoryMB).toBeGreaterThan(10);
+      } finally {
+        child.kill();
+      }
+    });
+  });
+});
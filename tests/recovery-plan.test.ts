@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { generateRecoveryPlan, formatRecoveryPlan } from '../src/recovery-plan.js';
 import { emptyState, computeAttention } from '../src/state.js';
+import { hangRisk } from './fixtures.js';
 
 describe('generateRecoveryPlan', () => {
   function makeState(overrides: Record<string, unknown> = {}) {
@@ -131,6 +132,25 @@ describe('generateRecoveryPlan', () => {
     const cpuStep = plan.steps.find(s => s.detail.includes('CPU'));
     expect(cpuStep).toBeDefined();
   });
+
+  it('includes a safe-point restart step when a leak is suspected', () => {
+    const leaking = {
+      pid: 321, projectDir: null, transcriptPath: null, sessionId: null,
+      activity: { logLastModifiedSecondsAgo: 5, cpuActive: true, sources: ['cpu'], lastEnumerationError: null },
+      hangRisk: emptyState().hangRisk,
+      processAgeSeconds: 1800, compositeQuietSeconds: 0,
+      leak: { pid: 321, sampleCount: 30, spanSeconds: 1800, rss: null, handles: null, leakSuspected: true, projectedSecondsToThreshold: 5400, reason: 'RSS +300MB/h' },
+    };
+    const state = makeState({
+      hangRisk: { ...emptyState().hangRisk, leakSuspected: true, leakEtaSeconds: 5400, reasons: ['PID 321: Leak suspected'] },
+      sessions: [leaking],
+    });
+    const plan = generateRecoveryPlan(state);
+    expect(plan.status).toBe('healthy');
+    expect(plan.summary).toContain('Leak suspected');
+    const step = plan.steps.find(s => s.action === 'Restart at a safe point')!;
+    expect(step.detail).toMatch(/^PID 321 is leaking/);
+  });
 });
 
 describe('formatRecoveryPlan', () => {
@@ -148,11 +168,7 @@ describe('formatRecoveryPlan', () => {
     const state = emptyState();
     state.diskFreeGB = 50;
     state.claudeLogSizeMB = 100;
-    state.hangRisk = {
-      level: 'critical', noActivitySeconds: 900, cpuLowSeconds: 900,
-      cpuHot: false, memoryHigh: false, diskLow: false,
-      graceRemainingSeconds: 0, reasons: ['No activity'],
-    };
+    state.hangRisk = hangRisk({ level: 'critical', noActivitySeconds: 900, cpuLowSeconds: 900, reasons: ['No activity'] });
     state.attention = computeAttention(state.hangRisk, state.budgetSummary, state.activeIncident);
     const plan = generateRecoveryPlan(state);
     const text = formatRecoveryPlan(plan);
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm, readdir, utimes } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { globToRegExp, matchRetentionPolicy, projectOriginalPath, resolveRetention } from '../src/retention.js';
+import { planStaleSessions, planFixes, applyFixPlan } from '../src/fix-plan.js';
+import { scanLogs, formatPreflightReport } from '../src/log-manager.js';
+import { validateConfig, checkConfigConsistency, mergeConfig, loadConfig, PROJECT_CONFIG_FILENAME } from '../src/config.js';
+import { DEFAULT_CONFIG, THRESHOLDS, TRASH_CONFIG } from '../src/defaults.js';
+import type { GuardianConfig } from '../src/types.js';
+
+const DAY = 86400000;
+const uuid = (n: number) => `${String(n).repeat(8)}-1111-2222-3333-444444444444`;
+
+let home: string;
+let projects: string;
+const savedHome = process.env.HOME;
+
+/** A session transcript `daysOld` days old, recording `cwd` like Claude does. */
+async function session(project: string, n: number, daysOld: number, cwd = '/home/user/app', bytes = 100): Promise<string> {
+  const path = join(projects, project, `${uuid(n)}.jsonl`);
+  await mkdir(join(projects, project), { recursive: true });
+  await writeFile(path, JSON.stringify({ type: 'user', cwd, pad: 'x'.repeat(bytes) }) + '\n');
+  const t = new Date(Date.now() - daysOld * DAY);
+  await utimes(path, t, t);
+  return path;
+}
+
+function withRetention(retention: GuardianConfig['retention'], extra: Partial<GuardianConfig> = {}): GuardianConfig {
+  return {
+    ...DEFAULT_CONFIG,
+    thresholds: { ...THRESHOLDS, diskFreeWarningGB: 0 },
+    trash: { ...TRASH_CONFIG, enabled: false },
+    retention,
+    ...extra,
+  };
+}
+
+beforeEach(async () => {
+  home = await mkdtemp(join(tmpdir(), 'guardian-retention-'));
+  process.env.HOME = home;
+  projects = join(home, '.claude', 'projects');
+  await mkdir(projects, { recursive: true });
+});
+
+afterEach(async () => {
+  process.env.HOME = savedHome;
+  await rm(home, { recursive: true, force: true });
+});
+
+describe('retention policy matching', () => {
+  it('compiles globs with segment-aware * and **', () => {
+    expect(globToRegExp('/work/*').test('/work/a')).toBe(true);
+    expect(globToRegExp('/work/*').test('/work/a/b')).toBe(false);
+    expect(globToRegExp('/work/**').test('/work')).toBe(true);
+    expect(globToRegExp('/work/**').test('/work/a/b')).toBe(true);
+    expect(globToRegExp('/work/**/notes').test('/work/notes')).toBe(true);
+    expect(globToRegExp('/work/**/notes').test('/work/a/b/notes')).toBe(true);
+    expect(globToRegExp('/tmp/scratch-?').test('/tmp/scratch-1')).toBe(true);
+    expect(globToRegExp('/a.b').test('/axb')).toBe(false);
+    expect(globToRegExp('~/inv/**').test(join(home, 'inv', 'x'))).toBe(true);
+  });
+
+  it('prefers an exact dir name, then the first matching key in config order', () => {
+    const policies = {
+      '/home/user/**': { maxAgeDays: 30 },
+      '-tmp-*': { maxSessions: 1 },
+      '-home-user-app': { keepForever: true },
+    };
+    expect(matchRetentionPolicy(policies, '-home-user-app', '/home/user/app').key).toBe('-home-user-app');
+    expect(matchRetentionPolicy(policies, '-home-user-other', '/home/user/other').key).toBe('/home/user/**');
+    expect(matchRetentionPolicy(policies, '-tmp-x', '/tmp/x').key).toBe('-tmp-*');
+    expect(matchRetentionPolicy(policies, '-srv', '/srv')).toEqual({ key: null, policy: {} });
+  });
+
+  it('matches path globs against the cwd recorded in the newest transcript', async () => {
+    await session('-home-user-my-app', 1, 5, '/home/user/old-location');
+    await session('-home-user-my-app', 2, 1, '/home/user/my-app');
+    const dir = join(projects, '-home-user-my-app');
+    expect(await projectOriginalPath(dir)).toBe('/home/user/my-app');
+    expect((await resolveRetention(dir, withRetention({ '/home/user/my-app': { maxSessions: 3 } }))).key).toBe('/home/user/my-app');
+
+    // No transcripts: the dir name decoded naively
+    await mkdir(join(projects, '-srv-data'));
+    expect(await projectOriginalPath(join(projects, '-srv-data'))).toBe('/srv/data');
+  });
+});
+
+describe('retention in planning and scanning', () => {
+  it('plans stale sessions by policy: keep-forever, pinned, maxAgeDays, maxSessions', async () => {
+    for (let n = 1; n <= 5; n++) await session('-home-user-app', n, n * 2);
+    const dir = join(projects, '-home-user-app');
+    const names = async (config: GuardianConfig, aggressive = false) =>
+      (await planStaleSessions(dir, aggressive, config)).map(i => i.path.split('/').pop()).sort();
+
+    // Global: staleSessionDays 3 → sessions 2..5 (4d-10d old)
+    expect(await names(withRetention({}))).toHaveLength(4);
+    expect(await names(withRetention({ '-home-user-app': { keepForever: true } }))).toEqual([]);
+
+    // maxAgeDays 7 replaces staleSessionDays and is not halved when aggressive
+    const aged = withRetention({ '-home-user-app': { maxAgeDays: 7, pinned: [uuid(5).slice(0, 8)] } });
+    expect(await names(aged, true)).toEqual([`${uuid(4)}.jsonl`]);
+
+    // Keep the newest 2; pinned sessions are kept on top and not counted
+    const capped = withRetention({ '-home-user-app': { maxAgeDays: 365, maxSessions: 2, pinned: [uuid(3)] } });
+    const items = await planStaleSessions(dir, false, capped);
+    expect(items.map(i => i.path.split('/').pop()).sort()).toEqual([`${uuid(4)}.jsonl`, `${uuid(5)}.jsonl`]);
+    expect(items[0].reason).toBe('beyond the newest 2 sessions (policy -home-user-app)');
+  });
+
+  it('never trims or archives a keep-forever project and rejects plans that would', async () => {
+    const big = await session('-home-user-inv', 1, 0, '/home/user/investigations/leak', 2_000_000);
+    const config = withRetention({}, { maxProjectLogDirMB: 1, thresholds: { ...THRESHOLDS, maxFileMB: 1, diskFreeWarningGB: 0 } });
+    const plan = await planFixes(config);
+    expect(plan.items.map(i => i.op)).toEqual(['trim']);
+
+    const kept = { ...config, retention: { '/home/user/investigations/**': { keepForever: true } } };
+    expect((await planFixes(kept)).items).toEqual([]);
+    await expect(applyFixPlan(plan, kept)).rejects.toMatchObject({ code: 'FIX_PLAN_INVALID' });
+    expect(await applyFixPlan(await planFixes(kept), kept)).toEqual([]);
+    expect(await readdir(join(projects, '-home-user-inv'))).toEqual([big.split('/').pop()]);
+  });
+
+  it('reports the policy of each project dir and checks it against the policy limits', async () => {
+    await session('-home-user-app', 1, 10, '/home/user/app', 30_000);
+    await session('-home-user-inv', 2, 10, '/home/user/inv');
+    const config = withRetention({
+      '-home-user-app': { maxSizeMB: 0.01, maxAgeDays: 5 },
+      '/home/user/inv': { keepForever: true },
+    });
+
+    const result = await scanLogs(config);
+    expect(result.entries.map(e => e.retention)).toEqual([
+      { policy: '-home-user-app', summary: 'max 5d, max 0.01MB' },
+      { policy: '/home/user/inv', summary: 'keep-forever' },
+    ]);
+    expect(result.actions.map(a => a.detail)).toEqual([
+      'Project log dir is 0.03MB (limit: 0.01MB, policy -home-user-app)',
+      '1 stale session(s) (0.03MB) older than 5d (policy -home-user-app). Run with --fix to clean.',
+    ]);
+    const report = formatPreflightReport(result);
+    expect(report).toContain('-home-user-inv: 0MB  [retention /home/user/inv: keep-forever]');
+  });
+});
+
+describe('retention config', () => {
+  it('validates policies, merges them per key and rejects keepForever with limits', () => {
+    expect(validateConfig({ retention: { '~/work/**': { maxSessions: 20, pinned: ['aaaaaaaa'] } } }).valid).toBe(true);
+    expect(validateConfig({ retention: { x: { pinned: ['abc'] } } }).errors[0]).toContain('retention.x.pinned.0');
+    expect(validateConfig({ retention: { x: { maxSessions: 0 } } }).valid).toBe(false);
+
+    const merged = mergeConfig(
+      mergeConfig(DEFAULT_CONFIG, { retention: { a: { maxAgeDays: 1 }, b: { maxSessions: 2 } } }),
+      { retention: { a: { keepForever: true } } },
+    );
+    expect(merged.retention).toEqual({ a: { keepForever: true }, b: { maxSessions: 2 } });
+    expect(checkConfigConsistency(merged)).toEqual([]);
+    expect(checkConfigConsistency({ ...merged, retention: { a: { keepForever: true, maxSizeMB: 5 } } }))
+      .toEqual(['retention.a.keepForever cannot be combined with maxSizeMB']);
+  });
+});
+
+describe('project config overrides', () => {
+  it('cannot change how other projects are fixed', async () => {
+    await session('-home-user-app', 1, 1, '/home/user/app', 50_000);
+    await session('-home-user-other', 2, 5, '/home/user/other', 50_000);
+    const repo = join(home, 'repo');
+    await mkdir(repo);
+    const global = withRetention({});
+    const before = await planFixes(global);
+    expect(before.items.map(i => i.op)).toEqual(['delete']);
+
+    await writeFile(join(repo, PROJECT_CONFIG_FILENAME), JSON.stringify({ thresholds: { maxFileMB: 0.001 }, maxProjectLogDirMB: 0.001 }));
+    await expect(loadConfig(repo)).rejects.toMatchObject({ code: 'CONFIG_INVALID', message: expect.stringContaining('"maxProjectLogDirMB"') });
+    await writeFile(join(repo, PROJECT_CONFIG_FILENAME), JSON.stringify({ thresholds: { staleSessionDays: 1 } }));
+    await expect(loadConfig(repo)).rejects.toMatchObject({ code: 'CONFIG_INVALID', message: expect.stringContaining('"thresholds.staleSessionDays"') });
+
+    // Keys that do not drive fixes still apply
+    await writeFile(join(repo, PROJECT_CONFIG_FILENAME), JSON.stringify({ thresholds: { cpuHotPercent: 50 } }));
+    const loaded = await loadConfig(repo);
+    expect(loaded.thresholds?.cpuHotPercent).toBe(50);
+    const after = await planFixes({ ...loaded, thresholds: { ...loaded.thresholds!, diskFreeWarningGB: 0 }, trash: global.trash });
+    expect(after.items).toEqual(before.items);
+  });
+});
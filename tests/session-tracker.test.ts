@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SessionTracker, encodeProjectDirName, sessionLabel, stuckSessions, combineSessionRisks, formatSessionLine,
+  type SessionRisk,
+} from '../src/session-tracker.js';
+import { formatBanner } from '../src/mcp-server.js';
+import { emptyState } from '../src/state.js';
+import { ACTIVITY_CONFIG, LEAK_CONFIG, THRESHOLDS } from '../src/defaults.js';
+import type { ClaudeProcess, HangRisk, RiskLevel } from '../src/process-monitor.js';
+import { hangRisk } from './fixtures.js';
+
+// PIDs far above pid_max so cwd lookups fail and no real process is touched
+const BUSY = 2_000_000_001;
+const IDLE = 2_000_000_002;
+const LATE = 2_000_000_003;
+
+function proc(pid: number, cpuPercent: number): ClaudeProcess {
+  return { pid, name: 'claude', cpuPercent, memoryMB: 100, uptimeSeconds: 10 };
+}
+
+function risk(level: RiskLevel, reasons: string[] = []): HangRisk {
+  return hangRisk({ level, reasons });
+}
+
+function session(pid: number, level: RiskLevel, reasons: string[] = []): SessionRisk {
+  return {
+    pid, projectDir: null, transcriptPath: null, sessionId: null,
+    activity: { logLastModifiedSecondsAgo: -1, cpuActive: false, sources: [], lastEnumerationError: null },
+    hangRisk: risk(level, reasons),
+    processAgeSeconds: 0,
+    compositeQuietSeconds: 0,
+    leak: null,
+  };
+}
+
+describe('session-tracker', () => {
+  it('encodes project dirs the way Claude Code does', () => {
+    expect(encodeProjectDirName('/home/me/my_app.v2')).toBe('-home-me-my-app-v2');
+    expect(encodeProjectDirName('C:\\Users\\me\\app')).toBe('C--Users-me-app');
+  });
+
+  it('labels sessions by PID and short session id', () => {
+    expect(sessionLabel({ pid: 42, sessionId: null })).toBe('PID 42');
+    expect(sessionLabel({ pid: 42, sessionId: '1a2b3c4d-5e6f-7890' })).toBe('PID 42 (session 1a2b3c4d)');
+  });
+
+  it('lists stuck sessions worst first', () => {
+    const stuck = stuckSessions([session(1, 'warn'), session(2, 'ok'), session(3, 'critical')]);
+    expect(stuck.map(s => s.pid)).toEqual([3, 1]);
+  });
+
+  it('combines to the worst level and prefixes session reasons', () => {
+    const combined = combineSessionRisks(risk('ok'), [session(1, 'ok'), session(2, 'critical', ['No activity for 500s'])]);
+    expect(combined.level).toBe('critical');
+    expect(combined.reasons).toEqual(['PID 2: No activity for 500s']);
+  });
+
+  it('keeps machine-wide risk when every session is fine', () => {
+    const machine = { ...risk('warn', ['Disk free: 1GB']), diskLow: true };
+    const combined = combineSessionRisks(machine, [session(1, 'ok')]);
+    expect(combined.level).toBe('warn');
+    expect(combined.diskLow).toBe(true);
+    expect(combined.reasons).toEqual(['Disk free: 1GB']);
+  });
+
+  describe('SessionTracker', () => {
+    const activity = { ...ACTIVITY_CONFIG, sources: ['cpu' as const] };
+    const t0 = 1_700_000_000_000;
+
+    it('flags the quiet session while a busy one stays ok', async () => {
+      const tracker = new SessionTracker(100, THRESHOLDS, activity);
+      await tracker.update([proc(BUSY, 50), proc(IDLE, 0)], 100, null, t0);
+      const update = await tracker.update([proc(BUSY, 50), proc(IDLE, 0)], 100, null, t0 + 200_000);
+
+      const byPid = new Map(update.sessions.map(s => [s.pid, s]));
+      expect(byPid.get(BUSY)!.hangRisk.level).toBe('ok');
+      expect(byPid.get(IDLE)!.hangRisk.level).toBe('warn');
+      expect(byPid.get(IDLE)!.compositeQuietSeconds).toBe(200);
+      expect(update.hangRisk.level).toBe('warn');
+      expect(update.hangRisk.reasons[0]).toMatch(new RegExp(`^PID ${IDLE}: No activity for 200s`));
+      expect(update.compositeQuietSeconds).toBe(200);
+    });
+
+    it('gives a new session its own grace window without resetting others', async () => {
+      const tracker = new SessionTracker(100, THRESHOLDS, activity);
+      await tracker.update([proc(IDLE, 0)], 100, null, t0);
+      const update = await tracker.update([proc(IDLE, 0), proc(LATE, 0)], 100, null, t0 + 200_000);
+
+      const byPid = new Map(update.sessions.map(s => [s.pid, s]));
+      expect(byPid.get(LATE)!.hangRisk.graceRemainingSeconds).toBe(THRESHOLDS.graceWindowSeconds);
+      expect(byPid.get(LATE)!.hangRisk.level).toBe('ok');
+      expect(byPid.get(IDLE)!.hangRisk.level).toBe('warn');
+    });
+
+    it('forgets exited PIDs', async () => {
+      const tracker = new SessionTracker(100, THRESHOLDS, activity);
+      await tracker.update([proc(IDLE, 0)], 100, null, t0);
+      await tracker.update([], 100, null, t0 + 200_000);
+      const update = await tracker.update([proc(IDLE, 0)], 100, null, t0 + 400_000);
+      expect(update.sessions[0].processAgeSeconds).toBe(0);
+      expect(update.hangRisk.level).toBe('ok');
+    });
+
+    it('reports disk once at machine level, not per session', async () => {
+      const tracker = new SessionTracker(100, THRESHOLDS, activity);
+      const update = await tracker.update([proc(BUSY, 50), proc(IDLE, 0)], 1, null, t0);
+      expect(update.hangRisk.diskLow).toBe(true);
+      expect(update.hangRisk.reasons.filter(r => r.includes('Disk free'))).toHaveLength(1);
+      expect(update.sessions.every(s => !s.hangRisk.diskLow)).toBe(true);
+    });
+
+    it('flags a session whose RSS grows steadily, without raising its level', async () => {
+      const tracker = new SessionTracker(100_000, THRESHOLDS, activity);
+      let update;
+      // +40MB per minute for 20 minutes: 3000MB → 3800MB, 4096MB is ~7 minutes away
+      for (let m = 0; m <= 20; m++) {
+        const leaking = { ...proc(BUSY, 50), memoryMB: 3000 + 40 * m };
+        update = await tracker.update([leaking, proc(LATE, 50)], 100, null, t0 + m * 60_000);
+      }
+      const byPid = new Map(update!.sessions.map(s => [s.pid, s]));
+      expect(byPid.get(BUSY)!.leak!.leakSuspected).toBe(true);
+      expect(byPid.get(LATE)!.leak!.leakSuspected).toBe(false);
+      expect(update!.hangRisk.level).toBe('ok');
+      expect(update!.hangRisk.leakSuspected).toBe(true);
+      expect(update!.hangRisk.leakEtaSeconds).toBe(444);
+      expect(update!.hangRisk.reasons).toEqual([
+        `PID ${BUSY}: Leak suspected: RSS +2400MB/h, 3800MB now, reaches 4096MB in ~7m — restart at a safe point`,
+      ]);
+      expect(formatSessionLine(byPid.get(BUSY)!)).toContain('| leak: threshold in ~7m');
+    });
+
+    it('skips leak trends when leak detection is off', async () => {
+      const tracker = new SessionTracker(100, THRESHOLDS, activity, { ...LEAK_CONFIG, enabled: false });
+      const update = await tracker.update([proc(BUSY, 50)], 100, null, t0);
+      expect(update.sessions[0].leak).toBeNull();
+    });
+  });
+
+  it('formats a session status line', () => {
+    const s = session(7, 'warn');
+    s.compositeQuietSeconds = 300;
+    s.activity.sources = ['cpu'];
+    expect(formatSessionLine(s)).toBe('PID 7: WARN | quiet 300s | sources: cpu');
+  });
+
+  it('names stuck sessions in the banner', () => {
+    const state = emptyState();
+    state.sessions = [session(11, 'ok'), session(12, 'warn')];
+    expect(formatBanner(state)).toContain('stuck=12');
+    state.sessions = [session(11, 'ok')];
+    expect(formatBanner(state)).not.toContain('stuck=');
+  });
+
+  it('names leaking sessions in the banner', () => {
+    const state = emptyState();
+    const leaking = session(13, 'ok');
+    leaking.leak = {
+      pid: 13, sampleCount: 30, spanSeconds: 1800, rss: null, handles: null,
+      leakSuspected: true, projectedSecondsToThreshold: 600, reason: 'RSS +300MB/h',
+    };
+    state.sessions = [session(11, 'ok'), leaking];
+    expect(formatBanner(state)).toContain('leak=13');
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { writeState, readState, isStateFresh, emptyState, computeAttention, type GuardianState, type Attention } from '../src/state.js';
+import { hangRisk, incident, budgetSummary } from './fixtures.js';
 
 describe('state', () => {
   describe('emptyState', () => {
@@ -44,38 +45,12 @@ describe('state', () => {
           cpuActive: true,
           sources: ['log-mtime', 'cpu'],
         },
-        hangRisk: {
-          level: 'warn',
-          noActivitySeconds: 400,
-          cpuLowSeconds: 0,
-          cpuHot: false,
-          memoryHigh: false,
-          diskLow: false,
-          graceRemainingSeconds: 0,
-          reasons: ['No activity for 400s'],
-        },
+        hangRisk: hangRisk({ level: 'warn', noActivitySeconds: 400, reasons: ['No activity for 400s'] }),
         recommendedActions: ['doctor'],
-        activeIncident: {
-          id: 'abc12345',
-          startedAt: '2026-01-01T00:00:00.000Z',
-          closedAt: null,
-          reason: 'No activity for 400s',
-          peakLevel: 'warn',
-          bundleCaptured: false,
-          bundlePath: null,
-        },
+        activeIncident: incident({ id: 'abc12345' }),
         processAgeSeconds: 120,
         compositeQuietSeconds: 400,
-        budgetSummary: {
-          currentCap: 2,
-          baseCap: 4,
-          slotsInUse: 1,
-          slotsAvailable: 1,
-          activeLeases: 1,
-          capSetByRisk: 'warn',
-          okSinceAt: null,
-          hysteresisRemainingSeconds: 0,
-        },
+        budgetSummary: budgetSummary({ currentCap: 2, slotsInUse: 1, slotsAvailable: 1, activeLeases: 1, capSetByRisk: 'warn' }),
         attention: {
           level: 'warn',
           since: '2026-01-01T00:00:00.000Z',
@@ -116,23 +91,10 @@ describe('state', () => {
   });
 
   describe('computeAttention', () => {
-    const okRisk = {
-      level: 'ok' as const, noActivitySeconds: 0, cpuLowSeconds: 0,
-      cpuHot: false, memoryHigh: false, diskLow: false,
-      graceRemainingSeconds: 0, reasons: [],
-    };
-    const warnRisk = {
-      ...okRisk, level: 'warn' as const, noActivitySeconds: 350,
-      reasons: ['No activity for 350s'],
-    };
-    const criticalRisk = {
-      ...okRisk, level: 'critical' as const, noActivitySeconds: 900,
-      reasons: ['No activity for 900s'],
-    };
-    const diskLowRisk = {
-      ...okRisk, level: 'warn' as const, diskLow: true,
-      reasons: ['Disk free: 3GB'],
-    };
+    const okRisk = hangRisk();
+    const warnRisk = hangRisk({ level: 'warn', noActivitySeconds: 350, reasons: ['No activity for 350s'] });
+    const criticalRisk = hangRisk({ level: 'critical', noActivitySeconds: 900, reasons: ['No activity for 900s'] });
+    const diskLowRisk = hangRisk({ level: 'warn', diskLow: true, reasons: ['Disk free: 3GB'] });
 
     it('returns none when everything is ok', () => {
       const attn = computeAttention(okRisk, null, null);
@@ -162,24 +124,27 @@ describe('state', () => {
       expect(attn.reason).toContain('Disk space is low');
     });
 
+    it('returns info for a suspected leak, warn when its threshold is under an hour away', () => {
+      const leak = { ...okRisk, leakSuspected: true, leakEtaSeconds: 4 * 3600 };
+      const attn = computeAttention(leak, null, null);
+      expect(attn.level).toBe('info');
+      expect(attn.reason).toBe('Leak suspected');
+      expect(attn.recommendedActions[0]).toMatch(/^Restart Claude Code at a safe point/);
+
+      expect(computeAttention({ ...leak, leakEtaSeconds: 600 }, null, null).level).toBe('warn');
+      expect(computeAttention({ ...criticalRisk, leakSuspected: true, leakEtaSeconds: 600 }, null, null).level).toBe('critical');
+    });
+
     it('returns info when budget cap is reduced', () => {
-      const budget = {
-        currentCap: 2, baseCap: 4, slotsInUse: 0, slotsAvailable: 2,
-        activeLeases: 0, capSetByRisk: 'warn' as const,
-        okSinceAt: null, hysteresisRemainingSeconds: 30,
-      };
+      const budget = budgetSummary({ currentCap: 2, slotsAvailable: 2, capSetByRisk: 'warn', hysteresisRemainingSeconds: 30 });
       const attn = computeAttention(okRisk, budget, null);
       expect(attn.level).toBe('info');
       expect(attn.reason).toContain('Budget cap reduced');
     });
 
     it('returns info with incidentId when incident is active and risk is ok', () => {
-      const incident = {
-        id: 'test123', startedAt: new Date().toISOString(), closedAt: null,
-        reason: 'test', peakLevel: 'warn' as const,
-        bundleCaptured: false, bundlePath: null,
-      };
-      const attn = computeAttention(okRisk, null, incident);
+      const active = incident({ id: 'test123', startedAt: new Date().toISOString(), reason: 'test' });
+      const attn = computeAttention(okRisk, null, active);
       expect(attn.level).toBe('info');
       expect(attn.incidentId).toBe('test123');
     });
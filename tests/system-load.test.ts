@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseLoadavg, parseMeminfo, parseVmstatSwap, metricPressure, computeResourcePressure,
+  ResourceMonitor, readSystemLoad, countCores, type SystemLoadSample,
+} from '../src/system-load.js';
+import { RESOURCE_CAP_CONFIG } from '../src/defaults.js';
+
+const sample = (overrides: Partial<SystemLoadSample> = {}): SystemLoadSample => ({
+  t: 0,
+  cores: 8,
+  load1: 4,
+  memTotalMB: 16000,
+  memAvailableMB: 8000,
+  swapPages: 1000,
+  claudeRssMB: 1600,
+  ...overrides,
+});
+
+describe('system-load', () => {
+  describe('parsers', () => {
+    it('reads the 1-minute load average', () => {
+      expect(parseLoadavg('0.52 0.58 0.59 1/467 12345\n')).toBe(0.52);
+      expect(parseLoadavg('')).toBeNull();
+    });
+
+    it('reads MemTotal and MemAvailable in MB', () => {
+      const content = 'MemTotal:       16384000 kB\nMemFree:         1024000 kB\nMemAvailable:    8192000 kB\n';
+      expect(parseMeminfo(content)).toEqual({ memTotalMB: 16000, memAvailableMB: 8000 });
+      expect(parseMeminfo('MemTotal: 1 kB\n')).toBeNull();
+    });
+
+    it('sums pages swapped in and out', () => {
+      expect(parseVmstatSwap('pgpgin 5\npswpin 120\npswpout 30\n')).toBe(150);
+      expect(parseVmstatSwap('pgpgin 5\n')).toBeNull();
+    });
+  });
+
+  describe('metricPressure', () => {
+    it('ramps linearly between low and high', () => {
+      const policy = { formula: 'linear' as const, low: 0.8, high: 1 };
+      expect(metricPressure(0.5, policy)).toBe(0);
+      expect(metricPressure(0.9, policy)).toBeCloseTo(0.5);
+      expect(metricPressure(1.2, policy)).toBe(1);
+    });
+
+    it('is all-or-nothing for step, and zero for off or unknown values', () => {
+      expect(metricPressure(0.9, { formula: 'step', low: 0.8, high: 1 })).toBe(0);
+      expect(metricPressure(1, { formula: 'step', low: 0.8, high: 1 })).toBe(1);
+      expect(metricPressure(5, { formula: 'off', low: 0, high: 1 })).toBe(0);
+      expect(metricPressure(null, { formula: 'linear', low: 0, high: 1 })).toBe(0);
+    });
+  });
+
+  describe('computeResourcePressure', () => {
+    it('takes the worst metric and names it', () => {
+      const result = computeResourcePressure(
+        { cores: 8, loadPerCore: 1.1, memoryUsed: 0.95, swapPagesPerSecond: 0, claudeRss: 0.1 },
+        RESOURCE_CAP_CONFIG,
+      );
+      expect(result.pressure).toBe(1);
+      expect(result.reason).toBe('memory 95% in use');
+    });
+
+    it('reports no reason without pressure', () => {
+      const result = computeResourcePressure(
+        { cores: 64, loadPerCore: 0.2, memoryUsed: 0.3, swapPagesPerSecond: null, claudeRss: 0.1 },
+        RESOURCE_CAP_CONFIG,
+      );
+      expect(result).toMatchObject({ pressure: 0, reason: null });
+    });
+  });
+
+  describe('ResourceMonitor', () => {
+    it('normalizes load per core and derives the swap rate from consecutive samples', () => {
+      const monitor = new ResourceMonitor({ ...RESOURCE_CAP_CONFIG, smoothingSeconds: 0 });
+      const first = monitor.update(sample());
+      expect(first).toMatchObject({ loadPerCore: 0.5, memoryUsed: 0.5, swapPagesPerSecond: null, claudeRss: 0.1 });
+      const second = monitor.update(sample({ t: 2000, swapPages: 1600 }));
+      expect(second.swapPagesPerSecond).toBe(300);
+    });
+
+    it('smooths metrics with a time constant', () => {
+      const monitor = new ResourceMonitor({ ...RESOURCE_CAP_CONFIG, smoothingSeconds: 30 });
+      monitor.update(sample({ load1: 0 }));
+      const spike = monitor.update(sample({ t: 2000, load1: 16 }));
+      // One 2s sample of load 2/core moves the 30s average only ~6% of the way
+      expect(spike.loadPerCore).toBeGreaterThan(0.1);
+      expect(spike.loadPerCore).toBeLessThan(0.2);
+
+      let sustained = spike;
+      for (let t = 4000; t <= 180_000; t += 2000) sustained = monitor.update(sample({ t, load1: 16 }));
+      expect(sustained.loadPerCore).toBeCloseTo(2, 1);
+    });
+  });
+
+  it('samples the running machine', async () => {
+    const s = await readSystemLoad(100);
+    expect(s.cores).toBeGreaterThan(0);
+    expect(s.memTotalMB).toBeGreaterThan(0);
+    expect(s.memAvailableMB).toBeLessThanOrEqual(s.memTotalMB);
+    expect(s.claudeRssMB).toBe(100);
+  });
+
+  it('counts cores on runtimes without availableParallelism', () => {
+    const cpus = () => new Array(6).fill(null);
+    expect(countCores({ cpus })).toBe(6);
+    expect(countCores({ cpus, availableParallelism: () => 4 })).toBe(4);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, readFile, rm, readdir, utimes } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { moveToTrash, listTrash, findTrashItems, restoreFromTrash, purgeTrash, formatTrashList } from '../src/trash.js';
+import { planFixes, applyFixPlan, validateFixPlan } from '../src/fix-plan.js';
+import { DEFAULT_CONFIG, THRESHOLDS, TRASH_CONFIG, getTrashPath } from '../src/defaults.js';
+import { readJournal } from '../src/fs-utils.js';
+import type { GuardianConfig } from '../src/types.js';
+
+const STALE = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+const DAY = 86400000;
+
+let home: string;
+let project: string;
+const savedHome = process.env.HOME;
+
+beforeEach(async () => {
+  home = await mkdtemp(join(tmpdir(), 'guardian-trash-'));
+  process.env.HOME = home;
+  project = join(home, '.claude', 'projects', '-home-user-app');
+  await mkdir(project, { recursive: true });
+});
+
+afterEach(async () => {
+  process.env.HOME = savedHome;
+  await rm(home, { recursive: true, force: true });
+});
+
+describe('trash', () => {
+  it('moves a file into the trash with its original path and restores it', async () => {
+    const file = join(project, `${STALE}.jsonl`);
+    await writeFile(file, '{"n":1}\n');
+    const old = new Date(Date.now() - 10 * DAY);
+    await utimes(file, old, old);
+
+    const item = await moveToTrash(file, 'stale session');
+    expect(item).toMatchObject({ originalPath: file, kind: 'file', sizeBytes: 8, reason: 'stale session' });
+    expect(item.id).toMatch(/^\d{8}-\d{6}-[0-9a-f]{6}$/);
+    expect(await readdir(project)).toEqual([]);
+    expect(await listTrash()).toEqual([item]);
+
+    const restored = await restoreFromTrash(item.id.slice(0, 18));
+    expect(restored.id).toBe(item.id);
+    expect(await readFile(file, 'utf-8')).toBe('{"n":1}\n');
+    expect(await listTrash()).toEqual([]);
+    expect((await readJournal()).at(-1)).toMatchObject({ action: 'trash-restored', target: file, trashId: item.id });
+  });
+
+  it('restores a session dir, recreating its parent', async () => {
+    const dir = join(project, STALE);
+    await mkdir(dir);
+    await writeFile(join(dir, 'tool-output.json'), 'x'.repeat(100));
+    const item = await moveToTrash(dir, 'stale session');
+    expect(item).toMatchObject({ kind: 'dir', sizeBytes: 100 });
+
+    await rm(project, { recursive: true });
+    await restoreFromTrash(item.id);
+    expect(await readFile(join(dir, 'tool-output.json'), 'utf-8')).toHaveLength(100);
+  });
+
+  it('refuses unknown IDs and will not restore over an existing path', async () => {
+    const file = join(project, `${STALE}.jsonl`);
+    await writeFile(file, 'old');
+    const item = await moveToTrash(file, '');
+    await writeFile(file, 'new');
+
+    await expect(restoreFromTrash('nope')).rejects.toMatchObject({ code: 'TRASH_ITEM_UNKNOWN' });
+    await expect(restoreFromTrash(item.id)).rejects.toMatchObject({ code: 'TRASH_RESTORE_CONFLICT' });
+    expect(await readFile(file, 'utf-8')).toBe('new');
+    expect(await listTrash()).toHaveLength(1);
+  });
+
+  it('finds items by exact ID or unique prefix', () => {
+    const base = { originalPath: '/x', kind: 'file' as const, sizeBytes: 0, mtimeMs: 0, trashedAt: '', reason: '' };
+    const items = [{ ...base, id: '20261019-100000-aaaaaa' }, { ...base, id: '20261019-100000-aabbbb' }];
+    expect(findTrashItems(items, '20261019-100000-aa')).toHaveLength(2);
+    expect(findTrashItems(items, '20261019-100000-aab')).toEqual([items[1]]);
+    expect(findTrashItems(items, '2027')).toEqual([]);
+  });
+
+  it('purges items past maxAgeDays, then the oldest above maxSizeMB', async () => {
+    const now = Date.now();
+    const trashAt = async (name: string, bytes: number, daysAgo: number) => {
+      const path = join(project, name);
+      await writeFile(path, 'x'.repeat(bytes));
+      return moveToTrash(path, '', new Date(now - daysAgo * DAY));
+    };
+    const expired = await trashAt('a.jsonl', 10, 40);
+    const oldest = await trashAt('b.jsonl', 600_000, 20);
+    const middle = await trashAt('c.jsonl', 600_000, 10);
+    const newest = await trashAt('d.jsonl', 100, 1);
+
+    // 1MB cap: newest + middle fit, oldest does not
+    const result = await purgeTrash({ enabled: true, maxAgeDays: 30, maxSizeMB: 1, minRestoreHours: 24 }, { now });
+    expect(result.purged.map(i => i.id).sort()).toEqual([expired.id, oldest.id].sort());
+    expect(result.freedBytes).toBe(600_010);
+    expect((await listTrash()).map(i => i.id)).toEqual([newest.id, middle.id]);
+    const purgedEntries = (await readJournal()).filter(e => e.action === 'trash-purged');
+    expect(purgedEntries.map(e => e.trashId).sort()).toEqual([expired.id, oldest.id].sort());
+
+    await purgeTrash(TRASH_CONFIG, { all: true });
+    expect(await listTrash()).toEqual([]);
+    expect(await readdir(getTrashPath())).toEqual([]);
+  });
+
+  it('keeps items trashed within minRestoreHours even above maxSizeMB', async () => {
+    const now = Date.now();
+    const file = join(project, `${STALE}.jsonl`);
+    await writeFile(file, 'x'.repeat(2_000_000));
+    const fresh = await moveToTrash(file, '', new Date(now - 2 * 3600_000));
+
+    const policy = { enabled: true, maxAgeDays: 30, maxSizeMB: 1, minRestoreHours: 24 };
+    expect((await purgeTrash(policy, { now })).purged).toEqual([]);
+    expect((await purgeTrash(policy, { now: now + 24 * 3600_000 })).purged.map(i => i.id)).toEqual([fresh.id]);
+  });
+
+  it('fix plans list trash purges, and applying purges only what the plan lists', async () => {
+    const now = Date.now();
+    const trashAt = async (name: string, daysAgo: number) => {
+      const path = join(project, name);
+      await writeFile(path, 'x');
+      return moveToTrash(path, '', new Date(now - daysAgo * DAY));
+    };
+    const expired = await trashAt('a.jsonl', 40);
+    const config: GuardianConfig = { ...DEFAULT_CONFIG, thresholds: { ...THRESHOLDS, diskFreeWarningGB: 0 } };
+
+    const plan = await planFixes(config);
+    expect(plan.items).toMatchObject([{ op: 'purge', path: join(getTrashPath(), expired.id), kind: 'dir' }]);
+    expect(plan.items[0].reason).toContain('trashed 40d ago (limit 30d)');
+
+    // An item that became purgeable after planning is not touched by that plan
+    const later = await trashAt('b.jsonl', 45);
+    const actions = await applyFixPlan(plan, config);
+    expect(actions).toMatchObject([{ type: 'purged', trashId: expired.id }]);
+    expect((await listTrash()).map(i => i.id)).toEqual([later.id]);
+    expect((await readJournal()).filter(e => e.action === 'trash-purged').map(e => e.trashId)).toEqual([expired.id]);
+
+    const forged = { ...plan, items: [{ ...plan.items[0], path: project }] };
+    expect(validateFixPlan(forged)).toEqual([`${project}: only trash items can be purged`]);
+  });
+
+  it('preflight fixes move stale sessions to the trash and journal the trash ID', async () => {
+    const file = join(project, `${STALE}.jsonl`);
+    await writeFile(file, 'old\n');
+    await utimes(file, new Date(Date.now() - 10 * DAY), new Date(Date.now() - 10 * DAY));
+    const config: GuardianConfig = { ...DEFAULT_CONFIG, thresholds: { ...THRESHOLDS, diskFreeWarningGB: 0 } };
+
+    const actions = await applyFixPlan(await planFixes(config), config);
+    expect(actions).toHaveLength(1);
+    expect(actions[0].detail).toContain('Moved stale session transcript');
+    const [item] = await listTrash();
+    expect(item.originalPath).toBe(file);
+    expect(actions[0].trashId).toBe(item.id);
+    expect((await readJournal()).find(e => e.action === 'cleaned')?.trashId).toBe(item.id);
+    expect(formatTrashList([item])).toContain(file);
+
+    // With the trash disabled, deletes are permanent
+    await restoreFromTrash(item.id);
+    const noTrash = { ...config, trash: { ...TRASH_CONFIG, enabled: false } };
+    const [removed] = await applyFixPlan(await planFixes(noTrash), noTrash);
+    expect(removed.detail).toContain('Removed stale session transcript');
+    expect(removed.trashId).toBeUndefined();
+    expect(await listTrash()).toEqual([]);
+  });
+});